@@ -0,0 +1,203 @@
+// Simulation benchmark harness. Run with `npm run bench`.
+//
+// Compares the binary-heap event queue against the previous linear-scan
+// queue, times full simulation runs with and without per-event logging, and
+// reports emergency time to OR under the OR queue disciplines.
+
+import { format } from "node:util";
+import { PriorityQueue } from "@/lib/priorityQueue";
+import { createRandomStream } from "@/lib/random";
+import {
+	QueueDiscipline,
+	SimulationParams,
+	defaultSimulationParams,
+	runSimulation,
+} from "@/lib/simulation";
+
+// --- Reference Implementation ---
+
+// The queue used before the heap: linear-scan insert with splice, shift() dequeue
+class LinearPriorityQueue<T> {
+	private items: { element: T; priority: number }[] = [];
+	enqueue(element: T, priority: number): void {
+		const index = this.items.findIndex((item) => item.priority > priority);
+		if (index === -1) this.items.push({ element, priority });
+		else this.items.splice(index, 0, { element, priority });
+	}
+	dequeue(): T | undefined {
+		return this.items.shift()?.element;
+	}
+	get length(): number {
+		return this.items.length;
+	}
+}
+
+// --- Timing ---
+
+interface BenchmarkResult {
+	name: string;
+	runs: number;
+	meanMs: number;
+	minMs: number;
+}
+
+function benchmark(
+	name: string,
+	runs: number,
+	fn: () => void
+): BenchmarkResult {
+	fn(); // Warm-up run for the JIT
+	const times: number[] = [];
+	for (let i = 0; i < runs; i++) {
+		const start = performance.now();
+		fn();
+		times.push(performance.now() - start);
+	}
+	return {
+		name,
+		runs,
+		meanMs: times.reduce((sum, t) => sum + t, 0) / runs,
+		minMs: Math.min(...times),
+	};
+}
+
+function printResults(title: string, results: BenchmarkResult[]): void {
+	console.log(`\n${title}`);
+	console.table(
+		results.map((r) => ({
+			benchmark: r.name,
+			runs: r.runs,
+			"mean (ms)": r.meanMs.toFixed(1),
+			"min (ms)": r.minMs.toFixed(1),
+		}))
+	);
+}
+
+// --- Event Queue ---
+
+// Simulation-like workload: a standing population of future events, each
+// dequeue scheduling one or two new events a little later. The elements are
+// the event times, so the clock advances to each dequeued event.
+function queueWorkload(
+	createQueue: () => {
+		enqueue(element: number, priority: number): void;
+		dequeue(): number | undefined;
+		readonly length: number;
+	},
+	standingEvents: number,
+	operations: number
+) {
+	return () => {
+		const random = createRandomStream(1, "bench");
+		const queue = createQueue();
+		const schedule = (time: number) => queue.enqueue(time, time);
+		for (let i = 0; i < standingEvents; i++) schedule(random() * 1440);
+		let now = 0;
+		for (let i = 0; i < operations; i++) {
+			now = queue.dequeue() ?? now;
+			schedule(now + random() * 1440);
+			if (i % 2 === 0) schedule(now + random() * 60);
+			else queue.dequeue();
+		}
+	};
+}
+
+const queueResults: BenchmarkResult[] = [];
+[1000, 10000].forEach((standingEvents) => {
+	queueResults.push(
+		benchmark(
+			`linear queue, ${standingEvents} pending`,
+			5,
+			queueWorkload(
+				() => new LinearPriorityQueue<number>(),
+				standingEvents,
+				50000
+			)
+		)
+	);
+	queueResults.push(
+		benchmark(
+			`binary heap, ${standingEvents} pending`,
+			5,
+			queueWorkload(() => new PriorityQueue<number>(), standingEvents, 50000)
+		)
+	);
+});
+printResults("Event queue (50 000 operations)", queueResults);
+
+// --- Full Simulation ---
+
+const scenario = (
+	simulationDays: number,
+	numberOfORs: number,
+	enableLogging = false
+): SimulationParams => ({
+	...defaultSimulationParams,
+	seed: 12345,
+	simulationDays,
+	numberOfORs,
+	enableLogging,
+	surgeryScheduleTemplate: {
+		...defaultSimulationParams.surgeryScheduleTemplate,
+		averageDailySurgeries: numberOfORs * 4,
+	},
+	wardParams: { totalBeds: numberOfORs * 10 },
+});
+
+// Logging is measured with the output formatted but discarded, so that the
+// terminal does not dominate the timing
+const withSilencedConsole = (fn: () => void) => () => {
+	const originalLog = console.log;
+	console.log = (...args: unknown[]) => {
+		format(...args);
+	};
+	try {
+		fn();
+	} finally {
+		console.log = originalLog;
+	}
+};
+
+const simulationResults: BenchmarkResult[] = [
+	benchmark(
+		"30 days, 3 ORs, logging on",
+		3,
+		withSilencedConsole(() => runSimulation(scenario(30, 3, true)))
+	),
+	benchmark("30 days, 3 ORs", 3, () => runSimulation(scenario(30, 3))),
+	benchmark("365 days, 3 ORs", 3, () => runSimulation(scenario(365, 3))),
+	benchmark("365 days, 6 ORs", 3, () => runSimulation(scenario(365, 6))),
+];
+printResults("runSimulation", simulationResults);
+
+// --- Emergency OR ---
+
+// Under every OR queue discipline an emergency queued behind electives
+// still gets the dedicated emergency OR. FIFO and SEPT remain slower than
+// priority, as emergencies also wait behind electives for the other room.
+const emergencyScenario = (or: QueueDiscipline): SimulationParams => ({
+	...scenario(28, 2),
+	surgeryScheduleTemplate: {
+		...defaultSimulationParams.surgeryScheduleTemplate,
+		averageDailySurgeries: 16,
+	},
+	emergencyParams: {
+		enabled: true,
+		arrivalRateMeanPerDay: 3,
+		urgencyCategories: [
+			{ id: "urgent", name: "Kiireellinen", targetMinutes: 60, share: 1 },
+		],
+		emergencyOR: { orId: "OR-2", mode: "dedicated" },
+	},
+	queueDisciplines: { or },
+});
+
+console.log("\nEmergency time to OR, dedicated emergency OR, 28 days, 2 ORs");
+console.table(
+	(["priority", "fifo", "sept"] as QueueDiscipline[]).map((or) => ({
+		"OR queue": or,
+		"mean (min)": runSimulation(
+			emergencyScenario(or)
+		).meanTimeToORByUrgency.urgent.toFixed(1),
+	}))
+);
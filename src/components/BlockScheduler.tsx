@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/select";
 import { toast } from "@/components/ui/use-toast";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
 	Plus,
 	Trash,
@@ -22,7 +23,15 @@ import {
 	Save,
 	X,
 } from "lucide-react";
-import { PatientClass, ORBlock } from "@/lib/simulation";
+import {
+	PatientClass,
+	ORBlock,
+	SurgicalStaff,
+	BlockRotationParams,
+	blocksShareDay,
+} from "@/lib/simulation";
+import { WEEKDAY_LABELS } from "@/lib/calendar";
+import { findBlockDoubleBooking, staffName } from "@/lib/surgicalStaff";
 
 // ORRoom Type
 interface ORRoom {
@@ -44,8 +53,15 @@ interface BlockSchedulerProps {
 	patientClasses: PatientClass[];
 	onScheduleChange: (blocks: Block[]) => void;
 	defaultORRooms?: ORRoom[];
+	surgicalStaff?: SurgicalStaff[];
+	// Rotating master schedule; the controls are shown when a handler is given
+	blockRotation?: BlockRotationParams;
+	onBlockRotationChange?: (blockRotation?: BlockRotationParams) => void;
 }
 
+const NOT_ASSIGNED = "none";
+const MAX_CYCLE_WEEKS = 8;
+
 const defaultORs: ORRoom[] = [
 	{
 		id: "OR-1",
@@ -129,8 +145,14 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 	patientClasses,
 	onScheduleChange,
 	defaultORRooms = defaultORs,
+	surgicalStaff = [],
+	blockRotation,
+	onBlockRotationChange,
 }) => {
 	const [orRooms, setORRooms] = useState<ORRoom[]>(defaultORRooms);
+	// Weekday and week of the rotation being edited
+	const [selectedDay, setSelectedDay] = useState(0);
+	const [selectedWeek, setSelectedWeek] = useState(0);
 	const [blocks, setBlocks] = useState<Block[]>([]);
 	const [draggingBlock, setDraggingBlock] = useState<Block | null>(null);
 	const [editingBlockId, setEditingBlockId] = useState<string | null>(null);
@@ -138,6 +160,8 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 		label: string;
 		start: number;
 		end: number;
+		surgeonId?: string;
+		anaesthesiaTeamId?: string;
 	} | null>(null);
 
 	// Initialize blocks only once when component mounts
@@ -164,6 +188,22 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 		onScheduleChange(blocks);
 	}, [blocks, onScheduleChange]);
 
+	// With a rotation only the blocks of the selected weekday and week are
+	// shown; blocks without a week run every week
+	const isInView = (block: Block) =>
+		!blockRotation ||
+		(block.day === selectedDay &&
+			(block.week === undefined || block.week === selectedWeek));
+
+	const handleRotationChange = (changes: Partial<BlockRotationParams>) => {
+		const rotation = { cycleWeeks: 1, ...blockRotation, ...changes };
+		setSelectedWeek(Math.min(selectedWeek, rotation.cycleWeeks - 1));
+		onBlockRotationChange?.({
+			...rotation,
+			startWeek: Math.min(rotation.startWeek || 0, rotation.cycleWeeks - 1),
+		});
+	};
+
 	// Add a new OR room
 	const handleAddOR = () => {
 		const nextId = `OR-${orRooms.length + 1}`;
@@ -210,7 +250,7 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 	// Add a new block to an OR
 	const handleAddBlock = (orId: string) => {
 		const orBlocks = blocks
-			.filter((b) => b.orId === orId)
+			.filter((b) => b.orId === orId && isInView(b))
 			.sort((a, b) => a.end - b.end);
 		const lastBlock =
 			orBlocks.length > 0 ? orBlocks[orBlocks.length - 1] : null;
@@ -243,7 +283,8 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 			label: "Uusi blokki",
 			allowedProcedures: classIds, // Allow all patient classes by default
 			allowedClasses: classIds, // Keep both fields in sync
-			day: 0,
+			day: blockRotation ? selectedDay : 0,
+			week: blockRotation ? selectedWeek : undefined,
 		};
 
 		setBlocks([...blocks, newBlock]);
@@ -279,6 +320,8 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 			label: block.label,
 			start: block.start,
 			end: block.end,
+			surgeonId: block.surgeonId,
+			anaesthesiaTeamId: block.anaesthesiaTeamId,
 		});
 	};
 
@@ -296,8 +339,9 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 			return;
 		}
 
-		const orId = blocks.find((b) => b.id === editingBlockId)?.orId;
-		if (!orId) return;
+		const editedBlock = blocks.find((b) => b.id === editingBlockId);
+		const orId = editedBlock?.orId;
+		if (!editedBlock || !orId) return;
 
 		const orRoom = orRooms.find((or) => or.id === orId);
 		if (!orRoom) return;
@@ -317,7 +361,10 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 
 		// Check for overlapping blocks in the same OR
 		const otherBlocks = blocks.filter(
-			(b) => b.orId === orId && b.id !== editingBlockId
+			(b) =>
+				b.orId === orId &&
+				b.id !== editingBlockId &&
+				blocksShareDay(b, editedBlock)
 		);
 		const isOverlapping = otherBlocks.some((b) => {
 			return editingBlock.start < b.end && editingBlock.end > b.start;
@@ -332,6 +379,27 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 			return;
 		}
 
+		// The block's surgeon or anaesthesia team may not be in another room
+		// at the same time
+		const doubleBooking = findBlockDoubleBooking(
+			{ ...editedBlock, ...editingBlock },
+			blocks
+		);
+		if (doubleBooking) {
+			const otherOR = blocks.find(
+				(b) => b.id === doubleBooking.conflictingId
+			)?.orId;
+			toast({
+				title: "Päällekkäinen varaus",
+				description: `${staffName(
+					surgicalStaff,
+					doubleBooking.staffId
+				)} on jo varattu samaan aikaan salissa ${otherOR}.`,
+				variant: "destructive",
+			});
+			return;
+		}
+
 		// Update block
 		setBlocks(
 			blocks.map((block) =>
@@ -341,6 +409,8 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 							label: editingBlock.label,
 							start: editingBlock.start,
 							end: editingBlock.end,
+							surgeonId: editingBlock.surgeonId,
+							anaesthesiaTeamId: editingBlock.anaesthesiaTeamId,
 					  }
 					: block
 			)
@@ -418,6 +488,40 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 		}
 	};
 
+	// Surgeon or anaesthesia team of the block being edited
+	const renderStaffSelect = (
+		role: SurgicalStaff["role"],
+		label: string,
+		field: "surgeonId" | "anaesthesiaTeamId"
+	) => (
+		<div>
+			<Label className="text-xs">{label}</Label>
+			<Select
+				value={editingBlock?.[field] || NOT_ASSIGNED}
+				onValueChange={(value) =>
+					setEditingBlock({
+						...editingBlock!,
+						[field]: value === NOT_ASSIGNED ? undefined : value,
+					})
+				}
+			>
+				<SelectTrigger>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={NOT_ASSIGNED}>Ei nimetty</SelectItem>
+					{surgicalStaff
+						.filter((staff) => staff.role === role)
+						.map((staff) => (
+							<SelectItem key={staff.id} value={staff.id}>
+								{staff.name}
+							</SelectItem>
+						))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+
 	// Render the block with patient class colors
 	const renderBlock = (block: Block) => {
 		// Find matching patient class for color
@@ -476,6 +580,17 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 							</div>
 						</div>
 
+						{surgicalStaff.length > 0 && (
+							<div className="grid grid-cols-2 gap-2">
+								{renderStaffSelect("surgeon", "Kirurgi", "surgeonId")}
+								{renderStaffSelect(
+									"anaesthesia",
+									"Anestesiatiimi",
+									"anaesthesiaTeamId"
+								)}
+							</div>
+						)}
+
 						<div className="flex justify-end space-x-2 mt-2">
 							<Button size="sm" variant="ghost" onClick={handleCancelBlockEdit}>
 								<X className="h-4 w-4 mr-1" /> Peruuta
@@ -494,6 +609,17 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 									{formatTime(block.start)} - {formatTime(block.end)} (
 									{Math.round(((block.end - block.start) / 60) * 10) / 10}h)
 								</div>
+								{blockRotation && block.week === undefined && (
+									<div className="text-xs text-gray-600">Joka viikko</div>
+								)}
+								{(block.surgeonId || block.anaesthesiaTeamId) && (
+									<div className="text-xs text-gray-600">
+										{[block.surgeonId, block.anaesthesiaTeamId]
+											.filter((id): id is string => !!id)
+											.map((id) => staffName(surgicalStaff, id))
+											.join(", ")}
+									</div>
+								)}
 							</div>
 							<div className="flex space-x-1">
 								<Button
@@ -569,6 +695,111 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 				</CardTitle>
 			</CardHeader>
 			<CardContent>
+				{onBlockRotationChange && (
+					<div className="mb-4 space-y-3 rounded border p-3">
+						<div className="flex flex-wrap items-center gap-4">
+							<div className="flex items-center space-x-2">
+								<Switch
+									id="blockRotation"
+									checked={!!blockRotation}
+									onCheckedChange={(checked) =>
+										onBlockRotationChange(
+											checked ? { cycleWeeks: 1 } : undefined
+										)
+									}
+								/>
+								<Label htmlFor="blockRotation">Viikkorotaatio</Label>
+							</div>
+							{blockRotation && (
+								<>
+									<div className="flex items-center space-x-2">
+										<Label htmlFor="cycleWeeks">Jakson pituus (vk)</Label>
+										<Input
+											id="cycleWeeks"
+											type="number"
+											min={1}
+											max={MAX_CYCLE_WEEKS}
+											className="w-20"
+											value={blockRotation.cycleWeeks}
+											onChange={(e) =>
+												handleRotationChange({
+													cycleWeeks: Math.min(
+														MAX_CYCLE_WEEKS,
+														Math.max(1, Math.round(Number(e.target.value) || 1))
+													),
+												})
+											}
+										/>
+									</div>
+									<div className="flex items-center space-x-2">
+										<Label>Ensimmäinen viikko</Label>
+										<Select
+											value={String(blockRotation.startWeek || 0)}
+											onValueChange={(value) =>
+												handleRotationChange({ startWeek: Number(value) })
+											}
+										>
+											<SelectTrigger className="w-24">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{Array.from(
+													{ length: blockRotation.cycleWeeks },
+													(_, week) => (
+														<SelectItem key={week} value={String(week)}>
+															{week + 1}
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+									</div>
+								</>
+							)}
+						</div>
+						{blockRotation && (
+							<div className="flex flex-wrap items-center gap-2">
+								{blockRotation.cycleWeeks > 1 &&
+									Array.from(
+										{ length: blockRotation.cycleWeeks },
+										(_, week) => (
+											<Button
+												key={week}
+												size="sm"
+												variant={week === selectedWeek ? "default" : "outline"}
+												onClick={() => setSelectedWeek(week)}
+											>
+												Viikko {week + 1}
+											</Button>
+										)
+									)}
+								<span className="mx-2 h-6 border-l" />
+								{WEEKDAY_LABELS.map((label, day) => (
+									<Button
+										key={label}
+										size="sm"
+										variant={day === selectedDay ? "default" : "outline"}
+										onClick={() => setSelectedDay(day)}
+									>
+										{label}
+									</Button>
+								))}
+							</div>
+						)}
+						{blockRotation ? (
+							<p className="text-xs text-muted-foreground">
+								Blokit toistuvat viikonpäivän ja jakson viikon mukaan koko
+								simulaatiojakson ajan. Suljettuina päivinä blokkeja ei ole.
+							</p>
+						) : (
+							<p className="text-xs text-muted-foreground">
+								Ilman rotaatiota blokit koskevat vain simulaation ensimmäistä
+								päivää.
+							</p>
+						)}
+					</div>
+				)}
+
 				<div className="mb-4 flex justify-end">
 					<Button onClick={handleAddOR}>
 						<Plus className="h-4 w-4 mr-2" />
@@ -610,7 +841,7 @@ const BlockScheduler: React.FC<BlockSchedulerProps> = ({
 								</div>
 
 								{blocks
-									.filter((block) => block.orId === or.id)
+									.filter((block) => block.orId === or.id && isInView(block))
 									.sort((a, b) => a.start - b.start)
 									.map(renderBlock)}
 							</CardContent>
@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { X } from "lucide-react";
+import { CalendarParams } from "@/lib/simulation";
+import { createSimulationCalendar, parseIsoDate } from "@/lib/calendar";
+
+interface CalendarSettingsProps {
+	calendar?: CalendarParams;
+	simulationDays: number;
+	onCalendarChange: (calendar: CalendarParams) => void;
+}
+
+const CalendarSettings: React.FC<CalendarSettingsProps> = ({
+	calendar,
+	simulationDays,
+	onCalendarChange,
+}) => {
+	const [newClosureDay, setNewClosureDay] = useState("");
+
+	const handleChange = (changes: Partial<CalendarParams>) =>
+		onCalendarChange({ ...calendar, ...changes });
+
+	const closureDays = calendar?.closureDays || [];
+	const simulationCalendar = createSimulationCalendar(calendar);
+	const closedDays = Array.from({ length: simulationDays }, (_, day) => day)
+		.filter(simulationCalendar.isClosed)
+		.map((day) => ({
+			day,
+			label: simulationCalendar.dayLabel(day),
+			reason: simulationCalendar.closureOf(day),
+		}));
+
+	const addClosureDay = () => {
+		if (!parseIsoDate(newClosureDay) || closureDays.includes(newClosureDay))
+			return;
+		handleChange({ closureDays: [...closureDays, newClosureDay].sort() });
+		setNewClosureDay("");
+	};
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Kalenteri</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="grid grid-cols-[1fr_12rem] gap-2 items-center">
+					<Label htmlFor="calendarStartDate">Simulaation aloituspäivä</Label>
+					<Input
+						id="calendarStartDate"
+						type="date"
+						value={calendar?.startDate || ""}
+						onChange={(e) =>
+							handleChange({ startDate: e.target.value || undefined })
+						}
+					/>
+				</div>
+				{!simulationCalendar.hasDates && (
+					<p className="text-xs text-muted-foreground">
+						Ilman aloituspäivää simulaatio alkaa maanantaista, päivät
+						numeroidaan eikä pyhäpäiviä huomioida.
+					</p>
+				)}
+
+				{simulationCalendar.hasDates && (
+					<>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="finnishHolidays"
+								checked={!!calendar?.finnishHolidays}
+								onCheckedChange={(checked) =>
+									handleChange({ finnishHolidays: checked })
+								}
+							/>
+							<Label htmlFor="finnishHolidays">Suomen arkipyhät</Label>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor="newClosureDay">Muut suljetut päivät</Label>
+							<div className="flex gap-2">
+								<Input
+									id="newClosureDay"
+									type="date"
+									value={newClosureDay}
+									onChange={(e) => setNewClosureDay(e.target.value)}
+								/>
+								<Button
+									variant="outline"
+									onClick={addClosureDay}
+									disabled={!parseIsoDate(newClosureDay)}
+								>
+									Lisää
+								</Button>
+							</div>
+							{closureDays.length > 0 && (
+								<div className="flex flex-wrap gap-2">
+									{closureDays.map((date) => (
+										<span
+											key={date}
+											className="inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs"
+										>
+											{date}
+											<button
+												type="button"
+												aria-label={`Poista ${date}`}
+												onClick={() =>
+													handleChange({
+														closureDays: closureDays.filter((d) => d !== date),
+													})
+												}
+											>
+												<X className="h-3 w-3" />
+											</button>
+										</span>
+									))}
+								</div>
+							)}
+						</div>
+
+						<div className="text-sm">
+							<p className="font-medium mb-1">
+								Suljetut päivät simulaatiojaksolla (
+								{simulationCalendar.dayLabel(0)} –{" "}
+								{simulationCalendar.dayLabel(simulationDays - 1)})
+							</p>
+							{closedDays.length > 0 ? (
+								<ul className="text-xs text-muted-foreground space-y-0.5">
+									{closedDays.map(({ day, label, reason }) => (
+										<li key={day}>
+											{label}: {reason}
+										</li>
+									))}
+								</ul>
+							) : (
+								<p className="text-xs text-muted-foreground">Ei suljettuja päiviä.</p>
+							)}
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Suljettuina päivinä elektiivisiä leikkauksia ei tehdä, ja
+							hoitajien, leikkaustiimien ja osastopaikkojen miehitys noudattaa
+							sunnuntain vuorolistaa. Päivystykset saapuvat normaalisti.
+						</p>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default CalendarSettings;
@@ -0,0 +1,179 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CleaningParams } from "@/lib/simulation";
+import { DistributionSpec, distributionMean } from "@/lib/distributions";
+
+interface CleaningSettingsProps {
+	cleaningParams?: CleaningParams;
+	onCleaningParamsChange: (cleaningParams: CleaningParams) => void;
+}
+
+type CleaningActivity = "orTurnover" | "pacuBayCleaning" | "wardBedCleaning";
+type TriangularSpec = Extract<DistributionSpec, { type: "triangular" }>;
+
+const activities: Array<{
+	key: CleaningActivity;
+	label: string;
+	defaults: TriangularSpec;
+}> = [
+	{
+		key: "orTurnover",
+		label: "Salin vaihtoaika",
+		defaults: { type: "triangular", min: 15, mode: 25, max: 45 },
+	},
+	{
+		key: "pacuBayCleaning",
+		label: "Heräämöpaikan siivous",
+		defaults: { type: "triangular", min: 5, mode: 10, max: 20 },
+	},
+	{
+		key: "wardBedCleaning",
+		label: "Osastopaikan siivous",
+		defaults: { type: "triangular", min: 20, mode: 40, max: 90 },
+	},
+];
+
+const defaultCleaningTimes = Object.fromEntries(
+	activities.map(({ key, defaults }) => [key, defaults])
+) as Pick<CleaningParams, CleaningActivity>;
+
+// Cleaning times are edited as triangular distributions. Other
+// distributions, e.g. from a saved scenario, are shown by their mean.
+const asTriangular = (spec: DistributionSpec): TriangularSpec => {
+	if (spec.type === "triangular") return spec;
+	const mean = Math.round(distributionMean(spec));
+	return { type: "triangular", min: mean, mode: mean, max: mean };
+};
+
+const CleaningSettings: React.FC<CleaningSettingsProps> = ({
+	cleaningParams,
+	onCleaningParamsChange,
+}) => {
+	const handleChange = (changes: Partial<CleaningParams>) =>
+		onCleaningParamsChange({ enabled: false, ...cleaningParams, ...changes });
+
+	// Keeps min <= mode <= max around the edited value
+	const updateTime = (
+		activity: CleaningActivity,
+		spec: TriangularSpec,
+		field: "min" | "mode" | "max",
+		value: string
+	) => {
+		const minutes = Math.max(0, Math.round(Number(value) || 0));
+		const updated = { ...spec, [field]: minutes };
+		if (field === "min") {
+			updated.mode = Math.max(updated.mode, minutes);
+			updated.max = Math.max(updated.max, minutes);
+		} else if (field === "max") {
+			updated.mode = Math.min(updated.mode, minutes);
+			updated.min = Math.min(updated.min, minutes);
+		} else {
+			updated.min = Math.min(updated.min, minutes);
+			updated.max = Math.max(updated.max, minutes);
+		}
+		handleChange({ [activity]: updated });
+	};
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Vaihtoajat ja siivous</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex items-center space-x-2">
+					<Switch
+						id="cleaningEnabled"
+						checked={!!cleaningParams?.enabled}
+						onCheckedChange={(checked) =>
+							handleChange(
+								cleaningParams
+									? { enabled: checked }
+									: { enabled: checked, ...defaultCleaningTimes }
+							)
+						}
+					/>
+					<Label htmlFor="cleaningEnabled">
+						Simuloi salien vaihdot ja paikkojen siivouksen
+					</Label>
+				</div>
+
+				{cleaningParams?.enabled && (
+					<div className="space-y-2">
+						<div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 text-xs text-muted-foreground">
+							<span />
+							<span>Min (min)</span>
+							<span>Tyypillinen</span>
+							<span>Max (min)</span>
+						</div>
+						{activities.map(({ key, label, defaults }) => {
+							const spec = cleaningParams[key];
+							const triangular = spec ? asTriangular(spec) : undefined;
+							return (
+								<div
+									key={key}
+									className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 items-center"
+								>
+									<div className="flex items-center space-x-2">
+										<Switch
+											id={key}
+											checked={!!spec}
+											onCheckedChange={(checked) =>
+												handleChange({ [key]: checked ? defaults : undefined })
+											}
+										/>
+										<Label htmlFor={key}>{label}</Label>
+									</div>
+									{triangular ? (
+										(["min", "mode", "max"] as const).map((field) => (
+											<Input
+												key={field}
+												type="number"
+												min={0}
+												value={triangular[field]}
+												onChange={(e) =>
+													updateTime(key, triangular, field, e.target.value)
+												}
+											/>
+										))
+									) : (
+										<span className="col-span-3 text-xs text-muted-foreground">
+											Ei simuloida
+										</span>
+									)}
+								</div>
+							);
+						})}
+
+						<div className="grid grid-cols-[1fr_6rem] gap-2 items-center pt-2">
+							<Label htmlFor="cleaningCrewSize">Siivoojia</Label>
+							<Input
+								id="cleaningCrewSize"
+								type="number"
+								min={0}
+								value={cleaningParams.crewSize || 0}
+								onChange={(e) =>
+									handleChange({
+										crewSize: Math.max(
+											0,
+											Math.round(Number(e.target.value) || 0)
+										),
+									})
+								}
+							/>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Sali tai paikka vapautuu seuraavalle potilaalle vasta siivouksen
+							jälkeen. Kun siivoojien määrä on 0, siivous alkaa heti; muuten
+							siivous odottaa vapaata siivoojaa.
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default CleaningSettings;
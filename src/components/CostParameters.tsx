@@ -99,6 +99,18 @@ const CostParameters: React.FC<CostParametersProps> = ({ costParams, onCostParam
             />
             <p className="text-xs text-muted-foreground">Kustannus leikkauksen peruutuksesta</p>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="costPerReschedule">Uudelleenajoituksen kustannus (€)</Label>
+            <Input
+              id="costPerReschedule"
+              type="number"
+              step="1"
+              value={costParams.costPerReschedule}
+              onChange={(e) => handleCostChange('costPerReschedule', e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Kustannus perutun leikkauksen uudesta ajanvarauksesta</p>
+          </div>
           
           <div className="space-y-2">
             <Label htmlFor="overtimeCostMultiplier">Ylityökerroin</Label>
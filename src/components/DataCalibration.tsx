@@ -4,7 +4,21 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/use-toast";
-import { SimulationParams, PatientClass, SurgeryCaseInput } from '@/lib/simulation';
+import {
+  SimulationParams,
+  PatientClass,
+  SurgeryCaseInput,
+  CaseRiskAttributes,
+  RiskAdjustment,
+  RiskAdjustments,
+  AsaClass,
+  AgeBand,
+  AnaesthesiaType,
+  ASA_CLASSES,
+  AGE_BANDS,
+  ANAESTHESIA_TYPES
+} from '@/lib/simulation';
+import { DistributionSpec } from '@/lib/distributions';
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Download, Upload, FileInput, Calculator, FileJson } from "lucide-react";
@@ -23,15 +37,78 @@ interface DataCalibrationProps {
   onSurgeryListImport?: (surgeryList: SurgeryCaseInput[]) => void;
 }
 
+// With enough observations the durations are resampled as-is, keeping the skewed tail
+const MIN_EMPIRICAL_SAMPLES = 30;
+// Observations needed before an attribute value gets its own PACU multipliers
+const MIN_ADJUSTMENT_SAMPLES = 10;
+
 interface DurationData {
   [classId: string]: {
     surgeryDurations: number[];
     pacu1Durations: number[];
     pacu2Durations: number[];
+    attributes: CaseRiskAttributes[];
     count: number;
   }
 }
 
+// Optional risk attribute columns; unrecognised values are left out
+const parseRiskAttributes = (
+  asaClass: string | undefined,
+  ageBand: string | undefined,
+  anaesthesiaType: string | undefined,
+  highBmi: string | undefined
+): CaseRiskAttributes => {
+  const asa = parseInt(asaClass || '') as AsaClass;
+  return {
+    asaClass: ASA_CLASSES.includes(asa) ? asa : undefined,
+    ageBand: AGE_BANDS.find(band => band === ageBand?.trim()),
+    anaesthesiaType: ANAESTHESIA_TYPES.find(type => type === anaesthesiaType?.trim()),
+    highBmi: ['1', 'true', 'kyllä', 'yes'].includes((highBmi || '').trim().toLowerCase()) || undefined
+  };
+};
+
+const meanOf = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+
+// PACU multipliers of each attribute value against the class mean, for
+// values with enough observations; undefined without attribute columns
+const calibrateRiskAdjustments = (data: DurationData[string]): RiskAdjustments | undefined => {
+  const pacu1Mean = meanOf(data.pacu1Durations);
+  const pacu2Mean = meanOf(data.pacu2Durations);
+
+  const adjustmentOf = (matches: (attributes: CaseRiskAttributes) => boolean): RiskAdjustment | undefined => {
+    const rows = data.attributes.flatMap((attributes, index) => matches(attributes) ? [index] : []);
+    if (rows.length < MIN_ADJUSTMENT_SAMPLES) return undefined;
+    const ratio = (values: number[], mean: number) =>
+      mean > 0 ? Math.round((meanOf(rows.map(index => values[index])) / mean) * 100) / 100 : 1;
+    return {
+      pacuPhase1Multiplier: ratio(data.pacu1Durations, pacu1Mean),
+      pacuPhase2Multiplier: ratio(data.pacu2Durations, pacu2Mean)
+    };
+  };
+
+  const tableOf = <K extends AsaClass | AgeBand | AnaesthesiaType>(
+    values: K[],
+    attribute: 'asaClass' | 'ageBand' | 'anaesthesiaType'
+  ): Partial<Record<K, RiskAdjustment>> | undefined => {
+    const table: Partial<Record<K, RiskAdjustment>> = {};
+    values.forEach(value => {
+      const adjustment = adjustmentOf(attributes => attributes[attribute] === value);
+      if (adjustment) table[value] = adjustment;
+    });
+    return Object.keys(table).length > 0 ? table : undefined;
+  };
+
+  const adjustments: RiskAdjustments = {
+    asaClass: tableOf(ASA_CLASSES, 'asaClass'),
+    ageBand: tableOf(AGE_BANDS, 'ageBand'),
+    anaesthesiaType: tableOf(ANAESTHESIA_TYPES, 'anaesthesiaType'),
+    highBmi: adjustmentOf(attributes => !!attributes.highBmi)
+  };
+  return Object.values(adjustments).some(Boolean) ? adjustments : undefined;
+};
+
 const DataCalibration: React.FC<DataCalibrationProps> = ({ 
   currentParams, 
   onParamsUpdate,
@@ -74,6 +151,7 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
             const surgeryDuration = parseFloat(row.surgery_duration);
             const pacu1Duration = parseFloat(row.pacu1_duration);
             const pacu2Duration = parseFloat(row.pacu2_duration);
+            const attributes = parseRiskAttributes(row.asa_class, row.age_band, row.anaesthesia_type, row.high_bmi);
             
             // Skip rows with missing or invalid data
             if (!classId || isNaN(surgeryDuration) || isNaN(pacu1Duration) || isNaN(pacu2Duration)) {
@@ -86,6 +164,7 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
                 surgeryDurations: [],
                 pacu1Durations: [],
                 pacu2Durations: [],
+                attributes: [],
                 count: 0
               };
             }
@@ -94,6 +173,7 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
             durationData[classId].surgeryDurations.push(surgeryDuration);
             durationData[classId].pacu1Durations.push(pacu1Duration);
             durationData[classId].pacu2Durations.push(pacu2Duration);
+            durationData[classId].attributes.push(attributes);
             durationData[classId].count++;
           });
           
@@ -125,6 +205,11 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
     return { mean, stdDev };
   };
 
+  const empiricalDistribution = (values: number[]): DistributionSpec | undefined => {
+    const samples = values.filter(v => v > 0);
+    return samples.length >= MIN_EMPIRICAL_SAMPLES ? { type: 'empirical', samples } : undefined;
+  };
+
   const handleProcessData = useCallback(async () => {
     if (!dataFile) {
       toast({ title: "Ei tiedostoa", description: "Valitse ensin CSV-tiedosto.", variant: "destructive" });
@@ -161,16 +246,21 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
           const surgeryStats = calculateStats(data.surgeryDurations);
           const pacu1Stats = calculateStats(data.pacu1Durations);
           const pacu2Stats = calculateStats(data.pacu2Durations);
+          const riskAdjustments = calibrateRiskAdjustments(data);
           
           // Update patient class with calibrated values
           updatedPatientClasses[classIndex] = {
             ...updatedPatientClasses[classIndex],
+            ...(riskAdjustments && { riskAdjustments }),
             surgeryDurationMean: Math.round(surgeryStats.mean),
             surgeryDurationStd: Math.round(surgeryStats.stdDev),
             pacuPhase1DurationMean: Math.round(pacu1Stats.mean),
             pacuPhase1DurationStd: Math.round(pacu1Stats.stdDev),
             pacuPhase2DurationMean: Math.round(pacu2Stats.mean),
-            pacuPhase2DurationStd: Math.round(pacu2Stats.stdDev)
+            pacuPhase2DurationStd: Math.round(pacu2Stats.stdDev),
+            surgeryDurationDistribution: empiricalDistribution(data.surgeryDurations),
+            pacuPhase1DurationDistribution: empiricalDistribution(data.pacu1Durations),
+            pacuPhase2DurationDistribution: empiricalDistribution(data.pacu2Durations)
           };
           updatedCount++;
         }
@@ -249,7 +339,7 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
     }
     
     // Convert surgery list to CSV format
-    const headers = ["id", "classId", "scheduledStartTime", "duration", "orRoom", "priority", "actualArrivalTime"];
+    const headers = ["id", "classId", "scheduledStartTime", "duration", "orRoom", "priority", "actualArrivalTime", "asaClass", "ageBand", "anaesthesiaType", "highBmi"];
     const csvRows = [headers.join(",")];
     
     surgeryList.forEach(surgery => {
@@ -344,7 +434,8 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
               duration: parseInt(row.duration) || 60,
               orRoom: row.orRoom,
               priority: parseInt(row.priority) || 3,
-              actualArrivalTime: parseInt(row.actualArrivalTime) || 0
+              actualArrivalTime: parseInt(row.actualArrivalTime) || 0,
+              ...parseRiskAttributes(row.asaClass, row.ageBand, row.anaesthesiaType, row.highBmi)
             }));
           
           if (importedSurgeries.length === 0) {
@@ -398,7 +489,8 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
             <div className="space-y-2">
               <Label htmlFor="data-file">Lataa Historiadata (CSV)</Label>
               <div className="text-sm text-muted-foreground mb-2">
-                CSV-tiedosto tulee sisältää sarakkeet: patient_class_id, surgery_duration, pacu1_duration, pacu2_duration
+                CSV-tiedosto tulee sisältää sarakkeet: patient_class_id, surgery_duration, pacu1_duration, pacu2_duration.
+                Valinnaisista sarakkeista asa_class (1–5), age_band (child, adult, elderly, veryElderly), anaesthesia_type (general, regional, sedation) ja high_bmi (1/0) lasketaan heräämöaikojen kertoimet riskitekijöittäin.
               </div>
               <Input id="data-file" type="file" accept=".csv" onChange={handleFileChange} />
               {dataFile && <p className="text-sm text-muted-foreground">Valittu tiedosto: {dataFile.name}</p>}
@@ -487,7 +579,7 @@ const DataCalibration: React.FC<DataCalibrationProps> = ({
                 </div>
                 <ul className="list-disc pl-5 space-y-1">
                   <li>Parametrit: JSON-tiedosto, joka sisältää kaikki simulaation asetukset</li>
-                  <li>Leikkauslista: CSV-tiedosto, jossa sarakkeet id, classId, scheduledStartTime, duration, orRoom, priority, actualArrivalTime</li>
+                  <li>Leikkauslista: CSV-tiedosto, jossa sarakkeet id, classId, scheduledStartTime, duration, orRoom, priority, actualArrivalTime sekä valinnaiset asaClass, ageBand, anaesthesiaType, highBmi</li>
                 </ul>
               </div>
             </div>
@@ -0,0 +1,409 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { PlusCircle, Trash2 } from "lucide-react";
+import {
+	DestinationUnit,
+	DestinationUnitType,
+	PatientClass,
+	WardParams,
+	getPatientPathway,
+	pathwayHasWardStage,
+} from "@/lib/simulation";
+import WardSettings from "./WardSettings";
+
+interface DestinationUnitSettingsProps {
+	units?: DestinationUnit[];
+	wardParams: WardParams;
+	patientClasses: PatientClass[];
+	onUnitsChange: (units: DestinationUnit[] | undefined) => void;
+	onWardParamsChange: (changes: Partial<WardParams>) => void;
+	onPatientClassesChange: (patientClasses: PatientClass[]) => void;
+}
+
+const destinationUnitTypeLabels: Record<DestinationUnitType, string> = {
+	ward: "Vuodeosasto",
+	icu: "Teho-osasto",
+	stepDown: "Valvontaosasto",
+};
+
+const MINUTES_PER_DAY = 1440;
+
+// Days shown with one decimal; the engine works in minutes
+const toDays = (minutes: number) =>
+	Math.round((minutes / MINUTES_PER_DAY) * 10) / 10;
+
+const DestinationUnitSettings: React.FC<DestinationUnitSettingsProps> = ({
+	units,
+	wardParams,
+	patientClasses,
+	onUnitsChange,
+	onWardParamsChange,
+	onPatientClassesChange,
+}) => {
+	const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null);
+
+	if (!units || units.length === 0) {
+		return (
+			<div className="space-y-4">
+				<Card>
+					<CardContent className="pt-6">
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="destinationUnits"
+								checked={false}
+								onCheckedChange={() =>
+									onUnitsChange([
+										{
+											...wardParams,
+											id: "W",
+											name: "Vuodeosasto",
+											type: "ward",
+										},
+										{
+											id: "ICU",
+											name: "Teho-osasto",
+											type: "icu",
+											totalBeds: 4,
+										},
+									])
+								}
+							/>
+							<Label htmlFor="destinationUnits">
+								Useita jatkohoitoyksiköitä
+							</Label>
+						</div>
+						<p className="text-xs text-muted-foreground mt-1">
+							Kaikki osastopotilaat siirtyvät heräämöstä samalle
+							vuodeosastolle.
+						</p>
+					</CardContent>
+				</Card>
+				<WardSettings
+					wardParams={wardParams}
+					onWardParamsChange={onWardParamsChange}
+				/>
+			</div>
+		);
+	}
+
+	const selectedUnit =
+		units.find((unit) => unit.id === selectedUnitId) || units[0];
+	const inpatientClasses = patientClasses.filter((pc) =>
+		pathwayHasWardStage(getPatientPathway(pc))
+	);
+
+	const updateUnit = (unitId: string, changes: Partial<DestinationUnit>) =>
+		onUnitsChange(
+			units.map((unit) => (unit.id === unitId ? { ...unit, ...changes } : unit))
+		);
+
+	const handleAddUnit = () => {
+		let counter = units.length + 1;
+		while (units.some((unit) => unit.id === `U${counter}`)) counter++;
+		onUnitsChange([
+			...units,
+			{
+				id: `U${counter}`,
+				name: `Yksikkö ${counter}`,
+				type: "ward",
+				totalBeds: 10,
+			},
+		]);
+	};
+
+	const handleRemoveUnit = (unitId: string) => {
+		const remaining = units.filter((unit) => unit.id !== unitId);
+		// The single remaining unit becomes the ward of the default model
+		onUnitsChange(remaining.length > 1 ? remaining : undefined);
+		if (remaining.length === 1) {
+			const unit = remaining[0];
+			onWardParamsChange({
+				totalBeds: unit.totalBeds,
+				admissionStartHour: unit.admissionStartHour,
+				admissionEndHour: unit.admissionEndHour,
+				dischargeHourProfile: unit.dischargeHourProfile,
+				capacityCalendar: unit.capacityCalendar,
+			});
+		}
+	};
+
+	// Length of stay is edited in days as a lognormal mean and deviation;
+	// an empty mean falls back to the patient class's ward stay
+	const handleLosChange = (
+		unit: DestinationUnit,
+		key: "mean" | "stdDev",
+		value: string
+	) => {
+		const current = unit.losDistribution;
+		const mean = current && current.type === "lognormal" ? current.mean : 0;
+		const stdDev =
+			current && current.type === "lognormal" ? current.stdDev : 0;
+		const minutes = Math.max(0, Number(value) || 0) * MINUTES_PER_DAY;
+		const updated = { mean, stdDev, [key]: minutes };
+		updateUnit(unit.id, {
+			losDistribution:
+				updated.mean > 0
+					? { type: "lognormal", mean: updated.mean, stdDev: updated.stdDev }
+					: undefined,
+		});
+	};
+
+	// Classes without a routing distribution go to the first unit
+	const routingWeight = (pc: PatientClass, unitId: string) =>
+		pc.destinationDistribution
+			? (pc.destinationDistribution[unitId] ?? 0) * 100
+			: unitId === units[0].id
+			? 100
+			: 0;
+
+	const handleRoutingChange = (
+		classId: string,
+		unitId: string,
+		value: string
+	) => {
+		onPatientClassesChange(
+			patientClasses.map((pc) => {
+				if (pc.id !== classId) return pc;
+				const destinationDistribution: Record<string, number> = {};
+				units.forEach((unit) => {
+					destinationDistribution[unit.id] = routingWeight(pc, unit.id) / 100;
+				});
+				destinationDistribution[unitId] =
+					Math.min(100, Math.max(0, Number(value) || 0)) / 100;
+				return { ...pc, destinationDistribution };
+			})
+		);
+	};
+
+	return (
+		<div className="space-y-4">
+			<Card>
+				<CardHeader className="pb-2">
+					<CardTitle className="text-lg">Jatkohoitoyksiköt</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-6">
+					<div className="flex items-center space-x-2">
+						<Switch
+							id="destinationUnits"
+							checked
+							onCheckedChange={() => onUnitsChange(undefined)}
+						/>
+						<Label htmlFor="destinationUnits">
+							Useita jatkohoitoyksiköitä
+						</Label>
+					</div>
+
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Nimi</TableHead>
+								<TableHead>Tyyppi</TableHead>
+								<TableHead>Paikat</TableHead>
+								<TableHead title="Tyhjä = potilasluokan osastojakso">
+									Hoitoaika ka. (vrk)
+								</TableHead>
+								<TableHead>Hajonta (vrk)</TableHead>
+								<TableHead title="Tyhjä = kustannusasetusten osastopaikka">
+									€ / paikka / min
+								</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{units.map((unit) => {
+								const los =
+									unit.losDistribution?.type === "lognormal"
+										? unit.losDistribution
+										: undefined;
+								return (
+									<TableRow
+										key={unit.id}
+										className={
+											unit.id === selectedUnit.id ? "bg-muted/50" : undefined
+										}
+										onClick={() => setSelectedUnitId(unit.id)}
+									>
+										<TableCell>
+											<Input
+												value={unit.name}
+												onChange={(e) =>
+													updateUnit(unit.id, { name: e.target.value })
+												}
+											/>
+										</TableCell>
+										<TableCell>
+											<Select
+												value={unit.type}
+												onValueChange={(value) =>
+													updateUnit(unit.id, {
+														type: value as DestinationUnitType,
+													})
+												}
+											>
+												<SelectTrigger className="w-40">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{Object.entries(destinationUnitTypeLabels).map(
+														([type, label]) => (
+															<SelectItem key={type} value={type}>
+																{label}
+															</SelectItem>
+														)
+													)}
+												</SelectContent>
+											</Select>
+										</TableCell>
+										<TableCell>
+											<Input
+												type="number"
+												min={1}
+												className="w-20"
+												value={unit.totalBeds}
+												onChange={(e) =>
+													updateUnit(unit.id, {
+														totalBeds: Math.max(
+															1,
+															Math.round(Number(e.target.value) || 1)
+														),
+													})
+												}
+											/>
+										</TableCell>
+										<TableCell>
+											<Input
+												type="number"
+												min={0}
+												step={0.1}
+												className="w-20"
+												value={los ? toDays(los.mean) : ""}
+												onChange={(e) =>
+													handleLosChange(unit, "mean", e.target.value)
+												}
+											/>
+										</TableCell>
+										<TableCell>
+											<Input
+												type="number"
+												min={0}
+												step={0.1}
+												className="w-20"
+												disabled={!los}
+												value={los ? toDays(los.stdDev) : ""}
+												onChange={(e) =>
+													handleLosChange(unit, "stdDev", e.target.value)
+												}
+											/>
+										</TableCell>
+										<TableCell>
+											<Input
+												type="number"
+												min={0}
+												step={0.01}
+												className="w-24"
+												value={unit.costPerBedMinute ?? ""}
+												onChange={(e) =>
+													updateUnit(unit.id, {
+														costPerBedMinute:
+															e.target.value === ""
+																? undefined
+																: Math.max(0, Number(e.target.value) || 0),
+													})
+												}
+											/>
+										</TableCell>
+										<TableCell>
+											<Button
+												variant="ghost"
+												size="icon"
+												className="h-6 w-6"
+												onClick={(e) => {
+													e.stopPropagation();
+													handleRemoveUnit(unit.id);
+												}}
+											>
+												<Trash2 className="h-4 w-4" />
+											</Button>
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+					<Button variant="outline" onClick={handleAddUnit}>
+						<PlusCircle className="mr-2 h-4 w-4" />
+						Lisää yksikkö
+					</Button>
+
+					<div>
+						<h4 className="text-sm font-medium mb-2">
+							Potilasluokkien ohjautuminen (%)
+						</h4>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Potilasluokka</TableHead>
+									{units.map((unit) => (
+										<TableHead key={unit.id}>{unit.name}</TableHead>
+									))}
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{inpatientClasses.map((pc) => (
+									<TableRow key={pc.id}>
+										<TableCell>{pc.name}</TableCell>
+										{units.map((unit) => (
+											<TableCell key={unit.id}>
+												<Input
+													type="number"
+													min={0}
+													max={100}
+													className="w-20"
+													value={routingWeight(pc, unit.id)}
+													onChange={(e) =>
+														handleRoutingChange(pc.id, unit.id, e.target.value)
+													}
+												/>
+											</TableCell>
+										))}
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+						<p className="text-xs text-muted-foreground mt-1">
+							Osuudet suhteutetaan luokan summaan. Avohoitopotilaat kotiutuvat
+							suoraan heräämöstä.
+						</p>
+					</div>
+				</CardContent>
+			</Card>
+
+			<WardSettings
+				title={selectedUnit.name}
+				wardParams={selectedUnit}
+				onWardParamsChange={(changes) => updateUnit(selectedUnit.id, changes)}
+			/>
+		</div>
+	);
+};
+
+export default DestinationUnitSettings;
@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { EmergencyParams } from "@/lib/simulation";
+import {
+	flatRateMatrix,
+	parseRateMatrixCsv,
+	rateMatrixDailyMean,
+} from "@/lib/arrivalProfile";
+import WeekHourGrid from "./WeekHourGrid";
+
+interface EmergencyArrivalSettingsProps {
+	emergencyParams: EmergencyParams;
+	onEmergencyParamsChange: (changes: Partial<EmergencyParams>) => void;
+}
+
+const DAYS_OF_WEEK = ["Ma", "Ti", "Ke", "To", "Pe", "La", "Su"];
+
+const EmergencyArrivalSettings: React.FC<EmergencyArrivalSettingsProps> = ({
+	emergencyParams,
+	onEmergencyParamsChange,
+}) => {
+	const [importError, setImportError] = useState<string | null>(null);
+	const matrix = emergencyParams.arrivalRateMatrix;
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (!file) return;
+		try {
+			onEmergencyParamsChange({
+				arrivalRateMatrix: parseRateMatrixCsv(await file.text()),
+			});
+			setImportError(null);
+		} catch (error) {
+			setImportError(error instanceof Error ? error.message : String(error));
+		}
+		e.target.value = "";
+	};
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Päivystysten saapuminen</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<div className="space-y-4">
+					<div className="flex items-center space-x-2">
+						<Switch
+							id="arrivalRateMatrix"
+							checked={!!matrix}
+							onCheckedChange={(checked) =>
+								onEmergencyParamsChange({
+									arrivalRateMatrix: checked
+										? flatRateMatrix(emergencyParams.arrivalRateMeanPerDay || 0)
+										: undefined,
+								})
+							}
+						/>
+						<Label htmlFor="arrivalRateMatrix">
+							Saapumisintensiteetti viikonpäivän ja tunnin mukaan
+						</Label>
+					</div>
+					{!emergencyParams.enabled && (
+						<p className="text-xs text-muted-foreground">
+							Päivystykset ovat pois käytöstä.
+						</p>
+					)}
+					{matrix ? (
+						<>
+							<p className="text-sm text-muted-foreground">
+								Odotettu saapuneiden määrä tunnissa. Keskimäärin{" "}
+								{rateMatrixDailyMean(matrix).toFixed(1)} päivystystä
+								päivässä.
+							</p>
+							<WeekHourGrid
+								rowLabels={DAYS_OF_WEEK}
+								values={matrix}
+								step={0.05}
+								onChange={(values) =>
+									onEmergencyParamsChange({ arrivalRateMatrix: values })
+								}
+							/>
+							<div className="w-96">
+								<Label htmlFor="arrivalRateCsv">Tuo CSV-tiedostosta</Label>
+								<Input
+									id="arrivalRateCsv"
+									type="file"
+									accept=".csv"
+									onChange={handleFileChange}
+								/>
+								<p className="text-xs text-muted-foreground mt-1">
+									Seitsemän riviä maanantaista alkaen, kullakin 24 tuntiarvoa.
+									Otsikkorivi ja viikonpäiväsarake ohitetaan.
+								</p>
+								{importError && (
+									<p className="text-xs text-destructive mt-1">{importError}</p>
+								)}
+							</div>
+						</>
+					) : (
+						<p className="text-xs text-muted-foreground">
+							Päivystykset saapuvat tasaisesti vuorokauden ympäri
+							keskimäärin{" "}
+							{emergencyParams.arrivalRateMeanPerDay || 0} kertaa päivässä.
+						</p>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default EmergencyArrivalSettings;
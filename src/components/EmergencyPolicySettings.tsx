@@ -0,0 +1,303 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { PlusCircle, Trash2 } from "lucide-react";
+import {
+	EmergencyORParams,
+	EmergencyParams,
+	EmergencyPreemptionPolicy,
+	UrgencyCategory,
+} from "@/lib/simulation";
+
+interface EmergencyPolicySettingsProps {
+	emergencyParams: EmergencyParams;
+	numberOfORs: number;
+	costPerOnCallActivation: number;
+	onEmergencyParamsChange: (changes: Partial<EmergencyParams>) => void;
+	onCostPerOnCallActivationChange: (value: number) => void;
+}
+
+// Common triage targets: within 1, 6 and 24 hours
+const defaultUrgencyCategories: UrgencyCategory[] = [
+	{ id: "A", name: "Alle 1 h", targetMinutes: 60, share: 0.2 },
+	{ id: "B", name: "Alle 6 h", targetMinutes: 360, share: 0.5 },
+	{ id: "C", name: "Alle 24 h", targetMinutes: 1440, share: 0.3 },
+];
+
+const NO_EMERGENCY_OR = "none";
+
+const EmergencyPolicySettings: React.FC<EmergencyPolicySettingsProps> = ({
+	emergencyParams,
+	numberOfORs,
+	costPerOnCallActivation,
+	onEmergencyParamsChange,
+	onCostPerOnCallActivationChange,
+}) => {
+	const categories = emergencyParams.urgencyCategories;
+	const emergencyOR = emergencyParams.emergencyOR;
+
+	const updateCategory = (index: number, changes: Partial<UrgencyCategory>) =>
+		onEmergencyParamsChange({
+			urgencyCategories: categories?.map((category, i) =>
+				i === index ? { ...category, ...changes } : category
+			),
+		});
+
+	const handleAddCategory = () => {
+		const list = categories || [];
+		let counter = list.length + 1;
+		while (list.some((category) => category.id === `U${counter}`)) counter++;
+		onEmergencyParamsChange({
+			urgencyCategories: [
+				...list,
+				{ id: `U${counter}`, name: "Uusi", targetMinutes: 480, share: 0.1 },
+			],
+		});
+	};
+
+	const updateEmergencyOR = (changes: Partial<EmergencyORParams>) =>
+		emergencyOR &&
+		onEmergencyParamsChange({ emergencyOR: { ...emergencyOR, ...changes } });
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">
+					Kiireellisyys ja salikapasiteetti
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<div className="space-y-6">
+					<div>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="urgencyCategories"
+								checked={!!categories}
+								onCheckedChange={(checked) =>
+									onEmergencyParamsChange({
+										urgencyCategories: checked
+											? defaultUrgencyCategories
+											: undefined,
+									})
+								}
+							/>
+							<Label htmlFor="urgencyCategories">Kiireellisyysluokat</Label>
+						</div>
+						{categories && (
+							<div className="space-y-2 mt-2">
+								<div className="grid grid-cols-[1fr_8rem_8rem_2rem] gap-2 text-xs text-muted-foreground">
+									<span>Nimi</span>
+									<span>Tavoite (h)</span>
+									<span>Osuus</span>
+									<span />
+								</div>
+								{categories.map((category, index) => (
+									<div
+										key={category.id}
+										className="grid grid-cols-[1fr_8rem_8rem_2rem] gap-2"
+									>
+										<Input
+											value={category.name}
+											onChange={(e) =>
+												updateCategory(index, { name: e.target.value })
+											}
+										/>
+										<Input
+											type="number"
+											min={0}
+											step={0.5}
+											value={category.targetMinutes / 60}
+											onChange={(e) =>
+												updateCategory(index, {
+													targetMinutes: Math.max(
+														0,
+														Math.round((Number(e.target.value) || 0) * 60)
+													),
+												})
+											}
+										/>
+										<Input
+											type="number"
+											min={0}
+											step={0.05}
+											value={category.share}
+											onChange={(e) =>
+												updateCategory(index, {
+													share: Math.max(0, Number(e.target.value) || 0),
+												})
+											}
+										/>
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-9 w-8"
+											disabled={categories.length <= 1}
+											onClick={() =>
+												onEmergencyParamsChange({
+													urgencyCategories: categories.filter(
+														(_, i) => i !== index
+													),
+												})
+											}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</div>
+								))}
+								<Button variant="outline" size="sm" onClick={handleAddCategory}>
+									<PlusCircle className="mr-2 h-4 w-4" />
+									Lisää luokka
+								</Button>
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground mt-1">
+							Kiireellisempi luokka leikataan ensin. Tuloksissa näytetään,
+							kuinka usein tavoiteaika saavutettiin.
+						</p>
+					</div>
+
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<div>
+							<Label>Päivystyssali</Label>
+							<Select
+								value={emergencyOR?.orId || NO_EMERGENCY_OR}
+								onValueChange={(value) =>
+									onEmergencyParamsChange({
+										emergencyOR:
+											value === NO_EMERGENCY_OR
+												? undefined
+												: {
+														mode: "dedicated",
+														...emergencyOR,
+														orId: value,
+												  },
+									})
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NO_EMERGENCY_OR}>Ei erillistä</SelectItem>
+									{Array.from({ length: numberOfORs }, (_, i) => (
+										<SelectItem key={i} value={`OR-${i + 1}`}>
+											OR-{i + 1}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						{emergencyOR && (
+							<div>
+								<Label>Käyttö</Label>
+								<Select
+									value={emergencyOR.mode}
+									onValueChange={(value) =>
+										updateEmergencyOR({
+											mode: value as EmergencyORParams["mode"],
+										})
+									}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="dedicated">
+											Vain päivystyksille
+										</SelectItem>
+										<SelectItem value="reserved">
+											Varattu tiettyyn kellonaikaan
+										</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						)}
+						{emergencyOR?.mode === "reserved" && (
+							<div>
+								<Label htmlFor="reservedUntilHour">
+									Elektiivisille alkaen klo
+								</Label>
+								<Input
+									id="reservedUntilHour"
+									type="number"
+									min={0}
+									max={23}
+									value={(emergencyOR.reservedUntilMinute ?? 720) / 60}
+									onChange={(e) =>
+										updateEmergencyOR({
+											reservedUntilMinute:
+												Math.min(
+													23,
+													Math.max(0, Math.round(Number(e.target.value) || 0))
+												) * 60,
+										})
+									}
+								/>
+							</div>
+						)}
+					</div>
+
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<div className="md:col-span-2">
+							<Label>Kun kaikki salit ovat varattuina</Label>
+							<Select
+								value={emergencyParams.preemptionPolicy || "none"}
+								onValueChange={(value) =>
+									onEmergencyParamsChange({
+										preemptionPolicy: value as EmergencyPreemptionPolicy,
+									})
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="none">
+										Päivystys odottaa seuraavaa vapaata salia
+									</SelectItem>
+									<SelectItem value="bumpElective">
+										Perutaan päivän seuraava elektiivinen, jos tavoiteaika
+										muuten ylittyy
+									</SelectItem>
+									<SelectItem value="onCallRoom">
+										Avataan päivystyssali, jos tavoiteaika muuten ylittyy
+									</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						{emergencyParams.preemptionPolicy === "onCallRoom" && (
+							<div>
+								<Label htmlFor="costPerOnCallActivation">
+									Salin avaamisen kustannus (€)
+								</Label>
+								<Input
+									id="costPerOnCallActivation"
+									type="number"
+									min={0}
+									value={costPerOnCallActivation}
+									onChange={(e) =>
+										onCostPerOnCallActivationChange(
+											Math.max(0, Number(e.target.value) || 0)
+										)
+									}
+								/>
+							</div>
+						)}
+					</div>
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default EmergencyPolicySettings;
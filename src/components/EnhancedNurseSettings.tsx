@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
-import { NurseShift, NurseSkill, StaffParams } from '@/lib/simulation';
+import { NurseBreakRule, NurseShift, NurseSkill, StaffParams } from '@/lib/simulation';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PlusCircle, Trash2 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -23,6 +23,14 @@ interface EnhancedNurseSettingsProps {
   onSkillDistributionChange: (shiftIndex: number, skillId: string, value: number) => void;
 }
 
+// A 30 minute meal break between the third and sixth hour of the shift
+const defaultBreakRule: NurseBreakRule = {
+  durationMinutes: 30,
+  windowStartMinute: 180,
+  windowEndMinute: 360,
+  minNursesOnDuty: 2
+};
+
 const EnhancedNurseSettings: React.FC<EnhancedNurseSettingsProps> = ({
   staffParams,
   onStaffParamsChange,
@@ -36,6 +44,18 @@ const EnhancedNurseSettings: React.FC<EnhancedNurseSettingsProps> = ({
   onSkillDistributionChange
 }) => {
   const daysOfWeek = ['Ma', 'Ti', 'Ke', 'To', 'Pe', 'La', 'Su'];
+
+  const breakRuleFields: Array<[keyof NurseBreakRule, string]> = [
+    ['durationMinutes', 'Kesto (min)'],
+    ['windowStartMinute', 'Aikaisintaan (min vuoron alusta)'],
+    ['windowEndMinute', 'Viimeistään (min vuoron alusta)'],
+    ['minNursesOnDuty', 'Vähintään paikalla (hoitajaa)']
+  ];
+
+  const updateBreakRule = (index: number, shift: NurseShift, key: keyof NurseBreakRule, value: number) => {
+    if (!shift.breakRule) return;
+    onNurseShiftChange(index, 'breakRule', { ...shift.breakRule, [key]: Math.max(0, value || 0) });
+  };
   
   return (
     <Card>
@@ -190,6 +210,47 @@ const EnhancedNurseSettings: React.FC<EnhancedNurseSettingsProps> = ({
                         </span>
                       </div>
                     </div>
+
+                    <div className="mt-4">
+                      <Label htmlFor={`shift-overlap-${index}`}>Vuoronvaihdon päällekkäisyys (min)</Label>
+                      <Input
+                        id={`shift-overlap-${index}`}
+                        type="number"
+                        min={0}
+                        value={shift.handoverOverlapMinutes || 0}
+                        onChange={(e) => onNurseShiftChange(index, 'handoverOverlapMinutes', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                      <span className="text-xs text-gray-500">
+                        Vuoron hoitajat tulevat näin paljon ennen alkuaikaa raportille
+                      </span>
+                    </div>
+
+                    <div className="mt-4">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`shift-break-${index}`}
+                          checked={!!shift.breakRule}
+                          onCheckedChange={(checked) => onNurseShiftChange(index, 'breakRule', checked ? defaultBreakRule : undefined)}
+                        />
+                        <Label htmlFor={`shift-break-${index}`}>Ruokatauko</Label>
+                      </div>
+                      {shift.breakRule && (
+                        <div className="grid grid-cols-2 gap-4 mt-2">
+                          {breakRuleFields.map(([key, label]) => (
+                            <div key={key}>
+                              <Label htmlFor={`shift-break-${index}-${key}`} className="text-xs">{label}</Label>
+                              <Input
+                                id={`shift-break-${index}-${key}`}
+                                type="number"
+                                min={0}
+                                value={shift.breakRule?.[key]}
+                                onChange={(e) => updateBreakRule(index, shift, key, parseInt(e.target.value))}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                     
                     <div className="mt-4">
                       <Label>Hoitajia per päivä</Label>
@@ -294,6 +355,9 @@ const EnhancedNurseSettings: React.FC<EnhancedNurseSettingsProps> = ({
                     />
                     <span className="w-8 text-center">{staffParams.phase2NurseRatio}</span>
                   </div>
+                  <span className="text-xs text-gray-500">
+                    Hoitaja hoitaa samanaikaisesti suhteen verran potilaita, tehokkuuskertoimella painotettuna; vaativa potilasluokka vie useamman potilaan osuuden
+                  </span>
                 </div>
                 
                 <div>
@@ -311,6 +375,20 @@ const EnhancedNurseSettings: React.FC<EnhancedNurseSettingsProps> = ({
                     <span className="w-8 text-center">{staffParams.overtimeMultiplier.toFixed(1)}x</span>
                   </div>
                 </div>
+
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="handoffAtShiftEnd"
+                      checked={!!staffParams.handoffAtShiftEnd}
+                      onCheckedChange={(checked) => onStaffParamsChange('handoffAtShiftEnd', checked)}
+                    />
+                    <Label htmlFor="handoffAtShiftEnd">Potilaan luovutus seuraavalle vuorolle</Label>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    Vuoron päättyessä kesken oleva potilas siirtyy vapaalle hoitajalle ylityön sijaan
+                  </span>
+                </div>
               </TabsContent>
             </Tabs>
           )}
@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { CalendarParams, SimulationEvent, TraceEntry } from "@/lib/simulation";
+import { createSimulationCalendar } from "@/lib/calendar";
+import {
+	TraceFilter,
+	filterTrace,
+	traceToCsv,
+	traceToJsonl,
+} from "@/lib/trace";
+
+interface EventTraceTableProps {
+	trace: TraceEntry[];
+	calendar?: CalendarParams; // Labels times with real dates
+}
+
+// Rendering every row of a long run would freeze the page
+const MAX_VISIBLE_ROWS = 500;
+const ALL_EVENTS = "all";
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+	const blob = new Blob([content], { type });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.setAttribute("href", url);
+	link.setAttribute("download", fileName);
+	link.style.visibility = "hidden";
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+};
+
+const EventTraceTable: React.FC<EventTraceTableProps> = ({
+	trace,
+	calendar,
+}) => {
+	const [filter, setFilter] = useState<TraceFilter>({});
+	const simulationCalendar = createSimulationCalendar(calendar);
+	// Format time as "ma 6.1. 07:45", or "D1 07:45" without a start date
+	const formatTime = simulationCalendar.timeLabel;
+
+	const eventTypes = useMemo(
+		() => Array.from(new Set(trace.map((entry) => entry.event))).sort(),
+		[trace]
+	);
+	const filteredTrace = useMemo(
+		() => filterTrace(trace, filter),
+		[trace, filter]
+	);
+
+	const updateFilter = (changes: Partial<TraceFilter>) =>
+		setFilter((prev) => ({ ...prev, ...changes }));
+
+	// Day inputs are 1-based and inclusive; with a calendar start date they
+	// take dates instead
+	const dayInputType = simulationCalendar.hasDates ? "date" : "number";
+	const handleDayChange = (key: "fromTime" | "toTime", value: string) => {
+		if (value === "") {
+			updateFilter({ [key]: undefined });
+			return;
+		}
+		const day = simulationCalendar.hasDates
+			? (simulationCalendar.dayOf(value) ?? 0) + 1
+			: Math.max(1, Math.round(Number(value) || 1));
+		updateFilter({
+			[key]: key === "fromTime" ? (day - 1) * 1440 : day * 1440 - 1e-9,
+		});
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Tapahtumaloki</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+					<div>
+						<Label htmlFor="trace-patient" className="text-xs">
+							Potilas
+						</Label>
+						<Input
+							id="trace-patient"
+							placeholder="Esim. E-1"
+							value={filter.patientId || ""}
+							onChange={(e) =>
+								updateFilter({ patientId: e.target.value || undefined })
+							}
+						/>
+					</div>
+					<div>
+						<Label className="text-xs">Tapahtuma</Label>
+						<Select
+							value={filter.event || ALL_EVENTS}
+							onValueChange={(value) =>
+								updateFilter({
+									event:
+										value === ALL_EVENTS
+											? undefined
+											: (value as SimulationEvent["type"]),
+								})
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_EVENTS}>Kaikki</SelectItem>
+								{eventTypes.map((type) => (
+									<SelectItem key={type} value={type}>
+										{type}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div>
+						<Label htmlFor="trace-resource" className="text-xs">
+							Resurssi
+						</Label>
+						<Input
+							id="trace-resource"
+							placeholder="Esim. OR-2"
+							value={filter.resourceId || ""}
+							onChange={(e) =>
+								updateFilter({ resourceId: e.target.value || undefined })
+							}
+						/>
+					</div>
+					<div>
+						<Label htmlFor="trace-from" className="text-xs">
+							Päivästä
+						</Label>
+						<Input
+							id="trace-from"
+							type={dayInputType}
+							min={simulationCalendar.dateOf(0) ?? 1}
+							onChange={(e) => handleDayChange("fromTime", e.target.value)}
+						/>
+					</div>
+					<div>
+						<Label htmlFor="trace-to" className="text-xs">
+							Päivään
+						</Label>
+						<Input
+							id="trace-to"
+							type={dayInputType}
+							min={simulationCalendar.dateOf(0) ?? 1}
+							onChange={(e) => handleDayChange("toTime", e.target.value)}
+						/>
+					</div>
+				</div>
+
+				<div className="flex items-center justify-between">
+					<p className="text-sm text-muted-foreground">
+						{filteredTrace.length > MAX_VISIBLE_ROWS
+							? `Näytetään ${MAX_VISIBLE_ROWS} / ${filteredTrace.length} riviä. Vienti sisältää kaikki suodatetut rivit.`
+							: `${filteredTrace.length} riviä`}
+					</p>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() =>
+								downloadFile(
+									traceToCsv(filteredTrace, calendar),
+									"tapahtumaloki.csv",
+									"text/csv;charset=utf-8;"
+								)
+							}
+						>
+							Lataa CSV
+						</Button>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() =>
+								downloadFile(
+									traceToJsonl(filteredTrace),
+									"tapahtumaloki.jsonl",
+									"application/x-ndjson"
+								)
+							}
+						>
+							Lataa JSONL
+						</Button>
+					</div>
+				</div>
+
+				<div className="max-h-[500px] overflow-auto border rounded">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Aika</TableHead>
+								<TableHead>Tapahtuma</TableHead>
+								<TableHead>Potilas</TableHead>
+								<TableHead>Luokka</TableHead>
+								<TableHead>Resurssi</TableHead>
+								<TableHead>Tilasiirtymä</TableHead>
+								<TableHead title="Jonot: sali / P1 / P2 / osasto / hoitaja">
+									Jonot
+								</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{filteredTrace.slice(0, MAX_VISIBLE_ROWS).map((entry, index) => (
+								<TableRow key={index}>
+									<TableCell className="whitespace-nowrap">
+										{formatTime(entry.time)}
+									</TableCell>
+									<TableCell>{entry.event}</TableCell>
+									<TableCell>{entry.patientId || "-"}</TableCell>
+									<TableCell>{entry.patientClassId || "-"}</TableCell>
+									<TableCell>{entry.resourceId || "-"}</TableCell>
+									<TableCell className="whitespace-nowrap">
+										{entry.toState
+											? `${entry.fromState || "-"} → ${entry.toState}`
+											: "-"}
+									</TableCell>
+									<TableCell className="whitespace-nowrap">
+										{entry.queues.or} / {entry.queues.pacu1} /{" "}
+										{entry.queues.pacu2} / {entry.queues.ward} /{" "}
+										{entry.queues.nurse}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default EventTraceTable;
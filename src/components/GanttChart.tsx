@@ -1,6 +1,12 @@
 import React, { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { PatientClass, SurgeryCase } from "@/lib/simulation";
+import {
+	CalendarParams,
+	DestinationUnitResults,
+	PatientClass,
+	SurgeryCase,
+} from "@/lib/simulation";
+import { createSimulationCalendar } from "@/lib/calendar";
 import {
 	LineChart,
 	Line,
@@ -14,27 +20,29 @@ import {
 interface GanttChartProps {
 	surgeries: SurgeryCase[];
 	patientClasses: PatientClass[];
+	unitResults?: Record<string, DestinationUnitResults>; // Labels ward markers
+	calendar?: CalendarParams; // Labels times with real dates
 }
 
-// Helper function to format time as HH:MM
-const formatTime = (minutes: number): string => {
-	const days = Math.floor(minutes / 1440); // 1440 minutes in a day
-	const dayMinutes = minutes % 1440;
-	const hours = Math.floor(dayMinutes / 60);
-	const mins = Math.floor(dayMinutes % 60);
-	return `D${days + 1} ${hours.toString().padStart(2, "0")}:${mins
-		.toString()
-		.padStart(2, "0")}`;
-};
-
 const GanttChart: React.FC<GanttChartProps> = ({
 	surgeries,
 	patientClasses,
+	unitResults = {},
+	calendar,
 }) => {
+	// Format time as "ma 6.1. 07:45", or "D1 07:45" without a start date
+	const formatTime = useMemo(
+		() => createSimulationCalendar(calendar).timeLabel,
+		[calendar]
+	);
+
 	if (!surgeries || surgeries.length === 0) {
 		return <p>Ei leikkauksia näytettäväksi.</p>;
 	}
 
+	// With a single ward the marker keeps its plain "O" label
+	const labelUnits = Object.keys(unitResults).length > 1;
+
 	// Process surgeries to create Gantt chart data
 	const processedSurgeries = surgeries
 		.filter(
@@ -131,7 +139,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
 		});
 
 		return occupancyData;
-	}, [surgeries]);
+	}, [surgeries, formatTime]);
 
 	return (
 		<div className="space-y-6">
@@ -260,6 +268,9 @@ const GanttChart: React.FC<GanttChartProps> = ({
 										((wardStart + 30 - wardStart) / totalDuration) * 100; // Just show a marker
 									const wardStartPos =
 										((wardStart - timelineStart) / totalDuration) * 100;
+									const unitId = surgery.destinationUnitId;
+									const unitName =
+										(unitId && unitResults[unitId]?.name) || "Osasto";
 
 									return (
 										<div key={surgery.id} className="flex items-center text-sm">
@@ -352,10 +363,10 @@ const GanttChart: React.FC<GanttChartProps> = ({
 															left: `${wardStartPos}%`,
 															width: `${wardWidth}%`,
 														}}
-														title={`Ward: ${formatTime(wardStart)}`}
+														title={`${unitName}: ${formatTime(wardStart)}`}
 													>
 														<span className="text-white text-xs truncate px-1">
-															O
+															{labelUnits && unitId ? unitId : "O"}
 														</span>
 													</div>
 												)}
@@ -0,0 +1,127 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { HoldingParams } from "@/lib/simulation";
+import { DistributionSpec, distributionMean } from "@/lib/distributions";
+
+interface HoldingSettingsProps {
+	holdingParams?: HoldingParams;
+	phase2Beds: number;
+	onHoldingParamsChange: (holdingParams: HoldingParams) => void;
+}
+
+type NormalSpec = Extract<DistributionSpec, { type: "normal" }>;
+
+const defaultHoldingParams: HoldingParams = {
+	enabled: false,
+	bays: 4,
+	prepDurationDistribution: { type: "normal", mean: 30, stdDev: 10 },
+};
+
+// Preparation time is edited as a normal distribution. Other distributions,
+// e.g. from a saved scenario, are shown by their mean.
+const asNormal = (spec: DistributionSpec): NormalSpec =>
+	spec.type === "normal"
+		? spec
+		: { type: "normal", mean: Math.round(distributionMean(spec)), stdDev: 0 };
+
+const HoldingSettings: React.FC<HoldingSettingsProps> = ({
+	holdingParams,
+	phase2Beds,
+	onHoldingParamsChange,
+}) => {
+	const current = holdingParams || defaultHoldingParams;
+	const handleChange = (changes: Partial<HoldingParams>) =>
+		onHoldingParamsChange({ ...current, ...changes });
+
+	const prep = asNormal(current.prepDurationDistribution);
+	const updatePrep = (field: "mean" | "stdDev", value: string) =>
+		handleChange({
+			prepDurationDistribution: {
+				...prep,
+				[field]: Math.max(0, Math.round(Number(value) || 0)),
+			},
+		});
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Leikkausta edeltävä odotustila</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex items-center space-x-2">
+					<Switch
+						id="holdingEnabled"
+						checked={current.enabled}
+						onCheckedChange={(checked) => handleChange({ enabled: checked })}
+					/>
+					<Label htmlFor="holdingEnabled">
+						Elektiiviset potilaat valmistellaan odotustilassa
+					</Label>
+				</div>
+
+				{current.enabled && (
+					<>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="holdingShared"
+								checked={!!current.sharedWithPacuPhase2}
+								onCheckedChange={(checked) =>
+									handleChange({ sharedWithPacuPhase2: checked })
+								}
+							/>
+							<Label htmlFor="holdingShared">
+								Yhteiset paikat heräämön Phase II:n kanssa
+							</Label>
+						</div>
+
+						<div className="grid grid-cols-[1fr_6rem] gap-2 items-center">
+							<Label htmlFor="holdingBays">Odotuspaikkoja</Label>
+							{current.sharedWithPacuPhase2 ? (
+								<span className="text-sm text-center">{phase2Beds}</span>
+							) : (
+								<Input
+									id="holdingBays"
+									type="number"
+									min={0}
+									value={current.bays}
+									onChange={(e) =>
+										handleChange({
+											bays: Math.max(0, Math.round(Number(e.target.value) || 0)),
+										})
+									}
+								/>
+							)}
+							<Label htmlFor="prepMean">Valmisteluaika, keskiarvo (min)</Label>
+							<Input
+								id="prepMean"
+								type="number"
+								min={0}
+								value={prep.mean}
+								onChange={(e) => updatePrep("mean", e.target.value)}
+							/>
+							<Label htmlFor="prepStdDev">Valmisteluaika, hajonta (min)</Label>
+							<Input
+								id="prepStdDev"
+								type="number"
+								min={0}
+								value={prep.stdDev}
+								onChange={(e) => updatePrep("stdDev", e.target.value)}
+							/>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Potilas saa paikan saapuessaan ja pitää sen leikkauksen alkuun;
+							leikkaussalin jonoon hän pääsee vasta valmistelun jälkeen.
+							Yhteisillä paikoilla vapautuva paikka annetaan ensin Phase II
+							-potilaalle. Päivystyspotilaat menevät suoraan saliin.
+						</p>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default HoldingSettings;
@@ -1,25 +1,21 @@
 
 import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { PatientClass, SurgeryCase } from '@/lib/simulation';
+import { CalendarParams, PatientClass, SurgeryCase } from '@/lib/simulation';
+import { createSimulationCalendar } from '@/lib/calendar';
 import { Badge } from "@/components/ui/badge";
 
 interface ORScheduleChartProps {
   surgeries: SurgeryCase[];
   orCount?: number;
   patientClasses?: PatientClass[];
+  calendar?: CalendarParams; // Labels times with real dates
 }
 
-// Helper function to format time as HH:MM
-const formatTime = (minutes: number): string => {
-  const days = Math.floor(minutes / 1440); // 1440 minutes in a day
-  const dayMinutes = minutes % 1440;
-  const hours = Math.floor(dayMinutes / 60);
-  const mins = Math.floor(dayMinutes % 60);
-  return `D${days+1} ${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
-};
+const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount = 5, patientClasses = [], calendar }) => {
+  // Format time as "ma 6.1. 07:45", or "D1 07:45" without a start date
+  const formatTime = createSimulationCalendar(calendar).timeLabel;
 
-const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount = 5, patientClasses = [] }) => {
   if (!surgeries || surgeries.length === 0) {
     return <p>Ei leikkauksia näytettäväksi.</p>;
   }
@@ -44,6 +40,8 @@ const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount =
     return grouped;
   }, [surgeries]);
 
+  const hasTurnovers = surgeries.some(s => s.orTurnoverEndTime !== undefined);
+
   // Calculate the overall time range for visualization
   const timeRange = useMemo(() => {
     let minTime = Infinity;
@@ -56,6 +54,9 @@ const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount =
       if (surgery.orEndTime !== undefined) {
         maxTime = Math.max(maxTime, surgery.orEndTime);
       }
+      if (surgery.orTurnoverEndTime !== undefined) {
+        maxTime = Math.max(maxTime, surgery.orTurnoverEndTime);
+      }
     });
     
     // Add some padding
@@ -95,8 +96,21 @@ const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount =
                     })}
                   </div>
                   
-                  {/* Surgeries for this OR */}
+                  {/* Surgeries for this OR, each followed by its turnover */}
                   <div className="relative h-16 bg-gray-50 rounded">
+                    {orSurgeries.map(surgery => {
+                      if (surgery.orTurnoverStartTime === undefined || surgery.orTurnoverEndTime === undefined) return null;
+                      const startPos = ((surgery.orTurnoverStartTime - timeRange.minTime) / timeRange.totalDuration) * 100;
+                      const width = ((surgery.orTurnoverEndTime - surgery.orTurnoverStartTime) / timeRange.totalDuration) * 100;
+                      return (
+                        <div
+                          key={`${surgery.id}-turnover`}
+                          className="absolute top-0 h-full rounded border border-dashed border-gray-400 bg-gray-200"
+                          style={{ left: `${startPos}%`, width: `${width}%` }}
+                          title={`Vaihto: ${formatTime(surgery.orTurnoverStartTime)} - ${formatTime(surgery.orTurnoverEndTime)}`}
+                        />
+                      );
+                    })}
                     {orSurgeries.map(surgery => {
                       const orStart = surgery.orStartTime || 0;
                       const orEnd = surgery.orEndTime || orStart;
@@ -137,6 +151,11 @@ const ORScheduleChart: React.FC<ORScheduleChartProps> = ({ surgeries, orCount =
                     {pc.name}
                   </Badge>
                 ))}
+                {hasTurnovers && (
+                  <Badge variant="outline" className="border-dashed border-gray-400 bg-gray-200">
+                    Salin vaihto
+                  </Badge>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,481 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronUp, PlusCircle, Trash2, X } from "lucide-react";
+import {
+	DestinationUnit,
+	PATHWAY_STAGE_KINDS,
+	PATHWAY_STAGE_LABELS,
+	PathwayBranch,
+	PathwayStage,
+	PathwayStageKind,
+	PatientClass,
+	PatientPathway,
+	defaultPathway,
+	pathwayProblems,
+} from "@/lib/simulation";
+import { distributionMean } from "@/lib/distributions";
+
+interface PathwayEditorProps {
+	patientClasses: PatientClass[];
+	units?: DestinationUnit[];
+	onPatientClassesChange: (patientClasses: PatientClass[]) => void;
+}
+
+const STAGE_ROUTING = "routing";
+
+// Stages with a duration of their own; the OR takes the case's duration
+const hasDuration = (kind: PathwayStageKind) =>
+	kind !== "or" && kind !== "home";
+const hasUnit = (kind: PathwayStageKind) =>
+	kind === "ward" || kind === "stepDown";
+
+const stageLabel = (pathway: PatientPathway, stageId: string) => {
+	const index = pathway.stages.findIndex((stage) => stage.id === stageId);
+	return index < 0
+		? stageId
+		: `${index + 1}. ${PATHWAY_STAGE_LABELS[pathway.stages[index].kind]}`;
+};
+
+const newStageId = (pathway: PatientPathway, kind: PathwayStageKind) => {
+	let counter = pathway.stages.length + 1;
+	while (pathway.stages.some((stage) => stage.id === `${kind}-${counter}`))
+		counter++;
+	return `${kind}-${counter}`;
+};
+
+// Durations are edited as a normal distribution; an empty mean leaves the
+// class or unit default
+const durationField = (
+	stage: PathwayStage,
+	field: "mean" | "stdDev"
+): number | "" => {
+	const spec = stage.durationDistribution;
+	if (!spec) return "";
+	if (spec.type === "normal") return spec[field];
+	return field === "mean" ? Math.round(distributionMean(spec)) : 0;
+};
+
+// Branches of one stage; without any the following stage is shown
+const BranchList: React.FC<{
+	pathway: PatientPathway;
+	index: number;
+	onChange: (next: PathwayBranch[]) => void;
+}> = ({ pathway, index, onChange }) => {
+	const stage = pathway.stages[index];
+	const branches = stage.next || [];
+	const following = pathway.stages[index + 1];
+	const updateBranch = (b: number, changes: Partial<PathwayBranch>) =>
+		onChange(
+			branches.map((branch, o) =>
+				o === b ? { ...branch, ...changes } : branch
+			)
+		);
+
+	return (
+		<div className="space-y-1">
+			{branches.map((branch, b) => (
+				<div key={b} className="flex items-center gap-1">
+					<Select
+						value={branch.stageId}
+						onValueChange={(stageId) => updateBranch(b, { stageId })}
+					>
+						<SelectTrigger className="w-44">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{pathway.stages
+								.filter((target) => target.id !== stage.id)
+								.map((target) => (
+									<SelectItem key={target.id} value={target.id}>
+										{stageLabel(pathway, target.id)}
+									</SelectItem>
+								))}
+						</SelectContent>
+					</Select>
+					<Input
+						type="number"
+						min={0}
+						max={100}
+						className="w-20"
+						value={Math.round(branch.probability * 100)}
+						onChange={(e) =>
+							updateBranch(b, {
+								probability:
+									Math.min(100, Math.max(0, Number(e.target.value) || 0)) /
+									100,
+							})
+						}
+					/>
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-6 w-6"
+						aria-label="Poista haara"
+						onClick={() => onChange(branches.filter((_, o) => o !== b))}
+					>
+						<X className="h-4 w-4" />
+					</Button>
+				</div>
+			))}
+			{branches.length === 0 && (
+				<span className="text-xs text-muted-foreground">
+					{following
+						? stageLabel(pathway, following.id)
+						: PATHWAY_STAGE_LABELS.home}
+				</span>
+			)}
+			<Button
+				variant="link"
+				size="sm"
+				className="h-6 px-0"
+				onClick={() =>
+					onChange([
+						...branches,
+						{
+							stageId: (
+								following ||
+								pathway.stages.find((target) => target.id !== stage.id) ||
+								stage
+							).id,
+							probability: branches.length ? 0 : 1,
+						},
+					])
+				}
+			>
+				Lisää haara
+			</Button>
+		</div>
+	);
+};
+
+const PathwayEditor: React.FC<PathwayEditorProps> = ({
+	patientClasses,
+	units,
+	onPatientClassesChange,
+}) => {
+	const [selectedClassId, setSelectedClassId] = useState(
+		patientClasses[0]?.id || ""
+	);
+	const patientClass =
+		patientClasses.find((pc) => pc.id === selectedClassId) ||
+		patientClasses[0];
+	if (!patientClass) return null;
+	const pathway = patientClass.pathway;
+	const problems = pathway ? pathwayProblems(pathway) : [];
+
+	const setPathway = (newPathway: PatientPathway | undefined) =>
+		onPatientClassesChange(
+			patientClasses.map((pc) =>
+				pc.id === patientClass.id ? { ...pc, pathway: newPathway } : pc
+			)
+		);
+
+	const setStages = (stages: PathwayStage[]) => setPathway({ stages });
+
+	const updateStage = (index: number, changes: Partial<PathwayStage>) =>
+		pathway &&
+		setStages(
+			pathway.stages.map((stage, i) =>
+				i === index ? { ...stage, ...changes } : stage
+			)
+		);
+
+	const moveStage = (index: number, offset: number) => {
+		if (!pathway) return;
+		const stages = [...pathway.stages];
+		const [stage] = stages.splice(index, 1);
+		stages.splice(index + offset, 0, stage);
+		setStages(stages);
+	};
+
+	// Branches to a removed stage are removed with it
+	const removeStage = (index: number) =>
+		pathway &&
+		setStages(
+			pathway.stages
+				.filter((_, i) => i !== index)
+				.map((stage) => ({
+					...stage,
+					next: stage.next?.filter(
+						(branch) => branch.stageId !== pathway.stages[index].id
+					),
+				}))
+		);
+
+	const addStage = () =>
+		pathway &&
+		setStages([
+			...pathway.stages,
+			{ id: newStageId(pathway, "ward"), kind: "ward" },
+		]);
+
+	const updateDuration = (
+		index: number,
+		field: "mean" | "stdDev",
+		value: string
+	) => {
+		if (!pathway) return;
+		const stage = pathway.stages[index];
+		if (field === "mean" && value === "") {
+			updateStage(index, { durationDistribution: undefined });
+			return;
+		}
+		const mean = Number(durationField(stage, "mean")) || 0;
+		const stdDev = Number(durationField(stage, "stdDev")) || 0;
+		const number = Math.max(0, Math.round(Number(value) || 0));
+		updateStage(index, {
+			durationDistribution: {
+				type: "normal",
+				mean: field === "mean" ? number : mean,
+				stdDev: field === "stdDev" ? number : stdDev,
+			},
+		});
+	};
+
+	const updateBranches = (index: number, next: PathwayBranch[]) =>
+		updateStage(index, { next: next.length ? next : undefined });
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Hoitopolku</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="grid gap-4 md:grid-cols-[16rem_1fr] items-end">
+					<div className="space-y-1">
+						<Label htmlFor="pathwayClass">Potilasluokka</Label>
+						<Select
+							value={patientClass.id}
+							onValueChange={setSelectedClassId}
+						>
+							<SelectTrigger id="pathwayClass">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{patientClasses.map((pc) => (
+									<SelectItem key={pc.id} value={pc.id}>
+										{pc.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="flex flex-wrap gap-2">
+						<Button
+							variant="outline"
+							onClick={() => setPathway(defaultPathway(patientClass))}
+							disabled={!!pathway}
+						>
+							Muokkaa polkua
+						</Button>
+						<Button
+							variant="outline"
+							onClick={() => setPathway(undefined)}
+							disabled={!pathway}
+						>
+							Palauta oletuspolku
+						</Button>
+					</div>
+				</div>
+
+				{!pathway ? (
+					<p className="text-sm">
+						Oletuspolku:{" "}
+						{defaultPathway(patientClass).stages
+							.map((stage) => PATHWAY_STAGE_LABELS[stage.kind])
+							.join(" → ")}{" "}
+						→ {PATHWAY_STAGE_LABELS.home}
+					</p>
+				) : (
+					<>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>#</TableHead>
+									<TableHead>Vaihe</TableHead>
+									<TableHead>Yksikkö</TableHead>
+									<TableHead>Kesto ka / hajonta (min)</TableHead>
+									<TableHead>Seuraava vaihe (%)</TableHead>
+									<TableHead></TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{pathway.stages.map((stage, index) => (
+									<TableRow key={stage.id}>
+										<TableCell>{index + 1}</TableCell>
+										<TableCell>
+											<Select
+												value={stage.kind}
+												onValueChange={(kind: PathwayStageKind) =>
+													updateStage(index, {
+														kind,
+														unitId: hasUnit(kind) ? stage.unitId : undefined,
+														durationDistribution: hasDuration(kind)
+															? stage.durationDistribution
+															: undefined,
+													})
+												}
+											>
+												<SelectTrigger className="w-44">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{PATHWAY_STAGE_KINDS.map((kind) => (
+														<SelectItem key={kind} value={kind}>
+															{PATHWAY_STAGE_LABELS[kind]}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</TableCell>
+										<TableCell>
+											{hasUnit(stage.kind) && units && units.length > 0 && (
+												<Select
+													value={stage.unitId || STAGE_ROUTING}
+													onValueChange={(value) =>
+														updateStage(index, {
+															unitId:
+																value === STAGE_ROUTING ? undefined : value,
+														})
+													}
+												>
+													<SelectTrigger className="w-40">
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														<SelectItem value={STAGE_ROUTING}>
+															{stage.kind === "stepDown"
+																? "Ensimmäinen valvonta"
+																: "Luokan jakauma"}
+														</SelectItem>
+														{units.map((unit) => (
+															<SelectItem key={unit.id} value={unit.id}>
+																{unit.name}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											)}
+										</TableCell>
+										<TableCell>
+											{hasDuration(stage.kind) && (
+												<div className="flex gap-1">
+													<Input
+														type="number"
+														min={0}
+														placeholder="luokka"
+														className="w-20"
+														value={durationField(stage, "mean")}
+														onChange={(e) =>
+															updateDuration(index, "mean", e.target.value)
+														}
+													/>
+													<Input
+														type="number"
+														min={0}
+														className="w-20"
+														disabled={!stage.durationDistribution}
+														value={durationField(stage, "stdDev")}
+														onChange={(e) =>
+															updateDuration(index, "stdDev", e.target.value)
+														}
+													/>
+												</div>
+											)}
+										</TableCell>
+										<TableCell>
+											{stage.kind !== "home" && (
+												<BranchList
+													pathway={pathway}
+													index={index}
+													onChange={(next) => updateBranches(index, next)}
+												/>
+											)}
+										</TableCell>
+										<TableCell>
+											<div className="flex">
+												<Button
+													variant="ghost"
+													size="icon"
+													className="h-6 w-6"
+													aria-label="Siirrä ylös"
+													disabled={index === 0}
+													onClick={() => moveStage(index, -1)}
+												>
+													<ChevronUp className="h-4 w-4" />
+												</Button>
+												<Button
+													variant="ghost"
+													size="icon"
+													className="h-6 w-6"
+													aria-label="Siirrä alas"
+													disabled={index === pathway.stages.length - 1}
+													onClick={() => moveStage(index, 1)}
+												>
+													<ChevronDown className="h-4 w-4" />
+												</Button>
+												<Button
+													variant="ghost"
+													size="icon"
+													className="h-6 w-6"
+													aria-label="Poista vaihe"
+													onClick={() => removeStage(index)}
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</div>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+						<Button variant="outline" onClick={addStage}>
+							<PlusCircle className="mr-2 h-4 w-4" />
+							Lisää vaihe
+						</Button>
+						{problems.length > 0 && (
+							<div className="text-sm text-destructive">
+								<p className="font-medium">
+									Polkua ei voi käyttää, joten simulaatio käyttää
+									oletuspolkua:
+								</p>
+								<ul className="list-disc pl-5">
+									{problems.map((problem) => (
+										<li key={problem}>{problem}</li>
+									))}
+								</ul>
+							</div>
+						)}
+					</>
+				)}
+				<p className="text-xs text-muted-foreground">
+					Ilman haaroja potilas jatkaa listan seuraavaan vaiheeseen ja viimeisen
+					vaiheen jälkeen kotiin. Odotustila on käytössä vain, kun se on
+					asetettu resursseissa, ja koskee elektiivisiä potilaita. Kesto
+					korvaa luokan vaiheen keston tai osaston hoitoajan; leikkauksen kesto
+					tulee leikkauslistalta. Vaiheen 2 ohitus koskee polun vaihetta 2.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default PathwayEditor;
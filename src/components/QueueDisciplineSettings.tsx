@@ -0,0 +1,121 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	QueueDiscipline,
+	QueueDisciplineParams,
+	WaitingQueueId,
+} from "@/lib/simulation";
+
+interface QueueDisciplineSettingsProps {
+	queueDisciplines?: QueueDisciplineParams;
+	onQueueDisciplinesChange: (queueDisciplines: QueueDisciplineParams) => void;
+}
+
+const waitingQueueLabels: Record<WaitingQueueId, string> = {
+	or: "Leikkaussali",
+	pacu1: "Heräämö, vaihe 1",
+	pacu2: "Heräämö, vaihe 2",
+	ward: "Vuodeosasto",
+	nurse: "Heräämöhoitaja",
+};
+
+const disciplineLabels: Record<QueueDiscipline, string> = {
+	priority: "Prioriteetti",
+	fifo: "Saapumisjärjestys (FIFO)",
+	sept: "Lyhin odotettu kesto ensin",
+	emergencyFirst: "Päivystys ensin",
+	agingPriority: "Prioriteetti ja odotusaika",
+};
+
+const QueueDisciplineSettings: React.FC<QueueDisciplineSettingsProps> = ({
+	queueDisciplines,
+	onQueueDisciplinesChange,
+}) => {
+	const handleChange = (changes: Partial<QueueDisciplineParams>) =>
+		onQueueDisciplinesChange({ ...queueDisciplines, ...changes });
+
+	const usesAging = (Object.keys(waitingQueueLabels) as WaitingQueueId[]).some(
+		(queueId) => queueDisciplines?.[queueId] === "agingPriority"
+	);
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Jonojen palvelujärjestys</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{(Object.keys(waitingQueueLabels) as WaitingQueueId[]).map(
+					(queueId) => (
+						<div
+							key={queueId}
+							className="grid grid-cols-[1fr_16rem] gap-2 items-center"
+						>
+							<Label htmlFor={`queue-${queueId}`}>
+								{waitingQueueLabels[queueId]}
+							</Label>
+							<Select
+								value={queueDisciplines?.[queueId] || "priority"}
+								onValueChange={(value) =>
+									handleChange({ [queueId]: value as QueueDiscipline })
+								}
+							>
+								<SelectTrigger id={`queue-${queueId}`}>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.entries(disciplineLabels).map(
+										([discipline, label]) => (
+											<SelectItem key={discipline} value={discipline}>
+												{label}
+											</SelectItem>
+										)
+									)}
+								</SelectContent>
+							</Select>
+						</div>
+					)
+				)}
+
+				{usesAging && (
+					<div className="grid grid-cols-[1fr_6rem] gap-2 items-center">
+						<Label htmlFor="agingMinutesPerLevel">
+							Odotusaika yhtä prioriteettitasoa kohden (min)
+						</Label>
+						<Input
+							id="agingMinutesPerLevel"
+							type="number"
+							min={1}
+							value={queueDisciplines?.agingMinutesPerLevel || 60}
+							onChange={(e) =>
+								handleChange({
+									agingMinutesPerLevel: Math.max(
+										1,
+										Math.round(Number(e.target.value) || 0)
+									),
+								})
+							}
+						/>
+					</div>
+				)}
+				<p className="text-xs text-muted-foreground">
+					Tasatilanteessa palvellaan jonoon ensin tullut. Päivystys ensin
+					palvelee päivystyspotilaat ennen muita, kumpikin ryhmä
+					saapumisjärjestyksessä. Odotusaikaan perustuva prioriteetti nousee
+					tasolla aina annetun odotusajan jälkeen, jotta matalan prioriteetin
+					potilaat eivät jää jonoon.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default QueueDisciplineSettings;
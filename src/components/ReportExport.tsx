@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SimulationResults, SimulationParams, PatientClass } from '@/lib/simulation';
 import { toast } from '@/components/ui/use-toast';
+import { createSimulationCalendar } from '@/lib/calendar';
 
 interface ReportExportProps {
   results: SimulationResults | null;
@@ -100,6 +101,16 @@ const ReportExport: React.FC<ReportExportProps> = ({
       csvContent += `"Hoitajat","${params.nurses}"\n`;
       csvContent += `"Hoitaja-potilas suhde","${params.nursePatientRatio}"\n`;
       csvContent += `"Simulaatiopäivät","${params.simulationDays}"\n`;
+      const calendar = createSimulationCalendar(params.calendar);
+      if (calendar.hasDates) {
+        const closures = Array.from({ length: params.simulationDays }, (_, day) => day)
+          .filter(calendar.isClosed)
+          .map(day => `${calendar.dayLabel(day)} (${calendar.closureOf(day)})`);
+        csvContent += `"Simulaatiojakso","${calendar.dayLabel(0)} – ${calendar.dayLabel(params.simulationDays - 1)}"\n`;
+        csvContent += `"Suljetut päivät","${closures.join(', ') || '-'}"\n`;
+      }
+      csvContent += `"Satunnaislukusiemen","${results!.seed}"\n`;
+      csvContent += `"Lämmittelyjakso (päivää)","${params.warmupDays || 0}"\n`;
       csvContent += `\n`;
     }
     
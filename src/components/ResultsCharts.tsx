@@ -13,14 +13,28 @@ import {
 	PieChart,
 	Pie,
 	Cell,
+	ErrorBar,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
 import {
 	SimulationResults,
 	PatientClass,
 	SimulationParams,
+	PeriodResults,
+	QueueDiscipline,
+	WaitingQueueId,
+	WardDelayCause,
 } from "@/lib/simulation";
+import { WEEKDAY_LABELS, createSimulationCalendar } from "@/lib/calendar";
 
 interface ResultsChartsProps {
 	results: SimulationResults;
@@ -35,6 +49,21 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 }) => {
 	if (!results) return <div>No results to display.</div>;
 
+	// Across-replication statistics. With a single run these fall back to the
+	// run's own values and no ± range is shown.
+	const summary = results.replicationSummary;
+	const kpiMean = (key: string, fallback: number) =>
+		summary?.kpis[key]?.mean ?? fallback;
+	const kpiHalfWidth = (key: string) => summary?.kpis[key]?.halfWidth ?? 0;
+	const formatRange = (key: string, scale = 1, digits = 0, unit = "") =>
+		summary ? ` ± ${(kpiHalfWidth(key) * scale).toFixed(digits)}${unit}` : "";
+	const formatEuro = (value: number) =>
+		new Intl.NumberFormat("fi-FI", {
+			style: "currency",
+			currency: "EUR",
+		}).format(value);
+	const simulationCalendar = createSimulationCalendar(params.calendar);
+
 	// Helper to convert time series data to 24-hour format for charts
 	const formatTimeSeriesFor24HourView = (
 		data: Array<{ time: number; count: number }>
@@ -104,6 +133,13 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 	const wardData = formatTimeSeriesFor24HourView(
 		results.wardOccupancyData || []
 	);
+	// Holding patients, with the phase 2 patients of the shared beds
+	const holdingData = formatTimeSeriesFor24HourView(
+		results.holdingOccupancyData || []
+	).map((point, hour) => ({ ...point, pacu2: pacu2Data[hour].count }));
+	const holdingEnabled = !!params.holdingParams?.enabled;
+	const sharedHolding =
+		holdingEnabled && !!params.holdingParams?.sharedWithPacuPhase2;
 	const nurseData = processNurseData();
 
 	// Prepare data for OR utilization pie chart
@@ -114,6 +150,31 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 		})
 	);
 
+	const cancellationReasonLabels: Record<string, string> = {
+		patient_no_show: "Potilas ei saapunut",
+		medical_reason: "Lääketieteellinen syy",
+		resource_unavailable: "Resurssi ei käytettävissä",
+		rescheduled: "Siirretty",
+		no_ward_bed: "Ei ennustettua osastopaikkaa",
+		session_overrun: "Salivuoron ylitys",
+		pacu_saturated: "Heräämö täynnä",
+		emergency_bump: "Päivystys ohitti",
+	};
+	// Patient-minutes waited in PACU for the ward, split by what held them
+	const wardDelayCauses: Array<[WardDelayCause, string]> = [
+		["admissionWindow", "vastaanottoajat"],
+		["capacityCalendar", "suljetut paikat"],
+		["dischargeTiming", "kotiutusajat"],
+		["bedShortage", "paikkapula"],
+	];
+	const wardDelayTotal = Object.values(
+		results.wardTransferDelayByCause || {}
+	).reduce((sum, minutes) => sum + minutes, 0);
+	const backlogData = (results.rescheduleBacklogData || []).map((point) => ({
+		day: +(point.time / 1440).toFixed(2),
+		count: point.count,
+	}));
+
 	// Colors for charts
 	const COLORS = [
 		"#0088FE",
@@ -262,6 +323,29 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 						</TabsContent>
 
 						<TabsContent value="shifts" className="pt-4">
+							<div className="grid grid-cols-3 gap-4 mb-4">
+								<div>
+									<h4 className="font-medium mb-2">Pidetyt tauot</h4>
+									<div className="text-2xl font-bold">
+										{results.nurseBreaksTaken || 0}
+									</div>
+								</div>
+								<div>
+									<h4 className="font-medium mb-2">Väliin jääneet tauot</h4>
+									<div className="text-2xl font-bold">
+										{results.nurseBreaksMissed || 0}
+									</div>
+								</div>
+								<div>
+									<h4 className="font-medium mb-2">Potilasluovutukset</h4>
+									<div className="text-2xl font-bold">
+										{results.nurseHandoffs || 0}
+									</div>
+									<p className="text-xs text-muted-foreground">
+										Vuoron päättyessä seuraavalle hoitajalle
+									</p>
+								</div>
+							</div>
 							<div className="h-[300px]">
 								<ResponsiveContainer width="100%" height="100%">
 									<BarChart
@@ -294,6 +378,720 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 		);
 	};
 
+	// Full table of across-replication statistics for every scalar KPI
+	const renderReplicationSummary = () => {
+		if (!summary) return null;
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Toistojen luottamusvälit</CardTitle>
+					<p className="text-sm text-muted-foreground">
+						{summary.replications} toistoa, 95 %:n luottamusvälit.
+						{summary.targetMetric &&
+							(summary.targetReached
+								? ` Tavoitetarkkuus saavutettiin (${summary.targetMetric}).`
+								: ` Tavoitetarkkuutta ei saavutettu enimmäismäärällä (${summary.targetMetric}).`)}
+					</p>
+				</CardHeader>
+				<CardContent>
+					<div className="max-h-[400px] overflow-y-auto">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Tunnusluku</TableHead>
+									<TableHead className="text-right">Keskiarvo</TableHead>
+									<TableHead className="text-right">Keskihajonta</TableHead>
+									<TableHead className="text-right">95 % LV</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{Object.entries(summary.kpis).map(([key, kpi]) => (
+									<TableRow key={key}>
+										<TableCell className="font-mono text-xs">{key}</TableCell>
+										<TableCell className="text-right">
+											{kpi.mean.toFixed(2)}
+										</TableCell>
+										<TableCell className="text-right">
+											{kpi.stdDev.toFixed(2)}
+										</TableCell>
+										<TableCell className="text-right">
+											{kpi.lower.toFixed(2)} – {kpi.upper.toFixed(2)}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Occupancy, transfer delay and cost of each destination unit
+	const renderUnitResults = () => {
+		const units = Object.entries(results.unitResults || {});
+		if (units.length < 2) return null;
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Jatkohoitoyksiköt</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Yksikkö</TableHead>
+								<TableHead className="text-right">Paikat</TableHead>
+								<TableHead className="text-right">Siirrot</TableHead>
+								<TableHead className="text-right">Käyttöaste ka.</TableHead>
+								<TableHead className="text-right">Huippu</TableHead>
+								<TableHead className="text-right">Siirtoviive ka.</TableHead>
+								<TableHead className="text-right">P95</TableHead>
+								<TableHead className="text-right">Kustannus</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{units.map(([unitId, unit]) => {
+								const unitKpi = (field: string, value: number) =>
+									kpiMean(`unitResults.${unitId}.${field}`, value);
+								return (
+									<TableRow key={unitId}>
+										<TableCell>{unit.name}</TableCell>
+										<TableCell className="text-right">{unit.beds}</TableCell>
+										<TableCell className="text-right">
+											{Math.round(unitKpi("admissions", unit.admissions))}
+										</TableCell>
+										<TableCell className="text-right">
+											{Math.round(
+												unitKpi("meanOccupancy", unit.meanOccupancy) * 100
+											)}{" "}
+											%
+										</TableCell>
+										<TableCell className="text-right">
+											{Math.round(
+												unitKpi("peakOccupancy", unit.peakOccupancy) * 100
+											)}{" "}
+											%
+										</TableCell>
+										<TableCell className="text-right">
+											{Math.round(
+												unitKpi("meanTransferDelay", unit.meanTransferDelay)
+											)}{" "}
+											min
+										</TableCell>
+										<TableCell className="text-right">
+											{Math.round(
+												unitKpi("p95TransferDelay", unit.p95TransferDelay)
+											)}{" "}
+											min
+										</TableCell>
+										<TableCell className="text-right">
+											{formatEuro(unitKpi("cost", unit.cost))}
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Share of emergencies reaching the OR within their urgency target, and
+	// the electives that had to give way to them
+	const renderUrgencyResults = () => {
+		const categories = params.emergencyParams.urgencyCategories || [];
+		const counts = results.emergencyCountByUrgency || {};
+		if (categories.length === 0 && !results.displacedElectiveCount) return null;
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Päivystysten kiireellisyystavoitteet</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{categories.length > 0 && (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Luokka</TableHead>
+									<TableHead className="text-right">Tavoite</TableHead>
+									<TableHead className="text-right">Potilaita</TableHead>
+									<TableHead className="text-right">Tavoitteessa</TableHead>
+									<TableHead className="text-right">Aika saliin ka.</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{categories.map((category) => {
+									const urgencyKpi = (field: string, value: number) =>
+										kpiMean(`${field}.${category.id}`, value);
+									return (
+										<TableRow key={category.id}>
+											<TableCell>{category.name}</TableCell>
+											<TableCell className="text-right">
+												{category.targetMinutes / 60} h
+											</TableCell>
+											<TableCell className="text-right">
+												{Math.round(
+													urgencyKpi(
+														"emergencyCountByUrgency",
+														counts[category.id] || 0
+													)
+												)}
+											</TableCell>
+											<TableCell className="text-right">
+												{Math.round(
+													urgencyKpi(
+														"urgencyTargetMetRatio",
+														results.urgencyTargetMetRatio[category.id] || 0
+													) * 100
+												)}{" "}
+												%
+												{formatRange(
+													`urgencyTargetMetRatio.${category.id}`,
+													100,
+													0,
+													" %"
+												)}
+											</TableCell>
+											<TableCell className="text-right">
+												{Math.round(
+													urgencyKpi(
+														"meanTimeToORByUrgency",
+														results.meanTimeToORByUrgency[category.id] || 0
+													)
+												)}{" "}
+												min
+											</TableCell>
+										</TableRow>
+									);
+								})}
+							</TableBody>
+						</Table>
+					)}
+					<div className="grid grid-cols-3 gap-4 text-sm">
+						<div>
+							<div className="text-muted-foreground">
+								Siirtyneet elektiiviset
+							</div>
+							<div className="text-xl font-bold">
+								{Math.round(
+									kpiMean(
+										"displacedElectiveCount",
+										results.displacedElectiveCount
+									)
+								)}
+							</div>
+						</div>
+						<div>
+							<div className="text-muted-foreground">
+								Perutut elektiiviset
+							</div>
+							<div className="text-xl font-bold">
+								{Math.round(
+									kpiMean("bumpedElectiveCount", results.bumpedElectiveCount)
+								)}
+							</div>
+						</div>
+						<div>
+							<div className="text-muted-foreground">
+								Päivystyssalin avaukset
+							</div>
+							<div className="text-xl font-bold">
+								{Math.round(
+									kpiMean("onCallActivations", results.onCallActivations)
+								)}
+							</div>
+						</div>
+					</div>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Surgeon and anaesthesia team utilisation, and starts they held up
+	const renderStaffResults = () => {
+		const staffList = (params.surgicalStaff || []).filter(
+			(staff) => results.staffUtilization?.[staff.id] !== undefined
+		);
+		if (staffList.length === 0) return null;
+		const delayedStarts = kpiMean(
+			"delayedStartsByStaff",
+			results.delayedStartsByStaff
+		);
+		const delayMinutes = kpiMean(
+			"startDelayByStaffMinutes",
+			results.startDelayByStaffMinutes
+		);
+		const meanDelay = delayedStarts > 0 ? delayMinutes / delayedStarts : 0;
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Kirurgit ja anestesiatiimit</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Nimi</TableHead>
+								<TableHead>Rooli</TableHead>
+								<TableHead className="text-right">
+									Käyttöaste työajasta
+								</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{staffList.map((staff) => (
+								<TableRow key={staff.id}>
+									<TableCell>{staff.name}</TableCell>
+									<TableCell>
+										{staff.role === "surgeon" ? "Kirurgi" : "Anestesiatiimi"}
+									</TableCell>
+									<TableCell className="text-right">
+										{Math.round(
+											kpiMean(
+												`staffUtilization.${staff.id}`,
+												results.staffUtilization[staff.id]
+											) * 100
+										)}{" "}
+										%
+										{formatRange(
+											`staffUtilization.${staff.id}`,
+											100,
+											0,
+											" %"
+										)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					<p className="text-sm text-muted-foreground">
+						Tiimiä odottaneita leikkauksia {Math.round(delayedStarts)}, odotus
+						keskimäärin{" "}
+						{Math.round(meanDelay)} min, vaikka sali oli vapaana.
+					</p>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// OR time split into cases and turnovers, and bed time lost to cleaning
+	const renderCleaningResults = () => {
+		const cleaningRatio = results.cleaningTimeRatio;
+		if (!cleaningRatio || !Object.values(cleaningRatio).some((r) => r > 0))
+			return null;
+		const data = Object.keys(results.orUtilization).map((orId) => ({
+			name: orId,
+			cases:
+				kpiMean(`orUtilization.${orId}`, results.orUtilization[orId]) * 100,
+			turnover:
+				kpiMean(
+					`orTurnoverRatio.${orId}`,
+					results.orTurnoverRatio[orId] || 0
+				) * 100,
+		}));
+		const percent = (key: string, value: number) =>
+			`${(kpiMean(key, value) * 100).toFixed(1)} %${formatRange(
+				key,
+				100,
+				1,
+				" %"
+			)}`;
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Salien vaihdot ja siivous</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="h-[300px]">
+						<ResponsiveContainer width="100%" height="100%">
+							<BarChart
+								data={data}
+								margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+							>
+								<CartesianGrid strokeDasharray="3 3" />
+								<XAxis dataKey="name" />
+								<YAxis unit=" %" />
+								<Tooltip
+									formatter={(value) =>
+										typeof value === "number" ? `${value.toFixed(1)} %` : value
+									}
+								/>
+								<Legend />
+								<Bar
+									dataKey="cases"
+									name="Leikkaukset"
+									stackId="or"
+									fill="#0088FE"
+								/>
+								<Bar
+									dataKey="turnover"
+									name="Salin vaihto"
+									stackId="or"
+									fill="#A0A0A0"
+								/>
+							</BarChart>
+						</ResponsiveContainer>
+					</div>
+					<p className="text-sm text-muted-foreground">
+						Siivouksessa tai siivoojaa odottamassa: heräämöpaikat{" "}
+						{percent("cleaningTimeRatio.pacu", cleaningRatio.pacu)},
+						osastopaikat {percent("cleaningTimeRatio.ward", cleaningRatio.ward)}
+						.
+					</p>
+					{results.cleaningCrewUtilization > 0 && (
+						<p className="text-sm text-muted-foreground">
+							Siivoojien käyttöaste{" "}
+							{percent(
+								"cleaningCrewUtilization",
+								results.cleaningCrewUtilization
+							)}
+							, siivoojaa odotettiin keskimäärin{" "}
+							{Math.round(
+								kpiMean("meanCleaningWait", results.meanCleaningWait)
+							)}{" "}
+							min.
+						</p>
+					)}
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Waits in each queue by patient class, to compare queue disciplines
+	const renderWaitingByClass = () => {
+		const waitingByClass = results.waitingTimeByClass;
+		if (!waitingByClass || Object.keys(waitingByClass).length === 0)
+			return null;
+		const queueLabels: Record<WaitingQueueId, string> = {
+			or: "Sali",
+			pacu1: "Heräämö 1",
+			pacu2: "Heräämö 2",
+			ward: "Osasto",
+			nurse: "Hoitaja",
+		};
+		const queueColors: Record<WaitingQueueId, string> = {
+			or: "#0088FE",
+			pacu1: "#00C49F",
+			pacu2: "#FFBB28",
+			ward: "#FF8042",
+			nurse: "#8884D8",
+		};
+		const disciplineLabels: Record<QueueDiscipline, string> = {
+			priority: "prioriteetti",
+			fifo: "FIFO",
+			sept: "lyhin kesto ensin",
+			emergencyFirst: "päivystys ensin",
+			agingPriority: "prioriteetti ja odotusaika",
+		};
+		const queueIds = Object.keys(queueLabels) as WaitingQueueId[];
+		const className = (classId: string) =>
+			params.patientClasses.find((pc) => pc.id === classId)?.name || classId;
+		const data = Object.entries(waitingByClass).map(([classId, waits]) => ({
+			name: className(classId),
+			...Object.fromEntries(
+				queueIds.map((queueId) => [
+					queueId,
+					kpiMean(
+						`waitingTimeByClass.${classId}.${queueId}.mean`,
+						waits[queueId].mean
+					),
+				])
+			),
+		}));
+		const disciplines = params.queueDisciplines || {};
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Odotusajat potilasluokittain</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="h-[300px]">
+						<ResponsiveContainer width="100%" height="100%">
+							<BarChart
+								data={data}
+								margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+							>
+								<CartesianGrid strokeDasharray="3 3" />
+								<XAxis dataKey="name" />
+								<YAxis unit=" min" />
+								<Tooltip
+									formatter={(value) =>
+										typeof value === "number"
+											? `${value.toFixed(1)} min`
+											: value
+									}
+								/>
+								<Legend />
+								{queueIds.map((queueId) => (
+									<Bar
+										key={queueId}
+										dataKey={queueId}
+										name={queueLabels[queueId]}
+										fill={queueColors[queueId]}
+									/>
+								))}
+							</BarChart>
+						</ResponsiveContainer>
+					</div>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Potilasluokka</TableHead>
+								{queueIds.map((queueId) => (
+									<TableHead key={queueId} className="text-right">
+										{queueLabels[queueId]}
+									</TableHead>
+								))}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{Object.entries(waitingByClass).map(([classId, waits]) => (
+								<TableRow key={classId}>
+									<TableCell>{className(classId)}</TableCell>
+									{queueIds.map((queueId) => (
+										<TableCell key={queueId} className="text-right">
+											{waits[queueId].count > 0
+												? `${waits[queueId].mean.toFixed(0)} / ${waits[
+														queueId
+												  ].p95.toFixed(0)} / ${waits[queueId].max.toFixed(0)}`
+												: "–"}
+										</TableCell>
+									))}
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					<p className="text-sm text-muted-foreground">
+						Keskiarvo / 95. persentiili / enimmäisodotus minuutteina.
+						Simuloinnin päättyessä jonossa olevat potilaat on laskettu mukaan
+						tähänastisella odotuksellaan. Palvelujärjestys:{" "}
+						{queueIds
+							.map(
+								(queueId) =>
+									`${queueLabels[queueId]}: ${
+										disciplineLabels[disciplines[queueId] || "priority"]
+									}`
+							)
+							.join(", ")}
+						.
+					</p>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Throughput and load by calendar week and, per day, by weekday
+	const renderPeriodResults = () => {
+		const weekly = results.weeklyResults || [];
+		const byWeekday = results.weekdayResults || [];
+		if (weekly.length < 2) return null;
+		const percent = (value: number) => `${(value * 100).toFixed(0)} %`;
+		const weekLabel = (period: PeriodResults) =>
+			simulationCalendar.hasDates
+				? `vk ${simulationCalendar.dayLabel(period.firstDay, false)}`
+				: `Viikko ${Math.floor(period.firstDay / 7) + 1}`;
+		// Weekday counts are averaged per day, over replications when present
+		const perDay = (weekday: number, key: keyof PeriodResults) => {
+			const period = byWeekday[weekday];
+			const total = kpiMean(`weekdayResults.${weekday}.${key}`, period[key]);
+			return period.days > 0 ? total / period.days : 0;
+		};
+		const weeklyData = weekly.map((period) => ({
+			name: weekLabel(period),
+			elective: period.electiveCount,
+			emergency: period.emergencyCount,
+			cancelled: period.cancelledCount,
+		}));
+		const weekdayData = byWeekday.map((period, weekday) => ({
+			name: WEEKDAY_LABELS[weekday],
+			elective: perDay(weekday, "electiveCount"),
+			emergency: perDay(weekday, "emergencyCount"),
+			cancelled: perDay(weekday, "cancelledCount"),
+		}));
+		const renderCountChart = (
+			data: Array<Record<string, string | number>>,
+			unit: string
+		) => (
+			<div className="h-[300px]">
+				<ResponsiveContainer width="100%" height="100%">
+					<BarChart
+						data={data}
+						margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+					>
+						<CartesianGrid strokeDasharray="3 3" />
+						<XAxis dataKey="name" />
+						<YAxis />
+						<Tooltip
+							formatter={(value) =>
+								typeof value === "number" ? value.toFixed(1) : value
+							}
+						/>
+						<Legend />
+						<Bar
+							dataKey="elective"
+							stackId="cases"
+							name={`Elektiiviset${unit}`}
+							fill="#0088FE"
+						/>
+						<Bar
+							dataKey="emergency"
+							stackId="cases"
+							name={`Päivystykset${unit}`}
+							fill="#FF8042"
+						/>
+						<Bar
+							dataKey="cancelled"
+							name={`Peruutukset${unit}`}
+							fill="#8884D8"
+						/>
+					</BarChart>
+				</ResponsiveContainer>
+			</div>
+		);
+		const renderTable = (
+			periods: PeriodResults[],
+			label: (period: PeriodResults, index: number) => string
+		) => (
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Jakso</TableHead>
+						<TableHead className="text-right">Päiviä</TableHead>
+						<TableHead className="text-right">Elektiiviset</TableHead>
+						<TableHead className="text-right">Päivystykset</TableHead>
+						<TableHead className="text-right">Peruutukset</TableHead>
+						<TableHead className="text-right">Salien käyttö</TableHead>
+						<TableHead className="text-right">Salijono (min)</TableHead>
+						<TableHead className="text-right">Heräämö 1</TableHead>
+						<TableHead className="text-right">Osasto</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{periods.map((period, index) => (
+						<TableRow key={index}>
+							<TableCell>{label(period, index)}</TableCell>
+							<TableCell className="text-right">{period.days}</TableCell>
+							<TableCell className="text-right">
+								{period.electiveCount}
+							</TableCell>
+							<TableCell className="text-right">
+								{period.emergencyCount}
+							</TableCell>
+							<TableCell className="text-right">
+								{period.cancelledCount}
+							</TableCell>
+							<TableCell className="text-right">
+								{percent(period.orUtilization)}
+							</TableCell>
+							<TableCell className="text-right">
+								{period.meanORWaitingTime.toFixed(1)}
+							</TableCell>
+							<TableCell className="text-right">
+								{percent(period.meanPacuPhase1BedOccupancy)}
+							</TableCell>
+							<TableCell className="text-right">
+								{percent(period.meanWardBedOccupancy)}
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		);
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Viikoittain ja viikonpäivittäin</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<Tabs defaultValue="weeks">
+						<TabsList>
+							<TabsTrigger value="weeks">Viikot</TabsTrigger>
+							<TabsTrigger value="weekdays">Viikonpäivät</TabsTrigger>
+						</TabsList>
+						<TabsContent value="weeks" className="pt-4 space-y-4">
+							{renderCountChart(weeklyData, "")}
+							{renderTable(weekly, weekLabel)}
+						</TabsContent>
+						<TabsContent value="weekdays" className="pt-4 space-y-4">
+							{renderCountChart(weekdayData, " / pv")}
+							{renderTable(
+								byWeekday,
+								(_, weekday) => WEEKDAY_LABELS[weekday]
+							)}
+						</TabsContent>
+					</Tabs>
+					<p className="text-sm text-muted-foreground mt-2">
+						Viikot alkavat maanantaista. Taulukon määrät ovat jakson
+						yhteismääriä; salien ja paikkojen käyttö on keskimääräinen osuus
+						koko vuorokaudesta. Lämmittelyjakson päivät eivät ole mukana.
+					</p>
+				</CardContent>
+			</Card>
+		);
+	};
+
+	// Emergency arrivals and the PACU beds they hold, by hour of day
+	const renderEmergencyByHour = () => {
+		const arrivals = results.emergencyArrivalsByHour || [];
+		if (!arrivals.some((count) => count > 0)) return null;
+		const data = arrivals.map((count, hour) => ({
+			hour,
+			arrivals: count,
+			pacuBeds: results.emergencyPacuOccupancyByHour[hour] || 0,
+		}));
+
+		return (
+			<Card className="mt-6">
+				<CardHeader>
+					<CardTitle>Päivystykset vuorokauden tunneittain</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<div className="h-[300px]">
+						<ResponsiveContainer width="100%" height="100%">
+							<BarChart
+								data={data}
+								margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+							>
+								<CartesianGrid strokeDasharray="3 3" />
+								<XAxis dataKey="hour" />
+								<YAxis yAxisId="arrivals" />
+								<YAxis yAxisId="pacuBeds" orientation="right" />
+								<Tooltip
+									formatter={(value) =>
+										typeof value === "number" ? value.toFixed(2) : value
+									}
+									labelFormatter={(hour) => `Klo ${hour}`}
+								/>
+								<Legend />
+								<Bar
+									yAxisId="arrivals"
+									dataKey="arrivals"
+									name="Saapuneet / pv"
+									fill="#FF8042"
+								/>
+								<Bar
+									yAxisId="pacuBeds"
+									dataKey="pacuBeds"
+									name="Heräämöpaikkoja käytössä"
+									fill="#0088FE"
+								/>
+							</BarChart>
+						</ResponsiveContainer>
+					</div>
+				</CardContent>
+			</Card>
+		);
+	};
+
 	const renderMetricsCharts = () => (
 		<>
 			<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
@@ -305,10 +1103,20 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 					</CardHeader>
 					<CardContent>
 						<div className="text-2xl font-bold">
-							{Math.round(results.meanORWaitingTime)} min
+							{Math.round(
+								kpiMean("meanORWaitingTime", results.meanORWaitingTime)
+							)}{" "}
+							min
+							<span className="text-sm font-normal text-muted-foreground">
+								{formatRange("meanORWaitingTime", 1, 0, " min")}
+							</span>
 						</div>
 						<p className="text-xs text-muted-foreground">
-							P95: {Math.round(results.p95ORWaitingTime)} min
+							P95:{" "}
+							{Math.round(
+								kpiMean("p95ORWaitingTime", results.p95ORWaitingTime)
+							)}{" "}
+							min{formatRange("p95ORWaitingTime", 1, 0, " min")}
 						</p>
 					</CardContent>
 				</Card>
@@ -320,8 +1128,16 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 					</CardHeader>
 					<CardContent>
 						<div className="text-2xl font-bold">
-							{Math.round(results.meanPacuTime)} min
+							{Math.round(kpiMean("meanPacuTime", results.meanPacuTime))} min
+							<span className="text-sm font-normal text-muted-foreground">
+								{formatRange("meanPacuTime", 1, 0, " min")}
+							</span>
 						</div>
+						{results.pacuPhase2BypassCount > 0 && (
+							<p className="text-xs text-muted-foreground">
+								{results.pacuPhase2BypassCount} potilasta ohitti vaiheen 2
+							</p>
+						)}
 					</CardContent>
 				</Card>
 				<Card>
@@ -332,11 +1148,42 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 					</CardHeader>
 					<CardContent>
 						<div className="text-2xl font-bold">
-							{Math.round(results.meanWardTransferDelay)} min
+							{Math.round(
+								kpiMean("meanWardTransferDelay", results.meanWardTransferDelay)
+							)}{" "}
+							min
+							<span className="text-sm font-normal text-muted-foreground">
+								{formatRange("meanWardTransferDelay", 1, 0, " min")}
+							</span>
 						</div>
 						<p className="text-xs text-muted-foreground">
-							P95: {Math.round(results.p95WardTransferDelay)} min
+							P95:{" "}
+							{Math.round(
+								kpiMean("p95WardTransferDelay", results.p95WardTransferDelay)
+							)}{" "}
+							min{formatRange("p95WardTransferDelay", 1, 0, " min")}
 						</p>
+						{wardDelayTotal > 0 && (
+							<p className="text-xs text-muted-foreground">
+								Odotus syittäin:{" "}
+								{wardDelayCauses
+									.map(
+										([cause, label]) =>
+											`${label} ${Math.round(
+												(results.wardTransferDelayByCause[cause] /
+													wardDelayTotal) *
+													100
+											)} %`
+									)
+									.join(", ")}
+							</p>
+						)}
+						{results.meanDischargeHourWait > 0 && (
+							<p className="text-xs text-muted-foreground">
+								Kotiutusaikaa odotettiin keskimäärin{" "}
+								{Math.round(results.meanDischargeHourWait / 60)} h
+							</p>
+						)}
 					</CardContent>
 				</Card>
 				<Card>
@@ -345,13 +1192,74 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 					</CardHeader>
 					<CardContent>
 						<div className="text-2xl font-bold">
-							{Math.round(results.pacuBlockedTimeRatio * 100)}%
+							{Math.round(
+								kpiMean("pacuBlockedTimeRatio", results.pacuBlockedTimeRatio) *
+									100
+							)}
+							%
+							<span className="text-sm font-normal text-muted-foreground">
+								{formatRange("pacuBlockedTimeRatio", 100, 1, " %")}
+							</span>
 						</div>
 						<p className="text-xs text-muted-foreground">
-							Potilaat odottavat osastopaikkaa
+							Salit varattuina heräämöpaikkaa odottaville potilaille
 						</p>
+						{results.blockedCaseCount > 0 && (
+							<p className="text-xs text-muted-foreground">
+								{results.blockedCaseCount} potilasta odotti salissa,{" "}
+								{results.delayedStartsByBlocking} aloitusta viivästyi (
+								{Math.round(results.startDelayByBlockingMinutes)} min).{" "}
+								{Object.entries(results.orBlockedMinutes)
+									.map(
+										([orId, minutes]) => `${orId}: ${Math.round(minutes)} min`
+									)
+									.join(", ")}
+							</p>
+						)}
 					</CardContent>
 				</Card>
+				{holdingEnabled && (
+					<Card>
+						<CardHeader className="pb-2">
+							<CardTitle className="text-sm font-medium">
+								Leikkausta edeltävä odotustila
+							</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className="text-2xl font-bold">
+								{Math.round(
+									kpiMean(
+										"meanHoldingOccupancy",
+										results.meanHoldingOccupancy
+									) * 100
+								)}
+								%
+								<span className="text-sm font-normal text-muted-foreground">
+									{formatRange("meanHoldingOccupancy", 100, 1, " %")}
+								</span>
+							</div>
+							<p className="text-xs text-muted-foreground">
+								{sharedHolding
+									? "Jaettujen Phase II -paikkojen käyttö odotustilana"
+									: "Odotuspaikkojen käyttöaste"}
+								, huippu {Math.round(results.peakHoldingOccupancy * 100)} %
+							</p>
+							{results.meanHoldingBayWait > 0 && (
+								<p className="text-xs text-muted-foreground">
+									Paikkaa odotettiin keskimäärin{" "}
+									{Math.round(results.meanHoldingBayWait)} min
+								</p>
+							)}
+							{results.holdingDelayedStarts > 0 && (
+								<p className="text-xs text-muted-foreground">
+									{results.holdingDelayedStarts} aloitusta viivästyi
+									paikkapulan vuoksi (
+									{Math.round(results.holdingStartDelayMinutes)} min)
+								</p>
+							)}
+						</CardContent>
+					</Card>
+				)}
 			</div>
 
 			<div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
@@ -407,17 +1315,15 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 						<ResponsiveContainer width="100%" height="100%">
 							<BarChart
 								data={[
-									{
-										name: "PACU P1",
-										value: results.meanPacuPhase1BedOccupancy * 100,
-									},
-									{
-										name: "PACU P2",
-										value: results.meanPacuPhase2BedOccupancy * 100,
-									},
-									{ name: "Ward", value: results.meanWardBedOccupancy * 100 },
-									{ name: "Nurses", value: results.meanNurseUtilization * 100 },
-								]}
+									["PACU P1", "meanPacuPhase1BedOccupancy"],
+									["PACU P2", "meanPacuPhase2BedOccupancy"],
+									["Ward", "meanWardBedOccupancy"],
+									["Nurses", "meanNurseUtilization"],
+								].map(([name, key]) => ({
+									name,
+									value: kpiMean(key, results[key] as number) * 100,
+									error: kpiHalfWidth(key) * 100,
+								}))}
 								margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
 							>
 								<CartesianGrid strokeDasharray="3 3" />
@@ -443,6 +1349,9 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 										<Cell key="ward" fill="#FFBB28" />,
 										<Cell key="nurses" fill="#FF8042" />,
 									]}
+									{summary && (
+										<ErrorBar dataKey="error" width={8} stroke="#333" />
+									)}
 								</Bar>
 							</BarChart>
 						</ResponsiveContainer>
@@ -459,17 +1368,154 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 						<div>
 							<h4 className="font-medium mb-2">Valmistuneet leikkaukset</h4>
 							<div className="text-3xl font-bold">
-								{results.completedSurgeries.length}
+								{summary
+									? kpiMean("completedSurgeryCount", 0).toFixed(1)
+									: results.completedSurgeries.length}
+								<span className="text-sm font-normal text-muted-foreground">
+									{formatRange("completedSurgeryCount", 1, 1)}
+								</span>
 							</div>
 						</div>
 						<div>
 							<h4 className="font-medium mb-2">Peruutetut leikkaukset</h4>
 							<div className="text-3xl font-bold">
-								{results.cancelledSurgeries.length}
+								{summary
+									? kpiMean("cancelledSurgeryCount", 0).toFixed(1)
+									: results.cancelledSurgeries.length}
+								<span className="text-sm font-normal text-muted-foreground">
+									{formatRange("cancelledSurgeryCount", 1, 1)}
+								</span>
 							</div>
 						</div>
 					</div>
 
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+						<div>
+							<h4 className="font-medium mb-2">Myöhästyneet aloitukset</h4>
+							<div className="text-3xl font-bold">
+								{(
+									kpiMean("lateStartRatio", results.lateStartRatio) * 100
+								).toFixed(1)}{" "}
+								%
+								<span className="text-sm font-normal text-muted-foreground">
+									{formatRange("lateStartRatio", 100, 1, " %")}
+								</span>
+							</div>
+							<p className="text-xs text-muted-foreground">
+								Keskimääräinen viive suunnitellusta:{" "}
+								{Math.round(
+									kpiMean("meanStartDelay", results.meanStartDelay)
+								)}{" "}
+								min
+							</p>
+						</div>
+						<div>
+							<h4 className="font-medium mb-2">Salivaihdot</h4>
+							<div className="text-3xl font-bold">
+								{summary
+									? kpiMean("roomSwapCount", 0).toFixed(1)
+									: results.roomSwapCount}
+								<span className="text-sm font-normal text-muted-foreground">
+									{formatRange("roomSwapCount", 1, 1)}
+								</span>
+							</div>
+							<p className="text-xs text-muted-foreground">
+								{(
+									kpiMean("roomSwapRatio", results.roomSwapRatio) * 100
+								).toFixed(1)}{" "}
+								% elektiivisistä muussa kuin suunnitellussa salissa
+							</p>
+						</div>
+					</div>
+
+					{results.cancelledSurgeries.length > 0 && (
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+							<div>
+								<h4 className="font-medium mb-2">Peruutussyyt</h4>
+								<ul className="text-sm space-y-1">
+									{Object.entries(results.cancellationsByReason || {}).map(
+										([reason, count]) => (
+											<li key={reason} className="flex justify-between">
+												<span>
+													{cancellationReasonLabels[reason] || reason}
+												</span>
+												<span className="font-bold">{count}</span>
+											</li>
+										)
+									)}
+								</ul>
+							</div>
+							{params.cancellationRules?.reschedule && (
+								<div>
+									<h4 className="font-medium mb-2">Uudelleenajoitetut</h4>
+									<div className="text-3xl font-bold">
+										{summary
+											? kpiMean("rescheduledCount", 0).toFixed(1)
+											: results.rescheduledCount}
+										<span className="text-sm font-normal text-muted-foreground">
+											{formatRange("rescheduledCount", 1, 1)}
+										</span>
+									</div>
+									<p className="text-xs text-muted-foreground">
+										Keskimäärin{" "}
+										{(
+											kpiMean(
+												"meanRescheduleLeadTime",
+												results.meanRescheduleLeadTime
+											) / 1440
+										).toFixed(1)}{" "}
+										vrk peruutuksesta uuteen aikaan.{" "}
+										{results.unplacedRescheduleCount} tapaukselle ei löytynyt
+										uutta aikaa.
+									</p>
+								</div>
+							)}
+						</div>
+					)}
+
+					{params.cancellationRules?.reschedule && backlogData.length > 1 && (
+						<div className="mb-4">
+							<h4 className="font-medium mb-2">
+								Jonoon siirtyneet peruutukset
+							</h4>
+							<div className="h-[200px]">
+								<ResponsiveContainer width="100%" height="100%">
+									<LineChart
+										data={backlogData}
+										margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+									>
+										<CartesianGrid strokeDasharray="3 3" />
+										<XAxis
+											dataKey="day"
+											type="number"
+											domain={["auto", "auto"]}
+											tickFormatter={(day) =>
+												simulationCalendar.hasDates
+													? simulationCalendar.dayLabel(Math.floor(day), false)
+													: `${day}`
+											}
+										/>
+										<YAxis allowDecimals={false} />
+										<Tooltip
+											labelFormatter={(day) =>
+												simulationCalendar.hasDates
+													? simulationCalendar.timeLabel(Number(day) * 1440)
+													: `${day} vrk`
+											}
+										/>
+										<Line
+											type="stepAfter"
+											dataKey="count"
+											stroke="#FF8042"
+											dot={false}
+											name="Odottaa leikkausta"
+										/>
+									</LineChart>
+								</ResponsiveContainer>
+							</div>
+						</div>
+					)}
+
 					<h4 className="font-medium mb-2">Potilasluokat</h4>
 					<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
 						{params.patientClasses.map((pc) => {
@@ -501,11 +1547,13 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 							<div>
 								<h4 className="font-medium mb-2">Kokonaiskustannus</h4>
 								<div className="text-3xl font-bold">
-									{new Intl.NumberFormat("fi-FI", {
-										style: "currency",
-										currency: "EUR",
-									}).format(results.totalCost || 0)}
+									{formatEuro(kpiMean("totalCost", results.totalCost || 0))}
 								</div>
+								{summary && (
+									<p className="text-xs text-muted-foreground">
+										± {formatEuro(kpiHalfWidth("totalCost"))} (95 % LV)
+									</p>
+								)}
 							</div>
 							<div>
 								<h4 className="font-medium mb-2">
@@ -531,32 +1579,23 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 								<ResponsiveContainer width="100%" height={300}>
 									<BarChart
 										data={[
-											{ name: "OR", value: results.costBreakdown.orCost },
-											{
-												name: "PACU P1",
-												value: results.costBreakdown.pacu1Cost,
-											},
-											{
-												name: "PACU P2",
-												value: results.costBreakdown.pacu2Cost,
-											},
-											{
-												name: "Hoitajat",
-												value: results.costBreakdown.nurseCost,
-											},
-											{
-												name: "Hoitajat (ylityö)",
-												value: results.costBreakdown.nurseOvertimeCost || 0,
-											},
-											{
-												name: "Osastot",
-												value: results.costBreakdown.wardCost,
-											},
-											{
-												name: "Peruutukset",
-												value: results.costBreakdown.cancellationCost,
-											},
-										]}
+											["OR", "orCost"],
+											["PACU P1", "pacu1Cost"],
+											["PACU P2", "pacu2Cost"],
+											["Hoitajat", "nurseCost"],
+											["Hoitajat (ylityö)", "nurseOvertimeCost"],
+											["Osastot", "wardCost"],
+											["Peruutukset", "cancellationCost"],
+											["Uudelleenajoitukset", "rescheduleCost"],
+											["Päivystyssali", "onCallCost"],
+										].map(([name, key]) => ({
+											name,
+											value: kpiMean(
+												`costBreakdown.${key}`,
+												results.costBreakdown[key] || 0
+											),
+											error: kpiHalfWidth(`costBreakdown.${key}`),
+										}))}
 										margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
 									>
 										<CartesianGrid strokeDasharray="3 3" />
@@ -583,7 +1622,12 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 												<Cell key="nursesOT" fill="#FF4500" />,
 												<Cell key="ward" fill="#A4DE02" />,
 												<Cell key="cancel" fill="#8884D8" />,
+												<Cell key="reschedule" fill="#B0B0B0" />,
+												<Cell key="onCall" fill="#D0021B" />,
 											]}
+											{summary && (
+												<ErrorBar dataKey="error" width={8} stroke="#333" />
+											)}
 										</Bar>
 									</BarChart>
 								</ResponsiveContainer>
@@ -651,6 +1695,44 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 				</CardContent>
 			</Card>
 
+			{holdingEnabled && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Odotustilan käyttöaste (24h)</CardTitle>
+					</CardHeader>
+					<CardContent className="h-[300px]">
+						<ResponsiveContainer width="100%" height="100%">
+							<LineChart
+								data={holdingData}
+								margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+							>
+								<CartesianGrid strokeDasharray="3 3" />
+								<XAxis dataKey="label" />
+								<YAxis
+									label={{ value: "Beds", angle: -90, position: "insideLeft" }}
+								/>
+								<Tooltip labelFormatter={(label) => `Kellonaika: ${label}`} />
+								<Legend />
+								<Line
+									type="monotone"
+									dataKey="count"
+									stroke="#8884D8"
+									name="Odotustila"
+								/>
+								{sharedHolding && (
+									<Line
+										type="monotone"
+										dataKey="pacu2"
+										stroke="#00C49F"
+										name="PACU P2"
+									/>
+								)}
+							</LineChart>
+						</ResponsiveContainer>
+					</CardContent>
+				</Card>
+			)}
+
 			<Card>
 				<CardHeader>
 					<CardTitle>Osastojen käyttöaste (24h)</CardTitle>
@@ -732,6 +1814,14 @@ const ResultsCharts: React.FC<ResultsChartsProps> = ({
 			{chartType === "metrics" ? (
 				<>
 					{renderMetricsCharts()}
+					{renderUnitResults()}
+					{renderUrgencyResults()}
+					{renderStaffResults()}
+					{renderCleaningResults()}
+					{renderWaitingByClass()}
+					{renderPeriodResults()}
+					{renderEmergencyByHour()}
+					{renderReplicationSummary()}
 					{renderEnhancedNurseMetrics()}
 				</>
 			) : (
@@ -0,0 +1,314 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	AGE_BANDS,
+	AGE_BAND_LABELS,
+	ANAESTHESIA_TYPES,
+	ANAESTHESIA_TYPE_LABELS,
+	ASA_CLASSES,
+	DestinationUnit,
+	PatientClass,
+	RiskAdjustment,
+	RiskAdjustments,
+	defaultRiskAdjustments,
+} from "@/lib/simulation";
+
+interface RiskAdjustmentSettingsProps {
+	patientClasses: PatientClass[];
+	units?: DestinationUnit[];
+	onPatientClassesChange: (patientClasses: PatientClass[]) => void;
+}
+
+// One row of a class's lookup tables; value is the key within the table
+interface RiskRow {
+	key: string;
+	label: string;
+	attribute: keyof RiskAdjustments;
+	value?: string;
+}
+
+const riskRows: RiskRow[] = [
+	...ASA_CLASSES.map((asa) => ({
+		key: `asa-${asa}`,
+		label: `ASA ${asa}`,
+		attribute: "asaClass" as const,
+		value: String(asa),
+	})),
+	...AGE_BANDS.map((band) => ({
+		key: `age-${band}`,
+		label: AGE_BAND_LABELS[band],
+		attribute: "ageBand" as const,
+		value: band,
+	})),
+	...ANAESTHESIA_TYPES.map((type) => ({
+		key: `anaesthesia-${type}`,
+		label: ANAESTHESIA_TYPE_LABELS[type],
+		attribute: "anaesthesiaType" as const,
+		value: type,
+	})),
+	{ key: "highBmi", label: "BMI ≥ 35", attribute: "highBmi" },
+];
+
+const CLASS_ROUTING = "class";
+
+const adjustmentOf = (
+	tables: RiskAdjustments | undefined,
+	row: RiskRow
+): RiskAdjustment | undefined =>
+	row.value === undefined
+		? tables?.highBmi
+		: (tables?.[row.attribute] as Record<string, RiskAdjustment> | undefined)?.[
+				row.value
+		  ];
+
+const withAdjustment = (
+	tables: RiskAdjustments | undefined,
+	row: RiskRow,
+	adjustment: RiskAdjustment
+): RiskAdjustments =>
+	row.value === undefined
+		? { ...tables, highBmi: adjustment }
+		: {
+				...tables,
+				[row.attribute]: {
+					...(tables?.[row.attribute] as Record<string, RiskAdjustment>),
+					[row.value]: adjustment,
+				},
+		  };
+
+// An empty field clears the value, leaving the class default
+const parseOptional = (text: string, max = Infinity): number | undefined =>
+	text === "" ? undefined : Math.min(max, Math.max(0, Number(text) || 0));
+
+const RiskAdjustmentSettings: React.FC<RiskAdjustmentSettingsProps> = ({
+	patientClasses,
+	units,
+	onPatientClassesChange,
+}) => {
+	const [selectedClassId, setSelectedClassId] = useState(
+		patientClasses[0]?.id || ""
+	);
+	const patientClass =
+		patientClasses.find((pc) => pc.id === selectedClassId) ||
+		patientClasses[0];
+	if (!patientClass) return null;
+	const tables = patientClass.riskAdjustments;
+	const showRouting = !!units && units.length > 1;
+
+	const handleClassChange = (changes: Partial<PatientClass>) =>
+		onPatientClassesChange(
+			patientClasses.map((pc) =>
+				pc.id === patientClass.id ? { ...pc, ...changes } : pc
+			)
+		);
+
+	const handleRowChange = (row: RiskRow, changes: Partial<RiskAdjustment>) =>
+		handleClassChange({
+			riskAdjustments: withAdjustment(tables, row, {
+				...adjustmentOf(tables, row),
+				...changes,
+			}),
+		});
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Riskitekijät</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="grid gap-4 md:grid-cols-[16rem_1fr] items-end">
+					<div className="space-y-1">
+						<Label htmlFor="riskClass">Potilasluokka</Label>
+						<Select
+							value={patientClass.id}
+							onValueChange={setSelectedClassId}
+						>
+							<SelectTrigger id="riskClass">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{patientClasses.map((pc) => (
+									<SelectItem key={pc.id} value={pc.id}>
+										{pc.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="flex flex-wrap gap-2">
+						<Button
+							variant="outline"
+							onClick={() =>
+								handleClassChange({ riskAdjustments: defaultRiskAdjustments })
+							}
+						>
+							Oletuskertoimet
+						</Button>
+						<Button
+							variant="outline"
+							onClick={() => handleClassChange({ riskAdjustments: undefined })}
+							disabled={!tables}
+						>
+							Tyhjennä
+						</Button>
+					</div>
+				</div>
+
+				{patientClass.pacuPhase2DurationMean > 0 ? (
+					<div className="grid grid-cols-[1fr_6rem] gap-2 items-center">
+						<Label htmlFor="phase2Bypass">
+							Vaiheen 2 ohitustodennäköisyys luokalle (%)
+						</Label>
+						<Input
+							id="phase2Bypass"
+							type="number"
+							min={0}
+							max={100}
+							value={Math.round(
+								(patientClass.phase2BypassProbability ?? 0) * 100
+							)}
+							onChange={(e) =>
+								handleClassChange({
+									phase2BypassProbability:
+										(parseOptional(e.target.value, 100) ?? 0) / 100,
+								})
+							}
+						/>
+					</div>
+				) : (
+					<p className="text-xs text-muted-foreground">
+						Luokalla ei ole heräämön vaihetta 2, joten ohitustodennäköisyydet
+						eivät vaikuta siihen.
+					</p>
+				)}
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Riskitekijä</TableHead>
+							<TableHead>Vaihe 1 ×</TableHead>
+							<TableHead>Vaihe 2 ×</TableHead>
+							<TableHead>Ohitus (%)</TableHead>
+							{showRouting && <TableHead>Jatkohoito</TableHead>}
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{riskRows.map((row) => {
+							const adjustment = adjustmentOf(tables, row);
+							const bypass = adjustment?.phase2BypassProbability;
+							return (
+								<TableRow key={row.key}>
+									<TableCell>{row.label}</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											step={0.05}
+											placeholder="1"
+											className="w-20"
+											value={adjustment?.pacuPhase1Multiplier ?? ""}
+											onChange={(e) =>
+												handleRowChange(row, {
+													pacuPhase1Multiplier: parseOptional(e.target.value),
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											step={0.05}
+											placeholder="1"
+											className="w-20"
+											value={adjustment?.pacuPhase2Multiplier ?? ""}
+											onChange={(e) =>
+												handleRowChange(row, {
+													pacuPhase2Multiplier: parseOptional(e.target.value),
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											max={100}
+											placeholder="luokka"
+											className="w-20"
+											value={bypass === undefined ? "" : Math.round(bypass * 100)}
+											onChange={(e) => {
+												const percent = parseOptional(e.target.value, 100);
+												handleRowChange(row, {
+													phase2BypassProbability:
+														percent === undefined ? undefined : percent / 100,
+												});
+											}}
+										/>
+									</TableCell>
+									{showRouting && (
+										<TableCell>
+											<Select
+												value={
+													Object.keys(adjustment?.destinationDistribution || {})[0] ||
+													CLASS_ROUTING
+												}
+												onValueChange={(value) =>
+													handleRowChange(row, {
+														destinationDistribution:
+															value === CLASS_ROUTING ? undefined : { [value]: 1 },
+													})
+												}
+											>
+												<SelectTrigger className="w-40">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value={CLASS_ROUTING}>
+														Luokan jakauma
+													</SelectItem>
+													{units.map((unit) => (
+														<SelectItem key={unit.id} value={unit.id}>
+															{unit.name}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</TableCell>
+									)}
+								</TableRow>
+							);
+						})}
+					</TableBody>
+				</Table>
+				<p className="text-xs text-muted-foreground">
+					Kertoimet koskevat leikkauslistan potilaita, joille riskitekijä on
+					annettu. Usean tekijän kertoimet kerrotaan keskenään. Ohitus on
+					todennäköisyys siirtyä vaiheesta 1 suoraan kotiin tai osastolle;
+					ohitus ja jatkohoito otetaan ensimmäiseltä tekijältä, jolle ne on
+					annettu, järjestyksessä ASA, ikä, anestesiamuoto, BMI.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default RiskAdjustmentSettings;
@@ -91,7 +91,8 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
       name: newScenarioName.trim(),
       description: newScenarioDescription.trim(),
       date: now.toISOString(),
-      params: currentParams,
+      // Store the seed that produced the results so the scenario can be reproduced
+      params: { ...currentParams, seed: currentParams.seed ?? currentResults?.seed },
       results: currentResults,
       optParams: currentOptParams, // Save optParams
       blocks: currentBlocks, // Save blocks
@@ -200,6 +201,9 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
                     {scenario.description && (
                       <p className="text-sm text-muted-foreground mt-1">{scenario.description}</p>
                     )}
+                    {scenario.params.seed !== undefined && (
+                      <p className="text-xs text-muted-foreground mt-1">Siemen: {scenario.params.seed}</p>
+                    )}
                     {scenario.tags && scenario.tags.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-2">
                         {scenario.tags.map((tag, i) => (
@@ -1,27 +1,29 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import {
 	defaultSimulationParams,
-	runSimulation,
 	SimulationResults,
 	SimulationParams,
 	SurgeryCase,
 	ORBlock,
 	PatientClass,
+	BlockRotationParams,
+	CalendarParams,
+	expandBlockRotation,
 	scheduleCasesInBlocks,
 	generateSurgeryListTemplate,
 	SurgeryCaseInput,
 } from "@/lib/simulation";
-import {
-	optimizeSchedule,
-	OptimizationParams,
-	OptimizationResult,
-} from "@/lib/optimizer";
+import { OptimizationParams, OptimizationResult } from "@/lib/optimizer";
+import { createRandomSeed, createRandomStream } from "@/lib/random";
+import { startSimulationJob } from "@/lib/simulationService";
 import { toast } from "@/components/ui/use-toast";
 import { v4 as uuidv4 } from "uuid";
 import SimulationParameters from "./SimulationParameters";
 import ResultsCharts from "./ResultsCharts";
 import ORScheduleChart from "./ORScheduleChart";
 import GanttChart from "./GanttChart";
+import EventTraceTable from "./EventTraceTable";
+import SimulationPlayback from "./SimulationPlayback";
 import BlockScheduler from "./BlockScheduler";
 import SurgeryScheduler from "./SurgeryScheduler";
 import ScenarioManager from "./ScenarioManager";
@@ -55,10 +57,26 @@ const convertBlockToORBlock = (block: Block): ORBlock => {
 		end: block.end,
 		allowedClasses: block.allowedProcedures,
 		day: block.day,
+		week: block.week,
 		label: block.label,
+		surgeonId: block.surgeonId,
+		anaesthesiaTeamId: block.anaesthesiaTeamId,
 	};
 };
 
+// Blocks on simulation days; a rotating template is expanded over the horizon
+const toSimulationBlocks = (
+	blocks: Block[],
+	rotation: BlockRotationParams | undefined,
+	simulationDays: number,
+	calendar: CalendarParams | undefined
+): ORBlock[] => {
+	const orBlocks = blocks.map(convertBlockToORBlock);
+	return rotation
+		? expandBlockRotation(orBlocks, rotation, simulationDays, calendar)
+		: orBlocks;
+};
+
 const defaultOptimizationParams: OptimizationParams = {
 	alpha: 1.0,
 	beta: 0.5,
@@ -79,9 +97,20 @@ const SimulationDashboard: React.FC = () => {
 	});
 
 	const [results, setResults] = useState<SimulationResults | null>(null);
+	// Parameters of the run behind the results, for stepwise playback
+	const [playbackParams, setPlaybackParams] = useState<SimulationParams | null>(
+		null
+	);
 	const [isRunning, setIsRunning] = useState(false);
 	const [isOptimizing, setIsOptimizing] = useState(false);
 	const [optimizationProgress, setOptimizationProgress] = useState(0);
+	const [simulationProgress, setSimulationProgress] = useState(0);
+	// Best optimization result streamed from the worker while the search runs
+	const [partialBest, setPartialBest] = useState<OptimizationResult | null>(
+		null
+	);
+	// Cancels the job currently running in the worker
+	const cancelJobRef = useRef<(() => void) | null>(null);
 	const [activeTab, setActiveTab] = useState("simulator");
 	const [resultTab, setResultTab] = useState("metrics");
 	const [activeConfigTab, setActiveConfigTab] = useState("parameters");
@@ -313,7 +342,12 @@ const SimulationDashboard: React.FC = () => {
 				};
 			});
 
-			const orBlocks = validBlocks.map(convertBlockToORBlock);
+			const orBlocks = toSimulationBlocks(
+				validBlocks,
+				params.blockRotation,
+				params.simulationDays,
+				params.calendar
+			);
 
 			if (orBlocks.length === 0) {
 				toast({
@@ -330,7 +364,14 @@ const SimulationDashboard: React.FC = () => {
 				orBlocks,
 				params.patientClasses,
 				params.patientClassDistribution,
-				params.simulationDays
+				params.simulationDays,
+				createRandomStream(
+					params.seed ?? createRandomSeed(),
+					"schedule",
+					params.randomAlgorithm
+				),
+				params.calendar,
+				params.enableLogging
 			);
 
 			console.log("Generated surgery list from blocks:", generatedSurgeryList);
@@ -357,6 +398,11 @@ const SimulationDashboard: React.FC = () => {
 			params.patientClasses,
 			params.patientClassDistribution,
 			params.simulationDays,
+			params.seed,
+			params.randomAlgorithm,
+			params.blockRotation,
+			params.calendar,
+			params.enableLogging,
 		]
 	);
 
@@ -386,7 +432,12 @@ const SimulationDashboard: React.FC = () => {
 		blocksToValidate: Block[]
 	) => {
 		let invalidSurgeries = 0;
-		const orBlocks = blocksToValidate.map(convertBlockToORBlock);
+		const orBlocks = toSimulationBlocks(
+			blocksToValidate,
+			params.blockRotation,
+			params.simulationDays,
+			params.calendar
+		);
 
 		surgeries.forEach((surgery) => {
 			// Find the class for this surgery
@@ -443,9 +494,18 @@ const SimulationDashboard: React.FC = () => {
 
 	const runSimulationHandler = useCallback(() => {
 		setIsRunning(true);
-		// Use setTimeout to allow UI to update before running simulation
+		setSimulationProgress(0);
+		// Use setTimeout to allow UI to update before generating the schedule
 		setTimeout(() => {
 			try {
+				// Fix the seed up front so the generated list and the run share it
+				const seed = params.seed ?? createRandomSeed();
+				const scheduleRandom = createRandomStream(
+					seed,
+					"schedule",
+					params.randomAlgorithm
+				);
+
 				// Generate surgery list if needed
 				let generatedSurgeryList: SurgeryCaseInput[] = [];
 
@@ -453,14 +513,25 @@ const SimulationDashboard: React.FC = () => {
 					if (blockScheduleEnabled && blocks.length > 0) {
 						console.log("Generating surgery list from blocks for simulation");
 						generatedSurgeryList = scheduleCasesInBlocks(
-							blocks.map(convertBlockToORBlock),
+							toSimulationBlocks(
+								blocks,
+								params.blockRotation,
+								params.simulationDays,
+								params.calendar
+							),
 							params.patientClasses,
 							params.patientClassDistribution,
-							params.simulationDays
+							params.simulationDays,
+							scheduleRandom,
+							params.calendar,
+							params.enableLogging
 						);
 					} else {
 						console.log("Generating template surgery list for simulation");
-						generatedSurgeryList = generateSurgeryListTemplate(params);
+						generatedSurgeryList = generateSurgeryListTemplate(
+							params,
+							scheduleRandom
+						);
 					}
 
 					// Update surgery list in state
@@ -479,6 +550,7 @@ const SimulationDashboard: React.FC = () => {
 				// Ensure we're using the right parameters
 				const simulationParams = {
 					...params,
+					seed,
 					numberOfORs: numberOfORs, // Update number of ORs based on blocks
 					blockScheduleEnabled: blockScheduleEnabled,
 					orBlocks: blocks.map((block) => {
@@ -509,15 +581,53 @@ const SimulationDashboard: React.FC = () => {
 					simulationParams.customSurgeryList?.length || 0
 				);
 
-				// Run simulation with current parameters
-				const simulationResults = runSimulation(simulationParams);
-				console.log("Simulation results:", simulationResults);
-				setResults(simulationResults);
-				toast({
-					title: "Simulaatio valmis",
-					description: `${params.simulationDays} päivän simulaatio suoritettu onnistuneesti.`,
-				});
-				setResultTab("metrics"); // Switch to metrics tab after simulation
+				// Run simulation with current parameters, replicated when requested
+				const replicationParams = simulationParams.replicationParams;
+				const useReplications =
+					!!replicationParams &&
+					(replicationParams.replications > 1 ||
+						(replicationParams.targetHalfWidth ?? 0) > 0);
+				const job = startSimulationJob(
+					{
+						kind: useReplications ? "replications" : "simulation",
+						params: simulationParams,
+					},
+					{ onProgress: setSimulationProgress }
+				);
+				cancelJobRef.current = job.cancel;
+
+				job.promise
+					.then(({ result: simulationResults, cancelled }) => {
+						if (cancelled || !simulationResults) {
+							toast({
+								title: "Simulaatio keskeytetty",
+								description: "Simulaatio pysäytettiin ennen valmistumista.",
+							});
+							return;
+						}
+						console.log("Simulation results:", simulationResults);
+						setResults(simulationResults);
+						setPlaybackParams(simulationParams);
+						toast({
+							title: "Simulaatio valmis",
+							description: simulationResults.replicationSummary
+								? `${simulationResults.replicationSummary.replications} toistoa × ${params.simulationDays} päivää suoritettu (siemen ${simulationResults.seed}).`
+								: `${params.simulationDays} päivän simulaatio suoritettu onnistuneesti (siemen ${simulationResults.seed}).`,
+						});
+						setResultTab("metrics"); // Switch to metrics tab after simulation
+					})
+					.catch((error) => {
+						console.error("Simulation error:", error);
+						toast({
+							title: "Virhe simulaatiossa",
+							description: "Simulaation suorittamisessa tapahtui virhe.",
+							variant: "destructive",
+						});
+					})
+					.finally(() => {
+						cancelJobRef.current = null;
+						setIsRunning(false);
+					});
 			} catch (error) {
 				console.error("Simulation error:", error);
 				toast({
@@ -525,7 +635,6 @@ const SimulationDashboard: React.FC = () => {
 					description: "Simulaation suorittamisessa tapahtui virhe.",
 					variant: "destructive",
 				});
-			} finally {
 				setIsRunning(false);
 			}
 		}, 100);
@@ -535,22 +644,43 @@ const SimulationDashboard: React.FC = () => {
 	const runOptimizationHandler = useCallback(() => {
 		setIsOptimizing(true);
 		setOptimizationProgress(0);
+		setPartialBest(null);
 
 		setTimeout(() => {
 			try {
+				// Every candidate schedule is evaluated with the same seed, so score
+				// differences come from the schedule rather than from sampling noise
+				const seed = params.seed ?? createRandomSeed();
+				const scheduleRandom = createRandomStream(
+					seed,
+					"schedule",
+					params.randomAlgorithm
+				);
+
 				// Generate initial schedule if needed
 				let initialSchedule: SurgeryCaseInput[];
 
 				if (scheduleType === "template" || surgeryList.length === 0) {
 					if (blockScheduleEnabled && blocks.length > 0) {
 						initialSchedule = scheduleCasesInBlocks(
-							blocks.map(convertBlockToORBlock),
+							toSimulationBlocks(
+								blocks,
+								params.blockRotation,
+								params.simulationDays,
+								params.calendar
+							),
 							params.patientClasses,
 							params.patientClassDistribution,
-							params.simulationDays
+							params.simulationDays,
+							scheduleRandom,
+							params.calendar,
+							params.enableLogging
 						);
 					} else {
-						initialSchedule = generateSurgeryListTemplate(params);
+						initialSchedule = generateSurgeryListTemplate(
+							params,
+							scheduleRandom
+						);
 					}
 				} else {
 					initialSchedule = surgeryList;
@@ -574,46 +704,76 @@ const SimulationDashboard: React.FC = () => {
 				// Setup simulation parameters for optimization
 				const simulationParams = {
 					...params,
+					seed,
 					numberOfORs: numberOfORs, // Update number of ORs based on blocks
 					blockScheduleEnabled: blockScheduleEnabled,
 					orBlocks: blocks.map(convertBlockToORBlock),
 					surgeryScheduleType: "custom" as const, // Always use custom for optimization
 				};
 
-				// Run optimization with progress updates
-				const optResult = optimizeSchedule(
-					initialSchedule,
-					simulationParams,
-					optParams,
-					(progress) => {
-						setOptimizationProgress(progress);
+				// Run optimization in the worker, streaming progress and the best
+				// schedule so far
+				const job = startSimulationJob(
+					{
+						kind: "optimization",
+						initialSchedule,
+						simulationParams,
+						optimizationParams: optParams,
+					},
+					{
+						onProgress: setOptimizationProgress,
+						onPartialBest: setPartialBest,
 					}
 				);
+				cancelJobRef.current = job.cancel;
+
+				job.promise
+					.then(({ result: optResult, cancelled }) => {
+						if (!optResult) return;
+
+						// Update state with results
+						setOptimizationResults(optResult);
+						setResults(optResult.bestSimulationResults || null);
+						setPlaybackParams(null);
+
+						// Update surgery list with optimized schedule
+						setSurgeryList(optResult.bestSchedule);
+						setScheduleType("custom");
+
+						// Update params to reflect the optimized schedule
+						setParams((prev) => ({
+							...prev,
+							surgeryScheduleType: "custom",
+							customSurgeryList: optResult.bestSchedule,
+						}));
+
+						const scoreSummary = `Paras pistemäärä: ${optResult.bestScore.toFixed(
+							2
+						)}, alkuperäinen: ${optResult.initialScore.toFixed(2)}`;
+						toast({
+							title: cancelled ? "Optimointi pysäytetty" : "Optimointi valmis",
+							description: cancelled
+								? `${optResult.iterationsRun} iteraatiota. ${scoreSummary}`
+								: scoreSummary,
+						});
 
-				// Update state with results
-				setOptimizationResults(optResult);
-				setResults(optResult.bestSimulationResults || null);
-
-				// Update surgery list with optimized schedule
-				setSurgeryList(optResult.bestSchedule);
-				setScheduleType("custom");
-
-				// Update params to reflect the optimized schedule
-				setParams((prev) => ({
-					...prev,
-					surgeryScheduleType: "custom",
-					customSurgeryList: optResult.bestSchedule,
-				}));
-
-				toast({
-					title: "Optimointi valmis",
-					description: `Paras pistemäärä: ${optResult.bestScore.toFixed(
-						2
-					)}, alkuperäinen: ${optResult.initialScore.toFixed(2)}`,
-				});
-
-				// Switch to results view
-				setResultTab("metrics");
+						// Switch to results view
+						setResultTab("metrics");
+					})
+					.catch((error) => {
+						console.error("Optimization error:", error);
+						toast({
+							title: "Virhe optimoinnissa",
+							description: `Optimoinnissa tapahtui virhe: ${error}`,
+							variant: "destructive",
+						});
+					})
+					.finally(() => {
+						cancelJobRef.current = null;
+						setIsOptimizing(false);
+						setOptimizationProgress(100);
+						setPartialBest(null);
+					});
 			} catch (error) {
 				console.error("Optimization error:", error);
 				toast({
@@ -621,9 +781,7 @@ const SimulationDashboard: React.FC = () => {
 					description: `Optimoinnissa tapahtui virhe: ${error}`,
 					variant: "destructive",
 				});
-			} finally {
 				setIsOptimizing(false);
-				setOptimizationProgress(100);
 			}
 		}, 100);
 	}, [
@@ -635,6 +793,15 @@ const SimulationDashboard: React.FC = () => {
 		surgeryList,
 	]);
 
+	// Stop the running simulation or optimization. A stopped optimization
+	// still applies the best schedule found so far.
+	const stopJobHandler = useCallback(() => {
+		if (cancelJobRef.current) cancelJobRef.current();
+	}, []);
+
+	// Don't leave a worker running after the dashboard unmounts
+	useEffect(() => () => cancelJobRef.current?.(), []);
+
 	// Load a scenario from ScenarioManager
 	const handleLoadScenario = useCallback(
 		(scenario: {
@@ -647,6 +814,7 @@ const SimulationDashboard: React.FC = () => {
 		}) => {
 			setParams(scenario.params);
 			setResults(scenario.results);
+			setPlaybackParams(null);
 			setActiveTab("simulator");
 
 			// Update additional state from the scenario
@@ -723,6 +891,11 @@ const SimulationDashboard: React.FC = () => {
 							<BlockScheduler
 								patientClasses={params.patientClasses}
 								onScheduleChange={handleBlockScheduleChange}
+								surgicalStaff={params.surgicalStaff}
+								blockRotation={params.blockRotation}
+								onBlockRotationChange={(blockRotation) =>
+									handleParamChange("blockRotation", blockRotation)
+								}
 							/>
 
 							<div className="mt-4">
@@ -802,6 +975,7 @@ const SimulationDashboard: React.FC = () => {
 								blockScheduleEnabled={blockScheduleEnabled}
 								initialSchedule={surgeryList}
 								initialScheduleType={scheduleType}
+								surgicalStaff={params.surgicalStaff}
 							/>
 
 							<div className="mt-4 flex justify-end">
@@ -822,6 +996,12 @@ const SimulationDashboard: React.FC = () => {
 								<p className="text-center">
 									Simulaatio käynnissä... Odota hetki.
 								</p>
+								<Progress value={simulationProgress} className="mt-4 w-64" />
+								<div className="mt-4 flex justify-center">
+									<Button variant="outline" onClick={stopJobHandler}>
+										Pysäytä
+									</Button>
+								</div>
 							</CardContent>
 						</Card>
 					) : results ? (
@@ -839,6 +1019,12 @@ const SimulationDashboard: React.FC = () => {
 										<TabsTrigger value="blocks">Saliblokit</TabsTrigger>
 									)}
 									<TabsTrigger value="gantt">Gantt-kaavio</TabsTrigger>
+									{playbackParams && (
+										<TabsTrigger value="playback">Toisto</TabsTrigger>
+									)}
+									{results.trace && (
+										<TabsTrigger value="trace">Tapahtumaloki</TabsTrigger>
+									)}
 								</TabsList>
 
 								<TabsContent value="metrics" className="pt-4">
@@ -850,6 +1036,7 @@ const SimulationDashboard: React.FC = () => {
 										surgeries={results.completedSurgeries}
 										orCount={params.numberOfORs}
 										patientClasses={params.patientClasses}
+										calendar={params.calendar}
 									/>
 								</TabsContent>
 
@@ -965,8 +1152,25 @@ const SimulationDashboard: React.FC = () => {
 									<GanttChart
 										surgeries={results.completedSurgeries}
 										patientClasses={params.patientClasses}
+										unitResults={results.unitResults}
+										calendar={params.calendar}
 									/>
 								</TabsContent>
+
+								{playbackParams && (
+									<TabsContent value="playback" className="pt-4">
+										<SimulationPlayback params={playbackParams} />
+									</TabsContent>
+								)}
+
+								{results.trace && (
+									<TabsContent value="trace" className="pt-4">
+										<EventTraceTable
+											trace={results.trace}
+											calendar={params.calendar}
+										/>
+									</TabsContent>
+								)}
 							</Tabs>
 						</div>
 					) : (
@@ -994,7 +1198,12 @@ const SimulationDashboard: React.FC = () => {
 								onOptParamChange={handleOptParamChange}
 							/>
 
-							<div className="mt-6 flex justify-end">
+							<div className="mt-6 flex justify-end gap-2">
+								{isOptimizing && (
+									<Button variant="outline" onClick={stopJobHandler}>
+										Pysäytä
+									</Button>
+								)}
 								<Button
 									onClick={runOptimizationHandler}
 									disabled={isOptimizing}
@@ -1007,7 +1216,17 @@ const SimulationDashboard: React.FC = () => {
 							</div>
 
 							{isOptimizing && (
-								<Progress value={optimizationProgress} className="mt-4" />
+								<>
+									<Progress value={optimizationProgress} className="mt-4" />
+									{partialBest && (
+										<p className="mt-2 text-sm text-muted-foreground">
+											Paras pistemäärä tähän mennessä:{" "}
+											{partialBest.bestScore.toFixed(2)} (alkuperäinen{" "}
+											{partialBest.initialScore.toFixed(2)}, iteraatio{" "}
+											{partialBest.iterationsRun})
+										</p>
+									)}
+								</>
 							)}
 						</CardContent>
 					</Card>
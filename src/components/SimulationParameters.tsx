@@ -3,8 +3,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	CancellationRuleParams,
 	PatientClass,
+	RoomSwapPolicy,
 	SimulationParams,
 	SurgeryCase,
 	NurseSkill,
@@ -12,12 +22,24 @@ import {
 	defaultNurseSkills,
 	defaultNurseShifts,
 } from "@/lib/simulation";
+import { createRandomSeed } from "@/lib/random";
+import { DistributionType, fitDistribution } from "@/lib/distributions";
 import { Button } from "@/components/ui/button";
 import { PlayCircle } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import SurgeryScheduler from "./SurgeryScheduler";
 import BlockScheduler from "./BlockScheduler";
 import EnhancedNurseSettings from "./EnhancedNurseSettings";
+import DestinationUnitSettings from "./DestinationUnitSettings";
+import EmergencyArrivalSettings from "./EmergencyArrivalSettings";
+import EmergencyPolicySettings from "./EmergencyPolicySettings";
+import SurgicalStaffSettings from "./SurgicalStaffSettings";
+import CleaningSettings from "./CleaningSettings";
+import HoldingSettings from "./HoldingSettings";
+import CalendarSettings from "./CalendarSettings";
+import QueueDisciplineSettings from "./QueueDisciplineSettings";
+import RiskAdjustmentSettings from "./RiskAdjustmentSettings";
+import PathwayEditor from "./PathwayEditor";
 
 interface SimulationParametersProps {
 	params: SimulationParams;
@@ -58,6 +80,32 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 
 	const [activeTab, setActiveTab] = useState("resources");
 
+	// Updates a class's surgery duration mean/std or distribution family. A
+	// parametric distribution is refitted so it keeps the slider mean and std.
+	const handleSurgeryDurationChange = (
+		classId: string,
+		changes: Partial<PatientClass>,
+		distributionType?: DistributionType
+	) => {
+		const updatedClasses = [...params.patientClasses];
+		const index = updatedClasses.findIndex((pc) => pc.id === classId);
+		if (index < 0) return;
+		const updated = { ...updatedClasses[index], ...changes };
+		const type =
+			distributionType ?? updated.surgeryDurationDistribution?.type ?? "normal";
+		if (type === "normal") {
+			updated.surgeryDurationDistribution = undefined;
+		} else if (type !== "empirical" && type !== "histogram") {
+			updated.surgeryDurationDistribution = fitDistribution(
+				type,
+				updated.surgeryDurationMean,
+				updated.surgeryDurationStd
+			);
+		}
+		updatedClasses[index] = updated;
+		onParamChange("patientClasses", updatedClasses);
+	};
+
 	// Handle nurse skill changes
 	const handleNurseSkillChange = (index: number, key: string, value: any) => {
 		const updatedSkills = [...params.staffParams.nurseSkills];
@@ -192,6 +240,24 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 		onParamChange("staffParams", { ...params.staffParams, [key]: value });
 	};
 
+	const handleCancellationRulesChange = (
+		changes: Partial<CancellationRuleParams>
+	) => {
+		onParamChange("cancellationRules", {
+			enabled: false,
+			wardBedForecast: true,
+			sessionOverrun: true,
+			pacuSaturation: false,
+			reschedule: true,
+			...params.cancellationRules,
+			...changes,
+		});
+	};
+	const cancellationRules = params.cancellationRules;
+	const pacuSaturationPercent = Math.round(
+		(cancellationRules?.pacuSaturationThreshold ?? 1) * 100
+	);
+
 	return (
 		<div className="grid gap-4 md:grid-cols-2">
 			<Tabs
@@ -203,6 +269,9 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 				<TabsList>
 					<TabsTrigger value="resources">Resurssit</TabsTrigger>
 					<TabsTrigger value="nurses">Hoitajat</TabsTrigger>
+					<TabsTrigger value="surgicalStaff">Leikkaustiimit</TabsTrigger>
+					<TabsTrigger value="ward">Osasto</TabsTrigger>
+					<TabsTrigger value="emergency">Päivystys</TabsTrigger>
 					<TabsTrigger value="patients">Potilasjakauma</TabsTrigger>
 					<TabsTrigger value="schedule">Leikkauslista</TabsTrigger>
 					{/* <TabsTrigger value="blocks">Salisuunnittelu</TabsTrigger> */}
@@ -223,7 +292,62 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 					/>
 				</TabsContent>
 
-				<TabsContent value="resources">
+				<TabsContent value="surgicalStaff">
+					<SurgicalStaffSettings
+						surgicalStaff={params.surgicalStaff || []}
+						onSurgicalStaffChange={(surgicalStaff) =>
+							onParamChange("surgicalStaff", surgicalStaff)
+						}
+					/>
+				</TabsContent>
+
+				<TabsContent value="ward">
+					<DestinationUnitSettings
+						units={params.destinationUnits}
+						wardParams={params.wardParams}
+						patientClasses={params.patientClasses}
+						onUnitsChange={(units) => onParamChange("destinationUnits", units)}
+						onWardParamsChange={(changes) =>
+							onParamChange("wardParams", { ...params.wardParams, ...changes })
+						}
+						onPatientClassesChange={(patientClasses) =>
+							onParamChange("patientClasses", patientClasses)
+						}
+					/>
+				</TabsContent>
+
+				<TabsContent value="emergency" className="space-y-4">
+					<EmergencyArrivalSettings
+						emergencyParams={params.emergencyParams}
+						onEmergencyParamsChange={(changes) =>
+							onParamChange("emergencyParams", {
+								...params.emergencyParams,
+								...changes,
+							})
+						}
+					/>
+					<EmergencyPolicySettings
+						emergencyParams={params.emergencyParams}
+						numberOfORs={params.numberOfORs}
+						costPerOnCallActivation={
+							params.costParams?.costPerOnCallActivation ?? 0
+						}
+						onEmergencyParamsChange={(changes) =>
+							onParamChange("emergencyParams", {
+								...params.emergencyParams,
+								...changes,
+							})
+						}
+						onCostPerOnCallActivationChange={(value) =>
+							onParamChange("costParams", {
+								...params.costParams,
+								costPerOnCallActivation: value,
+							})
+						}
+					/>
+				</TabsContent>
+
+				<TabsContent value="resources" className="space-y-4">
 					<Card>
 						<CardHeader className="pb-2">
 							<CardTitle className="text-lg">Resurssit ja asetukset</CardTitle>
@@ -310,6 +434,28 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 									</div>
 								</div>
 
+								<div>
+									<div className="flex items-center space-x-2">
+										<Switch
+											id="holdInOR"
+											checked={!!params.pacuParams?.holdInOR}
+											onCheckedChange={(checked) =>
+												onParamChange("pacuParams", {
+													...params.pacuParams,
+													holdInOR: checked,
+												})
+											}
+										/>
+										<Label htmlFor="holdInOR">
+											Potilas odottaa salissa, kun heräämö on täynnä
+										</Label>
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Sali vapautuu vasta, kun Phase I -paikka ja hoitaja
+										vapautuvat. Seuraavan leikkauksen aloitus viivästyy.
+									</p>
+								</div>
+
 								<div>
 									<Label htmlFor="emergencyRate">
 										Päivystysten määrä päivässä
@@ -320,6 +466,7 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 											min={0}
 											max={5}
 											step={0.5}
+											disabled={!!params.emergencyParams.arrivalRateMatrix}
 											value={[params.emergencyParams.arrivalRateMeanPerDay]}
 											onValueChange={(value) =>
 												onParamChange("emergencyParams", {
@@ -433,13 +580,444 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 									</div>
 								)}
 
+								<div>
+									<div className="flex items-center space-x-2">
+										<Switch
+											id="roomFidelity"
+											checked={!!params.roomFidelity?.enabled}
+											onCheckedChange={(checked) =>
+												onParamChange("roomFidelity", {
+													swapPolicy: "never",
+													...params.roomFidelity,
+													enabled: checked,
+												})
+											}
+										/>
+										<Label htmlFor="roomFidelity">
+											Noudata suunniteltua salia ja aloitusaikaa
+										</Label>
+									</div>
+									{params.roomFidelity?.enabled && (
+										<div className="grid grid-cols-2 gap-2 mt-2">
+											<div>
+												<Label className="text-xs text-muted-foreground">
+													Salin vaihto
+												</Label>
+												<Select
+													value={params.roomFidelity.swapPolicy}
+													onValueChange={(value: RoomSwapPolicy) =>
+														onParamChange("roomFidelity", {
+															...params.roomFidelity,
+															swapPolicy: value,
+														})
+													}
+												>
+													<SelectTrigger>
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														<SelectItem value="never">Ei koskaan</SelectItem>
+														<SelectItem value="whenLate">
+															Kun tapaus on myöhässä
+														</SelectItem>
+														<SelectItem value="always">
+															Aina kun sali on vapaa
+														</SelectItem>
+													</SelectContent>
+												</Select>
+											</div>
+											<div>
+												<Label
+													htmlFor="swapAfterMinutes"
+													className="text-xs text-muted-foreground"
+												>
+													Myöhässä yli (min)
+												</Label>
+												<Input
+													id="swapAfterMinutes"
+													type="number"
+													min={0}
+													disabled={
+														params.roomFidelity.swapPolicy !== "whenLate"
+													}
+													value={params.roomFidelity.swapAfterMinutes ?? 30}
+													onChange={(e) =>
+														onParamChange("roomFidelity", {
+															...params.roomFidelity,
+															swapAfterMinutes: Math.max(
+																0,
+																Number(e.target.value) || 0
+															),
+														})
+													}
+												/>
+											</div>
+										</div>
+									)}
+									<p className="text-xs text-muted-foreground mt-1">
+										Elektiiviset leikkaukset odottavat omaa saliaan eivätkä
+										ala ennen suunniteltua aikaa. Päivystyspotilaat menevät
+										ensimmäiseen vapaaseen saliin.
+									</p>
+								</div>
+
+								<div>
+									<div className="flex items-center space-x-2">
+										<Switch
+											id="cancellationRules"
+											checked={!!cancellationRules?.enabled}
+											onCheckedChange={(checked) =>
+												handleCancellationRulesChange({ enabled: checked })
+											}
+										/>
+										<Label htmlFor="cancellationRules">
+											Sääntöpohjaiset peruutukset
+										</Label>
+									</div>
+									{cancellationRules?.enabled && (
+										<div className="space-y-2 mt-2">
+											<div className="flex items-center space-x-2">
+												<Switch
+													id="wardBedForecast"
+													checked={cancellationRules.wardBedForecast}
+													onCheckedChange={(checked) =>
+														handleCancellationRulesChange({
+															wardBedForecast: checked,
+														})
+													}
+												/>
+												<Label htmlFor="wardBedForecast" className="text-sm">
+													Ei ennustettua osastopaikkaa
+												</Label>
+											</div>
+											<div className="grid grid-cols-2 gap-2 items-center">
+												<div className="flex items-center space-x-2">
+													<Switch
+														id="sessionOverrun"
+														checked={cancellationRules.sessionOverrun}
+														onCheckedChange={(checked) =>
+															handleCancellationRulesChange({
+																sessionOverrun: checked,
+															})
+														}
+													/>
+													<Label htmlFor="sessionOverrun" className="text-sm">
+														Salivuoron ylitys
+													</Label>
+												</div>
+												<div>
+													<Label
+														htmlFor="overrunTolerance"
+														className="text-xs text-muted-foreground"
+													>
+														Sallittu ylitys (min)
+													</Label>
+													<Input
+														id="overrunTolerance"
+														type="number"
+														min={0}
+														disabled={!cancellationRules.sessionOverrun}
+														value={
+															cancellationRules.overrunToleranceMinutes ?? 0
+														}
+														onChange={(e) =>
+															handleCancellationRulesChange({
+																overrunToleranceMinutes: Math.max(
+																	0,
+																	Number(e.target.value) || 0
+																),
+															})
+														}
+													/>
+												</div>
+											</div>
+											<div className="grid grid-cols-3 gap-2 items-center">
+												<div className="flex items-center space-x-2">
+													<Switch
+														id="pacuSaturation"
+														checked={cancellationRules.pacuSaturation}
+														onCheckedChange={(checked) =>
+															handleCancellationRulesChange({
+																pacuSaturation: checked,
+															})
+														}
+													/>
+													<Label htmlFor="pacuSaturation" className="text-sm">
+														Heräämö täynnä
+													</Label>
+												</div>
+												<div>
+													<Label
+														htmlFor="pacuCutoffHour"
+														className="text-xs text-muted-foreground"
+													>
+														Tarkistus klo
+													</Label>
+													<Input
+														id="pacuCutoffHour"
+														type="number"
+														min={0}
+														max={23}
+														disabled={!cancellationRules.pacuSaturation}
+														value={
+															(cancellationRules.pacuCutoffMinute ?? 840) / 60
+														}
+														onChange={(e) => {
+															const hour = Math.round(
+																Number(e.target.value) || 0
+															);
+															handleCancellationRulesChange({
+																pacuCutoffMinute:
+																	Math.min(23, Math.max(0, hour)) * 60,
+															});
+														}}
+													/>
+												</div>
+												<div>
+													<Label
+														htmlFor="pacuSaturationThreshold"
+														className="text-xs text-muted-foreground"
+													>
+														Raja (% paikoista)
+													</Label>
+													<Input
+														id="pacuSaturationThreshold"
+														type="number"
+														min={0}
+														disabled={!cancellationRules.pacuSaturation}
+														value={pacuSaturationPercent}
+														onChange={(e) => {
+															const percent = Math.max(
+																0,
+																Number(e.target.value) || 0
+															);
+															handleCancellationRulesChange({
+																pacuSaturationThreshold: percent / 100,
+															});
+														}}
+													/>
+												</div>
+											</div>
+											<div className="grid grid-cols-3 gap-2 items-center">
+												<div className="flex items-center space-x-2">
+													<Switch
+														id="reschedule"
+														checked={cancellationRules.reschedule}
+														onCheckedChange={(checked) =>
+															handleCancellationRulesChange({
+																reschedule: checked,
+															})
+														}
+													/>
+													<Label htmlFor="reschedule" className="text-sm">
+														Uudelleenajoitus
+													</Label>
+												</div>
+												<div>
+													<Label
+														htmlFor="maxReschedules"
+														className="text-xs text-muted-foreground"
+													>
+														Enintään kertaa
+													</Label>
+													<Input
+														id="maxReschedules"
+														type="number"
+														min={1}
+														disabled={!cancellationRules.reschedule}
+														value={cancellationRules.maxReschedules ?? 2}
+														onChange={(e) =>
+															handleCancellationRulesChange({
+																maxReschedules: Math.max(
+																	1,
+																	Math.round(Number(e.target.value) || 1)
+																),
+															})
+														}
+													/>
+												</div>
+												<div>
+													<Label
+														htmlFor="costPerReschedule"
+														className="text-xs text-muted-foreground"
+													>
+														Kustannus (€)
+													</Label>
+													<Input
+														id="costPerReschedule"
+														type="number"
+														min={0}
+														disabled={!cancellationRules.reschedule}
+														value={params.costParams?.costPerReschedule ?? 0}
+														onChange={(e) =>
+															onParamChange("costParams", {
+																...params.costParams,
+																costPerReschedule: Math.max(
+																	0,
+																	Number(e.target.value) || 0
+																),
+															})
+														}
+													/>
+												</div>
+											</div>
+										</div>
+									)}
+									<p className="text-xs text-muted-foreground mt-1">
+										Elektiivinen leikkaus perutaan samana päivänä säännön
+										täyttyessä. Uudelleenajoitus varaa perutulle tapaukselle
+										ensimmäisen myöhemmän salivuoron, johon se mahtuu.
+									</p>
+								</div>
+
+								<div>
+									<Label htmlFor="seed">Satunnaislukusiemen</Label>
+									<div className="flex items-center gap-2">
+										<Input
+											id="seed"
+											type="number"
+											min={1}
+											placeholder="Satunnainen"
+											value={params.seed ?? ""}
+											onChange={(e) =>
+												onParamChange(
+													"seed",
+													e.target.value === ""
+														? undefined
+														: Math.max(1, Math.round(Number(e.target.value)))
+												)
+											}
+											className="flex-1"
+										/>
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => onParamChange("seed", createRandomSeed())}
+										>
+											Arvo
+										</Button>
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Sama siemen ja samat parametrit tuottavat saman tuloksen.
+										Tyhjä kenttä arpoo uuden siemenen jokaiselle ajolle.
+									</p>
+								</div>
+
+								<div>
+									<Label htmlFor="replications">Toistot (Monte Carlo)</Label>
+									<div className="grid grid-cols-3 gap-2">
+										<div>
+											<Label
+												htmlFor="replications"
+												className="text-xs text-muted-foreground"
+											>
+												Toistoja
+											</Label>
+											<Input
+												id="replications"
+												type="number"
+												min={1}
+												max={500}
+												value={params.replicationParams?.replications ?? 1}
+												onChange={(e) =>
+													onParamChange("replicationParams", {
+														...params.replicationParams,
+														replications: Math.max(
+															1,
+															Math.round(Number(e.target.value) || 1)
+														),
+													})
+												}
+											/>
+										</div>
+										<div>
+											<Label
+												htmlFor="targetHalfWidth"
+												className="text-xs text-muted-foreground"
+											>
+												Tavoitetarkkuus (±%)
+											</Label>
+											<Input
+												id="targetHalfWidth"
+												type="number"
+												min={0}
+												max={100}
+												placeholder="Ei käytössä"
+												value={
+													params.replicationParams?.targetHalfWidth
+														? params.replicationParams.targetHalfWidth * 100
+														: ""
+												}
+												onChange={(e) =>
+													onParamChange("replicationParams", {
+														replications: 1,
+														...params.replicationParams,
+														targetHalfWidth:
+															e.target.value === ""
+																? undefined
+																: Math.max(0, Number(e.target.value)) / 100,
+													})
+												}
+											/>
+										</div>
+										<div>
+											<Label
+												htmlFor="maxReplications"
+												className="text-xs text-muted-foreground"
+											>
+												Enintään
+											</Label>
+											<Input
+												id="maxReplications"
+												type="number"
+												min={1}
+												max={1000}
+												disabled={!params.replicationParams?.targetHalfWidth}
+												value={params.replicationParams?.maxReplications ?? 100}
+												onChange={(e) =>
+													onParamChange("replicationParams", {
+														replications: 1,
+														...params.replicationParams,
+														maxReplications: Math.max(
+															1,
+															Math.round(Number(e.target.value) || 1)
+														),
+													})
+												}
+											/>
+										</div>
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Useampi toisto antaa tunnusluvuille 95 %:n
+										luottamusvälit. Tavoitetarkkuudella toistoja ajetaan,
+										kunnes OR-odotusajan luottamusväli on riittävän kapea.
+									</p>
+								</div>
+
+								<div>
+									<div className="flex items-center space-x-2">
+										<Switch
+											id="enableTrace"
+											checked={!!params.enableTrace}
+											onCheckedChange={(checked) =>
+												onParamChange("enableTrace", checked)
+											}
+										/>
+										<Label htmlFor="enableTrace">Tallenna tapahtumaloki</Label>
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Kirjaa jokaisen tapahtuman ja potilaan tilasiirtymän
+										tuloksiin tarkastelua ja vientiä varten.
+									</p>
+								</div>
+
 								<div>
 									<Label htmlFor="days">Simuloitavat päivät</Label>
 									<div className="flex items-center gap-2">
 										<Slider
 											id="days"
 											min={7}
-											max={90}
+											max={52 * 7}
 											step={1}
 											value={[params.simulationDays]}
 											onValueChange={(value) =>
@@ -451,13 +1029,110 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 											{params.simulationDays}
 										</span>
 									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										{Math.floor(params.simulationDays / 7)} vk{" "}
+										{params.simulationDays % 7} pv. Tulokset kootaan myös
+										viikoittain ja viikonpäivittäin.
+									</p>
+								</div>
+
+								<div>
+									<Label htmlFor="warmupDays">
+										Lämmittelyjakso (päivää)
+									</Label>
+									<div className="flex items-center gap-2">
+										<Slider
+											id="warmupDays"
+											min={0}
+											max={Math.max(0, params.simulationDays - 1)}
+											step={1}
+											value={[params.warmupDays || 0]}
+											onValueChange={(value) =>
+												onParamChange("warmupDays", value[0])
+											}
+											className="flex-1"
+										/>
+										<span className="w-10 text-center">
+											{params.warmupDays || 0}
+										</span>
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Lämmittelyjakson tapahtumat simuloidaan, mutta niitä ei
+										lasketa tunnuslukuihin eikä kustannuksiin.
+									</p>
+								</div>
+
+								<div>
+									<Label htmlFor="censusWard">Alkutilanteen potilaat</Label>
+									<div className="grid grid-cols-3 gap-2">
+										{(
+											[
+												["wardPatients", "censusWard", "Osasto"],
+												["pacuPhase1Patients", "censusP1", "Heräämö P1"],
+												["pacuPhase2Patients", "censusP2", "Heräämö P2"],
+											] as const
+										).map(([key, id, label]) => (
+											<div key={key}>
+												<Label
+													htmlFor={id}
+													className="text-xs text-muted-foreground"
+												>
+													{label}
+												</Label>
+												<Input
+													id={id}
+													type="number"
+													min={0}
+													value={params.initialCensus?.[key] ?? 0}
+													onChange={(e) =>
+														onParamChange("initialCensus", {
+															wardPatients: 0,
+															...params.initialCensus,
+															[key]: Math.max(
+																0,
+																Math.round(Number(e.target.value) || 0)
+															),
+														})
+													}
+												/>
+											</div>
+										))}
+									</div>
+									<p className="text-xs text-muted-foreground mt-1">
+										Simulaation alussa jo vuodepaikoilla olevat potilaat.
+										Jäljellä oleva hoitoaika arvotaan potilasluokan mukaan.
+									</p>
 								</div>
 							</div>
 						</CardContent>
 					</Card>
+					<CalendarSettings
+						calendar={params.calendar}
+						simulationDays={params.simulationDays}
+						onCalendarChange={(calendar) => onParamChange("calendar", calendar)}
+					/>
+					<HoldingSettings
+						holdingParams={params.holdingParams}
+						phase2Beds={params.pacuParams?.phase2Beds || 0}
+						onHoldingParamsChange={(holdingParams) =>
+							onParamChange("holdingParams", holdingParams)
+						}
+					/>
+					<CleaningSettings
+						cleaningParams={params.cleaningParams}
+						onCleaningParamsChange={(cleaningParams) =>
+							onParamChange("cleaningParams", cleaningParams)
+						}
+					/>
+					<QueueDisciplineSettings
+						queueDisciplines={params.queueDisciplines}
+						onQueueDisciplinesChange={(queueDisciplines) =>
+							onParamChange("queueDisciplines", queueDisciplines)
+						}
+					/>
 				</TabsContent>
 
-				<TabsContent value="patients">
+				<TabsContent value="patients" className="space-y-4">
 					<div className="grid gap-4 md:grid-cols-2">
 						<Card>
 							<CardHeader className="pb-2">
@@ -565,19 +1240,11 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 													max={360}
 													step={15}
 													value={[patientClass.surgeryDurationMean]}
-													onValueChange={(value) => {
-														const updatedClasses = [...params.patientClasses];
-														const index = updatedClasses.findIndex(
-															(pc) => pc.id === patientClass.id
-														);
-														if (index >= 0) {
-															updatedClasses[index] = {
-																...updatedClasses[index],
-																surgeryDurationMean: value[0],
-															};
-															onParamChange("patientClasses", updatedClasses);
-														}
-													}}
+													onValueChange={(value) =>
+														handleSurgeryDurationChange(patientClass.id, {
+															surgeryDurationMean: value[0],
+														})
+													}
 													className="flex-1"
 												/>
 											</div>
@@ -594,31 +1261,139 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 													max={120}
 													step={5}
 													value={[patientClass.surgeryDurationStd]}
-													onValueChange={(value) => {
-														const updatedClasses = [...params.patientClasses];
-														const index = updatedClasses.findIndex(
-															(pc) => pc.id === patientClass.id
-														);
-														if (index >= 0) {
-															updatedClasses[index] = {
-																...updatedClasses[index],
-																surgeryDurationStd: value[0],
-															};
-															onParamChange("patientClasses", updatedClasses);
-														}
-													}}
+													onValueChange={(value) =>
+														handleSurgeryDurationChange(patientClass.id, {
+															surgeryDurationStd: value[0],
+														})
+													}
 													className="flex-1"
 												/>
 												<span className="text-xs w-10 text-right">
 													±{patientClass.surgeryDurationStd}
 												</span>
 											</div>
+											<div className="flex items-center gap-2 mt-1">
+												<Label
+													htmlFor={`distribution-${patientClass.id}`}
+													className="text-xs w-20"
+												>
+													Jakauma:
+												</Label>
+												<Select
+													value={
+														patientClass.surgeryDurationDistribution?.type ||
+														"normal"
+													}
+													onValueChange={(value: DistributionType) =>
+														handleSurgeryDurationChange(
+															patientClass.id,
+															{},
+															value
+														)
+													}
+												>
+													<SelectTrigger
+														id={`distribution-${patientClass.id}`}
+														className="h-8 flex-1"
+													>
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														<SelectItem value="normal">Normaali</SelectItem>
+														<SelectItem value="lognormal">
+															Lognormaali
+														</SelectItem>
+														<SelectItem value="gamma">Gamma</SelectItem>
+														<SelectItem value="weibull">Weibull</SelectItem>
+														<SelectItem value="triangular">Kolmio</SelectItem>
+														{patientClass.surgeryDurationDistribution?.type ===
+															"empirical" && (
+															<SelectItem value="empirical">
+																Empiirinen (data)
+															</SelectItem>
+														)}
+														{patientClass.surgeryDurationDistribution?.type ===
+															"histogram" && (
+															<SelectItem value="histogram">
+																Histogrammi
+															</SelectItem>
+														)}
+													</SelectContent>
+												</Select>
+											</div>
 										</div>
 									))}
 								</div>
 							</CardContent>
 						</Card>
+
+						<Card>
+							<CardHeader className="pb-2">
+								<CardTitle className="text-lg">Hoitotyön kuormitus</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<div className="space-y-4">
+									{params.patientClasses.map((patientClass: PatientClass) => (
+										<div key={patientClass.id}>
+											<div className="flex items-center justify-between mb-1">
+												<Label
+													htmlFor={`acuity-${patientClass.id}`}
+													className="flex items-center gap-2"
+												>
+													<span
+														className="block w-3 h-3 rounded-full"
+														style={{ backgroundColor: patientClass.color }}
+													/>
+													{patientClass.name}
+												</Label>
+												<span className="text-sm">
+													{(patientClass.nurseAcuity ?? 1).toFixed(2)}×
+												</span>
+											</div>
+											<Slider
+												id={`acuity-${patientClass.id}`}
+												min={0.5}
+												max={3}
+												step={0.25}
+												value={[patientClass.nurseAcuity ?? 1]}
+												onValueChange={(value) =>
+													onParamChange(
+														"patientClasses",
+														params.patientClasses.map((pc) =>
+															pc.id === patientClass.id
+																? { ...pc, nurseAcuity: value[0] }
+																: pc
+														)
+													)
+												}
+												className="flex-1"
+											/>
+										</div>
+									))}
+									<p className="text-xs text-muted-foreground">
+										Heräämöpotilaan hoitotyön tarve tavalliseen potilaaseen
+										verrattuna. Hoitaja hoitaa samanaikaisesti vaiheen
+										hoitaja:potilas-suhteen verran potilaita; kerroin 2 vie
+										kahden potilaan osuuden.
+									</p>
+								</div>
+							</CardContent>
+						</Card>
 					</div>
+					<PathwayEditor
+						patientClasses={params.patientClasses}
+						units={params.destinationUnits}
+						onPatientClassesChange={(patientClasses) =>
+							onParamChange("patientClasses", patientClasses)
+						}
+					/>
+					<RiskAdjustmentSettings
+						patientClasses={params.patientClasses}
+						units={params.destinationUnits}
+						onPatientClassesChange={(patientClasses) =>
+							onParamChange("patientClasses", patientClasses)
+						}
+					/>
 				</TabsContent>
 
 				<TabsContent value="schedule">
@@ -630,6 +1405,7 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 						onScheduleTypeChange={handleScheduleTypeChange}
 						blocks={[]} // Pass empty blocks for now
 						blockScheduleEnabled={false} // Disable block scheduling by default
+						surgicalStaff={params.surgicalStaff}
 					/>
 				</TabsContent>
 
@@ -637,6 +1413,11 @@ const SimulationParameters: React.FC<SimulationParametersProps> = ({
 					<BlockScheduler
 						patientClasses={params.patientClasses}
 						onScheduleChange={handleBlockScheduleChange}
+						surgicalStaff={params.surgicalStaff}
+						blockRotation={params.blockRotation}
+						onBlockRotationChange={(blockRotation) =>
+							onParamChange("blockRotation", blockRotation)
+						}
 					/>
 				</TabsContent>
 
@@ -0,0 +1,382 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Pause, Play, RotateCcw, StepForward } from "lucide-react";
+import {
+	PatientState,
+	ResourceSnapshot,
+	SimulationEngine,
+	SimulationParams,
+	SimulationSnapshot,
+	SnapshotResourcePool,
+	createSimulation,
+} from "@/lib/simulation";
+import { createSimulationCalendar } from "@/lib/calendar";
+
+interface SimulationPlaybackProps {
+	params: SimulationParams; // Parameters of the run, with its seed
+}
+
+const PLAYBACK_INTERVAL_MS = 200;
+// A seek runs events in slices of this length, letting the page respond
+// between them
+const SEEK_SLICE_MS = 20;
+
+// Simulated minutes advanced per playback tick
+const SPEEDS = [
+	{ minutes: 15, label: "15 min" },
+	{ minutes: 60, label: "1 h" },
+	{ minutes: 240, label: "4 h" },
+	{ minutes: 1440, label: "1 vrk" },
+];
+
+const POOL_LABELS: Record<SnapshotResourcePool, string> = {
+	or: "Leikkaussalit",
+	holding: "Odotustila",
+	pacu1: "Heräämö, vaihe 1",
+	pacu2: "Heräämö, vaihe 2",
+	ward: "Osastopaikat",
+	nurse: "Hoitajat",
+	staff: "Leikkaustiimit",
+};
+
+const QUEUE_LABELS: Record<
+	Exclude<keyof SimulationSnapshot["queues"], "ward">,
+	string
+> = {
+	holding: "Odotuspaikka",
+	or: "Leikkaussali",
+	pacu1: "Heräämö, vaihe 1",
+	pacu2: "Heräämö, vaihe 2",
+	nurse: "Hoitaja",
+	cleaning: "Siivous",
+};
+
+const STATE_LABELS: Record<PatientState, string> = {
+	scheduled: "Tulossa",
+	arrived: "Saapunut",
+	waiting_holding: "Odottaa odotuspaikkaa",
+	in_holding: "Odotustilassa",
+	waiting_or: "Odottaa salia",
+	in_or: "Salissa",
+	waiting_pacu1: "Odottaa heräämöä (1)",
+	in_pacu1: "Heräämössä (1)",
+	waiting_pacu2: "Odottaa heräämöä (2)",
+	in_pacu2: "Heräämössä (2)",
+	waiting_ward: "Odottaa osastopaikkaa",
+	in_ward: "Osastolla",
+	discharged: "Kotiutunut",
+	cancelled: "Peruttu",
+};
+
+interface ResourceGroup {
+	key: string;
+	label: string;
+	resources: ResourceSnapshot[];
+}
+
+// Queues show the first patients in line
+const MAX_QUEUE_IDS = 5;
+
+const resourceClass = (resource: ResourceSnapshot) => {
+	if (resource.isCleaning) return "bg-amber-400 text-black";
+	if (resource.isBusy) return "bg-blue-500 text-white";
+	if (resource.isOnShift === false) return "bg-muted opacity-40";
+	return "bg-muted";
+};
+
+const formatQueue = (patientIds: string[]) =>
+	patientIds.length === 0
+		? "–"
+		: `${patientIds.length}: ${patientIds.slice(0, MAX_QUEUE_IDS).join(", ")}${
+				patientIds.length > MAX_QUEUE_IDS ? ", …" : ""
+		  }`;
+
+const SimulationPlayback: React.FC<SimulationPlaybackProps> = ({ params }) => {
+	const engineRef = useRef<SimulationEngine | null>(null);
+	// Bumped to cancel the seek in progress
+	const seekIdRef = useRef(0);
+	const [snapshot, setSnapshot] = useState<SimulationSnapshot | null>(null);
+	const [viewTime, setViewTime] = useState(0);
+	const [playing, setPlaying] = useState(false);
+	const [seeking, setSeeking] = useState(false);
+	const [speed, setSpeed] = useState(60);
+
+	const calendar = createSimulationCalendar(params.calendar);
+	const endTime = params.simulationDays * 24 * 60;
+	// The end of the run frees every resource, so playback stops short of it
+	const lastTime = Math.max(0, endTime - 1);
+
+	// Logging and the trace would only slow playback down
+	const createEngine = useCallback(
+		() =>
+			createSimulation({ ...params, enableLogging: false, enableTrace: false }),
+		[params]
+	);
+
+	useEffect(() => {
+		const engine = createEngine();
+		engineRef.current = engine;
+		setSnapshot(engine.snapshot());
+		setViewTime(0);
+		setPlaying(false);
+		setSeeking(false);
+		// A seek in progress stops once its engine is replaced
+		return () => {
+			engineRef.current = null;
+		};
+	}, [createEngine]);
+
+	// Seeking backwards restarts the run, which replays identically with
+	// the same seed. The events run in slices on later ticks, and a newer
+	// seek takes over from wherever this one got to.
+	const seek = useCallback(
+		(time: number) => {
+			const target = Math.max(0, Math.min(lastTime, time));
+			const seekId = ++seekIdRef.current;
+			let engine = engineRef.current;
+			if (!engine || target < engine.snapshot().time) {
+				engine = createEngine();
+				engineRef.current = engine;
+			}
+			const seekEngine = engine;
+			setViewTime(target);
+			setSeeking(true);
+
+			const runSlice = () => {
+				if (
+					seekId !== seekIdRef.current ||
+					seekEngine !== engineRef.current
+				)
+					return;
+				const sliceEnd = performance.now() + SEEK_SLICE_MS;
+				for (;;) {
+					const eventTime = seekEngine.nextEventTime();
+					if (eventTime === undefined || eventTime > target) {
+						setSnapshot(seekEngine.snapshot());
+						setSeeking(false);
+						if (target >= lastTime) setPlaying(false);
+						return;
+					}
+					seekEngine.step();
+					if (performance.now() >= sliceEnd) break;
+				}
+				setSnapshot(seekEngine.snapshot());
+				setTimeout(runSlice, 0);
+			};
+			runSlice();
+		},
+		[createEngine, lastTime]
+	);
+
+	useEffect(() => {
+		if (!playing || seeking) return;
+		const timer = setTimeout(
+			() => seek(viewTime + speed),
+			PLAYBACK_INTERVAL_MS
+		);
+		return () => clearTimeout(timer);
+	}, [playing, seeking, viewTime, speed, seek]);
+
+	const stepEvent = () => {
+		const engine = engineRef.current;
+		if (!engine) return;
+		setPlaying(false);
+		engine.step();
+		const next = engine.snapshot();
+		setSnapshot(next);
+		setViewTime((time) => Math.max(time, next.time));
+	};
+
+	if (!snapshot) return null;
+	const canStep =
+		snapshot.nextEventTime !== undefined && snapshot.nextEventTime < endTime;
+
+	// Ward beds are shown by destination unit
+	const unitNames: Record<string, string> = {};
+	(params.destinationUnits || []).forEach(
+		(unit) => (unitNames[unit.id] = unit.name)
+	);
+	const groups: ResourceGroup[] = [];
+	for (const resource of snapshot.resources) {
+		const key =
+			resource.pool === "ward" ? `ward-${resource.unitId}` : resource.pool;
+		let group = groups.find((candidate) => candidate.key === key);
+		if (!group) {
+			group = {
+				key,
+				label:
+					resource.pool === "ward" && resource.unitId
+						? `${POOL_LABELS.ward}: ${
+								unitNames[resource.unitId] || resource.unitId
+						  }`
+						: POOL_LABELS[resource.pool],
+				resources: [],
+			};
+			groups.push(group);
+		}
+		group.resources.push(resource);
+	}
+
+	const stateCounts: Partial<Record<PatientState, number>> = {};
+	for (const patient of snapshot.patients)
+		if (patient.state)
+			stateCounts[patient.state] = (stateCounts[patient.state] || 0) + 1;
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Simulaation toisto</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex flex-wrap items-center gap-2">
+					<Button
+						variant="outline"
+						onClick={() => setPlaying(!playing)}
+						disabled={viewTime >= lastTime}
+					>
+						{playing ? (
+							<Pause className="mr-2 h-4 w-4" />
+						) : (
+							<Play className="mr-2 h-4 w-4" />
+						)}
+						{playing ? "Tauko" : "Toista"}
+					</Button>
+					<Button
+						variant="outline"
+						onClick={stepEvent}
+						disabled={!canStep || seeking}
+					>
+						<StepForward className="mr-2 h-4 w-4" />
+						Seuraava tapahtuma
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => {
+							setPlaying(false);
+							seek(0);
+						}}
+					>
+						<RotateCcw className="mr-2 h-4 w-4" />
+						Alkuun
+					</Button>
+					<Label htmlFor="playbackSpeed" className="ml-2">
+						Askel
+					</Label>
+					<Select
+						value={String(speed)}
+						onValueChange={(value) => setSpeed(Number(value))}
+					>
+						<SelectTrigger id="playbackSpeed" className="w-28">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{SPEEDS.map(({ minutes, label }) => (
+								<SelectItem key={minutes} value={String(minutes)}>
+									{label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<span className="ml-auto text-sm font-medium">
+						{calendar.timeLabel(viewTime)}
+					</span>
+					<span className="text-xs text-muted-foreground">
+						{seeking
+							? `Siirrytään… (${calendar.timeLabel(snapshot.time)})`
+							: `${snapshot.processedEvents} tapahtumaa`}
+					</span>
+				</div>
+				<Slider
+					min={0}
+					max={lastTime}
+					step={15}
+					value={[viewTime]}
+					onValueChange={(value) => {
+						setPlaying(false);
+						seek(value[0]);
+					}}
+				/>
+
+				<div className="space-y-3">
+					{groups.map((group) => (
+						<div key={group.key}>
+							<p className="text-sm font-medium mb-1">
+								{group.label} (
+								{group.resources.filter((r) => r.isBusy).length}/
+								{group.resources.length})
+							</p>
+							<div className="flex flex-wrap gap-1">
+								{group.resources.map((resource) => (
+									<div
+										key={resource.id}
+										title={`${resource.id}: ${
+											resource.patientIds.join(", ") ||
+											(resource.isCleaning ? "siivous" : "vapaa")
+										}`}
+										className={`h-7 min-w-[2.5rem] px-1 rounded text-[10px] flex items-center justify-center ${resourceClass(
+											resource
+										)}`}
+									>
+										{resource.patientIds[0] || resource.id}
+									</div>
+								))}
+							</div>
+						</div>
+					))}
+				</div>
+
+				<div className="grid gap-4 md:grid-cols-2">
+					<div>
+						<p className="text-sm font-medium mb-1">Jonot</p>
+						<ul className="text-xs space-y-0.5">
+							{(
+								Object.keys(QUEUE_LABELS) as (keyof typeof QUEUE_LABELS)[]
+							).map((queue) => (
+								<li key={queue}>
+									{QUEUE_LABELS[queue]}: {formatQueue(snapshot.queues[queue])}
+								</li>
+							))}
+							{Object.entries(snapshot.queues.ward).map(
+								([unitId, patientIds]) => (
+									<li key={unitId}>
+										{unitNames[unitId] || unitId}: {formatQueue(patientIds)}
+									</li>
+								)
+							)}
+						</ul>
+					</div>
+					<div>
+						<p className="text-sm font-medium mb-1">Potilaiden tilat</p>
+						<ul className="text-xs space-y-0.5">
+							{(Object.keys(STATE_LABELS) as PatientState[])
+								.filter((state) => stateCounts[state])
+								.map((state) => (
+									<li key={state}>
+										{STATE_LABELS[state]}: {stateCounts[state]}
+									</li>
+								))}
+						</ul>
+					</div>
+				</div>
+				<p className="text-xs text-muted-foreground">
+					Toisto ajaa saman simulaation (siemen {params.seed}) tapahtuma
+					kerrallaan. Sininen paikka on varattu, keltainen siivouksessa ja
+					himmeä hoitaja ei ole vuorossa. Taaksepäin siirtyminen aloittaa
+					ajon alusta.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default SimulationPlayback;
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
   Table,
   TableBody,
@@ -15,7 +16,22 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { toast } from '@/components/ui/use-toast';
-import { SurgeryCase, PatientClass, ORBlock, SurgeryCaseInput } from '@/lib/simulation';
+import {
+  SurgeryCase,
+  PatientClass,
+  ORBlock,
+  SurgeryCaseInput,
+  SurgicalStaff,
+  AsaClass,
+  AgeBand,
+  AnaesthesiaType,
+  ASA_CLASSES,
+  AGE_BANDS,
+  ANAESTHESIA_TYPES,
+  AGE_BAND_LABELS,
+  ANAESTHESIA_TYPE_LABELS
+} from '@/lib/simulation';
+import { findCaseDoubleBooking, staffName } from '@/lib/surgicalStaff';
 import { Plus, Edit, Trash, Save, X } from 'lucide-react';
 
 interface SurgerySchedulerProps {
@@ -28,8 +44,19 @@ interface SurgerySchedulerProps {
   blockScheduleEnabled: boolean;
   initialSchedule?: SurgeryCaseInput[];
   initialScheduleType?: 'template' | 'custom';
+  surgicalStaff?: SurgicalStaff[];
 }
 
+const NOT_ASSIGNED = 'none';
+
+// Risk attributes of a case as a short list, empty when none are known
+const riskSummary = (surgery: SurgeryCaseInput) => [
+  surgery.asaClass && `ASA ${surgery.asaClass}`,
+  surgery.ageBand && AGE_BAND_LABELS[surgery.ageBand],
+  surgery.anaesthesiaType && ANAESTHESIA_TYPE_LABELS[surgery.anaesthesiaType],
+  surgery.highBmi && 'BMI ≥ 35'
+].filter(Boolean).join(', ');
+
 const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
   patientClasses,
   patientDistribution,
@@ -39,7 +66,8 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
   blocks,
   blockScheduleEnabled,
   initialSchedule = [],
-  initialScheduleType = 'template'
+  initialScheduleType = 'template',
+  surgicalStaff = []
 }) => {
   const [surgeryList, setSurgeryList] = useState<SurgeryCaseInput[]>(initialSchedule);
   const [scheduleType, setScheduleType] = useState<'template' | 'custom'>(initialScheduleType);
@@ -69,6 +97,21 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
     }
   }, [initialSchedule, initialScheduleType]);
 
+  // A surgeon or anaesthesia team may not be in two rooms at once
+  const validateStaffBooking = (surgery: SurgeryCaseInput): boolean => {
+    const doubleBooking = findCaseDoubleBooking(surgery, surgeryList);
+    if (!doubleBooking) return true;
+    toast({
+      title: "Päällekkäinen varaus",
+      description: `${staffName(surgicalStaff, doubleBooking.staffId)} on jo varattu leikkaukseen ${doubleBooking.conflictingId}.`,
+      variant: "destructive"
+    });
+    return false;
+  };
+
+  const surgeons = surgicalStaff.filter(staff => staff.role === 'surgeon');
+  const anaesthesiaTeams = surgicalStaff.filter(staff => staff.role === 'anaesthesia');
+
   // Handle schedule type change
   const handleTypeChange = (type: 'template' | 'custom') => {
     setScheduleType(type);
@@ -104,6 +147,8 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
       });
       return;
     }
+
+    if (!validateStaffBooking(newSurgery)) return;
     
     // Validate against blocks
     if (blockScheduleEnabled && blocks.length > 0) {
@@ -208,6 +253,8 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
       });
       return;
     }
+
+    if (!validateStaffBooking(editedSurgery)) return;
     
     // Validate against blocks
     if (blockScheduleEnabled && blocks.length > 0) {
@@ -314,6 +361,103 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
                   onChange={(e) => setNewSurgery({ ...newSurgery, duration: parseInt(e.target.value) })}
                 />
               </div>
+              {surgicalStaff.length > 0 && (
+                <>
+                  <div>
+                    <Label>Kirurgi</Label>
+                    <Select
+                      value={newSurgery.surgeonId || NOT_ASSIGNED}
+                      onValueChange={(value) => setNewSurgery({ ...newSurgery, surgeonId: value === NOT_ASSIGNED ? undefined : value })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_ASSIGNED}>Ei nimetty</SelectItem>
+                        {surgeons.map(staff => (
+                          <SelectItem key={staff.id} value={staff.id}>{staff.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Anestesiatiimi</Label>
+                    <Select
+                      value={newSurgery.anaesthesiaTeamId || NOT_ASSIGNED}
+                      onValueChange={(value) => setNewSurgery({ ...newSurgery, anaesthesiaTeamId: value === NOT_ASSIGNED ? undefined : value })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_ASSIGNED}>Ei nimetty</SelectItem>
+                        {anaesthesiaTeams.map(staff => (
+                          <SelectItem key={staff.id} value={staff.id}>{staff.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              <div>
+                <Label>ASA-luokka</Label>
+                <Select
+                  value={newSurgery.asaClass ? String(newSurgery.asaClass) : NOT_ASSIGNED}
+                  onValueChange={(value) => setNewSurgery({ ...newSurgery, asaClass: value === NOT_ASSIGNED ? undefined : Number(value) as AsaClass })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_ASSIGNED}>Ei tiedossa</SelectItem>
+                    {ASA_CLASSES.map(asa => (
+                      <SelectItem key={asa} value={String(asa)}>ASA {asa}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Ikäryhmä</Label>
+                <Select
+                  value={newSurgery.ageBand || NOT_ASSIGNED}
+                  onValueChange={(value) => setNewSurgery({ ...newSurgery, ageBand: value === NOT_ASSIGNED ? undefined : value as AgeBand })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_ASSIGNED}>Ei tiedossa</SelectItem>
+                    {AGE_BANDS.map(band => (
+                      <SelectItem key={band} value={band}>{AGE_BAND_LABELS[band]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Anestesiamuoto</Label>
+                <Select
+                  value={newSurgery.anaesthesiaType || NOT_ASSIGNED}
+                  onValueChange={(value) => setNewSurgery({ ...newSurgery, anaesthesiaType: value === NOT_ASSIGNED ? undefined : value as AnaesthesiaType })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_ASSIGNED}>Ei tiedossa</SelectItem>
+                    {ANAESTHESIA_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{ANAESTHESIA_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end space-x-2 pb-2">
+                <Switch
+                  id="highBmi"
+                  checked={!!newSurgery.highBmi}
+                  onCheckedChange={(checked) => setNewSurgery({ ...newSurgery, highBmi: checked || undefined })}
+                />
+                <Label htmlFor="highBmi">BMI ≥ 35</Label>
+              </div>
               <div className="md:col-span-2 flex items-end">
                 <Button onClick={handleAddSurgery}>
                   <Plus className="h-4 w-4 mr-2" />
@@ -330,6 +474,13 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
                   <TableHead>Sali</TableHead>
                   <TableHead>Aloitusaika</TableHead>
                   <TableHead>Kesto</TableHead>
+                  {surgicalStaff.length > 0 && (
+                    <>
+                      <TableHead>Kirurgi</TableHead>
+                      <TableHead>Anestesiatiimi</TableHead>
+                    </>
+                  )}
+                  <TableHead>Riskitekijät</TableHead>
                   <TableHead className="text-right">Toiminnot</TableHead>
                 </TableRow>
               </TableHead>
@@ -340,6 +491,13 @@ const SurgeryScheduler: React.FC<SurgerySchedulerProps> = ({
                     <TableCell>{surgery.orRoom}</TableCell>
                     <TableCell>{surgery.scheduledStartTime}</TableCell>
                     <TableCell>{surgery.duration}</TableCell>
+                    {surgicalStaff.length > 0 && (
+                      <>
+                        <TableCell>{surgery.surgeonId && staffName(surgicalStaff, surgery.surgeonId)}</TableCell>
+                        <TableCell>{surgery.anaesthesiaTeamId && staffName(surgicalStaff, surgery.anaesthesiaTeamId)}</TableCell>
+                      </>
+                    )}
+                    <TableCell>{riskSummary(surgery)}</TableCell>
                     <TableCell className="text-right">
                       {editingSurgeryId === surgery.id ? (
                         <div className="flex justify-end space-x-2">
@@ -0,0 +1,223 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { SurgicalStaff, SurgicalStaffRole } from "@/lib/simulation";
+
+interface SurgicalStaffSettingsProps {
+	surgicalStaff: SurgicalStaff[];
+	onSurgicalStaffChange: (surgicalStaff: SurgicalStaff[]) => void;
+}
+
+const staffRoleLabels: Record<SurgicalStaffRole, string> = {
+	surgeon: "Kirurgi",
+	anaesthesia: "Anestesiatiimi",
+};
+
+const DAYS_OF_WEEK = ["Ma", "Ti", "Ke", "To", "Pe", "La", "Su"];
+
+// Hours are edited as decimals rounded to the quarter hour, e.g. 7.75 = 7:45
+const hoursToMinutes = (value: string) =>
+	Math.round(Math.min(24, Math.max(0, Number(value) || 0)) * 4) * 15;
+
+const SurgicalStaffSettings: React.FC<SurgicalStaffSettingsProps> = ({
+	surgicalStaff,
+	onSurgicalStaffChange,
+}) => {
+	const updateStaff = (staffId: string, changes: Partial<SurgicalStaff>) =>
+		onSurgicalStaffChange(
+			surgicalStaff.map((staff) =>
+				staff.id === staffId ? { ...staff, ...changes } : staff
+			)
+		);
+
+	// Weekdays 7:45–16:00 like the default OR opening hours
+	const handleAddStaff = (role: SurgicalStaffRole) => {
+		const prefix = role === "surgeon" ? "KIR" : "AN";
+		let counter = 1;
+		while (surgicalStaff.some((staff) => staff.id === `${prefix}-${counter}`))
+			counter++;
+		onSurgicalStaffChange([
+			...surgicalStaff,
+			{
+				id: `${prefix}-${counter}`,
+				name: `${staffRoleLabels[role]} ${counter}`,
+				role,
+				workingDays: [0, 1, 2, 3, 4],
+				startMinute: 465,
+				endMinute: 960,
+			},
+		]);
+	};
+
+	const toggleWorkingDay = (staff: SurgicalStaff, day: number) =>
+		updateStaff(staff.id, {
+			workingDays: staff.workingDays.includes(day)
+				? staff.workingDays.filter((d) => d !== day)
+				: [...staff.workingDays, day].sort((a, b) => a - b),
+		});
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">Kirurgit ja anestesiatiimit</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{surgicalStaff.length > 0 && (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Tunnus</TableHead>
+								<TableHead>Nimi</TableHead>
+								<TableHead>Rooli</TableHead>
+								<TableHead>Työpäivät</TableHead>
+								<TableHead>Alkaen klo</TableHead>
+								<TableHead>Päättyen klo</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{surgicalStaff.map((staff) => (
+								<TableRow key={staff.id}>
+									<TableCell className="font-mono text-xs">
+										{staff.id}
+									</TableCell>
+									<TableCell>
+										<Input
+											value={staff.name}
+											onChange={(e) =>
+												updateStaff(staff.id, { name: e.target.value })
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Select
+											value={staff.role}
+											onValueChange={(value) =>
+												updateStaff(staff.id, {
+													role: value as SurgicalStaffRole,
+												})
+											}
+										>
+											<SelectTrigger className="w-40">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{Object.entries(staffRoleLabels).map(
+													([role, label]) => (
+														<SelectItem key={role} value={role}>
+															{label}
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+									</TableCell>
+									<TableCell>
+										<div className="flex gap-1">
+											{DAYS_OF_WEEK.map((label, day) => (
+												<Button
+													key={label}
+													size="sm"
+													className="h-7 w-8 px-0 text-xs"
+													variant={
+														staff.workingDays.includes(day)
+															? "default"
+															: "outline"
+													}
+													onClick={() => toggleWorkingDay(staff, day)}
+												>
+													{label}
+												</Button>
+											))}
+										</div>
+									</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											max={24}
+											step={0.25}
+											className="w-20"
+											value={staff.startMinute / 60}
+											onChange={(e) =>
+												updateStaff(staff.id, {
+													startMinute: hoursToMinutes(e.target.value),
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											max={24}
+											step={0.25}
+											className="w-20"
+											value={staff.endMinute / 60}
+											onChange={(e) =>
+												updateStaff(staff.id, {
+													endMinute: hoursToMinutes(e.target.value),
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-6 w-6"
+											onClick={() =>
+												onSurgicalStaffChange(
+													surgicalStaff.filter((s) => s.id !== staff.id)
+												)
+											}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+				<div className="flex gap-2">
+					<Button variant="outline" onClick={() => handleAddStaff("surgeon")}>
+						<PlusCircle className="mr-2 h-4 w-4" />
+						Lisää kirurgi
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => handleAddStaff("anaesthesia")}
+					>
+						<PlusCircle className="mr-2 h-4 w-4" />
+						Lisää anestesiatiimi
+					</Button>
+				</div>
+				<p className="text-xs text-muted-foreground">
+					Leikkauslistan ja salisuunnitelman leikkauksille voi nimetä kirurgin
+					ja anestesiatiimin. Leikkaus alkaa vasta, kun molemmat ovat vapaina
+					ja työajallaan; käynnissä oleva leikkaus jatkuu työajan yli.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default SurgicalStaffSettings;
@@ -0,0 +1,201 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { WardParams } from "@/lib/simulation";
+import WeekHourGrid from "./WeekHourGrid";
+
+interface WardSettingsProps {
+	title?: string;
+	wardParams: WardParams;
+	onWardParamsChange: (changes: Partial<WardParams>) => void;
+}
+
+const DAYS_OF_WEEK = ["Ma", "Ti", "Ke", "To", "Pe", "La", "Su"];
+
+// Typical ward rhythm: discharges between 10:00 and 14:00
+const defaultDischargeHourProfile = Array.from({ length: 24 }, (_, hour) =>
+	hour >= 10 && hour < 14 ? 1 : 0
+);
+
+const clampHour = (value: string) =>
+	Math.min(23, Math.max(0, Math.round(Number(value) || 0)));
+
+const WardSettings: React.FC<WardSettingsProps> = ({
+	title = "Vuodeosasto",
+	wardParams,
+	onWardParamsChange,
+}) => {
+	const admissionHoursEnabled =
+		wardParams.admissionStartHour !== undefined &&
+		wardParams.admissionEndHour !== undefined;
+
+	return (
+		<Card>
+			<CardHeader className="pb-2">
+				<CardTitle className="text-lg">{title}</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<div className="space-y-6">
+					<div className="w-48">
+						<Label htmlFor="wardTotalBeds">Osastopaikat</Label>
+						<Input
+							id="wardTotalBeds"
+							type="number"
+							min={1}
+							value={wardParams.totalBeds}
+							onChange={(e) =>
+								onWardParamsChange({
+									totalBeds: Math.max(
+										1,
+										Math.round(Number(e.target.value) || 1)
+									),
+								})
+							}
+						/>
+					</div>
+
+					<div>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="admissionHours"
+								checked={admissionHoursEnabled}
+								onCheckedChange={(checked) =>
+									onWardParamsChange({
+										admissionStartHour: checked ? 7 : undefined,
+										admissionEndHour: checked ? 22 : undefined,
+									})
+								}
+							/>
+							<Label htmlFor="admissionHours">
+								Osasto ottaa potilaita vastaan vain tiettyinä tunteina
+							</Label>
+						</div>
+						{admissionHoursEnabled && (
+							<div className="grid grid-cols-2 gap-2 mt-2 w-96">
+								<div>
+									<Label
+										htmlFor="admissionStartHour"
+										className="text-xs text-muted-foreground"
+									>
+										Alkaen klo
+									</Label>
+									<Input
+										id="admissionStartHour"
+										type="number"
+										min={0}
+										max={23}
+										value={wardParams.admissionStartHour}
+										onChange={(e) =>
+											onWardParamsChange({
+												admissionStartHour: clampHour(e.target.value),
+											})
+										}
+									/>
+								</div>
+								<div>
+									<Label
+										htmlFor="admissionEndHour"
+										className="text-xs text-muted-foreground"
+									>
+										Viimeistään klo
+									</Label>
+									<Input
+										id="admissionEndHour"
+										type="number"
+										min={0}
+										max={23}
+										value={wardParams.admissionEndHour}
+										onChange={(e) =>
+											onWardParamsChange({
+												admissionEndHour: clampHour(e.target.value),
+											})
+										}
+									/>
+								</div>
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground mt-1">
+							Vastaanottoajan ulkopuolella osastolle valmiit potilaat odottavat
+							heräämössä.
+						</p>
+					</div>
+
+					<div>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="dischargeHourProfile"
+								checked={!!wardParams.dischargeHourProfile}
+								onCheckedChange={(checked) =>
+									onWardParamsChange({
+										dischargeHourProfile: checked
+											? defaultDischargeHourProfile
+											: undefined,
+									})
+								}
+							/>
+							<Label htmlFor="dischargeHourProfile">
+								Kotiutukset painottuvat kellonaikoihin
+							</Label>
+						</div>
+						{wardParams.dischargeHourProfile && (
+							<div className="mt-2">
+								<WeekHourGrid
+									rowLabels={["Paino"]}
+									values={[wardParams.dischargeHourProfile]}
+									step={0.1}
+									onChange={(values) =>
+										onWardParamsChange({ dischargeHourProfile: values[0] })
+									}
+								/>
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground mt-1">
+							Hoitojakson päätyttyä potilas kotiutuu seuraavana
+							kotiutustuntina, joka arvotaan painojen mukaan.
+						</p>
+					</div>
+
+					<div>
+						<div className="flex items-center space-x-2">
+							<Switch
+								id="capacityCalendar"
+								checked={!!wardParams.capacityCalendar}
+								onCheckedChange={(checked) =>
+									onWardParamsChange({
+										capacityCalendar: checked
+											? DAYS_OF_WEEK.map(() =>
+													new Array(24).fill(wardParams.totalBeds)
+											  )
+											: undefined,
+									})
+								}
+							/>
+							<Label htmlFor="capacityCalendar">
+								Avoimet paikat viikonpäivän ja tunnin mukaan
+							</Label>
+						</div>
+						{wardParams.capacityCalendar && (
+							<div className="mt-2">
+								<WeekHourGrid
+									rowLabels={DAYS_OF_WEEK}
+									values={wardParams.capacityCalendar}
+									onChange={(values) =>
+										onWardParamsChange({ capacityCalendar: values })
+									}
+								/>
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground mt-1">
+							Suljetuille paikoille ei oteta uusia potilaita. Paikalla jo
+							olevat potilaat jatkavat hoitoaan.
+						</p>
+					</div>
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default WardSettings;
@@ -0,0 +1,65 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+
+interface WeekHourGridProps {
+	rowLabels: string[];
+	values: number[][]; // One row per label, 24 hourly values each
+	onChange: (values: number[][]) => void;
+	min?: number;
+	step?: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Compact editor for hourly values, e.g. a weekday-by-hour calendar
+const WeekHourGrid: React.FC<WeekHourGridProps> = ({
+	rowLabels,
+	values,
+	onChange,
+	min = 0,
+	step = 1,
+}) => {
+	const handleChange = (row: number, hour: number, value: string) => {
+		const updated = values.map((rowValues) => [...rowValues]);
+		updated[row][hour] = Math.max(min, Number(value) || 0);
+		onChange(updated);
+	};
+
+	return (
+		<div className="overflow-x-auto">
+			<table className="text-xs border-collapse">
+				<thead>
+					<tr>
+						<th />
+						{HOURS.map((hour) => (
+							<th key={hour} className="font-normal text-muted-foreground">
+								{hour}
+							</th>
+						))}
+					</tr>
+				</thead>
+				<tbody>
+					{rowLabels.map((label, row) => (
+						<tr key={label}>
+							<td className="pr-2 font-medium whitespace-nowrap">{label}</td>
+							{HOURS.map((hour) => (
+								<td key={hour} className="p-0">
+									<Input
+										type="number"
+										min={min}
+										step={step}
+										value={values[row]?.[hour] ?? 0}
+										onChange={(e) => handleChange(row, hour, e.target.value)}
+										className="h-7 w-12 px-1 text-xs"
+									/>
+								</td>
+							))}
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+};
+
+export default WeekHourGrid;
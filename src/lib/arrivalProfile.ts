@@ -0,0 +1,47 @@
+import Papa from "papaparse";
+
+// --- Emergency Arrival Profiles ---
+// A rate matrix holds expected arrivals per hour: one row per weekday
+// (0 = Monday) and one column per hour of day.
+
+export const DAYS_PER_WEEK = 7;
+export const HOURS_PER_DAY = 24;
+
+// Matrix with the given daily rate spread evenly over the week
+export function flatRateMatrix(arrivalsPerDay: number): number[][] {
+	const hourlyRate = Math.round((arrivalsPerDay / HOURS_PER_DAY) * 1000) / 1000;
+	return Array.from({ length: DAYS_PER_WEEK }, () =>
+		new Array(HOURS_PER_DAY).fill(hourlyRate)
+	);
+}
+
+// Mean arrivals per day implied by a rate matrix
+export function rateMatrixDailyMean(matrix: number[][]): number {
+	let total = 0;
+	matrix.forEach((row) => row.forEach((rate) => (total += rate)));
+	return total / DAYS_PER_WEEK;
+}
+
+// Reads a 7×24 matrix from CSV, one row per weekday starting from Monday.
+// A header row of hours and a leading weekday label column are skipped, and
+// decimal commas are accepted when the delimiter is a semicolon.
+export function parseRateMatrixCsv(text: string): number[][] {
+	const { data } = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+	let rows = data
+		.map((row) =>
+			row
+				.map((cell) => cell.trim().replace(",", "."))
+				.filter((cell) => cell !== "" && Number.isFinite(Number(cell)))
+				.map(Number)
+		)
+		.filter((row) => row.length >= HOURS_PER_DAY)
+		.map((row) => row.slice(-HOURS_PER_DAY));
+	if (rows.length === DAYS_PER_WEEK + 1) rows = rows.slice(1);
+	if (rows.length !== DAYS_PER_WEEK)
+		throw new Error(
+			`Odotettiin ${DAYS_PER_WEEK} riviä (ma–su), joissa kussakin ${HOURS_PER_DAY} tuntiarvoa. Löytyi ${rows.length}.`
+		);
+	if (rows.some((row) => row.some((rate) => rate < 0)))
+		throw new Error("Saapumisintensiteetit eivät voi olla negatiivisia.");
+	return rows;
+}
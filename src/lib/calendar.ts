@@ -0,0 +1,178 @@
+import { CalendarParams } from "./simulation";
+
+// --- Simulation Calendar ---
+// Simulated day numbers map to real dates from the calendar start date.
+// Weekdays are indexed from 0 = Monday like the rosters and rate matrices.
+// On a closure day no elective surgery is planned and staffing follows the
+// Sunday roster. Without a start date day 0 is a Monday and no day is closed.
+
+const MINUTES_PER_DAY = 1440;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const SUNDAY = 6;
+
+export const WEEKDAY_LABELS = ["ma", "ti", "ke", "to", "pe", "la", "su"];
+
+export interface PublicHoliday {
+	date: string; // ISO date
+	name: string;
+}
+
+export interface SimulationCalendar {
+	hasDates: boolean; // False without a start date
+	dateOf: (day: number) => string | null; // ISO date
+	dayOf: (isoDate: string) => number | null; // Inverse of dateOf
+	weekday: (day: number) => number;
+	// Holiday name or "Suljettu" for a closure day, otherwise null
+	closureOf: (day: number) => string | null;
+	isClosed: (day: number) => boolean;
+	staffingWeekday: (day: number) => number; // Sunday on closure days
+	// "ma 6.1.2025", "ma 6.1." without the year, or "Päivä 1"
+	dayLabel: (day: number, withYear?: boolean) => string;
+	timeLabel: (minutes: number) => string; // "ma 6.1. 07:45" or "D1 07:45"
+	dateTimeOf: (minutes: number) => string; // "2025-01-06 07:45" or ""
+}
+
+export const parseIsoDate = (iso: string | undefined): Date | null => {
+	const match = iso ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso) : null;
+	if (!match) return null;
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return date.getUTCMonth() === month - 1 ? date : null;
+};
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date =>
+	new Date(date.getTime() + days * MS_PER_DAY);
+
+const weekdayOf = (date: Date): number => (date.getUTCDay() + 6) % 7;
+
+const clockLabel = (minutes: number): string => {
+	const dayMinutes = minutes % MINUTES_PER_DAY;
+	const hours = Math.floor(dayMinutes / 60);
+	const mins = Math.floor(dayMinutes % 60);
+	return `${hours.toString().padStart(2, "0")}:${mins
+		.toString()
+		.padStart(2, "0")}`;
+};
+
+// Easter Sunday by the anonymous Gregorian algorithm
+const easterSunday = (year: number): Date => {
+	const a = year % 19;
+	const b = Math.floor(year / 100);
+	const c = year % 100;
+	const d = Math.floor(b / 4);
+	const e = b % 4;
+	const f = Math.floor((b + 8) / 25);
+	const g = Math.floor((b - f + 1) / 3);
+	const h = (19 * a + b - d - g + 15) % 30;
+	const i = Math.floor(c / 4);
+	const k = c % 4;
+	const l = (32 + 2 * e + 2 * i - h - k) % 7;
+	const m = Math.floor((a + 11 * h + 22 * l) / 451);
+	const month = Math.floor((h + l - 7 * m + 114) / 31);
+	const day = ((h + l - 7 * m + 114) % 31) + 1;
+	return new Date(Date.UTC(year, month - 1, day));
+};
+
+// First date on or after the given date that falls on the weekday
+const weekdayOnOrAfter = (date: Date, weekday: number): Date =>
+	addDays(date, (weekday - weekdayOf(date) + 7) % 7);
+
+// Finnish public holidays of a year. Midsummer Eve and Christmas Eve are not
+// official holidays but hospitals run them on the holiday roster.
+export function finnishPublicHolidays(year: number): PublicHoliday[] {
+	const on = (month: number, day: number) =>
+		new Date(Date.UTC(year, month - 1, day));
+	const easter = easterSunday(year);
+	const midsummerDay = weekdayOnOrAfter(on(6, 20), 5);
+	return [
+		{ date: on(1, 1), name: "Uudenvuodenpäivä" },
+		{ date: on(1, 6), name: "Loppiainen" },
+		{ date: addDays(easter, -2), name: "Pitkäperjantai" },
+		{ date: easter, name: "Pääsiäispäivä" },
+		{ date: addDays(easter, 1), name: "2. pääsiäispäivä" },
+		{ date: on(5, 1), name: "Vappu" },
+		{ date: addDays(easter, 39), name: "Helatorstai" },
+		{ date: addDays(easter, 49), name: "Helluntaipäivä" },
+		{ date: addDays(midsummerDay, -1), name: "Juhannusaatto" },
+		{ date: midsummerDay, name: "Juhannuspäivä" },
+		{ date: weekdayOnOrAfter(on(10, 31), 5), name: "Pyhäinpäivä" },
+		{ date: on(12, 6), name: "Itsenäisyyspäivä" },
+		{ date: on(12, 24), name: "Jouluaatto" },
+		{ date: on(12, 25), name: "Joulupäivä" },
+		{ date: on(12, 26), name: "Tapaninpäivä" },
+	].map(({ date, name }) => ({ date: toIsoDate(date), name }));
+}
+
+export function createSimulationCalendar(
+	params?: CalendarParams
+): SimulationCalendar {
+	const start = parseIsoDate(params?.startDate);
+	const startWeekday = start ? weekdayOf(start) : 0;
+	const closureDays = new Set(params?.closureDays || []);
+	const holidaysByYear = new Map<number, Map<string, string>>();
+
+	const holidayName = (date: Date): string | undefined => {
+		const year = date.getUTCFullYear();
+		let holidays = holidaysByYear.get(year);
+		if (!holidays) {
+			holidays = new Map(
+				finnishPublicHolidays(year).map(({ date, name }) => [date, name])
+			);
+			holidaysByYear.set(year, holidays);
+		}
+		return holidays.get(toIsoDate(date));
+	};
+
+	const dateOf = (day: number): string | null =>
+		start ? toIsoDate(addDays(start, day)) : null;
+
+	const dayOf = (isoDate: string): number | null => {
+		const date = parseIsoDate(isoDate);
+		if (!start || !date) return null;
+		return Math.round((date.getTime() - start.getTime()) / MS_PER_DAY);
+	};
+
+	const weekday = (day: number): number =>
+		(((startWeekday + day) % 7) + 7) % 7;
+
+	const closureOf = (day: number): string | null => {
+		if (!start) return null;
+		const date = addDays(start, day);
+		const holiday = params?.finnishHolidays ? holidayName(date) : undefined;
+		if (holiday) return holiday;
+		return closureDays.has(toIsoDate(date)) ? "Suljettu" : null;
+	};
+
+	const isClosed = (day: number): boolean => closureOf(day) !== null;
+
+	const dateLabel = (day: number, withYear: boolean): string => {
+		const date = addDays(start as Date, day);
+		return `${WEEKDAY_LABELS[weekdayOf(date)]} ${date.getUTCDate()}.${
+			date.getUTCMonth() + 1
+		}.${withYear ? date.getUTCFullYear() : ""}`;
+	};
+
+	return {
+		hasDates: !!start,
+		dateOf,
+		dayOf,
+		weekday,
+		closureOf,
+		isClosed,
+		staffingWeekday: (day) => (isClosed(day) ? SUNDAY : weekday(day)),
+		dayLabel: (day, withYear = true) =>
+			start ? dateLabel(day, withYear) : `Päivä ${day + 1}`,
+		timeLabel: (minutes) => {
+			const day = Math.floor(minutes / MINUTES_PER_DAY);
+			return `${start ? dateLabel(day, false) : `D${day + 1}`} ${clockLabel(
+				minutes
+			)}`;
+		},
+		dateTimeOf: (minutes) => {
+			const date = dateOf(Math.floor(minutes / MINUTES_PER_DAY));
+			return date ? `${date} ${clockLabel(minutes)}` : "";
+		},
+	};
+}
@@ -0,0 +1,354 @@
+import { RandomGenerator } from "./random";
+
+// --- Distribution Specs ---
+
+// Durations are in minutes. Normal and lognormal are given by the mean and
+// standard deviation of the duration itself, so they can be swapped without
+// re-estimating parameters; gamma and Weibull use their usual shape/scale.
+export type DistributionSpec =
+	| { type: "normal"; mean: number; stdDev: number }
+	| { type: "lognormal"; mean: number; stdDev: number }
+	| { type: "gamma"; shape: number; scale: number }
+	| { type: "weibull"; shape: number; scale: number }
+	| { type: "triangular"; min: number; mode: number; max: number }
+	| { type: "empirical"; samples: number[] }
+	| { type: "histogram"; bins: HistogramBin[] };
+
+export type DistributionType = DistributionSpec["type"];
+
+// A histogram bin covers [min, max); values are uniform within a bin
+export interface HistogramBin {
+	min: number;
+	max: number;
+	weight: number;
+}
+
+export const distributionTypes: DistributionType[] = [
+	"normal",
+	"lognormal",
+	"gamma",
+	"weibull",
+	"triangular",
+	"empirical",
+	"histogram",
+];
+
+// --- Primitive Samplers ---
+
+// Standard normal deviate (Box-Muller)
+function standardNormalRandom(random: RandomGenerator): number {
+	let u = 0,
+		v = 0;
+	while (u === 0) u = random();
+	while (v === 0) v = random();
+	return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+}
+
+export function normalRandom(
+	mean: number,
+	stdDev: number,
+	random: RandomGenerator = Math.random
+): number {
+	if (stdDev <= 0) return mean;
+	return Math.max(0, mean + stdDev * standardNormalRandom(random));
+}
+
+export function exponentialRandom(
+	rate: number,
+	random: RandomGenerator = Math.random
+): number {
+	if (rate <= 0) return Infinity;
+	return -Math.log(1.0 - random()) / rate;
+}
+
+// Next arrival after `from` of a non-homogeneous Poisson process, sampled by
+// thinning: candidates come from a homogeneous process at maxRate and are
+// kept with probability rateAt(time) / maxRate. maxRate must bound rateAt.
+// Returns Infinity when there is no arrival before `until`.
+export function nonHomogeneousArrivalRandom(
+	from: number,
+	rateAt: (time: number) => number,
+	maxRate: number,
+	until: number,
+	random: RandomGenerator = Math.random
+): number {
+	let time = from;
+	for (;;) {
+		time += exponentialRandom(maxRate, random);
+		if (time >= until) return Infinity;
+		if (random() * maxRate < rateAt(time)) return time;
+	}
+}
+
+export function weightedRandomSelection(
+	distribution: Record<string, number>,
+	random: RandomGenerator = Math.random
+): string | null {
+	const totalWeight = Object.values(distribution).reduce(
+		(sum, weight) => sum + weight,
+		0
+	);
+	if (totalWeight <= 0) return null;
+	let remaining = random() * totalWeight;
+	for (const id in distribution) {
+		if (remaining < distribution[id]) return id;
+		remaining -= distribution[id];
+	}
+	return Object.keys(distribution).pop() || null;
+}
+
+// Marsaglia & Tsang (2000). Shapes below one are boosted by U^(1/shape).
+function gammaRandom(
+	shape: number,
+	scale: number,
+	random: RandomGenerator
+): number {
+	if (shape <= 0 || scale <= 0) return 0;
+	if (shape < 1) {
+		let u = 0;
+		while (u === 0) u = random();
+		return gammaRandom(shape + 1, scale, random) * Math.pow(u, 1 / shape);
+	}
+	const d = shape - 1 / 3;
+	const c = 1 / Math.sqrt(9 * d);
+	for (;;) {
+		let x: number;
+		let v: number;
+		do {
+			x = standardNormalRandom(random);
+			v = 1 + c * x;
+		} while (v <= 0);
+		v = v * v * v;
+		const u = random();
+		if (u < 1 - 0.0331 * x * x * x * x) return d * v * scale;
+		if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v)))
+			return d * v * scale;
+	}
+}
+
+// Lanczos approximation of ln Γ(x), used for Weibull moments
+function logGamma(x: number): number {
+	const coefficients = [
+		676.5203681218851, -1259.1392167224028, 771.32342877765313,
+		-176.61502916214059, 12.507343278686905, -0.13857109526572012,
+		9.9843695780195716e-6, 1.5056327351493116e-7,
+	];
+	if (x < 0.5)
+		return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+	x -= 1;
+	let a = 0.99999999999980993;
+	const t = x + 7.5;
+	coefficients.forEach((coefficient, i) => {
+		a += coefficient / (x + i + 1);
+	});
+	return (
+		0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+	);
+}
+
+function lognormalParameters(mean: number, stdDev: number) {
+	const sigma2 = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+	return { mu: Math.log(mean) - sigma2 / 2, sigma: Math.sqrt(sigma2) };
+}
+
+// --- Sampling ---
+
+export function sampleDistribution(
+	spec: DistributionSpec,
+	random: RandomGenerator = Math.random
+): number {
+	switch (spec.type) {
+		case "normal":
+			return normalRandom(spec.mean, spec.stdDev, random);
+		case "lognormal": {
+			if (spec.mean <= 0) return 0;
+			if (spec.stdDev <= 0) return spec.mean;
+			const { mu, sigma } = lognormalParameters(spec.mean, spec.stdDev);
+			return Math.exp(mu + sigma * standardNormalRandom(random));
+		}
+		case "gamma":
+			return gammaRandom(spec.shape, spec.scale, random);
+		case "weibull": {
+			if (spec.shape <= 0 || spec.scale <= 0) return 0;
+			return spec.scale * Math.pow(-Math.log(1 - random()), 1 / spec.shape);
+		}
+		case "triangular": {
+			const { min, mode, max } = spec;
+			if (max <= min) return min;
+			const u = random();
+			const split = (mode - min) / (max - min);
+			return u < split
+				? min + Math.sqrt(u * (max - min) * (mode - min))
+				: max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+		}
+		case "empirical": {
+			if (spec.samples.length === 0) return 0;
+			return spec.samples[Math.floor(random() * spec.samples.length)];
+		}
+		case "histogram": {
+			const weights: Record<string, number> = {};
+			spec.bins.forEach((bin, i) => {
+				weights[i] = Math.max(0, bin.weight);
+			});
+			const index = weightedRandomSelection(weights, random);
+			if (index === null) return 0;
+			const bin = spec.bins[Number(index)];
+			return bin.min + random() * (bin.max - bin.min);
+		}
+	}
+}
+
+// --- Moments ---
+
+export function distributionMean(spec: DistributionSpec): number {
+	switch (spec.type) {
+		case "normal":
+		case "lognormal":
+			return spec.mean;
+		case "gamma":
+			return spec.shape * spec.scale;
+		case "weibull":
+			return spec.shape > 0
+				? spec.scale * Math.exp(logGamma(1 + 1 / spec.shape))
+				: 0;
+		case "triangular":
+			return (spec.min + spec.mode + spec.max) / 3;
+		case "empirical":
+			return spec.samples.length > 0
+				? spec.samples.reduce((sum, v) => sum + v, 0) / spec.samples.length
+				: 0;
+		case "histogram": {
+			const totalWeight = spec.bins.reduce((sum, b) => sum + b.weight, 0);
+			return totalWeight > 0
+				? spec.bins.reduce(
+						(sum, b) => sum + ((b.min + b.max) / 2) * b.weight,
+						0
+				  ) / totalWeight
+				: 0;
+		}
+	}
+}
+
+export function distributionStdDev(spec: DistributionSpec): number {
+	switch (spec.type) {
+		case "normal":
+		case "lognormal":
+			return spec.stdDev;
+		case "gamma":
+			return Math.sqrt(spec.shape) * spec.scale;
+		case "weibull": {
+			if (spec.shape <= 0) return 0;
+			const g1 = Math.exp(logGamma(1 + 1 / spec.shape));
+			const g2 = Math.exp(logGamma(1 + 2 / spec.shape));
+			return spec.scale * Math.sqrt(Math.max(0, g2 - g1 * g1));
+		}
+		case "triangular": {
+			const { min: a, mode: c, max: b } = spec;
+			return Math.sqrt((a * a + b * b + c * c - a * b - a * c - b * c) / 18);
+		}
+		case "empirical": {
+			const n = spec.samples.length;
+			if (n < 2) return 0;
+			const mean = distributionMean(spec);
+			return Math.sqrt(
+				spec.samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)
+			);
+		}
+		case "histogram": {
+			const totalWeight = spec.bins.reduce((sum, b) => sum + b.weight, 0);
+			if (totalWeight <= 0) return 0;
+			const mean = distributionMean(spec);
+			// Within-bin variance of a uniform bin plus the between-bin spread
+			const variance =
+				spec.bins.reduce((sum, b) => {
+					const mid = (b.min + b.max) / 2;
+					const width = b.max - b.min;
+					return sum + b.weight * ((mid - mean) ** 2 + (width * width) / 12);
+				}, 0) / totalWeight;
+			return Math.sqrt(variance);
+		}
+	}
+}
+
+// Upper end of the plausible range, used to bound rejection sampling
+function distributionUpperBound(spec: DistributionSpec): number {
+	switch (spec.type) {
+		case "triangular":
+			return spec.max;
+		case "empirical":
+			return Math.max(0, ...spec.samples);
+		case "histogram":
+			return Math.max(0, ...spec.bins.map((b) => b.max));
+		default:
+			return distributionMean(spec) + 4 * distributionStdDev(spec);
+	}
+}
+
+// Builds a spec of the given family with the requested mean and standard
+// deviation. Empirical and histogram specs need data, so they fall back to
+// a normal distribution.
+export function fitDistribution(
+	type: DistributionType,
+	mean: number,
+	stdDev: number
+): DistributionSpec {
+	if (mean <= 0 || stdDev <= 0) return { type: "normal", mean, stdDev };
+	switch (type) {
+		case "lognormal":
+			return { type: "lognormal", mean, stdDev };
+		case "gamma": {
+			const shape = (mean / stdDev) ** 2;
+			return { type: "gamma", shape, scale: mean / shape };
+		}
+		case "weibull": {
+			// Solve the coefficient of variation for the shape by bisection;
+			// CV decreases monotonically in the shape
+			const targetCv = stdDev / mean;
+			let low = 0.1;
+			let high = 50;
+			for (let i = 0; i < 60; i++) {
+				const shape = (low + high) / 2;
+				const g1 = Math.exp(logGamma(1 + 1 / shape));
+				const g2 = Math.exp(logGamma(1 + 2 / shape));
+				const cv = Math.sqrt(Math.max(0, g2 / (g1 * g1) - 1));
+				if (cv > targetCv) low = shape;
+				else high = shape;
+			}
+			const shape = (low + high) / 2;
+			return {
+				type: "weibull",
+				shape,
+				scale: mean / Math.exp(logGamma(1 + 1 / shape)),
+			};
+		}
+		case "triangular": {
+			// Symmetric triangle: variance of a half-width h is h^2 / 6
+			const halfWidth = stdDev * Math.sqrt(6);
+			return {
+				type: "triangular",
+				min: Math.max(0, mean - halfWidth),
+				mode: mean,
+				max: mean + halfWidth,
+			};
+		}
+		default:
+			return { type: "normal", mean, stdDev };
+	}
+}
+
+// Remaining duration of a stay that is already in progress at time zero.
+// In-progress stays are length-biased (long stays are more likely to be under
+// way), so a full duration is accepted with probability proportional to its
+// length and a uniform fraction of it is left.
+export function residualDurationRandom(
+	spec: DistributionSpec,
+	random: RandomGenerator = Math.random
+): number {
+	const cap = distributionUpperBound(spec);
+	if (cap <= 0) return 0;
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const fullDuration = sampleDistribution(spec, random);
+		if (random() * cap < fullDuration) return random() * fullDuration;
+	}
+	return random() * distributionMean(spec);
+}
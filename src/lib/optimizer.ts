@@ -25,6 +25,7 @@ export interface OptimizationResult {
 	iterationsRun: number;
 	// Include best simulation results for context
 	bestSimulationResults?: SimulationResults;
+	cancelled?: boolean; // Stopped on request before the search finished
 }
 
 // --- Objective Function ---
@@ -123,13 +124,22 @@ function acceptanceProbability(
 	return Math.exp((oldScore - newScore) / temperature);
 }
 
-// Main optimization function using Simulated Annealing
-export function optimizeSchedule(
+// One completed annealing iteration
+interface OptimizationStep {
+	iteration: number; // Iterations completed so far
+	maxIterations: number;
+	newBest: boolean; // The iteration improved on the best score
+	bestSoFar: () => OptimizationResult;
+}
+
+// Simulated annealing as a generator that yields after every iteration, so
+// callers decide how to report progress, pause for messages or stop early.
+// The return value is the final result.
+function* annealSchedule(
 	initialSchedule: SurgeryCaseInput[],
 	simulationParams: SimulationParams,
-	optimizationParams: OptimizationParams,
-	onProgress?: (progress: number) => void
-): OptimizationResult {
+	optimizationParams: OptimizationParams
+): Generator<OptimizationStep, OptimizationResult> {
 	console.log("Starting schedule optimization...");
 
 	const maxIterations = optimizationParams.maxIterations || 1000;
@@ -142,10 +152,10 @@ export function optimizeSchedule(
 	};
 
 	let currentSchedule = [...initialSchedule];
-	let currentSimParams = {
+	const currentSimParams = {
 		...simulationParams,
 		customSurgeryList: currentSchedule,
-		surgeryScheduleType: "custom" as "custom",
+		surgeryScheduleType: "custom" as const,
 	};
 	let currentResults = runSimulation(currentSimParams);
 	let currentScore = calculateObjectiveScore(currentResults, weights);
@@ -154,16 +164,20 @@ export function optimizeSchedule(
 	let bestScore = currentScore;
 	let bestResults = currentResults;
 	const initialScore = currentScore;
+	let iterationsRun = 0;
+
+	const buildResult = (): OptimizationResult => ({
+		bestSchedule,
+		bestScore,
+		initialScore,
+		finalScore: currentScore, // Score of the last accepted schedule
+		iterationsRun,
+		bestSimulationResults: bestResults, // Include the simulation results for the best schedule
+	});
 
 	console.log(`Initial Score: ${currentScore.toFixed(3)}`);
 
 	for (let i = 0; i < maxIterations; i++) {
-		// Update progress callback if provided
-		if (onProgress) {
-			const progressPercent = Math.round((i / maxIterations) * 100);
-			onProgress(progressPercent);
-		}
-
 		const neighborSchedule = generateNeighborSchedule(
 			currentSchedule,
 			simulationParams
@@ -171,7 +185,7 @@ export function optimizeSchedule(
 		const neighborSimParams = {
 			...simulationParams,
 			customSurgeryList: neighborSchedule,
-			surgeryScheduleType: "custom" as "custom",
+			surgeryScheduleType: "custom" as const,
 		};
 		const neighborResults = runSimulation(neighborSimParams);
 		const neighborScore = calculateObjectiveScore(neighborResults, weights);
@@ -186,15 +200,14 @@ export function optimizeSchedule(
 			currentSchedule = neighborSchedule;
 			currentScore = neighborScore;
 			currentResults = neighborResults; // Store results if accepted
-			// console.log(`Iteration ${i}: Accepted new schedule. Score: ${currentScore.toFixed(3)}, Temp: ${temperature.toFixed(3)}`);
-		} else {
-			// console.log(`Iteration ${i}: Rejected new schedule. Score: ${neighborScore.toFixed(3)} > ${currentScore.toFixed(3)}, Temp: ${temperature.toFixed(3)}`);
 		}
 
+		let newBest = false;
 		if (currentScore < bestScore) {
 			bestSchedule = [...currentSchedule];
 			bestScore = currentScore;
 			bestResults = currentResults; // Store best results found so far
+			newBest = true;
 			console.log(
 				`Iteration ${i}: New best score found: ${bestScore.toFixed(3)}`
 			);
@@ -202,17 +215,7 @@ export function optimizeSchedule(
 
 		// Cool down temperature
 		temperature *= coolingRate;
-
-		if (temperature < 0.1) {
-			console.log(
-				`Temperature dropped below threshold at iteration ${i}. Stopping early.`
-			);
-			// Final progress update
-			if (onProgress) {
-				onProgress(100);
-			}
-			break; // Stop if temperature is too low
-		}
+		iterationsRun = i + 1;
 
 		// Optional: Log progress periodically
 		if (i % 100 === 0) {
@@ -224,16 +227,98 @@ export function optimizeSchedule(
 				)}`
 			);
 		}
+
+		if (temperature < 0.1) {
+			console.log(
+				`Temperature dropped below threshold at iteration ${i}. Stopping early.`
+			);
+			break; // Stop if temperature is too low
+		}
+
+		yield {
+			iteration: iterationsRun,
+			maxIterations,
+			newBest,
+			bestSoFar: buildResult,
+		};
 	}
 
 	console.log(`Optimization finished. Best score: ${bestScore.toFixed(3)}`);
 
-	return {
-		bestSchedule,
-		bestScore,
-		initialScore,
-		finalScore: currentScore, // Score of the last accepted schedule
-		iterationsRun: maxIterations, // Or actual count if stopped early
-		bestSimulationResults: bestResults, // Include the simulation results for the best schedule
-	};
+	return buildResult();
+}
+
+// Main optimization function using Simulated Annealing
+export function optimizeSchedule(
+	initialSchedule: SurgeryCaseInput[],
+	simulationParams: SimulationParams,
+	optimizationParams: OptimizationParams,
+	onProgress?: (progress: number) => void
+): OptimizationResult {
+	const steps = annealSchedule(
+		initialSchedule,
+		simulationParams,
+		optimizationParams
+	);
+	// Without strict null checks TypeScript cannot narrow on `done`
+	for (;;) {
+		const next = steps.next();
+		if (next.done) {
+			if (onProgress) onProgress(100);
+			return next.value as OptimizationResult;
+		}
+		const step = next.value as OptimizationStep;
+		if (onProgress)
+			onProgress(Math.round((step.iteration / step.maxIterations) * 100));
+	}
+}
+
+export interface OptimizationControl {
+	onProgress?: (progress: number) => void;
+	// Called with the best result so far whenever the best score improves
+	onBestFound?: (result: OptimizationResult) => void;
+	// Checked between iterations; returning true stops with the best so far
+	shouldStop?: () => boolean;
+}
+
+// How long the optimizer may run before giving pending messages a chance
+const YIELD_INTERVAL_MS = 50;
+
+// Same search as optimizeSchedule, but periodically yields to the event loop
+// so that a worker can receive a cancel request while it runs
+export async function optimizeScheduleAsync(
+	initialSchedule: SurgeryCaseInput[],
+	simulationParams: SimulationParams,
+	optimizationParams: OptimizationParams,
+	control: OptimizationControl = {}
+): Promise<OptimizationResult> {
+	const steps = annealSchedule(
+		initialSchedule,
+		simulationParams,
+		optimizationParams
+	);
+	let lastYield = Date.now();
+	for (;;) {
+		const next = steps.next();
+		if (next.done) {
+			if (control.onProgress) control.onProgress(100);
+			return next.value as OptimizationResult;
+		}
+		const step = next.value as OptimizationStep;
+		if (control.onProgress)
+			control.onProgress(
+				Math.round((step.iteration / step.maxIterations) * 100)
+			);
+		if (step.newBest && control.onBestFound)
+			control.onBestFound(step.bestSoFar());
+
+		if (Date.now() - lastYield >= YIELD_INTERVAL_MS) {
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			lastYield = Date.now();
+		}
+		if (control.shouldStop && control.shouldStop()) {
+			console.log(`Optimization stopped after ${step.iteration} iterations.`);
+			return { ...step.bestSoFar(), cancelled: true };
+		}
+	}
 }
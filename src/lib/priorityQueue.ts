@@ -0,0 +1,95 @@
+// --- Priority Queue ---
+
+// Binary min-heap. Elements with equal priority are dequeued in insertion
+// order (FIFO), which the simulation relies on for events at the same time
+// and for patients of the same priority in waiting queues.
+export class PriorityQueue<T> {
+	private items: { element: T; priority: number; sequence: number }[] = [];
+	private nextSequence = 0;
+
+	enqueue(element: T, priority: number): void {
+		this.items.push({ element, priority, sequence: this.nextSequence++ });
+		this.siftUp(this.items.length - 1);
+	}
+
+	dequeue(): T | undefined {
+		if (this.items.length === 0) return undefined;
+		const top = this.items[0];
+		const last = this.items.pop()!;
+		if (this.items.length > 0) {
+			this.items[0] = last;
+			this.siftDown(0);
+		}
+		return top.element;
+	}
+
+	isEmpty(): boolean {
+		return this.items.length === 0;
+	}
+
+	peek(): T | undefined {
+		return this.items[0]?.element;
+	}
+
+	get length(): number {
+		return this.items.length;
+	}
+
+	// Removes the first entry of an element, keeping the order of the rest
+	remove(element: T): boolean {
+		const index = this.items.findIndex((item) => item.element === element);
+		if (index === -1) return false;
+		const last = this.items.pop()!;
+		if (index < this.items.length) {
+			this.items[index] = last;
+			this.siftDown(index);
+			this.siftUp(index);
+		}
+		return true;
+	}
+
+	// Elements in dequeue order, without removing them
+	toArray(): T[] {
+		return [...this.items]
+			.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence)
+			.map((item) => item.element);
+	}
+
+	private isBefore(a: number, b: number): boolean {
+		const itemA = this.items[a];
+		const itemB = this.items[b];
+		return (
+			itemA.priority < itemB.priority ||
+			(itemA.priority === itemB.priority && itemA.sequence < itemB.sequence)
+		);
+	}
+
+	private swap(a: number, b: number): void {
+		const item = this.items[a];
+		this.items[a] = this.items[b];
+		this.items[b] = item;
+	}
+
+	private siftUp(index: number): void {
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!this.isBefore(index, parent)) break;
+			this.swap(index, parent);
+			index = parent;
+		}
+	}
+
+	private siftDown(index: number): void {
+		const size = this.items.length;
+		for (;;) {
+			const left = 2 * index + 1;
+			const right = left + 1;
+			let smallest = index;
+			if (left < size && this.isBefore(left, smallest)) smallest = left;
+			if (right < size && this.isBefore(right, smallest)) smallest = right;
+			if (smallest === index) break;
+			this.swap(index, smallest);
+			index = smallest;
+		}
+	}
+}
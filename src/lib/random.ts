@@ -0,0 +1,127 @@
+// --- Seedable Random Number Streams ---
+
+// A generator returns uniformly distributed numbers in [0, 1), like Math.random
+export type RandomGenerator = () => number;
+
+export type RandomGeneratorFactory = (seed: number) => RandomGenerator;
+
+// Independent substreams, one per stochastic source. Changing how many draws
+// one source makes (e.g. a different cancellation risk) leaves the others intact.
+export type RandomStreamName =
+	| "durations" // Surgery and PACU phase durations
+	| "arrivals" // Emergency inter-arrival times and class selection
+	| "cancellations" // Cancellation checks and reasons
+	| "wardLos" // Ward length of stay
+	| "discharges" // Ward discharge hours
+	| "routing" // Destination unit of inpatients
+	| "urgency" // Urgency category of emergencies
+	| "cleaning" // Turnover and bed cleaning times
+	| "schedule" // Template and block schedule generation
+	| "staffing" // Nurse skill assignment
+	| "census"; // Initial census classes and residual stays
+
+export type RandomStreams = Record<RandomStreamName, RandomGenerator>;
+
+export const randomStreamNames: RandomStreamName[] = [
+	"durations",
+	"arrivals",
+	"cancellations",
+	"wardLos",
+	"discharges",
+	"routing",
+	"urgency",
+	"cleaning",
+	"schedule",
+	"staffing",
+	"census",
+];
+
+// --- Generators ---
+
+function mulberry32(seed: number): RandomGenerator {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function sfc32(seed: number): RandomGenerator {
+	let a = 0x9e3779b9;
+	let b = 0x243f6a88;
+	let c = 0xb7e15162;
+	let d = seed >>> 0;
+	const next = () => {
+		const t = (((a + b) >>> 0) + d) >>> 0;
+		d = (d + 1) >>> 0;
+		a = b ^ (b >>> 9);
+		b = (c + (c << 3)) >>> 0;
+		c = (c << 21) | (c >>> 11);
+		c = (c + t) >>> 0;
+		return t / 4294967296;
+	};
+	// Discard the first outputs so that nearby seeds diverge
+	for (let i = 0; i < 12; i++) next();
+	return next;
+}
+
+// Registry of available algorithms. Additional generators can be registered
+// with registerRandomAlgorithm and selected through SimulationParams.randomAlgorithm.
+const randomAlgorithms: Record<string, RandomGeneratorFactory> = {
+	mulberry32,
+	sfc32,
+};
+
+export const defaultRandomAlgorithm = "mulberry32";
+
+export function registerRandomAlgorithm(
+	name: string,
+	factory: RandomGeneratorFactory
+): void {
+	randomAlgorithms[name] = factory;
+}
+
+export function getRandomAlgorithmNames(): string[] {
+	return Object.keys(randomAlgorithms);
+}
+
+// --- Seeding ---
+
+// FNV-1a hash, used to derive a substream seed from the master seed and a stream name
+function hashString(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+// Picks a fresh seed when the user has not fixed one. The value is reported
+// back with the results so that the run can be reproduced later.
+export function createRandomSeed(): number {
+	return Math.floor(Math.random() * 2147483647) + 1;
+}
+
+export function createRandomStream(
+	seed: number,
+	stream: string,
+	algorithm: string = defaultRandomAlgorithm
+): RandomGenerator {
+	const factory = randomAlgorithms[algorithm] || randomAlgorithms.mulberry32;
+	return factory(hashString(`${seed >>> 0}:${stream}`));
+}
+
+export function createRandomStreams(
+	seed: number,
+	algorithm: string = defaultRandomAlgorithm
+): RandomStreams {
+	const streams = {} as RandomStreams;
+	randomStreamNames.forEach((name) => {
+		streams[name] = createRandomStream(seed, name, algorithm);
+	});
+	return streams;
+}
@@ -0,0 +1,211 @@
+import {
+	KpiStatistics,
+	ReplicationSummary,
+	SimulationParams,
+	SimulationResults,
+	runSimulation,
+} from "./simulation";
+import { createRandomSeed, createRandomStream } from "./random";
+
+// --- Statistics ---
+
+// Two-sided 95% Student t critical values for 1..30 degrees of freedom
+const T_CRITICAL_95 = [
+	12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+	2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08,
+	2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function tCritical95(degreesOfFreedom: number): number {
+	if (degreesOfFreedom < 1) return Infinity;
+	if (degreesOfFreedom <= 30) return T_CRITICAL_95[degreesOfFreedom - 1];
+	if (degreesOfFreedom <= 40) return 2.021;
+	if (degreesOfFreedom <= 60) return 2.0;
+	if (degreesOfFreedom <= 120) return 1.98;
+	return 1.96;
+}
+
+export function calculateKpiStatistics(values: number[]): KpiStatistics {
+	const n = values.length;
+	if (n === 0)
+		return { mean: 0, stdDev: 0, halfWidth: 0, lower: 0, upper: 0, n: 0 };
+	const mean = values.reduce((sum, v) => sum + v, 0) / n;
+	const variance =
+		n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+	const stdDev = Math.sqrt(variance);
+	// A single replication gives no information about the spread
+	const halfWidth = n > 1 ? (tCritical95(n - 1) * stdDev) / Math.sqrt(n) : 0;
+	return {
+		mean,
+		stdDev,
+		halfWidth,
+		lower: mean - halfWidth,
+		upper: mean + halfWidth,
+		n,
+	};
+}
+
+// Fields that duplicate other KPIs for older components, or are not KPIs at all
+const EXCLUDED_FIELDS = new Set([
+	"seed",
+	"averageWaitingTime",
+	"maxWaitingTime",
+	"totalSurgeries",
+	"meanWaitTime",
+	"p95WaitTime",
+	"meanBedOccupancy",
+	"maxBedOccupancy",
+	"maxNurseUtilization",
+	"orUtilizations",
+	"patientTypeCount",
+	"patientClassCounts",
+]);
+
+// Extracts every scalar KPI from a result. Numeric records (cost breakdown,
+// per-OR utilisation, ...) are flattened into "field.key" entries.
+export function extractScalarKpis(
+	results: SimulationResults
+): Record<string, number> {
+	const kpis: Record<string, number> = {};
+	Object.entries(results).forEach(([key, value]) => {
+		if (EXCLUDED_FIELDS.has(key)) return;
+		if (typeof value === "number") {
+			if (Number.isFinite(value)) kpis[key] = value;
+		} else if (value && typeof value === "object" && !Array.isArray(value)) {
+			Object.entries(value as Record<string, unknown>).forEach(
+				([subKey, subValue]) => {
+					if (typeof subValue === "number" && Number.isFinite(subValue))
+						kpis[`${key}.${subKey}`] = subValue;
+				}
+			);
+		}
+	});
+	// Destination units nest one level deeper: "unitResults.ICU.meanOccupancy"
+	Object.entries(results.unitResults || {}).forEach(([unitId, unit]) => {
+		Object.entries(unit).forEach(([field, value]) => {
+			if (typeof value === "number" && Number.isFinite(value))
+				kpis[`unitResults.${unitId}.${field}`] = value;
+		});
+	});
+	// Waits by class and queue: "waitingTimeByClass.HERKO.pacu1.mean"
+	Object.entries(results.waitingTimeByClass || {}).forEach(
+		([classId, queues]) => {
+			Object.entries(queues).forEach(([queueId, stats]) => {
+				const prefix = `waitingTimeByClass.${classId}.${queueId}`;
+				kpis[`${prefix}.mean`] = stats.mean;
+				kpis[`${prefix}.p95`] = stats.p95;
+			});
+		}
+	);
+	// Weekday totals: "weekdayResults.0.electiveCount" for Mondays
+	(results.weekdayResults || []).forEach((period, weekday) => {
+		Object.entries(period).forEach(([field, value]) => {
+			if (Number.isFinite(value))
+				kpis[`weekdayResults.${weekday}.${field}`] = value;
+		});
+	});
+	// Counts are more useful than the case lists for comparing replications
+	kpis.completedSurgeryCount = results.completedSurgeries.length;
+	kpis.cancelledSurgeryCount = results.cancelledSurgeries.length;
+	return kpis;
+}
+
+export function summarizeReplications(
+	replications: SimulationResults[]
+): Record<string, KpiStatistics> {
+	const values: Record<string, number[]> = {};
+	replications.forEach((results) => {
+		Object.entries(extractScalarKpis(results)).forEach(([key, value]) => {
+			if (!values[key]) values[key] = [];
+			values[key].push(value);
+		});
+	});
+	const kpis: Record<string, KpiStatistics> = {};
+	Object.entries(values).forEach(([key, kpiValues]) => {
+		kpis[key] = calculateKpiStatistics(kpiValues);
+	});
+	return kpis;
+}
+
+// --- Replication Runner ---
+
+const DEFAULT_TARGET_METRIC = "meanORWaitingTime";
+const DEFAULT_MAX_REPLICATIONS = 100;
+
+// Checks whether the relative half-width of the target metric is small enough.
+// A zero mean with zero spread counts as converged.
+function isTargetReached(
+	statistics: KpiStatistics | undefined,
+	targetHalfWidth: number
+): boolean {
+	if (!statistics || statistics.n < 2) return false;
+	if (statistics.mean === 0) return statistics.halfWidth === 0;
+	return statistics.halfWidth / Math.abs(statistics.mean) <= targetHalfWidth;
+}
+
+// Runs independent replications of the simulation and returns the first
+// replication's results with a ReplicationSummary attached. Replication 1
+// uses the base seed, so it matches a single run with the same parameters.
+export function runReplications(
+	params: SimulationParams,
+	onProgress?: (progress: number) => void
+): SimulationResults {
+	const replicationParams = params.replicationParams || { replications: 1 };
+	const minReplications = Math.max(1, replicationParams.replications || 1);
+	const targetHalfWidth = replicationParams.targetHalfWidth;
+	const useTarget = targetHalfWidth !== undefined && targetHalfWidth > 0;
+	const maxReplications = useTarget
+		? Math.max(
+				minReplications,
+				replicationParams.maxReplications || DEFAULT_MAX_REPLICATIONS
+		  )
+		: minReplications;
+	const targetMetric = replicationParams.targetMetric || DEFAULT_TARGET_METRIC;
+
+	const baseSeed = params.seed ?? createRandomSeed();
+	const seedStream = createRandomStream(
+		baseSeed,
+		"replications",
+		params.randomAlgorithm
+	);
+	const seeds: number[] = [];
+	const replications: SimulationResults[] = [];
+	let kpis: Record<string, KpiStatistics> = {};
+	let targetReached = false;
+
+	for (let i = 0; i < maxReplications; i++) {
+		const seed =
+			i === 0 ? baseSeed : Math.floor(seedStream() * 2147483646) + 1;
+		seeds.push(seed);
+		// Only the first replication's results are returned, so only it is traced
+		replications.push(
+			runSimulation({
+				...params,
+				seed,
+				enableTrace: params.enableTrace && i === 0,
+			})
+		);
+
+		if (onProgress) onProgress(Math.round(((i + 1) / maxReplications) * 100));
+
+		if (useTarget && i + 1 >= minReplications) {
+			kpis = summarizeReplications(replications);
+			targetReached = isTargetReached(kpis[targetMetric], targetHalfWidth);
+			if (targetReached) break;
+		}
+	}
+
+	if (!useTarget) kpis = summarizeReplications(replications);
+	if (onProgress) onProgress(100);
+
+	return {
+		...replications[0],
+		replicationSummary: {
+			replications: replications.length,
+			seeds,
+			kpis,
+			targetMetric: useTarget ? targetMetric : undefined,
+			targetReached: useTarget ? targetReached : undefined,
+		},
+	};
+}
@@ -1,71 +1,57 @@
 import { v4 as uuidv4 } from "uuid";
+import {
+	RandomGenerator,
+	createRandomSeed,
+	createRandomStream,
+	createRandomStreams,
+} from "./random";
+import {
+	DistributionSpec,
+	distributionMean,
+	exponentialRandom,
+	nonHomogeneousArrivalRandom,
+	residualDurationRandom,
+	sampleDistribution,
+	weightedRandomSelection,
+} from "./distributions";
+import { PriorityQueue } from "./priorityQueue";
+import { createSimulationCalendar } from "./calendar";
 
-// --- Utility Functions ---
-
-class PriorityQueue<T> {
-	private items: { element: T; priority: number }[] = [];
-	enqueue(element: T, priority: number): void {
-		const queueElement = { element, priority };
-		let added = false;
-		for (let i = 0; i < this.items.length; i++) {
-			if (this.items[i].priority > queueElement.priority) {
-				this.items.splice(i, 0, queueElement);
-				added = true;
-				break;
-			}
-		}
-		if (!added) this.items.push(queueElement);
-	}
-	dequeue(): T | undefined {
-		return this.items.shift()?.element;
-	}
-	isEmpty(): boolean {
-		return this.items.length === 0;
-	}
-	peek(): T | undefined {
-		return this.items[0]?.element;
-	}
-	get length(): number {
-		return this.items.length;
-	}
-}
+// --- Interfaces ---
 
-function normalRandom(mean: number, stdDev: number): number {
-	if (stdDev <= 0) return mean;
-	let u = 0,
-		v = 0;
-	while (u === 0) u = Math.random();
-	while (v === 0) v = Math.random();
-	const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-	return Math.max(0, mean + stdDev * z);
+export interface WardParams {
+	totalBeds: number;
+	// Relative weight of each hour of the day (24 values) for discharges. A
+	// patient whose stay is over leaves at the next occurrence of an hour
+	// drawn from the profile; without one, discharge follows the stay directly.
+	dischargeHourProfile?: number[];
+	// Transfers from PACU are accepted from admissionStartHour until
+	// admissionEndHour; a window past midnight wraps (e.g. 7 to 1)
+	admissionStartHour?: number;
+	admissionEndHour?: number;
+	// Open beds by weekday (0 = Monday) and hour, capped at totalBeds
+	capacityCalendar?: number[][];
 }
 
-function weightedRandomSelection(
-	distribution: Record<string, number>
-): string | null {
-	const totalWeight = Object.values(distribution).reduce(
-		(sum, weight) => sum + weight,
-		0
-	);
-	if (totalWeight <= 0) return null;
-	let random = Math.random() * totalWeight;
-	for (const id in distribution) {
-		if (random < distribution[id]) return id;
-		random -= distribution[id];
-	}
-	return Object.keys(distribution).pop() || null;
-}
+export type DestinationUnitType = "ward" | "icu" | "stepDown";
 
-function exponentialRandom(rate: number): number {
-	if (rate <= 0) return Infinity;
-	return -Math.log(1.0 - Math.random()) / rate;
+// Inpatient unit a patient goes to after PACU. Admission hours, the bed
+// calendar and discharge hours work as in WardParams.
+export interface DestinationUnit extends WardParams {
+	id: string; // Also the prefix of the unit's bed IDs
+	name: string;
+	type: DestinationUnitType;
+	// Length of stay; when omitted the patient class's ward stay is used
+	losDistribution?: DistributionSpec;
+	costPerBedMinute?: number; // Defaults to costParams.costPerWardBedMinute
 }
 
-// --- Interfaces ---
-
-export interface WardParams {
-	totalBeds: number;
-}
+// Why a patient ready for the ward was still waiting in PACU
+export type WardDelayCause =
+	| "admissionWindow" // Outside the ward admission hours
+	| "capacityCalendar" // Open beds full while calendar beds were closed
+	| "dischargeTiming" // A ward patient was ready but waiting to be discharged
+	| "bedShortage"; // Every bed was taken by patients still needing it
 
 // Nurse skill level definition
 export interface NurseSkill {
@@ -76,6 +62,17 @@ export interface NurseSkill {
 	efficiencyMultiplier: number; // 1.0 is standard, higher is more efficient
 }
 
+// Meal break of a shift. Each nurse takes one break of durationMinutes,
+// starting within the window (minutes from the shift start) once free of
+// patients. A nurse goes on break only if at least minNursesOnDuty nurses
+// stay on duty; a break not started by the end of the window is missed.
+export interface NurseBreakRule {
+	durationMinutes: number;
+	windowStartMinute: number;
+	windowEndMinute: number;
+	minNursesOnDuty: number;
+}
+
 // Nurse shift definition
 export interface NurseShift {
 	id: string;
@@ -84,27 +81,95 @@ export interface NurseShift {
 	durationMinutes: number;
 	nursesPerDay: number[]; // Array of nurse counts per day of week (0 = Monday, 6 = Sunday)
 	skillDistribution: Record<string, number>; // Skill ID to percentage
+	// The shift's nurses arrive this many minutes before startMinute, so
+	// both crews are present for the handover
+	handoverOverlapMinutes?: number;
+	breakRule?: NurseBreakRule;
 }
 
 export interface StaffParams {
 	totalNurses: number;
+	// Patients per nurse in each PACU phase. A nurse carries concurrent
+	// patients up to the ratio, scaled by the skill's efficiencyMultiplier
+	// and the patient class's nurseAcuity.
 	phase1NurseRatio: number;
 	phase2NurseRatio: number;
 	useEnhancedNurseModel: boolean;
 	nurseSkills: NurseSkill[];
 	nurseShifts: NurseShift[];
 	overtimeMultiplier: number; // Cost multiplier for overtime
+	// Pass the patient of a nurse whose shift has ended to a free nurse on
+	// duty instead of keeping the nurse on overtime
+	handoffAtShiftEnd?: boolean;
+}
+
+export type SurgicalStaffRole = "surgeon" | "anaesthesia";
+
+// Surgeon or anaesthesia team that elective cases name. A case starts only
+// when its staff are free and on duty; a case already running continues
+// past the end of the working hours.
+export interface SurgicalStaff {
+	id: string;
+	name: string;
+	role: SurgicalStaffRole;
+	workingDays: number[]; // 0 = Monday
+	startMinute: number; // Working hours as minutes from day start
+	endMinute: number;
 }
 
 export interface PacuParams {
 	phase1Beds: number;
 	phase2Beds: number;
+	// Keep a finished patient in the OR until a phase 1 bed and nurse are
+	// free, so a full PACU delays the room's next case
+	holdInOR?: boolean;
+}
+
+// Pre-operative holding area. An arriving elective takes a bay for its
+// preparation, joins the OR queue when prepared and keeps the bay until
+// surgery starts; emergencies go straight to the OR queue. In the shared
+// mode the bays are the PACU phase 2 beds, and a freed bed goes to a
+// waiting phase 2 patient before a holding patient.
+export interface HoldingParams {
+	enabled: boolean;
+	bays: number; // Own bays; not used in the shared mode
+	prepDurationDistribution: DistributionSpec; // Minutes
+	sharedWithPacuPhase2?: boolean;
+}
+
+// Urgency category of emergency cases, with the target time from arrival to
+// the start of surgery. More urgent categories are operated on first.
+export interface UrgencyCategory {
+	id: string;
+	name: string;
+	targetMinutes: number;
+	share: number; // Relative weight among emergency arrivals
+}
+
+// OR set aside for emergencies. A dedicated room never takes electives; a
+// reserved room takes them from reservedUntilMinute of the day on.
+export interface EmergencyORParams {
+	orId: string;
+	mode: "dedicated" | "reserved";
+	reservedUntilMinute?: number; // Minute of the day, default 720 (12:00)
 }
 
+// What happens when an emergency arrives and every usable OR is busy and
+// waiting would miss its urgency target: "bumpElective" cancels the next
+// elective case so the emergency takes its place in the list; "onCallRoom"
+// opens an extra after-hours room
+export type EmergencyPreemptionPolicy = "none" | "bumpElective" | "onCallRoom";
+
 export interface EmergencyParams {
 	enabled: boolean;
 	arrivalRateMeanPerDay?: number;
+	// Expected arrivals per hour, one row per weekday (0 = Monday) and one
+	// column per hour of day. Replaces arrivalRateMeanPerDay when set.
+	arrivalRateMatrix?: number[][];
 	patientClassDistribution?: Record<string, number>;
+	urgencyCategories?: UrgencyCategory[];
+	emergencyOR?: EmergencyORParams;
+	preemptionPolicy?: EmergencyPreemptionPolicy;
 }
 
 // Add Cost Parameters Interface
@@ -115,9 +180,112 @@ export interface CostParams {
 	costPerNurseMinute: number;
 	costPerWardBedMinute: number; // Optional, if ward costs are tracked
 	costPerCancellation?: number; // Optional
+	costPerReschedule?: number; // Per cancelled case booked into a new session
+	costPerOnCallActivation?: number; // Per after-hours room opening
 	// Add other relevant costs (e.g., overtime multiplier)
 }
 
+// Monte Carlo replication settings. A fixed number of replications is run, or,
+// when targetHalfWidth is set, replications continue until the 95% confidence
+// interval of targetMetric is narrow enough (or maxReplications is reached).
+export interface ReplicationParams {
+	replications: number; // Fixed count, or the minimum count when a target is set
+	targetHalfWidth?: number; // Relative half-width target (0.05 = ±5% of the mean)
+	targetMetric?: string; // KPI the target applies to (default: meanORWaitingTime)
+	maxReplications?: number;
+}
+
+// Patients already in beds when the simulation starts. Remaining length of
+// stay is sampled for each of them, so the run does not begin with an empty
+// hospital.
+export interface InitialCensusParams {
+	wardPatients: number;
+	pacuPhase1Patients?: number;
+	pacuPhase2Patients?: number;
+	// Class mix of the census; defaults to the elective mix of classes that
+	// use the relevant unit
+	patientClassDistribution?: Record<string, number>;
+}
+
+// When a free OR may take a case planned for another room
+export type RoomSwapPolicy =
+	| "never" // Cases only run in their planned room
+	| "whenLate" // Once the case is swapAfterMinutes past its planned start
+	| "always"; // As soon as the case is due and its own room is busy
+
+// Room-fidelity mode: elective cases wait for their planned orRoom and never
+// start before scheduledStartTime. Emergencies take any free room.
+export interface RoomFidelityParams {
+	enabled: boolean;
+	swapPolicy: RoomSwapPolicy;
+	swapAfterMinutes?: number; // For "whenLate" (default 30)
+	lateStartToleranceMinutes?: number; // Later starts count as late (default 15)
+}
+
+// Same-day cancellation rules for elective cases. Cancelled electives can be
+// booked again into the first later OR session with room for them.
+export interface CancellationRuleParams {
+	enabled: boolean;
+	// Cancel an inpatient at surgery start when no ward bed is forecast to be
+	// free by the time the patient is expected to leave PACU
+	wardBedForecast: boolean;
+	// Cancel a case whose planned duration would run past the session end
+	sessionOverrun: boolean;
+	overrunToleranceMinutes?: number; // Allowed overrun (default 0)
+	// At the cutoff, cancel the day's unstarted electives when PACU phase 1
+	// (occupied beds plus waiting patients) is at or above the threshold
+	pacuSaturation: boolean;
+	pacuCutoffMinute?: number; // Minute of day (default 840 = 14:00)
+	pacuSaturationThreshold?: number; // Share of phase 1 beds (default 1)
+	reschedule: boolean;
+	maxReschedules?: number; // Per original case (default 2)
+}
+
+// Resources that are cleaned between patients
+export type CleaningResource = "or" | "pacu" | "ward";
+
+// Room turnover and bed cleaning. A freed OR, PACU bay (phase 1 or 2) or
+// ward bed stays unavailable for a sampled cleaning time; activities
+// without a distribution are skipped. With a crew, each cleaning needs one
+// of crewSize cleaners and waits in order for a free one.
+export interface CleaningParams {
+	enabled: boolean;
+	orTurnover?: DistributionSpec;
+	pacuBayCleaning?: DistributionSpec;
+	wardBedCleaning?: DistributionSpec;
+	crewSize?: number; // Unlimited when omitted or 0
+}
+
+export type WaitingQueueId = "or" | "pacu1" | "pacu2" | "ward" | "nurse";
+
+// Order in which a waiting queue serves its patients. Ties are served in
+// arrival order.
+export type QueueDiscipline =
+	| "priority" // Class priority; urgent emergencies first (default)
+	| "fifo" // Order of starting to wait
+	| "sept" // Shortest expected processing time first
+	| "emergencyFirst" // Emergencies, then everyone else, each in FIFO order
+	| "agingPriority"; // Class priority, rising while waiting
+
+export interface QueueDisciplineParams {
+	or?: QueueDiscipline;
+	pacu1?: QueueDiscipline;
+	pacu2?: QueueDiscipline;
+	ward?: QueueDiscipline;
+	nurse?: QueueDiscipline;
+	// agingPriority: minutes of waiting worth one priority level (default 60)
+	agingMinutesPerLevel?: number;
+}
+
+// Real dates for the simulated days. Closure days (holidays and the listed
+// dates) get no elective surgery and run on the Sunday roster. Without a
+// start date day 0 is a Monday and no day is closed.
+export interface CalendarParams {
+	startDate?: string; // ISO date of day 0, e.g. "2025-01-06"
+	finnishHolidays?: boolean; // Close on Finnish public holidays
+	closureDays?: string[]; // Further ISO dates with no elective surgery
+}
+
 export interface SimulationParams {
 	simulationDays: number;
 	numberOfORs: number;
@@ -139,11 +307,35 @@ export interface SimulationParams {
 	};
 	blockScheduleEnabled: boolean;
 	orBlocks?: ORBlock[];
+	blockRotation?: BlockRotationParams; // orBlocks form a rotating template
 	pacuParams: PacuParams;
+	holdingParams?: HoldingParams;
 	wardParams: WardParams;
+	// Inpatient units. When omitted, wardParams describes a single ward "W".
+	destinationUnits?: DestinationUnit[];
 	staffParams: StaffParams;
+	surgicalStaff?: SurgicalStaff[];
 	emergencyParams: EmergencyParams;
 	costParams: CostParams; // Added cost parameters
+	// Random number seed. Runs with the same seed and parameters are identical;
+	// when omitted a fresh seed is drawn and reported in the results.
+	seed?: number;
+	randomAlgorithm?: string; // Registered PRNG name (default: mulberry32)
+	replicationParams?: ReplicationParams;
+	// The first warmupDays of the horizon are simulated but excluded from all
+	// KPIs, occupancy series and costs
+	warmupDays?: number;
+	initialCensus?: InitialCensusParams;
+	// Per-event console output for debugging. Off by default because it
+	// dominates the run time of long simulations.
+	enableLogging?: boolean;
+	// Collect a structured event trace into SimulationResults.trace
+	enableTrace?: boolean;
+	roomFidelity?: RoomFidelityParams;
+	cancellationRules?: CancellationRuleParams;
+	cleaningParams?: CleaningParams;
+	queueDisciplines?: QueueDisciplineParams;
+	calendar?: CalendarParams;
 	// Legacy properties for backward compatibility
 	beds?: number;
 	nurses?: number;
@@ -158,6 +350,7 @@ export interface PatientClass {
 	priority: number;
 	surgeryDurationMean: number;
 	surgeryDurationStd: number;
+	// Built-in flow after surgery, used when the class has no pathway
 	processType: "standard" | "outpatient" | "directTransfer";
 	pacuPhase1DurationMean: number;
 	pacuPhase1DurationStd: number;
@@ -166,26 +359,417 @@ export interface PatientClass {
 	// Ward stay parameters
 	wardStayDurationMean?: number;
 	wardStayDurationStd?: number;
+	// Share of inpatients routed to each destination unit by unit ID; when
+	// omitted all go to the first unit
+	destinationDistribution?: Record<string, number>;
+	// Optional duration distributions. When set, durations are sampled from
+	// these; the mean/std fields above remain the summary used for planning.
+	surgeryDurationDistribution?: DistributionSpec;
+	pacuPhase1DurationDistribution?: DistributionSpec;
+	pacuPhase2DurationDistribution?: DistributionSpec;
+	wardStayDurationDistribution?: DistributionSpec;
 	// Cancellation risk (0-1, probability of cancellation)
 	cancellationRisk?: number;
 	// Time-of-day variability (0-1, how much duration varies by time of day)
 	timeOfDayVariability?: number;
+	// Nursing workload of a PACU patient relative to a standard one
+	// (default 1); a patient with acuity 2 counts as two against the ratio
+	nurseAcuity?: number;
+	// Probability that a patient skips phase 2 and goes home or to the ward
+	// straight from phase 1 (fast-track); applies to phase 2 stages
+	phase2BypassProbability?: number;
+	// Recovery adjustments by the risk attributes of a case
+	riskAdjustments?: RiskAdjustments;
+	// Stages a patient passes through; replaces the flow of processType
+	pathway?: PatientPathway;
 	// Legacy property for backward compatibility
 	averagePacuTime?: number;
 }
 
+export type DurationPhase =
+	| "surgery"
+	| "pacuPhase1"
+	| "pacuPhase2"
+	| "wardStay";
+
+// Distribution of a class's duration for one phase, falling back to a normal
+// distribution built from the mean/std fields
+export function getDurationDistribution(
+	patientClass: PatientClass,
+	phase: DurationPhase
+): DistributionSpec {
+	switch (phase) {
+		case "surgery":
+			return (
+				patientClass.surgeryDurationDistribution || {
+					type: "normal",
+					mean: patientClass.surgeryDurationMean,
+					stdDev: patientClass.surgeryDurationStd,
+				}
+			);
+		case "pacuPhase1":
+			return (
+				patientClass.pacuPhase1DurationDistribution || {
+					type: "normal",
+					mean: patientClass.pacuPhase1DurationMean,
+					stdDev: patientClass.pacuPhase1DurationStd,
+				}
+			);
+		case "pacuPhase2":
+			return (
+				patientClass.pacuPhase2DurationDistribution || {
+					type: "normal",
+					mean: patientClass.pacuPhase2DurationMean,
+					stdDev: patientClass.pacuPhase2DurationStd,
+				}
+			);
+		case "wardStay":
+			return (
+				patientClass.wardStayDurationDistribution || {
+					type: "normal",
+					mean: patientClass.wardStayDurationMean || 0,
+					stdDev: patientClass.wardStayDurationStd || 0,
+				}
+			);
+	}
+}
+
+export function sampleClassDuration(
+	patientClass: PatientClass,
+	phase: DurationPhase,
+	random: RandomGenerator = Math.random
+): number {
+	return sampleDistribution(
+		getDurationDistribution(patientClass, phase),
+		random
+	);
+}
+
+// --- Case Risk Attributes ---
+// Optional attributes of a single case. A case without them recovers like
+// the class average.
+export type AsaClass = 1 | 2 | 3 | 4 | 5;
+export type AgeBand = "child" | "adult" | "elderly" | "veryElderly";
+export type AnaesthesiaType = "general" | "regional" | "sedation";
+
+export interface CaseRiskAttributes {
+	asaClass?: AsaClass;
+	ageBand?: AgeBand; // Under 18, 18-64, 65-79, 80 and over
+	anaesthesiaType?: AnaesthesiaType;
+	highBmi?: boolean; // BMI 35 or more
+}
+
+// Adjustment of a class's recovery for cases with one attribute value
+export interface RiskAdjustment {
+	pacuPhase1Multiplier?: number;
+	pacuPhase2Multiplier?: number;
+	phase2BypassProbability?: number; // Replaces the class's probability
+	destinationDistribution?: Record<string, number>; // Replaces class routing
+}
+
+// Lookup tables of a class by attribute value. The duration multipliers of
+// a case's attributes multiply together; a replaced value is taken from the
+// first attribute that sets it in the order ASA class, age band, anaesthesia
+// type, BMI.
+export interface RiskAdjustments {
+	asaClass?: Partial<Record<AsaClass, RiskAdjustment>>;
+	ageBand?: Partial<Record<AgeBand, RiskAdjustment>>;
+	anaesthesiaType?: Partial<Record<AnaesthesiaType, RiskAdjustment>>;
+	highBmi?: RiskAdjustment;
+}
+
+export const ASA_CLASSES: AsaClass[] = [1, 2, 3, 4, 5];
+export const AGE_BANDS: AgeBand[] = [
+	"child",
+	"adult",
+	"elderly",
+	"veryElderly",
+];
+export const ANAESTHESIA_TYPES: AnaesthesiaType[] = [
+	"general",
+	"regional",
+	"sedation",
+];
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+	child: "Lapsi (alle 18 v)",
+	adult: "Aikuinen (18–64 v)",
+	elderly: "Iäkäs (65–79 v)",
+	veryElderly: "Vanhus (80 v –)",
+};
+
+export const ANAESTHESIA_TYPE_LABELS: Record<AnaesthesiaType, string> = {
+	general: "Yleisanestesia",
+	regional: "Puudutus",
+	sedation: "Sedaatio",
+};
+
+// Starting point for a class's tables: longer recovery with a higher ASA
+// class, older age and a high BMI, a shorter one after sedation
+export const defaultRiskAdjustments: RiskAdjustments = {
+	asaClass: {
+		1: { pacuPhase1Multiplier: 0.9, pacuPhase2Multiplier: 0.9 },
+		3: { pacuPhase1Multiplier: 1.2, pacuPhase2Multiplier: 1.15 },
+		4: {
+			pacuPhase1Multiplier: 1.5,
+			pacuPhase2Multiplier: 1.3,
+			phase2BypassProbability: 0,
+		},
+		5: {
+			pacuPhase1Multiplier: 2,
+			pacuPhase2Multiplier: 1.5,
+			phase2BypassProbability: 0,
+		},
+	},
+	ageBand: {
+		child: { pacuPhase1Multiplier: 0.8 },
+		elderly: { pacuPhase1Multiplier: 1.15, pacuPhase2Multiplier: 1.2 },
+		veryElderly: {
+			pacuPhase1Multiplier: 1.3,
+			pacuPhase2Multiplier: 1.4,
+			phase2BypassProbability: 0,
+		},
+	},
+	anaesthesiaType: {
+		regional: { pacuPhase1Multiplier: 0.8, pacuPhase2Multiplier: 1.1 },
+		sedation: {
+			pacuPhase1Multiplier: 0.5,
+			pacuPhase2Multiplier: 0.7,
+			phase2BypassProbability: 0.6,
+		},
+	},
+	highBmi: { pacuPhase1Multiplier: 1.2, pacuPhase2Multiplier: 1.1 },
+};
+
+// Adjustments of a class that apply to a case, in precedence order
+export function getRiskAdjustments(
+	patientClass: PatientClass | null | undefined,
+	attributes: CaseRiskAttributes
+): RiskAdjustment[] {
+	const tables = patientClass?.riskAdjustments;
+	if (!tables) return [];
+	return [
+		attributes.asaClass && tables.asaClass?.[attributes.asaClass],
+		attributes.ageBand && tables.ageBand?.[attributes.ageBand],
+		attributes.anaesthesiaType &&
+			tables.anaesthesiaType?.[attributes.anaesthesiaType],
+		attributes.highBmi ? tables.highBmi : undefined,
+	].filter((adjustment): adjustment is RiskAdjustment => !!adjustment);
+}
+
+export function pacuDurationMultiplier(
+	adjustments: RiskAdjustment[],
+	phase: "pacuPhase1" | "pacuPhase2"
+): number {
+	return adjustments.reduce(
+		(product, adjustment) =>
+			product *
+			((phase === "pacuPhase1"
+				? adjustment.pacuPhase1Multiplier
+				: adjustment.pacuPhase2Multiplier) ?? 1),
+		1
+	);
+}
+
+export function phase2BypassProbability(
+	patientClass: PatientClass | null | undefined,
+	adjustments: RiskAdjustment[]
+): number {
+	const adjusted = adjustments.find(
+		(adjustment) => adjustment.phase2BypassProbability !== undefined
+	);
+	return (
+		adjusted?.phase2BypassProbability ??
+		patientClass?.phase2BypassProbability ??
+		0
+	);
+}
+
+// Attributes of a case, for copying them to a rebooked case
+export function riskAttributesOf(
+	attributes: CaseRiskAttributes
+): CaseRiskAttributes {
+	const { asaClass, ageBand, anaesthesiaType, highBmi } = attributes;
+	return { asaClass, ageBand, anaesthesiaType, highBmi };
+}
+
+// --- Patient Pathways ---
+// A pathway lists the stages of a class's patients from arrival to home.
+// Each stage names the resource pool it occupies; after a stage the patient
+// moves on along a branch drawn by probability, or to the following stage
+// in the list when the stage has no branches. Past the last stage the
+// patient goes home.
+export type PathwayStageKind =
+	| "holding"
+	| "or"
+	| "pacu1"
+	| "pacu2"
+	| "stepDown"
+	| "ward"
+	| "home";
+
+export interface PathwayBranch {
+	stageId: string;
+	probability: number;
+}
+
+export interface PathwayStage {
+	id: string;
+	kind: PathwayStageKind;
+	// Destination unit of a ward or step-down stage. Without one a ward stage
+	// follows the class routing and a step-down stage goes to the first
+	// step-down unit.
+	unitId?: string;
+	// Replaces the class's duration of the stage: the preparation time in
+	// holding, the phase duration in PACU and the length of stay on a unit.
+	// The surgery duration always comes from the case.
+	durationDistribution?: DistributionSpec;
+	next?: PathwayBranch[];
+}
+
+export interface PatientPathway {
+	stages: PathwayStage[];
+}
+
+export const PATHWAY_STAGE_KINDS: PathwayStageKind[] = [
+	"holding",
+	"or",
+	"pacu1",
+	"pacu2",
+	"stepDown",
+	"ward",
+	"home",
+];
+
+export const PATHWAY_STAGE_LABELS: Record<PathwayStageKind, string> = {
+	holding: "Odotustila",
+	or: "Leikkaussali",
+	pacu1: "Heräämö, vaihe 1",
+	pacu2: "Heräämö, vaihe 2",
+	stepDown: "Valvontaosasto",
+	ward: "Vuodeosasto",
+	home: "Koti",
+};
+
+// Stages a patient can move on to from a stage of each kind
+const PATHWAY_TRANSITIONS: Record<PathwayStageKind, PathwayStageKind[]> = {
+	holding: ["or"],
+	or: ["pacu1", "pacu2", "stepDown", "ward", "home"],
+	pacu1: ["pacu2", "stepDown", "ward", "home"],
+	pacu2: ["stepDown", "ward", "home"],
+	stepDown: ["stepDown", "ward", "home"],
+	ward: ["stepDown", "ward", "home"],
+	home: [],
+};
+
+// The pathway of a class without its own: holding (when enabled), surgery,
+// PACU phase 1, phase 2 when the class has one, and the ward for
+// inpatients. A direct transfer leaves straight from the OR.
+export function defaultPathway(patientClass: PatientClass): PatientPathway {
+	const stages: PathwayStage[] = [
+		{ id: "holding", kind: "holding" },
+		{ id: "or", kind: "or" },
+	];
+	if (patientClass.processType !== "directTransfer") {
+		stages.push({ id: "pacu1", kind: "pacu1" });
+		if (patientClass.pacuPhase2DurationMean > 0)
+			stages.push({ id: "pacu2", kind: "pacu2" });
+		if (patientClass.processType === "standard")
+			stages.push({ id: "ward", kind: "ward" });
+	}
+	return { stages };
+}
+
+// Stages that can follow a stage: its branches, or the following stage
+const pathwaySuccessors = (
+	pathway: PatientPathway,
+	index: number
+): PathwayStage[] => {
+	const stage = pathway.stages[index];
+	if (stage.kind === "home") return [];
+	if (!stage.next?.length)
+		return index + 1 < pathway.stages.length ? [pathway.stages[index + 1]] : [];
+	return stage.next
+		.map((branch) => pathway.stages.find((s) => s.id === branch.stageId))
+		.filter((target): target is PathwayStage => !!target);
+};
+
+// Problems that keep a pathway from being run, as messages for the editor
+export function pathwayProblems(pathway: PatientPathway): string[] {
+	const problems: string[] = [];
+	const { stages } = pathway;
+	const orIndex = stages.findIndex((stage) => stage.kind === "or");
+	if (orIndex < 0) problems.push("Polulta puuttuu leikkaussali.");
+	else if (stages.slice(0, orIndex).some((stage) => stage.kind !== "holding"))
+		problems.push("Ennen leikkaussalia voi olla vain odotustila.");
+	if (stages.filter((stage) => stage.kind === "or").length > 1)
+		problems.push("Polulla voi olla vain yksi leikkaussali.");
+	const ids = new Set<string>();
+	stages.forEach((stage, index) => {
+		const label = `${index + 1}. ${PATHWAY_STAGE_LABELS[stage.kind]}`;
+		if (ids.has(stage.id)) problems.push(`${label}: tunnus on jo käytössä.`);
+		ids.add(stage.id);
+		for (const branch of stage.next || [])
+			if (!stages.some((s) => s.id === branch.stageId))
+				problems.push(`${label}: haaraa ei löydy (${branch.stageId}).`);
+		if (
+			stage.next?.length &&
+			stage.next.reduce((sum, branch) => sum + branch.probability, 0) <= 0
+		)
+			problems.push(`${label}: haarojen todennäköisyyksien summa on 0.`);
+		for (const target of pathwaySuccessors(pathway, index))
+			if (!PATHWAY_TRANSITIONS[stage.kind].includes(target.kind))
+				problems.push(
+					`${label}: siirtymä kohteeseen ${
+						PATHWAY_STAGE_LABELS[target.kind]
+					} ei ole mahdollinen.`
+				);
+	});
+	return problems;
+}
+
+// The pathway the simulation runs for a class; one with problems is
+// replaced by the built-in pathway
+export function getPatientPathway(patientClass: PatientClass): PatientPathway {
+	return patientClass.pathway &&
+		pathwayProblems(patientClass.pathway).length === 0
+		? patientClass.pathway
+		: defaultPathway(patientClass);
+}
+
+// Whether patients of a pathway can occupy ward or step-down beds
+export function pathwayHasWardStage(pathway: PatientPathway): boolean {
+	return pathway.stages.some(
+		(stage) => stage.kind === "ward" || stage.kind === "stepDown"
+	);
+}
+
 export interface ORBlock {
 	id: string;
 	orId: string;
 	start: number;
 	end: number;
 	allowedClasses: string[];
+	// Simulation day index; in a rotating template the weekday (0 = Monday)
 	day: number;
+	week?: number; // Week of the rotation cycle, 0-based (rotating templates)
 	label?: string;
 	allowedProcedures?: string[];
+	// Staff of the block, given to the cases scheduled into it
+	surgeonId?: string;
+	anaesthesiaTeamId?: string;
+}
+
+// A master surgical schedule repeating every cycleWeeks weeks. The blocks
+// name a weekday and a week of the cycle and are expanded over the horizon;
+// calendar weeks start on Monday, so a horizon starting mid-week begins in
+// a partial week.
+export interface BlockRotationParams {
+	cycleWeeks: number;
+	startWeek?: number; // Week of the cycle the horizon starts in (default 0)
 }
 
-export interface SurgeryCaseInput {
+export interface SurgeryCaseInput extends CaseRiskAttributes {
 	id?: string;
 	classId: string;
 	scheduledStartTime: number;
@@ -193,6 +777,8 @@ export interface SurgeryCaseInput {
 	orRoom: string;
 	priority?: number;
 	actualArrivalTime?: number;
+	surgeonId?: string; // SurgicalStaff IDs; unknown IDs are ignored
+	anaesthesiaTeamId?: string;
 }
 
 // For backward compatibility with existing code
@@ -216,17 +802,28 @@ export type SurgeryCase = SurgeryCaseInput & {
 	pacuPhase1BedId?: string;
 	pacuPhase2BedId?: string;
 	wardBedId?: string;
+	destinationUnitId?: string; // Inpatient unit the patient is routed to
+	urgencyCategoryId?: string; // Emergencies with urgency categories only
+	urgencyDeadline?: number; // Arrival plus the category's target time
 	assignedNurseId?: string;
 	cancellationReason?:
 		| "patient_no_show"
 		| "resource_unavailable"
 		| "medical_reason"
-		| "rescheduled";
+		| "rescheduled"
+		| "no_ward_bed"
+		| "session_overrun"
+		| "pacu_saturated"
+		| "emergency_bump";
 	cancellationTime?: number;
 	rescheduledToId?: string; // ID of the rescheduled surgery case
+	rescheduledFromId?: string; // ID of the cancelled case this one replaces
+	rescheduleCount?: number; // Times the original case has been rebooked
 	currentState?:
 		| "scheduled"
 		| "arrived"
+		| "waiting_holding"
+		| "in_holding"
 		| "waiting_or"
 		| "in_or"
 		| "waiting_pacu1"
@@ -239,9 +836,29 @@ export type SurgeryCase = SurgeryCaseInput & {
 		| "cancelled";
 	wardTransferDelay?: number;
 	orWaitingTime?: number;
+	plannedOrRoom?: string; // orRoom from the plan; orRoom is the room used
+	startDelay?: number; // Minutes started after scheduledStartTime (electives)
+	orExitTime?: number; // Left the OR; later than orEndTime when held there
+	orBlockedMinutes?: number; // Held in the OR waiting for PACU phase 1
+	pacuPhase2Bypassed?: boolean; // Fast-tracked past phase 2
+	pathwayStageId?: string; // Current stage of the class's pathway
+	holdingBayId?: string; // Pre-op holding bay, or shared phase 2 bed
+	holdingStartTime?: number; // Took the bay; later than arrival when full
+	prepEndTime?: number;
+	holdingEndTime?: number; // Left the bay for the OR or was cancelled
+	staffWaitStartTime?: number; // First found a free room but busy staff
+	// Cleaning of the OR after this case, when turnover is simulated
+	orTurnoverStartTime?: number;
+	orTurnoverEndTime?: number;
+	// Waiting for a PACU nurse: start of the current wait, and total minutes
+	nurseWaitStartTime?: number;
+	nurseWaitMinutes?: number;
+	initialCensus?: boolean; // Already in a bed when the simulation started
 	arrivalTime?: number; // For backwards compatibility
 };
 
+export type PatientState = NonNullable<SurgeryCase["currentState"]>;
+
 export interface SimulationEvent {
 	time: number;
 	type:
@@ -260,7 +877,22 @@ export interface SimulationEvent {
 		| "NURSE_SHIFT_END"
 		| "WARD_DISCHARGE"
 		| "SURGERY_CANCELLATION"
-		| "SURGERY_RESCHEDULE";
+		| "SURGERY_RESCHEDULE"
+		// Room fidelity: a waiting case became due or may now change rooms
+		| "OR_ASSIGNMENT_CHECK"
+		// Daily PACU saturation check of the cancellation rules
+		| "CANCELLATION_CUTOFF"
+		// Ward admission hours opened or calendar beds changed
+		| "WARD_CAPACITY_CHANGE"
+		// A surgeon or anaesthesia team finished a case or came on duty
+		| "STAFF_AVAILABLE"
+		// A freed OR or bed finished its turnover or cleaning
+		| "CLEANING_END"
+		// Enhanced nurse model: a shift's break window opened, a break ended
+		| "NURSE_BREAK_DUE"
+		| "NURSE_BREAK_END"
+		// An elective finished its preparation in the pre-op holding area
+		| "PREP_END";
 	patientId?: string;
 	resourceId?: string;
 	shiftId?: string;
@@ -268,6 +900,29 @@ export interface SimulationEvent {
 	cancellationReason?: string;
 }
 
+// Queue lengths at the moment a trace entry was recorded
+export interface TraceQueueLengths {
+	or: number;
+	pacu1: number;
+	pacu2: number;
+	ward: number;
+	nurse: number;
+}
+
+// One row of the event trace. Every patient state transition gets a row,
+// tagged with the event that caused it; events that change no patient state
+// (shift changes, idle ORs, ...) get a row without a transition.
+export interface TraceEntry {
+	time: number;
+	event: SimulationEvent["type"];
+	patientId?: string;
+	patientClassId?: string;
+	resourceId?: string;
+	fromState?: PatientState;
+	toState?: PatientState;
+	queues: TraceQueueLengths;
+}
+
 export interface ResourceState {
 	id: string;
 	isBusy: boolean;
@@ -283,9 +938,76 @@ export interface ResourceState {
 	shiftEndTime?: number;
 	isOnShift?: boolean;
 	totalOvertimeMinutes?: number;
+	unitId?: string; // Destination unit of a ward bed
+	// Held for turnover or cleaning after its patient left; counted as busy
+	// by the pools but not as occupied
+	isCleaning?: boolean;
+	// Enhanced nurse model: on a meal break, and the end of the window in
+	// which the current shift's break may still start
+	isOnBreak?: boolean;
+	breakDueUntil?: number;
+	// Patients a nurse carries, with the share of the nurse each takes, and
+	// the post-warm-up minutes of full workload
+	nursePatientLoads?: Record<string, number>;
+	workloadMinutes?: number;
+}
+
+// Across-replication statistics for one KPI
+export interface KpiStatistics {
+	mean: number;
+	stdDev: number;
+	halfWidth: number; // Half-width of the 95% confidence interval
+	lower: number;
+	upper: number;
+	n: number;
+}
+
+export interface ReplicationSummary {
+	replications: number;
+	seeds: number[];
+	// Keyed by SimulationResults field name; numeric records are flattened
+	// with a dot, e.g. "costBreakdown.orCost" or "orUtilization.OR-1"
+	kpis: Record<string, KpiStatistics>;
+	targetMetric?: string;
+	targetReached?: boolean;
+}
+
+export interface DestinationUnitResults {
+	name: string;
+	type: DestinationUnitType;
+	beds: number;
+	admissions: number;
+	meanOccupancy: number;
+	peakOccupancy: number;
+	meanTransferDelay: number; // Minutes waited in PACU for a bed here
+	p95TransferDelay: number;
+	cost: number;
+	occupancyData: Array<{ time: number; count: number }>;
+}
+
+export interface WaitingTimeStats {
+	count: number;
+	mean: number;
+	p95: number;
+	max: number;
+}
+
+// Totals over the observed days of a calendar week or of one weekday
+export interface PeriodResults {
+	firstDay: number; // Simulation day index of the first observed day
+	days: number; // Observed days in the period
+	electiveCount: number; // Completed cases, by the day surgery started
+	emergencyCount: number;
+	cancelledCount: number;
+	orUtilization: number; // Mean busy share of the ORs, as orUtilization
+	meanORWaitingTime: number;
+	meanPacuPhase1BedOccupancy: number;
+	meanWardBedOccupancy: number;
 }
 
 export interface SimulationResults {
+	seed: number; // Seed that reproduces this run
+	warmupEndTime: number; // Statistics cover [warmupEndTime, end of horizon]
 	completedSurgeries: SurgeryCase[];
 	cancelledSurgeries: SurgeryCase[];
 	meanORWaitingTime: number;
@@ -293,8 +1015,37 @@ export interface SimulationResults {
 	meanPacuTime: number;
 	meanWardTransferDelay: number;
 	p95WardTransferDelay: number;
+	// Share of OR time spent holding finished patients because PACU phase 1
+	// was full (hold-in-OR); zero when holding is disabled
 	pacuBlockedTimeRatio: number;
+	orBlockedMinutes: Record<string, number>; // Hold-in-OR minutes per OR
+	blockedCaseCount: number; // Cases held in the OR after surgery
+	// Pre-operative holding: bay occupancy (in the shared mode only holding
+	// patients count, against the phase 2 beds), mean wait for a bay, and
+	// electives whose start a bay shortage delayed. The delay of a case is
+	// its bay wait, up to how late its preparation ended.
+	meanHoldingOccupancy: number;
+	peakHoldingOccupancy: number;
+	holdingOccupancyData: Array<{ time: number; count: number }>;
+	meanHoldingBayWait: number;
+	holdingDelayedStarts: number;
+	holdingStartDelayMinutes: number;
+	// Patients of classes with phase 2 who skipped it (fast-track)
+	pacuPhase2BypassCount: number;
+	delayedStartsByBlocking: number; // Cases that waited for a held OR
+	startDelayByBlockingMinutes: number; // Their total wait while it was held
+	// Surgeons and anaesthesia teams: busy share of on-duty time by staff ID,
+	// and cases that had a free room but waited for their staff
+	staffUtilization: Record<string, number>;
+	delayedStartsByStaff: number;
+	startDelayByStaffMinutes: number;
 	orUtilization: Record<string, number>;
+	// Turnover and cleaning: share of each OR's time, and of each pool's bed
+	// time, spent being cleaned or waiting for a cleaner
+	orTurnoverRatio: Record<string, number>;
+	cleaningTimeRatio: Record<CleaningResource, number>;
+	cleaningCrewUtilization: number; // Zero with an unlimited crew
+	meanCleaningWait: number; // Minutes a freed resource waited for a cleaner
 	meanPacuPhase1BedOccupancy: number;
 	meanPacuPhase2BedOccupancy: number;
 	meanWardBedOccupancy: number;
@@ -307,13 +1058,55 @@ export interface SimulationResults {
 	nurseOvertimeByShift: Record<string, number>; // Overtime minutes by shift ID
 	nurseUtilizationBySkill: Record<string, number>; // Utilization by skill ID
 	shiftCoverage: Record<string, number>; // Percentage of time shifts were fully staffed
+	// Enhanced nurse model, after warm-up: meal breaks taken and missed, and
+	// patients handed to another nurse at a shift end
+	nurseBreaksTaken: number;
+	nurseBreaksMissed: number;
+	nurseHandoffs: number;
 	pacuPhase1OccupancyData: Array<{ time: number; count: number }>;
 	pacuPhase2OccupancyData: Array<{ time: number; count: number }>;
 	wardOccupancyData: Array<{ time: number; count: number }>;
 	nurseUtilizationData: Array<{ time: number; busyCount: number }>;
 	nurseShiftData: Array<{ time: number; onShift: number; working: number }>; // Track nurses on shift vs. working
 	wardTransferDelayDistribution: number[];
+	// Patient-minutes spent waiting in PACU for the ward, by cause
+	wardTransferDelayByCause: Record<WardDelayCause, number>;
+	// Mean minutes from the end of the ward stay to discharge (discharge hours)
+	meanDischargeHourWait: number;
+	unitResults: Record<string, DestinationUnitResults>; // By unit ID
+	// Emergency load by hour of day (24 values), averaged over observed days:
+	// arrivals, and PACU beds (phase 1 and 2) held by emergency patients
+	emergencyArrivalsByHour: number[];
+	emergencyPacuOccupancyByHour: number[];
 	orWaitingTimeDistribution: number[];
+	// Waits in each queue by patient class ID, for comparing queue
+	// disciplines. Patients still waiting at the end count with their wait
+	// so far, so starved classes show up.
+	waitingTimeByClass: Record<string, Record<WaitingQueueId, WaitingTimeStats>>;
+	// Elective start punctuality and room changes against the plan
+	meanStartDelay: number; // Minutes after scheduledStartTime, early = 0
+	lateStartRatio: number; // Share of electives later than the tolerance
+	roomSwapCount: number;
+	roomSwapRatio: number; // Share of electives run outside the planned room
+	// Cancellations by reason and rebooking of cancelled electives
+	cancellationsByReason: Record<string, number>;
+	// Emergency urgency targets, by category ID
+	emergencyCountByUrgency: Record<string, number>;
+	urgencyTargetMetRatio: Record<string, number>;
+	meanTimeToORByUrgency: Record<string, number>; // Minutes from arrival
+	// Electives an emergency started ahead of, including bumped ones
+	displacedElectiveCount: number;
+	bumpedElectiveCount: number; // Cancelled by the bumpElective policy
+	onCallActivations: number; // After-hours room openings
+	rescheduledCount: number;
+	unplacedRescheduleCount: number; // No later session had room for the case
+	meanRescheduleLeadTime: number; // Minutes from cancellation to new start
+	// Cancelled electives not yet operated on, over time
+	rescheduleBacklogData: Array<{ time: number; count: number }>;
+	// Aggregates by calendar week (weeks start on Monday) and by weekday
+	// (seven entries, 0 = Monday); days in the warm-up are left out
+	weeklyResults: PeriodResults[];
+	weekdayResults: PeriodResults[];
 	totalCost: number;
 	costBreakdown: {
 		orCost: number;
@@ -323,8 +1116,17 @@ export interface SimulationResults {
 		nurseOvertimeCost: number; // Separate overtime cost
 		wardCost: number;
 		cancellationCost: number;
+		rescheduleCost: number;
+		onCallCost: number; // Activation fees; room minutes are in orCost
 	};
 
+	// Present when params.enableTrace is set
+	trace?: TraceEntry[];
+
+	// Present when the results come from a Monte Carlo replication run;
+	// the other fields then describe the first replication
+	replicationSummary?: ReplicationSummary;
+
 	// Legacy properties for backward compatibility with existing components
 	surgeryList?: SurgeryCase[];
 	waitingTimes?: number[];
@@ -428,6 +1230,8 @@ export const defaultCostParams: CostParams = {
 	costPerNurseMinute: 1.0,
 	costPerWardBedMinute: 0.5,
 	costPerCancellation: 500.0,
+	costPerReschedule: 150.0,
+	costPerOnCallActivation: 2000.0,
 };
 
 // Default nurse skills
@@ -527,20 +1331,156 @@ export const defaultSimulationParams: SimulationParams = {
 
 // --- Discrete Event Simulation Logic ---
 
-export function runSimulation(params: SimulationParams): SimulationResults {
+// --- Stepwise Runs ---
+export type SnapshotResourcePool =
+	| "or"
+	| "holding"
+	| "pacu1"
+	| "pacu2"
+	| "ward"
+	| "nurse"
+	| "staff";
+
+export interface ResourceSnapshot {
+	id: string;
+	pool: SnapshotResourcePool;
+	isBusy: boolean;
+	isCleaning: boolean;
+	patientIds: string[]; // Patients in the bed or room, or cared for
+	busyUntil?: number;
+	unitId?: string; // Destination unit of a ward bed
+	isOnShift?: boolean; // Nurses
+}
+
+export interface PatientSnapshot {
+	id: string;
+	classId: string;
+	caseType: SurgeryCase["caseType"];
+	state?: PatientState;
+	pathwayStageId?: string;
+}
+
+// State of a run between two events. Queues list patient IDs first in
+// line first; the cleaning queue lists resources waiting for a cleaner.
+export interface SimulationSnapshot {
+	time: number; // Time of the last processed event
+	nextEventTime?: number;
+	processedEvents: number;
+	resources: ResourceSnapshot[];
+	queues: {
+		holding: string[];
+		or: string[];
+		pacu1: string[];
+		pacu2: string[];
+		nurse: string[];
+		ward: Record<string, string[]>; // By destination unit ID
+		cleaning: string[];
+	};
+	patients: PatientSnapshot[];
+}
+
+// A run that is advanced event by event, for playback and for inspecting
+// intermediate states. The run is set up when created and paused before
+// its first event.
+export interface SimulationEngine {
+	seed: number;
+	endTime: number;
+	// Processes the next event; false when the run had already finished
+	step(): boolean;
+	// Processes every event up to and including the given time
+	runUntil(time: number): void;
+	// Time of the event step() would process next, undefined once finished
+	nextEventTime(): number | undefined;
+	snapshot(): SimulationSnapshot;
+	isFinished(): boolean;
+	// Runs to the end; the results are computed once the last event is done
+	results(): SimulationResults;
+}
+
+// A run paused between events
+interface PausedRun {
+	nextEventTime: () => number | undefined;
+	snapshot: () => SimulationSnapshot;
+}
+
+export function runSimulation(
+	params: SimulationParams,
+	onProgress?: (progress: number) => void
+): SimulationResults {
+	return createSimulation(params, onProgress).results();
+}
+
+export function createSimulation(
+	params: SimulationParams,
+	onProgress?: (progress: number) => void
+): SimulationEngine {
+	// The seed is fixed here so a playback can be restarted identically
+	const seed = params.seed ?? createRandomSeed();
+	const run = simulationRun({ ...params, seed }, onProgress);
+	// Sets the run up; the end check is always queued, so it pauses before
+	// the first event rather than finishing
+	const pausedRun = run.next().value as PausedRun;
+	let results: SimulationResults | undefined;
+	const advance = (): boolean => {
+		if (results) return false;
+		const next = run.next();
+		if (next.done) results = next.value;
+		return true;
+	};
+
+	return {
+		seed,
+		endTime: params.simulationDays * 24 * 60,
+		step: advance,
+		runUntil: (time: number) => {
+			while (!results) {
+				const eventTime = pausedRun.nextEventTime();
+				if (eventTime === undefined || eventTime > time) break;
+				advance();
+			}
+		},
+		nextEventTime: () => (results ? undefined : pausedRun.nextEventTime()),
+		snapshot: pausedRun.snapshot,
+		isFinished: () => !!results,
+		results: () => {
+			while (advance());
+			return results as SimulationResults;
+		},
+	};
+}
+
+// The whole run as a generator that pauses before every event
+function* simulationRun(
+	params: SimulationParams,
+	onProgress?: (progress: number) => void
+): Generator<PausedRun, SimulationResults, undefined> {
 	// --- Initialization ---
+	const log: (...args: unknown[]) => void = params.enableLogging
+		? console.log
+		: () => {};
 	let currentTime = 0;
 	const simulationEndTime = params.simulationDays * 24 * 60;
+	// Statistics are only collected after the warm-up period
+	const warmupEndTime = Math.min(
+		simulationEndTime,
+		Math.max(0, params.warmupDays || 0) * 24 * 60
+	);
+	const statsDuration = simulationEndTime - warmupEndTime;
 	const eventQueue = new PriorityQueue<SimulationEvent>();
 	const patients: Record<string, SurgeryCase> = {};
 	let emergencyCounter = 0;
+	const seed = params.seed ?? createRandomSeed();
+	const random = createRandomStreams(seed, params.randomAlgorithm);
+
+	const calendar = createSimulationCalendar(params.calendar);
 
 	// Helper function to get day of week (0 = Monday, 6 = Sunday)
-	const getDayOfWeek = (timeInMinutes: number): number => {
-		// Assuming simulation starts on a Monday (day 0)
-		const dayNumber = Math.floor(timeInMinutes / (24 * 60));
-		return dayNumber % 7;
-	};
+	const getDayOfWeek = (timeInMinutes: number): number =>
+		calendar.weekday(Math.floor(timeInMinutes / (24 * 60)));
+
+	// Weekday whose roster applies: closure days run on the Sunday roster
+	const getStaffingDay = (timeInMinutes: number): number =>
+		calendar.staffingWeekday(Math.floor(timeInMinutes / (24 * 60)));
 
 	// Helper function to get time of day in minutes (0-1439)
 	const getTimeOfDay = (timeInMinutes: number): number => {
@@ -600,10 +1540,25 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		"P2",
 		params.pacuParams?.phase2Beds || 0
 	);
-	const wardBeds = createResourcePool(
-		"W",
-		params.wardParams?.totalBeds || params.beds || 10
-	);
+	// Destination units each have their own bed pool, all kept in wardBeds
+	const destinationUnits: DestinationUnit[] =
+		params.destinationUnits && params.destinationUnits.length > 0
+			? params.destinationUnits
+			: [
+					{
+						...params.wardParams,
+						id: "W",
+						name: "Vuodeosasto",
+						type: "ward",
+						totalBeds: params.wardParams?.totalBeds || params.beds || 10,
+					},
+			  ];
+	const wardBeds: Record<string, ResourceState> = {};
+	destinationUnits.forEach((unit) => {
+		const unitBeds = createResourcePool(unit.id, unit.totalBeds);
+		Object.values(unitBeds).forEach((bed) => (bed.unitId = unit.id));
+		Object.assign(wardBeds, unitBeds);
+	});
 
 	// Create nurse resources with enhanced model if enabled
 	let nurses: Record<string, ResourceState> = {};
@@ -621,7 +1576,8 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			for (let i = 0; i < totalNursesForShift; i++) {
 				// Determine skill for this nurse based on skill distribution
 				const skillId =
-					weightedRandomSelection(shift.skillDistribution) || "junior";
+					weightedRandomSelection(shift.skillDistribution, random.staffing) ||
+					"junior";
 				const skill = params.staffParams.nurseSkills.find(
 					(s) => s.id === skillId
 				);
@@ -641,41 +1597,6 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 				};
 			}
 		});
-
-		// Schedule shift start/end events for all simulation days
-		for (let day = 0; day < params.simulationDays; day++) {
-			const dayStart = day * 24 * 60;
-
-			params.staffParams.nurseShifts.forEach((shift) => {
-				const dayOfWeek = day % 7;
-				const nursesForThisDay = shift.nursesPerDay[dayOfWeek];
-
-				if (nursesForThisDay > 0) {
-					// Find nurses assigned to this shift
-					const shiftNurses = Object.values(nurses)
-						.filter((n) => n.shiftId === shift.id)
-						.slice(0, nursesForThisDay);
-
-					// Schedule shift start
-					const shiftStart = dayStart + shift.startMinute;
-					if (shiftStart < simulationEndTime) {
-						addEvent(shiftStart, "NURSE_SHIFT_START", {
-							shiftId: shift.id,
-							resourceId: shiftNurses.map((n) => n.id).join(","),
-						});
-					}
-
-					// Schedule shift end
-					const shiftEnd = shiftStart + shift.durationMinutes;
-					if (shiftEnd < simulationEndTime) {
-						addEvent(shiftEnd, "NURSE_SHIFT_END", {
-							shiftId: shift.id,
-							resourceId: shiftNurses.map((n) => n.id).join(","),
-						});
-					}
-				}
-			});
-		}
 	} else {
 		// Use legacy nurse model
 		nurses = createResourcePool(
@@ -684,36 +1605,359 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		);
 	}
 
+	// Pools as arrays, so the per-event occupancy counts do not allocate
+	const orList = Object.values(orResources);
+	const pacu1BedList = Object.values(pacu1Beds);
+	const pacu2BedList = Object.values(pacu2Beds);
+	const wardBedList = Object.values(wardBeds);
+	const nurseList = Object.values(nurses);
+	// Resources held by a patient; ones being cleaned are not counted
+	const countBusy = (resources: ResourceState[]): number => {
+		let count = 0;
+		for (const resource of resources)
+			if (resource.isBusy && !resource.isCleaning) count++;
+		return count;
+	};
+
+	// --- Nurse Workload ---
+	// A nurse's capacity is 1 for a standard nurse, scaled by the skill's
+	// efficiency in the enhanced model. A patient takes the class's acuity
+	// over the phase's patients-per-nurse ratio of it.
+	const nurseSkillsById: Record<string, NurseSkill> = {};
+	(params.staffParams?.nurseSkills || []).forEach(
+		(skill) => (nurseSkillsById[skill.id] = skill)
+	);
+
+	const nurseCapacity = (nurse: ResourceState): number =>
+		(params.staffParams?.useEnhancedNurseModel && nurse.skillId
+			? nurseSkillsById[nurse.skillId]?.efficiencyMultiplier
+			: undefined) || 1;
+
+	const nursePatientLoad = (
+		patient: SurgeryCase,
+		phase: "pacu1" | "pacu2"
+	): number => {
+		const ratio =
+			(phase === "pacu1"
+				? params.staffParams?.phase1NurseRatio
+				: params.staffParams?.phase2NurseRatio) || 1;
+		return (getPatientClass(patient)?.nurseAcuity ?? 1) / ratio;
+	};
+
+	const nurseLoad = (nurse: ResourceState): number => {
+		let load = 0;
+		for (const patientId in nurse.nursePatientLoads)
+			load += nurse.nursePatientLoads[patientId];
+		return load;
+	};
+
+	// A nurse without patients takes any one patient, however demanding
+	const hasNurseCapacity = (nurse: ResourceState, load: number): boolean =>
+		!nurse.isBusy || nurseLoad(nurse) + load <= nurseCapacity(nurse) + 1e-9;
+
+	// Share of the nurse's capacity in use, at most 1
+	const nurseWorkload = (nurse: ResourceState): number =>
+		nurse.isBusy ? Math.min(1, nurseLoad(nurse) / nurseCapacity(nurse)) : 0;
+
+	// Nurses' workload in full-time nurse equivalents
+	const totalNurseWorkload = (): number => {
+		let workload = 0;
+		for (const nurse of nurseList) workload += nurseWorkload(nurse);
+		return workload;
+	};
+
 	// Waiting Queues
 	const orWaitingQueue = new PriorityQueue<string>();
 	const pacu1WaitingQueue = new PriorityQueue<string>();
 	const pacu2WaitingQueue = new PriorityQueue<string>();
-	const wardWaitingQueue = new PriorityQueue<string>();
+	// In room-fidelity mode waiting cases are matched to rooms individually,
+	// so they are kept in arrival order instead of the OR priority queue
+	const roomFidelity = params.roomFidelity?.enabled
+		? params.roomFidelity
+		: null;
+	const plannedRoomQueue: string[] = [];
 	const nurseWaitingQueue = new PriorityQueue<{
 		patientId: string;
 		phase: "pacu1" | "pacu2";
 	}>();
 
-	// Statistics & Cost Collection
-	const completedSurgeries: SurgeryCase[] = [];
-	const cancelledSurgeries: SurgeryCase[] = [];
-	const wardTransferDelays: number[] = [];
-	const orWaitingTimes: number[] = [];
-	const occupancyData = {
-		pacu1: [{ time: 0, count: 0 }],
-		pacu2: [{ time: 0, count: 0 }],
-		ward: [{ time: 0, count: 0 }],
-		nurse: [{ time: 0, busyCount: 0 }],
+	// --- Queue Disciplines ---
+	const queueDisciplines = params.queueDisciplines || {};
+	const agingMinutesPerLevel = queueDisciplines.agingMinutesPerLevel || 60;
+
+	// Time the patient started waiting in a queue. It does not change when
+	// the patient is put back in the queue, so the place in line is kept.
+	const queueWaitStart = (
+		queueId: WaitingQueueId,
+		patient: SurgeryCase,
+		phase?: "pacu1" | "pacu2"
+	): number => {
+		switch (queueId === "nurse" ? phase : queueId) {
+			case "or": // Electives in pre-op holding join when prepared
+				return patient.prepEndTime ?? patient.actualArrivalTime;
+			case "pacu1":
+				return patient.orEndTime ?? currentTime;
+			case "pacu2":
+				return patient.pacuPhase1EndTime ?? currentTime;
+			case "ward":
+				return patient.readyForWardTime ?? currentTime;
+			default:
+				return currentTime;
+		}
 	};
-	let totalPacuBlockedTime = 0;
-	let lastStatsUpdateTime = 0;
-	// Initialize costs
-	let totalORCost = 0;
-	let totalPACU1Cost = 0;
+
+	// Expected minutes of the service a queue leads to
+	const expectedServiceMinutes = (
+		queueId: WaitingQueueId,
+		patient: SurgeryCase,
+		phase?: "pacu1" | "pacu2"
+	): number => {
+		const patientClass = getPatientClass(patient);
+		switch (queueId === "nurse" ? phase : queueId) {
+			case "or":
+				return patient.duration;
+			case "pacu1":
+				return (
+					(patientClass?.pacuPhase1DurationMean || 0) *
+					pacuDurationMultiplier(
+						getRiskAdjustments(patientClass, patient),
+						"pacuPhase1"
+					)
+				);
+			case "pacu2":
+				return (
+					(patientClass?.pacuPhase2DurationMean || 0) *
+					pacuDurationMultiplier(
+						getRiskAdjustments(patientClass, patient),
+						"pacuPhase2"
+					)
+				);
+			case "ward": {
+				const { unit } = getDestinationUnit(patient);
+				return unit.losDistribution
+					? distributionMean(unit.losDistribution)
+					: patientClass?.wardStayDurationMean || 0;
+			}
+			default:
+				return 0;
+		}
+	};
+
+	// Rank of a patient in a waiting queue under the queue's discipline.
+	// Lower ranks are served first. Ageing ranks compare as if taken at the
+	// same moment: priority minus the levels earned while waiting.
+	const queueRank = (
+		queueId: WaitingQueueId,
+		patient: SurgeryCase,
+		phase?: "pacu1" | "pacu2"
+	): number => {
+		const waitStart = queueWaitStart(queueId, patient, phase);
+		switch (queueDisciplines[queueId] || "priority") {
+			case "fifo":
+				return waitStart;
+			case "sept":
+				return expectedServiceMinutes(queueId, patient, phase);
+			case "emergencyFirst":
+				return patient.caseType === "emergency"
+					? waitStart - simulationEndTime
+					: waitStart;
+			case "agingPriority":
+				return patient.priority + waitStart / agingMinutesPerLevel;
+			default:
+				return patient.priority;
+		}
+	};
+
+	// Enhanced nurse model: the crew of each shift now on duty, and per shift
+	// the post-warm-up minutes on duty and minutes with the whole crew present
+	const shiftCrewsOnDuty: Record<string, ResourceState[]> = {};
+	const shiftCoverageMinutes: Record<
+		string,
+		{ onDuty: number; fullyStaffed: number }
+	> = {};
+	(params.staffParams?.nurseShifts || []).forEach(
+		(shift) => (shiftCoverageMinutes[shift.id] = { onDuty: 0, fullyStaffed: 0 })
+	);
+	let nurseBreaksTaken = 0;
+	let nurseBreaksMissed = 0;
+	let nurseHandoffs = 0;
+
+	// Statistics & Cost Collection
+	const completedSurgeries: SurgeryCase[] = [];
+	const cancelledSurgeries: SurgeryCase[] = [];
+	const wardTransferDelays: number[] = [];
+	const orWaitingTimes: number[] = [];
+	const electiveStartDelays: number[] = [];
+	let roomSwapCount = 0;
+	const occupancyData = {
+		pacu1: [{ time: 0, count: 0 }],
+		pacu2: [{ time: 0, count: 0 }],
+		ward: [{ time: 0, count: 0 }],
+		holding: [{ time: 0, count: 0 }],
+		nurse: [{ time: 0, busyCount: 0 }],
+	};
+	// Pre-operative holding
+	const holdingParams = params.holdingParams?.enabled
+		? params.holdingParams
+		: null;
+	const sharedHolding = !!holdingParams?.sharedWithPacuPhase2;
+	const holdingBays = sharedHolding
+		? pacu2Beds
+		: createResourcePool("H", holdingParams?.bays || 0);
+	const holdingQueue: string[] = []; // Waiting for a bay, in arrival order
+	let holdingCount = 0; // Patients in a bay
+	const holdingBayWaits: number[] = [];
+	let holdingDelayedStarts = 0;
+	let holdingStartDelayMinutes = 0;
+	// Hold-in-OR blocking
+	const holdInOR = !!params.pacuParams?.holdInOR;
+	const heldInOR = new Set<string>(); // Patients held in the OR after surgery
+	const orBlockedMinutes: Record<string, number> = {};
+	Object.keys(orResources).forEach((orId) => (orBlockedMinutes[orId] = 0));
+	const orBlockReleases: Record<string, { time: number; since: number }> = {};
+	let blockedCaseCount = 0;
+	let delayedStartsByBlocking = 0;
+	let startDelayByBlockingMinutes = 0;
+	// Cancellation rules and rescheduling
+	const cancellationRules = params.cancellationRules?.enabled
+		? params.cancellationRules
+		: null;
+	const turnoverTime = params.surgeryScheduleTemplate?.turnoverTime || 15;
+	// Inpatients between the start of surgery and arrival on the ward
+	const wardPipeline = new Set<string>();
+	const rescheduleLeadTimes: number[] = [];
+	let unplacedRescheduleCount = 0;
+	let rescheduleBacklog = 0;
+	const rescheduleBacklogData = [{ time: 0, count: 0 }];
+	// Emergency urgency categories, emergency OR and preemption
+	const urgencyCategories = [
+		...(params.emergencyParams?.urgencyCategories || []),
+	].sort((a, b) => a.targetMinutes - b.targetMinutes);
+	const urgencyStats: Record<
+		string,
+		{ cases: number; met: number; totalTimeToOR: number }
+	> = {};
+	urgencyCategories.forEach(
+		(category) =>
+			(urgencyStats[category.id] = { cases: 0, met: 0, totalTimeToOR: 0 })
+	);
+	const emergencyOR =
+		params.emergencyParams?.emergencyOR &&
+		orResources[params.emergencyParams.emergencyOR.orId]
+			? params.emergencyParams.emergencyOR
+			: null;
+	const preemptionPolicy = params.emergencyParams?.preemptionPolicy || "none";
+	// The after-hours room is outside the OR pool and serves one emergency
+	// per opening
+	const onCallOR: ResourceState | null =
+		preemptionPolicy === "onCallRoom"
+			? Object.values(createResourcePool("OR-ONCALL", 1))[0]
+			: null;
+	const waitingForOR = new Set<string>(); // Patients in waiting_or
+	let displacedElectiveCount = 0;
+	let bumpedElectiveCount = 0;
+	let onCallActivations = 0;
+	// Surgeons and anaesthesia teams named by elective cases
+	type StaffState = {
+		staff: SurgicalStaff;
+		patientId: string | null; // Case in progress
+		busySince: number;
+		busyMinutes: number; // After warm-up
+	};
+	const staffStates: Record<string, StaffState> = {};
+	const staffStateList = (params.surgicalStaff || []).map((staff) => {
+		const staffState: StaffState = {
+			staff,
+			patientId: null,
+			busySince: 0,
+			busyMinutes: 0,
+		};
+		staffStates[staff.id] = staffState;
+		return staffState;
+	});
+	// Outside room fidelity, cases set aside from the OR queue until their
+	// staff are available, in the order they were set aside
+	const staffWaitingQueue: string[] = [];
+	let delayedStartsByStaff = 0;
+	let startDelayByStaffMinutes = 0;
+	// Turnover and cleaning jobs: in progress by resource ID, and waiting for
+	// a cleaner in request order
+	const cleaningParams = params.cleaningParams?.enabled
+		? params.cleaningParams
+		: undefined;
+	const cleaningCrewSize = cleaningParams?.crewSize || 0;
+	type CleaningJob = {
+		resource: ResourceState;
+		kind: CleaningResource;
+		distribution: DistributionSpec;
+		requestTime: number;
+		patientId?: string; // Case before an OR turnover
+	};
+	const activeCleaningJobs: Record<string, CleaningJob> = {};
+	const cleaningQueue: CleaningJob[] = [];
+	let busyCleaners = 0;
+	// After warm-up: resource minutes held for cleaning, cleaner busy minutes
+	// and waits for a cleaner
+	const cleaningMinutes: Record<CleaningResource, number> = {
+		or: 0,
+		pacu: 0,
+		ward: 0,
+	};
+	const orTurnoverMinutes: Record<string, number> = {};
+	let cleanerBusyMinutes = 0;
+	const cleaningWaits: number[] = [];
+	// Destination units: beds, ward queue, discharge hours and statistics
+	type UnitState = {
+		unit: DestinationUnit;
+		beds: ResourceState[];
+		waitingQueue: PriorityQueue<string>;
+		dischargeHourWeights: Record<string, number>;
+		occupancy: Array<{ time: number; count: number }>;
+		transferDelays: number[];
+		admissions: number;
+		cost: number;
+	};
+	const unitStates: Record<string, UnitState> = {};
+	const unitStateList = destinationUnits.map((unit) => {
+		const dischargeHourWeights: Record<string, number> = {};
+		(unit.dischargeHourProfile || []).forEach((weight, hour) => {
+			if (hour < 24 && weight > 0) dischargeHourWeights[hour] = weight;
+		});
+		const unitState: UnitState = {
+			unit,
+			beds: wardBedList.filter((bed) => bed.unitId === unit.id),
+			waitingQueue: new PriorityQueue<string>(),
+			dischargeHourWeights,
+			occupancy: [{ time: 0, count: 0 }],
+			transferDelays: [],
+			admissions: 0,
+			cost: 0,
+		};
+		unitStates[unit.id] = unitState;
+		return unitState;
+	});
+	const wardQueueLength = (): number => {
+		let length = 0;
+		for (const unitState of unitStateList)
+			length += unitState.waitingQueue.length;
+		return length;
+	};
+	const wardDelayByCause: Record<WardDelayCause, number> = {
+		admissionWindow: 0,
+		capacityCalendar: 0,
+		dischargeTiming: 0,
+		bedShortage: 0,
+	};
+	const dischargeHourWaits: number[] = [];
+	let lastStatsUpdateTime = 0;
+	// Initialize costs
+	let totalORCost = 0;
+	let totalPACU1Cost = 0;
 	let totalPACU2Cost = 0;
 	let totalNurseCost = 0;
 	let totalWardCost = 0;
 	let totalCancellationCost = 0;
+	let totalOnCallCost = 0;
 
 	// --- Helper Functions within Simulation Scope ---
 
@@ -726,6 +1970,9 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		return null;
 	};
 
+	const findOnCallOR = (orId: string): ResourceState | undefined =>
+		onCallOR && onCallOR.id === orId ? onCallOR : undefined;
+
 	const addEvent = (
 		time: number,
 		type: SimulationEvent["type"],
@@ -748,11 +1995,21 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		time: number
 	) => {
 		if (isEnding && resource.isBusy) {
-			const duration = time - resource.lastBusyStartTime;
+			// Only the part of the busy period after warm-up is counted
+			const duration =
+				time - Math.max(resource.lastBusyStartTime, warmupEndTime);
 			if (duration > 0) {
 				resource.totalBusyTime += duration;
 				// Accumulate cost based on resource type
-				if (resource.id.startsWith("OR"))
+				if (resource.unitId) {
+					const unitState = unitStates[resource.unitId];
+					const cost =
+						duration *
+						(unitState.unit.costPerBedMinute ??
+							(params.costParams?.costPerWardBedMinute || 0));
+					totalWardCost += cost;
+					unitState.cost += cost;
+				} else if (resource.id.startsWith("OR"))
 					totalORCost += duration * (params.costParams?.costPerORMinute || 0);
 				else if (resource.id.startsWith("P1"))
 					totalPACU1Cost +=
@@ -763,9 +2020,6 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 				else if (resource.id.startsWith("N"))
 					totalNurseCost +=
 						duration * (params.costParams?.costPerNurseMinute || 0);
-				else if (resource.id.startsWith("W"))
-					totalWardCost +=
-						duration * (params.costParams?.costPerWardBedMinute || 0);
 			}
 			resource.isBusy = false;
 			resource.assignedPatientId = undefined;
@@ -775,15 +2029,241 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		}
 	};
 
+	// --- Ward Calendar ---
+
+	const isWardAdmissionOpen = (unitState: UnitState, time: number): boolean => {
+		const start = unitState.unit.admissionStartHour;
+		const end = unitState.unit.admissionEndHour;
+		if (start === undefined || end === undefined || start === end) return true;
+		const hour = Math.floor(getTimeOfDay(time) / 60);
+		return start < end
+			? hour >= start && hour < end
+			: hour >= start || hour < end;
+	};
+
+	// Beds open at a given time according to the capacity calendar
+	const wardCapacityAt = (unitState: UnitState, time: number): number => {
+		const hour = Math.floor(getTimeOfDay(time) / 60);
+		const capacity =
+			unitState.unit.capacityCalendar?.[getStaffingDay(time)]?.[hour];
+		return capacity === undefined
+			? unitState.beds.length
+			: Math.max(0, Math.min(unitState.beds.length, capacity));
+	};
+
+	const canAdmitToWard = (unitState: UnitState): boolean =>
+		isWardAdmissionOpen(unitState, currentTime) &&
+		countBusy(unitState.beds) < wardCapacityAt(unitState, currentTime);
+
+	// Draws a destination unit from a routing distribution. Units missing
+	// from the distribution are never chosen; without one, patients go to
+	// the first unit.
+	const selectDestinationUnit = (
+		routing: Record<string, number> | undefined
+	): UnitState => {
+		const weights: Record<string, number> = {};
+		if (routing)
+			for (const unitId of Object.keys(routing))
+				if (unitStates[unitId] && routing[unitId] > 0)
+					weights[unitId] = routing[unitId];
+		const unitId =
+			Object.keys(weights).length > 1
+				? weightedRandomSelection(weights, random.routing)
+				: Object.keys(weights)[0];
+		return unitStates[unitId ?? ""] || unitStateList[0];
+	};
+
+	// Destination unit of an inpatient, drawn once and kept on the patient.
+	// A risk adjustment of the patient may replace the class's routing.
+	const getDestinationUnit = (patient: SurgeryCase): UnitState => {
+		if (patient.destinationUnitId && unitStates[patient.destinationUnitId])
+			return unitStates[patient.destinationUnitId];
+		const patientClass = getPatientClass(patient);
+		const unitState = selectDestinationUnit(
+			getRiskAdjustments(patientClass, patient).find(
+				(adjustment) => adjustment.destinationDistribution
+			)?.destinationDistribution ?? patientClass?.destinationDistribution
+		);
+		patient.destinationUnitId = unitState.unit.id;
+		return unitState;
+	};
+
+	// PACU phase duration of a patient, scaled by its risk adjustments. The
+	// patient's pathway stage may replace the class's distribution.
+	const samplePacuDuration = (
+		patient: SurgeryCase,
+		patientClass: PatientClass,
+		phase: "pacuPhase1" | "pacuPhase2"
+	): number =>
+		Math.max(
+			10,
+			Math.round(
+				sampleDistribution(
+					stageOf(patient)?.durationDistribution ??
+						getDurationDistribution(patientClass, phase),
+					random.durations
+				) *
+					pacuDurationMultiplier(
+						getRiskAdjustments(patientClass, patient),
+						phase
+					)
+			)
+		);
+
+	// Pathways of the classes, resolved once per run
+	const classPathways = new Map<string, PatientPathway>();
+	const pathwayOf = (patientClass: PatientClass): PatientPathway => {
+		let pathway = classPathways.get(patientClass.id);
+		if (!pathway) {
+			pathway = getPatientPathway(patientClass);
+			classPathways.set(patientClass.id, pathway);
+		}
+		return pathway;
+	};
+
+	const stageOf = (patient: SurgeryCase): PathwayStage | undefined => {
+		const patientClass = getPatientClass(patient);
+		if (!patientClass || patient.pathwayStageId === undefined) return;
+		return pathwayOf(patientClass).stages.find(
+			(stage) => stage.id === patient.pathwayStageId
+		);
+	};
+
+	// Moves a patient on from its current stage and returns the new one;
+	// none, or a home stage, sends the patient home. A branch is only drawn
+	// when a stage has several, and a phase 2 stage the patient is
+	// fast-tracked past is skipped.
+	const advancePathway = (
+		patient: SurgeryCase,
+		patientClass: PatientClass
+	): PathwayStage | undefined => {
+		const { stages } = pathwayOf(patientClass);
+		const index = stages.findIndex(
+			(stage) => stage.id === patient.pathwayStageId
+		);
+		const stage = stages[index];
+		let next: PathwayStage | undefined;
+		if (stage?.next?.length) {
+			const weights: Record<string, number> = {};
+			for (const branch of stage.next)
+				if (branch.probability > 0)
+					weights[branch.stageId] =
+						(weights[branch.stageId] || 0) + branch.probability;
+			const stageIds = Object.keys(weights);
+			const stageId =
+				stageIds.length > 1
+					? weightedRandomSelection(weights, random.routing)
+					: stageIds[0];
+			next = stages.find((candidate) => candidate.id === stageId);
+		} else if (stage) next = stages[index + 1];
+		patient.pathwayStageId = next?.id;
+		if (next?.kind === "pacu2") {
+			const probability = phase2BypassProbability(
+				patientClass,
+				getRiskAdjustments(patientClass, patient)
+			);
+			if (probability > 0 && random.routing() < probability) {
+				patient.pacuPhase2Bypassed = true;
+				return advancePathway(patient, patientClass);
+			}
+		}
+		return next;
+	};
+
+	// Discharge time of a ward stay that ends at readyTime: the next
+	// occurrence of an hour drawn from the unit's discharge-hour profile
+	const applyDischargeHours = (
+		unitState: UnitState,
+		readyTime: number
+	): number => {
+		const hour = weightedRandomSelection(
+			unitState.dischargeHourWeights,
+			random.discharges
+		);
+		if (hour === null) return readyTime;
+		const hourStart = Math.floor(readyTime / 1440) * 1440 + Number(hour) * 60;
+		const dischargeTime = hourStart + Math.floor(random.discharges() * 60);
+		if (dischargeTime >= readyTime) return dischargeTime;
+		return readyTime < hourStart + 60 ? readyTime : dischargeTime + 1440;
+	};
+
+	// Splits the time patients waited in PACU for the ward between [from, to)
+	// by cause. Admission hours and calendar beds only change at
+	// WARD_CAPACITY_CHANGE events, so they are constant over the interval.
+	const recordWardDelayCauses = (from: number, to: number) => {
+		from = Math.max(from, warmupEndTime);
+		if (to <= from) return;
+		for (const unitState of unitStateList) {
+			const waiting = unitState.waitingQueue.length;
+			if (waiting === 0) continue;
+			if (!isWardAdmissionOpen(unitState, from)) {
+				wardDelayByCause.admissionWindow += (to - from) * waiting;
+				continue;
+			}
+			const capacity = wardCapacityAt(unitState, from);
+			if (
+				capacity < unitState.beds.length &&
+				countBusy(unitState.beds) >= capacity
+			) {
+				wardDelayByCause.capacityCalendar += (to - from) * waiting;
+				continue;
+			}
+			// From the moment a ward patient's stay is over, its bed is held
+			// only by the discharge hours
+			let firstStayEnd = to;
+			for (const bed of unitState.beds) {
+				const occupant =
+					bed.isBusy && bed.assignedPatientId
+						? patients[bed.assignedPatientId]
+						: undefined;
+				if (occupant && occupant.wardPlannedDuration !== undefined)
+					firstStayEnd = Math.min(
+						firstStayEnd,
+						(occupant.wardArrivalTime ?? 0) + occupant.wardPlannedDuration
+					);
+			}
+			const stayEnd = Math.max(from, firstStayEnd);
+			wardDelayByCause.bedShortage += (stayEnd - from) * waiting;
+			wardDelayByCause.dischargeTiming += (to - stayEnd) * waiting;
+		}
+	};
+
+	// A shift is fully staffed while every nurse of its crew is on duty and
+	// not on a break
+	const recordShiftCoverage = (from: number, to: number) => {
+		const minutes = to - Math.max(from, warmupEndTime);
+		if (minutes <= 0) return;
+		for (const shiftId in shiftCrewsOnDuty) {
+			const crew = shiftCrewsOnDuty[shiftId];
+			const coverage = shiftCoverageMinutes[shiftId];
+			coverage.onDuty += minutes;
+			if (crew.every((nurse) => nurse.isOnShift && !nurse.isOnBreak))
+				coverage.fullyStaffed += minutes;
+		}
+	};
+
+	const recordNurseWorkload = (from: number, to: number) => {
+		const minutes = to - Math.max(from, warmupEndTime);
+		if (minutes <= 0) return;
+		for (const nurse of nurseList)
+			if (nurse.isBusy)
+				nurse.workloadMinutes =
+					(nurse.workloadMinutes || 0) + nurseWorkload(nurse) * minutes;
+	};
+
 	const updateStats = (time: number) => {
 		const duration = time - lastStatsUpdateTime;
 		if (duration <= 0) return;
+		recordWardDelayCauses(lastStatsUpdateTime, time);
+		recordShiftCoverage(lastStatsUpdateTime, time);
+		recordNurseWorkload(lastStatsUpdateTime, time);
 
-		const p1Busy = Object.values(pacu1Beds).filter((b) => b.isBusy).length;
-		const p2Busy = Object.values(pacu2Beds).filter((b) => b.isBusy).length;
-		const wardBusy = Object.values(wardBeds).filter((b) => b.isBusy).length;
-		const nurseBusy = Object.values(nurses).filter((n) => n.isBusy).length;
-		const waitingWardCount = wardWaitingQueue.length;
+		const p1Busy = countBusy(pacu1BedList);
+		// Holding patients in shared beds count as holding occupancy
+		const p2Busy =
+			countBusy(pacu2BedList) - (sharedHolding ? holdingCount : 0);
+		const wardBusy = countBusy(wardBedList);
+		const nurseBusy = totalNurseWorkload();
 
 		if (occupancyData.pacu1[occupancyData.pacu1.length - 1].count !== p1Busy)
 			occupancyData.pacu1.push({ time, count: p1Busy });
@@ -791,19 +2271,145 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			occupancyData.pacu2.push({ time, count: p2Busy });
 		if (occupancyData.ward[occupancyData.ward.length - 1].count !== wardBusy)
 			occupancyData.ward.push({ time, count: wardBusy });
+		const { holding } = occupancyData;
+		if (holding[holding.length - 1].count !== holdingCount)
+			holding.push({ time, count: holdingCount });
+		for (const unitState of unitStateList) {
+			const unitBusy = countBusy(unitState.beds);
+			const { occupancy } = unitState;
+			if (occupancy[occupancy.length - 1].count !== unitBusy)
+				occupancy.push({ time, count: unitBusy });
+		}
 		if (
 			occupancyData.nurse[occupancyData.nurse.length - 1].busyCount !==
 			nurseBusy
 		)
 			occupancyData.nurse.push({ time, busyCount: nurseBusy });
 
-		const totalPacuBeds =
-			params.pacuParams.phase1Beds + params.pacuParams.phase2Beds;
-		if (totalPacuBeds > 0) {
-			totalPacuBlockedTime += (waitingWardCount / totalPacuBeds) * duration;
+		lastStatsUpdateTime = time;
+	};
+
+	// Patient-level observations are recorded only after warm-up
+	const recordORWaitingTime = (waitingTime: number) => {
+		if (currentTime >= warmupEndTime) orWaitingTimes.push(waitingTime);
+	};
+	const recordWardTransferDelay = (delay: number, unitState: UnitState) => {
+		if (currentTime < warmupEndTime) return;
+		wardTransferDelays.push(delay);
+		unitState.transferDelays.push(delay);
+	};
+	const recordCompletedSurgery = (patient: SurgeryCase) => {
+		if (!patient.initialCensus && currentTime >= warmupEndTime)
+			completedSurgeries.push(patient);
+	};
+	const recordCancelledSurgery = (patient: SurgeryCase) => {
+		if (currentTime >= warmupEndTime) cancelledSurgeries.push(patient);
+	};
+	const changeRescheduleBacklog = (change: number) => {
+		rescheduleBacklog += change;
+		rescheduleBacklogData.push({ time: currentTime, count: rescheduleBacklog });
+	};
+	const recordElectiveStart = (patient: SurgeryCase) => {
+		if (patient.caseType !== "elective" || currentTime < warmupEndTime) return;
+		electiveStartDelays.push(patient.startDelay || 0);
+		if (patient.plannedOrRoom && patient.plannedOrRoom !== patient.orRoom)
+			roomSwapCount++;
+	};
+
+	// --- Event Trace ---
+	const trace: TraceEntry[] | null = params.enableTrace ? [] : null;
+	let currentTraceEvent: SimulationEvent | null = null;
+	let tracedTransitions = 0;
+
+	const recordTrace = (
+		entry: Omit<TraceEntry, "time" | "event" | "queues">
+	) => {
+		if (!trace || !currentTraceEvent) return;
+		trace.push({
+			time: currentTime,
+			event: currentTraceEvent.type,
+			...entry,
+			queues: {
+				or:
+					orWaitingQueue.length +
+					plannedRoomQueue.length +
+					staffWaitingQueue.length,
+				pacu1: pacu1WaitingQueue.length,
+				pacu2: pacu2WaitingQueue.length,
+				ward: wardQueueLength(),
+				nurse: nurseWaitingQueue.length,
+			},
+		});
+	};
+
+	// Resource a patient holds in a state, for the trace
+	const stateResourceId = (
+		patient: SurgeryCase,
+		state: PatientState
+	): string | undefined => {
+		switch (state) {
+			case "in_or":
+				return patient.orRoom;
+			case "in_pacu1":
+				return patient.pacuPhase1BedId;
+			case "in_pacu2":
+				return patient.pacuPhase2BedId;
+			case "in_ward":
+				return patient.wardBedId;
+			default:
+				return currentTraceEvent?.resourceId;
 		}
+	};
 
-		lastStatsUpdateTime = time;
+	const setPatientState = (patient: SurgeryCase, state: PatientState) => {
+		const fromState = patient.currentState;
+		patient.currentState = state;
+		if (state === "in_ward" || state === "discharged" || state === "cancelled")
+			wardPipeline.delete(patient.id);
+		if (state === "waiting_or") waitingForOR.add(patient.id);
+		else waitingForOR.delete(patient.id);
+		if (!trace) return;
+		tracedTransitions++;
+		recordTrace({
+			patientId: patient.id,
+			patientClassId: patient.classId,
+			resourceId: stateResourceId(patient, state),
+			fromState,
+			toState: state,
+		});
+	};
+
+	// Gives the patient to the nurse for the phase, alongside any patients
+	// the nurse already carries
+	const assignNursePatient = (
+		nurse: ResourceState,
+		patient: SurgeryCase,
+		phase: "pacu1" | "pacu2"
+	) => {
+		updateResourceUsage(nurse, false, currentTime); // Mark nurse as busy
+		if (!nurse.nursePatientLoads) nurse.nursePatientLoads = {};
+		nurse.nursePatientLoads[patient.id] = nursePatientLoad(patient, phase);
+		nurse.assignedPatientId = patient.id;
+		patient.assignedNurseId = nurse.id;
+		if (patient.nurseWaitStartTime !== undefined) {
+			patient.nurseWaitMinutes =
+				(patient.nurseWaitMinutes || 0) +
+				currentTime -
+				patient.nurseWaitStartTime;
+			patient.nurseWaitStartTime = undefined;
+		}
+	};
+
+	const enqueueForNurse = (
+		patient: SurgeryCase,
+		phase: "pacu1" | "pacu2"
+	) => {
+		if (patient.nurseWaitStartTime === undefined)
+			patient.nurseWaitStartTime = currentTime;
+		nurseWaitingQueue.enqueue(
+			{ patientId: patient.id, phase },
+			queueRank("nurse", patient, phase)
+		);
 	};
 
 	const tryAssignNurse = (
@@ -812,13 +2418,15 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 	): boolean => {
 		const patient = getPatient(patientId);
 		if (!patient) return false;
+		const load = nursePatientLoad(patient, phase);
 
 		// Enhanced nurse model
 		if (params.staffParams?.useEnhancedNurseModel) {
 			// Find nurses that are on shift and have the right skills
 			const availableNurses = Object.values(nurses).filter((nurse) => {
-				// Must be not busy and on shift
-				if (nurse.isBusy || !nurse.isOnShift) return false;
+				// Must have room for the patient, be on shift and not on a break
+				if (!nurse.isOnShift || nurse.isOnBreak) return false;
+				if (!hasNurseCapacity(nurse, load)) return false;
 
 				// Check if nurse has the right skills
 				const nurseSkill = params.staffParams.nurseSkills.find(
@@ -850,16 +2458,14 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 
 			if (availableNurses.length > 0) {
 				const selectedNurse = availableNurses[0];
-				updateResourceUsage(selectedNurse, false, currentTime); // Mark nurse as busy
-				selectedNurse.assignedPatientId = patientId;
-				patient.assignedNurseId = selectedNurse.id;
+				assignNursePatient(selectedNurse, patient, phase);
 
 				// Get nurse skill for logging
 				const nurseSkill = params.staffParams.nurseSkills.find(
 					(skill) => skill.id === selectedNurse.skillId
 				);
 
-				console.log(
+				log(
 					`Time ${currentTime.toFixed(2)}: Nurse ${selectedNurse.id} (${
 						nurseSkill?.name
 					}) assigned to Patient ${patientId} for ${phase}.`
@@ -874,154 +2480,245 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 					(n) => n.isOnShift && n.isBusy
 				).length;
 
-				console.log(
+				log(
 					`Time ${currentTime.toFixed(
 						2
 					)}: Patient ${patientId} waiting for Nurse for ${phase}. Queue size: ${
 						nurseWaitingQueue.length + 1
 					}. Nurses on shift: ${onShiftCount}, Busy: ${busyCount}`
 				);
-				nurseWaitingQueue.enqueue({ patientId, phase }, patient.priority);
+				enqueueForNurse(patient, phase);
 				return false;
 			}
 		}
 		// Legacy nurse model
 		else {
-			const availableNurse = findAvailableResource(nurses);
+			const availableNurse = nurseList.find((nurse) =>
+				hasNurseCapacity(nurse, load)
+			);
 			if (availableNurse) {
-				updateResourceUsage(availableNurse, false, currentTime); // Mark nurse as busy
-				availableNurse.assignedPatientId = patientId;
-				patient.assignedNurseId = availableNurse.id;
-				console.log(
+				assignNursePatient(availableNurse, patient, phase);
+				log(
 					`Time ${currentTime.toFixed(2)}: Nurse ${
 						availableNurse.id
 					} assigned to Patient ${patientId} for ${phase}.`
 				);
 				return true;
 			} else {
-				console.log(
+				log(
 					`Time ${currentTime.toFixed(
 						2
 					)}: Patient ${patientId} waiting for Nurse for ${phase}. Queue size: ${
 						nurseWaitingQueue.length + 1
 					}`
 				);
-				nurseWaitingQueue.enqueue({ patientId, phase }, patient.priority);
+				enqueueForNurse(patient, phase);
 				return false;
 			}
 		}
 	};
 
-	const releaseNurse = (nurseId: string | undefined) => {
-		if (!nurseId || !nurses[nurseId]) return;
-		const nurse = nurses[nurseId];
-
-		// Check if nurse is working overtime
+	// Records the overtime of a nurse released after the shift ended.
+	// Returns false when the nurse is not working overtime.
+	const recordNurseOvertime = (nurse: ResourceState): boolean => {
 		if (
-			params.staffParams?.useEnhancedNurseModel &&
-			nurse.isOnShift === false &&
-			nurse.shiftEndTime !== undefined &&
-			currentTime > nurse.shiftEndTime
-		) {
-			// Calculate overtime minutes
-			const overtimeMinutes = currentTime - nurse.shiftEndTime;
-			nurse.totalOvertimeMinutes =
-				(nurse.totalOvertimeMinutes || 0) + overtimeMinutes;
-
-			// Apply overtime cost multiplier
-			const overtimeMultiplier = params.staffParams.overtimeMultiplier || 1.5;
-			const overtimeCost =
-				overtimeMinutes *
-				(params.costParams?.costPerNurseMinute || 0) *
-				(overtimeMultiplier - 1);
-			totalNurseCost += overtimeCost;
+			!params.staffParams?.useEnhancedNurseModel ||
+			nurse.isOnShift !== false ||
+			nurse.shiftEndTime === undefined ||
+			currentTime <= nurse.shiftEndTime
+		)
+			return false;
+		// Calculate overtime minutes (excluding any part within warm-up)
+		const overtimeMinutes = Math.max(
+			0,
+			currentTime - Math.max(nurse.shiftEndTime, warmupEndTime)
+		);
+		nurse.totalOvertimeMinutes =
+			(nurse.totalOvertimeMinutes || 0) + overtimeMinutes;
+
+		// Apply overtime cost multiplier
+		const overtimeMultiplier = params.staffParams.overtimeMultiplier || 1.5;
+		const overtimeCost =
+			overtimeMinutes *
+			(params.costParams?.costPerNurseMinute || 0) *
+			(overtimeMultiplier - 1);
+		totalNurseCost += overtimeCost;
+
+		log(
+			`Time ${currentTime.toFixed(2)}: Nurse ${
+				nurse.id
+			} released after ${overtimeMinutes.toFixed(0)} minutes of overtime.`
+		);
+		return true;
+	};
 
-			console.log(
-				`Time ${currentTime.toFixed(
-					2
-				)}: Nurse ${nurseId} released after ${overtimeMinutes.toFixed(
-					0
-				)} minutes of overtime.`
-			);
-		} else {
-			console.log(`Time ${currentTime.toFixed(2)}: Nurse ${nurseId} released.`);
-		}
+	// Removes a patient from the nurse's patients. After the last one the
+	// nurse is free, and its overtime is recorded.
+	const dropNursePatient = (nurse: ResourceState, patientId: string) => {
+		if (nurse.nursePatientLoads) delete nurse.nursePatientLoads[patientId];
+		if (nurse.nursePatientLoads && Object.keys(nurse.nursePatientLoads).length)
+			return;
+
+		// Check if nurse is working overtime
+		if (!recordNurseOvertime(nurse))
+			log(`Time ${currentTime.toFixed(2)}: Nurse ${nurse.id} released.`);
 
 		updateResourceUsage(nurse, true, currentTime); // Mark nurse as free and update cost
 		nurse.busyUntil = 0; // Reset busyUntil
+	};
 
-		// Try to assign this nurse to a waiting patient if the nurse is still on shift
-		if (params.staffParams?.useEnhancedNurseModel && !nurse.isOnShift) {
-			// Nurse is off shift, don't assign new patients
-			return;
+	const releaseNurse = (patient: SurgeryCase) => {
+		const nurse = patient.assignedNurseId
+			? nurses[patient.assignedNurseId]
+			: undefined;
+		patient.assignedNurseId = undefined;
+		if (!nurse) return;
+		dropNursePatient(nurse, patient.id);
+		offerFreeNurse(nurse);
+	};
+
+	// --- Nurse Breaks and Handoffs ---
+
+	const nurseShifts: Record<string, NurseShift> = {};
+	(params.staffParams?.nurseShifts || []).forEach(
+		(shift) => (nurseShifts[shift.id] = shift)
+	);
+
+	const canNurseHandlePhase = (
+		nurse: ResourceState,
+		phase: "pacu1" | "pacu2"
+	): boolean => {
+		const nurseSkill = nurse.skillId
+			? nurseSkillsById[nurse.skillId]
+			: undefined;
+		if (!nurseSkill) return true;
+		return phase === "pacu1"
+			? nurseSkill.canHandlePhase1
+			: nurseSkill.canHandlePhase2;
+	};
+
+	const countNursesOnDuty = (): number => {
+		let count = 0;
+		for (const nurse of nurseList)
+			if (nurse.isOnShift && !nurse.isOnBreak) count++;
+		return count;
+	};
+
+	// Takes over the patients of nurses kept past the end of their shift, as
+	// many as the nurse has room for, so those nurses can leave
+	const takeOverHandoff = (nurse: ResourceState) => {
+		if (!params.staffParams?.handoffAtShiftEnd) return;
+		for (const leaving of nurseList) {
+			if (leaving.isOnShift || !leaving.isBusy) continue;
+			for (const patientId in leaving.nursePatientLoads) {
+				const patient = patients[patientId];
+				if (!patient) continue;
+				const phase =
+					patient.currentState === "in_pacu2" ||
+					patient.currentState === "waiting_pacu2"
+						? "pacu2"
+						: "pacu1";
+				if (
+					!canNurseHandlePhase(nurse, phase) ||
+					!hasNurseCapacity(nurse, nursePatientLoad(patient, phase))
+				)
+					continue;
+
+				const busyUntil = leaving.busyUntil;
+				dropNursePatient(leaving, patient.id);
+				assignNursePatient(nurse, patient, phase);
+				nurse.busyUntil = Math.max(nurse.busyUntil, busyUntil);
+				if (currentTime >= warmupEndTime) nurseHandoffs++;
+				log(
+					`Time ${currentTime.toFixed(2)}: Nurse ${
+						leaving.id
+					} handed Patient ${patient.id} over to Nurse ${nurse.id}.`
+				);
+			}
 		}
+	};
 
-		if (!nurseWaitingQueue.isEmpty()) {
-			const waitingPatientInfo = nurseWaitingQueue.dequeue();
-			if (waitingPatientInfo) {
-				const waitingPatient = getPatient(waitingPatientInfo.patientId);
+	// Starts a free nurse's due break if the coverage rule allows. A break
+	// whose window has passed is recorded as missed.
+	const tryStartBreak = (nurse: ResourceState): boolean => {
+		if (nurse.breakDueUntil === undefined) return false;
+		if (nurse.isBusy || nurse.isOnBreak || !nurse.isOnShift) return false;
+		const breakRule = nurse.shiftId
+			? nurseShifts[nurse.shiftId]?.breakRule
+			: undefined;
+		if (!breakRule) return false;
+		if (currentTime > nurse.breakDueUntil) {
+			nurse.breakDueUntil = undefined;
+			if (currentTime >= warmupEndTime) nurseBreaksMissed++;
+			return false;
+		}
+		if (countNursesOnDuty() - 1 < breakRule.minNursesOnDuty) return false;
 
-				// Check if this nurse can handle this patient's phase
-				let canHandle = true;
-				if (params.staffParams?.useEnhancedNurseModel) {
-					const nurseSkill = params.staffParams.nurseSkills.find(
-						(skill) => skill.id === nurse.skillId
-					);
+		nurse.isOnBreak = true;
+		nurse.breakDueUntil = undefined;
+		if (currentTime >= warmupEndTime) nurseBreaksTaken++;
+		addEvent(currentTime + breakRule.durationMinutes, "NURSE_BREAK_END", {
+			resourceId: nurse.id,
+		});
+		log(`Time ${currentTime.toFixed(2)}: Nurse ${nurse.id} on break.`);
+		return true;
+	};
 
-					if (nurseSkill) {
-						canHandle =
-							waitingPatientInfo.phase === "pacu1"
-								? nurseSkill.canHandlePhase1
-								: nurseSkill.canHandlePhase2;
-					}
-				}
+	// A nurse on duty with room for more work takes over leaving nurses'
+	// patients, goes on a due break once free of patients, or otherwise
+	// serves the nurse queue while the first waiting patient fits
+	const offerFreeNurse = (nurse: ResourceState) => {
+		if (params.staffParams?.useEnhancedNurseModel) {
+			// Nurse is off shift, don't assign new patients
+			if (!nurse.isOnShift || nurse.isOnBreak) return;
+			takeOverHandoff(nurse);
+			if (tryStartBreak(nurse)) return;
+		}
 
-				if (canHandle && waitingPatient) {
-					if (
-						waitingPatientInfo.phase === "pacu1" &&
-						waitingPatient.currentState === "waiting_pacu1"
-					) {
-						// Assign this nurse directly
-						nurse.isBusy = true;
-						nurse.lastBusyStartTime = currentTime;
-						nurse.assignedPatientId = waitingPatient.id;
-						waitingPatient.assignedNurseId = nurse.id;
-
-						addEvent(currentTime, "SURGERY_END", {
-							patientId: waitingPatient.id,
-						});
-					} else if (
-						waitingPatientInfo.phase === "pacu2" &&
-						waitingPatient.currentState === "waiting_pacu2"
-					) {
-						// Assign this nurse directly
-						nurse.isBusy = true;
-						nurse.lastBusyStartTime = currentTime;
-						nurse.assignedPatientId = waitingPatient.id;
-						waitingPatient.assignedNurseId = nurse.id;
-
-						addEvent(currentTime, "PACU1_END", {
-							patientId: waitingPatient.id,
-						});
-					} else {
-						// Put the patient back in the queue
-						nurseWaitingQueue.enqueue(
-							waitingPatientInfo,
-							waitingPatient.priority
-						);
-					}
-				} else {
-					// Put the patient back in the queue
-					nurseWaitingQueue.enqueue(
-						waitingPatientInfo,
-						waitingPatient?.priority || 5
-					);
-				}
+		while (!nurseWaitingQueue.isEmpty()) {
+			const waitingPatientInfo = nurseWaitingQueue.peek();
+			if (!waitingPatientInfo) return;
+			const { phase } = waitingPatientInfo;
+			const waitingPatient = getPatient(waitingPatientInfo.patientId);
+
+			// Patients who got a nurse meanwhile or moved on leave the queue
+			if (
+				!waitingPatient ||
+				waitingPatient.assignedNurseId ||
+				waitingPatient.currentState !==
+					(phase === "pacu1" ? "waiting_pacu1" : "waiting_pacu2")
+			) {
+				nurseWaitingQueue.dequeue();
+				continue;
 			}
+
+			// Check if this nurse can handle this patient's phase and load
+			if (
+				!canNurseHandlePhase(nurse, phase) ||
+				!hasNurseCapacity(nurse, nursePatientLoad(waitingPatient, phase))
+			)
+				return;
+
+			// Assign this nurse directly and resume the patient's transfer
+			nurseWaitingQueue.dequeue();
+			assignNursePatient(nurse, waitingPatient, phase);
+			addEvent(currentTime, phase === "pacu1" ? "SURGERY_END" : "PACU1_END", {
+				patientId: waitingPatient.id,
+			});
 		}
 	};
 
 	// --- Generate Initial Events ---
+	// A rotating template is expanded to blocks on simulation days
+	const orBlocks =
+		params.blockRotation && params.orBlocks
+			? expandBlockRotation(
+					params.orBlocks,
+					params.blockRotation,
+					params.simulationDays,
+					params.calendar
+			  )
+			: params.orBlocks;
 	let initialSurgeryList: SurgeryCaseInput[];
 	if (
 		params.surgeryScheduleType === "custom" &&
@@ -1029,30 +2726,33 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		params.customSurgeryList.length > 0
 	) {
 		initialSurgeryList = params.customSurgeryList;
-		console.log(
+		log(
 			"Using custom surgery list with",
 			initialSurgeryList.length,
 			"surgeries"
 		);
 	} else if (
 		params.blockScheduleEnabled &&
-		params.orBlocks &&
-		params.orBlocks.length > 0
+		orBlocks &&
+		orBlocks.length > 0
 	) {
 		initialSurgeryList = scheduleCasesInBlocks(
-			params.orBlocks,
+			orBlocks,
 			params.patientClasses,
 			params.patientClassDistribution,
-			params.simulationDays
+			params.simulationDays,
+			random.schedule,
+			params.calendar,
+			params.enableLogging
 		);
-		console.log(
+		log(
 			"Generated surgery list from blocks with",
 			initialSurgeryList.length,
 			"surgeries"
 		);
 	} else {
-		initialSurgeryList = generateSurgeryListTemplate(params);
-		console.log(
+		initialSurgeryList = generateSurgeryListTemplate(params, random.schedule);
+		log(
 			"Generated template surgery list with",
 			initialSurgeryList.length,
 			"surgeries"
@@ -1061,17 +2761,20 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 
 	// Ensure we have surgeries to simulate
 	if (initialSurgeryList.length === 0) {
-		console.log("No surgeries in list, generating default template");
-		initialSurgeryList = generateSurgeryListTemplate({
-			...params,
-			surgeryScheduleTemplate: {
-				averageDailySurgeries: Math.max(
-					6,
-					params.surgeryScheduleTemplate?.averageDailySurgeries || 6
-				),
+		log("No surgeries in list, generating default template");
+		initialSurgeryList = generateSurgeryListTemplate(
+			{
+				...params,
+				surgeryScheduleTemplate: {
+					averageDailySurgeries: Math.max(
+						6,
+						params.surgeryScheduleTemplate?.averageDailySurgeries || 6
+					),
+				},
 			},
-		});
-		console.log(
+			random.schedule
+		);
+		log(
 			"Generated default surgery list with",
 			initialSurgeryList.length,
 			"surgeries"
@@ -1093,10 +2796,7 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			Math.max(
 				15,
 				Math.round(
-					normalRandom(
-						patientClass.surgeryDurationMean,
-						patientClass.surgeryDurationStd
-					)
+					sampleClassDuration(patientClass, "surgery", random.durations)
 				)
 			);
 
@@ -1105,6 +2805,7 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			...s,
 			id: patientId,
 			caseType: "elective",
+			plannedOrRoom: s.orRoom,
 			actualArrivalTime: arrivalTime,
 			duration: duration, // Use the duration we determined above
 			priority: priority,
@@ -1115,845 +2816,2427 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		addEvent(arrivalTime, "PATIENT_ARRIVAL", { patientId });
 	});
 
-	if (
-		params.emergencyParams?.enabled &&
-		params.emergencyParams?.arrivalRateMeanPerDay &&
-		params.emergencyParams?.arrivalRateMeanPerDay > 0
-	) {
-		const meanArrivalsPerMinute =
-			params.emergencyParams.arrivalRateMeanPerDay / (24 * 60);
-		const timeToFirstArrival = exponentialRandom(meanArrivalsPerMinute);
-		addEvent(timeToFirstArrival, "EMERGENCY_ARRIVAL");
-	}
-	addEvent(simulationEndTime, "SIMULATION_END_CHECK");
+	// --- OR Sessions ---
+	// Session windows the cancellation rules check against and rescheduled
+	// cases are booked into: the OR blocks when block scheduling is on,
+	// otherwise the template opening hours of every OR on every day
+	type ORSession = {
+		orId: string;
+		start: number;
+		end: number;
+		allowedClasses?: string[];
+		bookedUntil: number; // End of the last booked case and its turnover
+	};
+	const sessionsByRoom: Record<string, ORSession[]> = {};
+	if (cancellationRules) {
+		const useBlocks =
+			params.blockScheduleEnabled && orBlocks && orBlocks.length > 0;
+		const openTime = params.surgeryScheduleTemplate?.orStartTime ?? 465;
+		const closeTime = params.surgeryScheduleTemplate?.orEndTime ?? 960;
+		for (let day = 0; day < params.simulationDays; day++) {
+			if (calendar.isClosed(day)) continue;
+			const dayStart = day * 1440;
+			const daySessions: Omit<ORSession, "bookedUntil">[] = useBlocks
+				? orBlocks
+						.filter(
+							(block) =>
+								block.day % params.simulationDays ===
+								day % params.simulationDays
+						)
+						.map((block) => ({
+							orId: block.orId,
+							start: dayStart + block.start,
+							end: dayStart + block.end,
+							allowedClasses: block.allowedClasses,
+						}))
+				: orList.map((or) => ({
+						orId: or.id,
+						start: dayStart + openTime,
+						end: dayStart + closeTime,
+				  }));
+			daySessions.forEach((session) => {
+				if (!sessionsByRoom[session.orId]) sessionsByRoom[session.orId] = [];
+				sessionsByRoom[session.orId].push({
+					...session,
+					bookedUntil: session.start,
+				});
+			});
+		}
+		Object.values(sessionsByRoom).forEach((sessions) =>
+			sessions.sort((a, b) => a.start - b.start)
+		);
 
-	// --- Main Simulation Loop ---
-	while (!eventQueue.isEmpty()) {
-		const currentEvent = eventQueue.dequeue();
-		if (!currentEvent) break;
+		// Book the planned cases into their sessions
+		Object.values(patients).forEach((patient) => {
+			const session = (sessionsByRoom[patient.orRoom] || []).find(
+				(s) =>
+					s.start <= patient.scheduledStartTime &&
+					patient.scheduledStartTime < s.end
+			);
+			if (session)
+				session.bookedUntil = Math.max(
+					session.bookedUntil,
+					patient.scheduledStartTime + patient.duration + turnoverTime
+				);
+		});
 
-		if (currentEvent.time > currentTime) {
-			updateStats(currentEvent.time);
-			currentTime = currentEvent.time;
+		if (cancellationRules.pacuSaturation) {
+			const cutoffMinute = cancellationRules.pacuCutoffMinute ?? 14 * 60;
+			for (let day = 0; day < params.simulationDays; day++)
+				addEvent(day * 1440 + cutoffMinute, "CANCELLATION_CUTOFF");
 		}
-		if (
-			currentTime >= simulationEndTime &&
-			currentEvent.type !== "SIMULATION_END_CHECK"
-		)
-			continue;
+	}
 
-		const patient = currentEvent.patientId
-			? getPatient(currentEvent.patientId)
-			: null;
-		const patientClass = patient ? getPatientClass(patient) : null;
+	// Session of an OR that a case starting now runs in: the last one of the
+	// day that has opened, or the day's first session before opening
+	const findSession = (orId: string, time: number): ORSession | null => {
+		const dayStart = Math.floor(time / 1440) * 1440;
+		let current: ORSession | null = null;
+		for (const session of sessionsByRoom[orId] || []) {
+			if (session.start < dayStart) continue;
+			if (session.start >= dayStart + 1440) break;
+			if (!current || session.start <= time) current = session;
+			else break;
+		}
+		return current;
+	};
 
-		switch (currentEvent.type) {
-			case "PATIENT_ARRIVAL":
-				if (!patient) break;
-				patient.currentState = "arrived";
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${patient.id} (${
-						patient.caseType
-					}) arrived.`
-				);
+	// --- Initial Census ---
+	// Patients already in PACU and ward beds at time zero. Each census patient
+	// gets a residual stay and then follows the normal pathway.
+	const censusParams = params.initialCensus;
+	if (censusParams) {
+		let censusCounter = 0;
+		const censusMix =
+			censusParams.patientClassDistribution || params.patientClassDistribution;
+
+		const selectCensusClass = (
+			usesUnit: (pc: PatientClass) => boolean
+		): PatientClass | undefined => {
+			const distribution: Record<string, number> = {};
+			params.patientClasses.forEach((pc) => {
+				if (usesUnit(pc) && (censusMix[pc.id] || 0) > 0)
+					distribution[pc.id] = censusMix[pc.id];
+			});
+			const classId = weightedRandomSelection(distribution, random.census);
+			return params.patientClasses.find((pc) => pc.id === classId);
+		};
 
-				// Check for cancellation based on patient class cancellation risk
-				const patientCancellationRisk = patientClass?.cancellationRisk || 0;
-				if (
-					patientCancellationRisk > 0 &&
-					Math.random() < patientCancellationRisk
-				) {
-					// Determine cancellation reason
-					const reasons = [
-						"patient_no_show",
-						"medical_reason",
-						"resource_unavailable",
-					];
-					const randomReason =
-						reasons[Math.floor(Math.random() * reasons.length)];
+		const addCensusPatient = (
+			patientClass: PatientClass,
+			state: SurgeryCase["currentState"]
+		): SurgeryCase => {
+			const patientId = `C-${++censusCounter}`;
+			patients[patientId] = {
+				id: patientId,
+				caseType: "elective",
+				classId: patientClass.id,
+				scheduledStartTime: 0,
+				actualArrivalTime: 0,
+				duration: 0,
+				orRoom: "",
+				priority: patientClass.priority,
+				currentState: state,
+				wardTransferDelay: 0,
+				orWaitingTime: 0,
+				initialCensus: true,
+				// The first stage of the pathway matching where the patient is
+				pathwayStageId: pathwayOf(patientClass).stages.find((stage) =>
+					state === "in_ward"
+						? stage.kind === "ward" || stage.kind === "stepDown"
+						: stage.kind === (state === "in_pacu1" ? "pacu1" : "pacu2")
+				)?.id,
+			};
+			return patients[patientId];
+		};
 
-					// Schedule cancellation
-					addEvent(currentTime, "SURGERY_CANCELLATION", {
-						patientId: patient.id,
-						cancellationReason: randomReason,
-					});
+		// Shifts have not started at time zero in the enhanced nurse model, so
+		// census PACU patients only get a nurse from the legacy pool
+		const assignCensusNurse = (
+			patient: SurgeryCase,
+			phase: "pacu1" | "pacu2"
+		) => {
+			const load = nursePatientLoad(patient, phase);
+			if (
+				!params.staffParams?.useEnhancedNurseModel &&
+				nurseList.some((nurse) => hasNurseCapacity(nurse, load))
+			)
+				tryAssignNurse(patient.id, phase);
+		};
 
-					console.log(
-						`Time ${currentTime.toFixed(2)}: Patient ${
-							patient.id
-						} will be cancelled (${randomReason}).`
-					);
-					break;
-				}
+		for (let i = 0; i < (censusParams.pacuPhase1Patients || 0); i++) {
+			const bed = findAvailableResource(pacu1Beds);
+			const pc = selectCensusClass((c) => c.pacuPhase1DurationMean > 0);
+			if (!bed || !pc) break;
+			const patient = addCensusPatient(pc, "in_pacu1");
+			updateResourceUsage(bed, false, 0);
+			bed.assignedPatientId = patient.id;
+			patient.pacuPhase1BedId = bed.id;
+			patient.pacuPhase1StartTime = 0;
+			assignCensusNurse(patient, "pacu1");
+			const endTime = Math.max(
+				1,
+				Math.round(
+					residualDurationRandom(
+						getDurationDistribution(pc, "pacuPhase1"),
+						random.census
+					)
+				)
+			);
+			bed.busyUntil = endTime;
+			if (patient.assignedNurseId && nurses[patient.assignedNurseId])
+				nurses[patient.assignedNurseId].busyUntil = endTime;
+			addEvent(endTime, "PACU1_END", {
+				patientId: patient.id,
+				resourceId: bed.id,
+			});
+		}
 
-				const availableOR = findAvailableResource(orResources);
-				if (availableOR) {
-					updateResourceUsage(availableOR, false, currentTime); // Mark OR busy
-					availableOR.assignedPatientId = patient.id;
-					patient.orRoom = availableOR.id;
-					patient.orStartTime = currentTime;
-					patient.orWaitingTime = Math.max(
-						0,
-						currentTime - patient.actualArrivalTime
-					);
-					orWaitingTimes.push(patient.orWaitingTime);
-					patient.currentState = "in_or";
-
-					// Apply time-of-day variability to surgery duration if configured
-					let surgeryDuration = patient.duration;
-					if (patientClass?.timeOfDayVariability) {
-						surgeryDuration = applyTimeOfDayVariability(
-							surgeryDuration,
-							patientClass.timeOfDayVariability,
-							currentTime
-						);
-					}
+		for (let i = 0; i < (censusParams.pacuPhase2Patients || 0); i++) {
+			const bed = findAvailableResource(pacu2Beds);
+			const pc = selectCensusClass((c) => c.pacuPhase2DurationMean > 0);
+			if (!bed || !pc) break;
+			const patient = addCensusPatient(pc, "in_pacu2");
+			updateResourceUsage(bed, false, 0);
+			bed.assignedPatientId = patient.id;
+			patient.pacuPhase2BedId = bed.id;
+			patient.pacuPhase2StartTime = 0;
+			assignCensusNurse(patient, "pacu2");
+			const endTime = Math.max(
+				1,
+				Math.round(
+					residualDurationRandom(
+						getDurationDistribution(pc, "pacuPhase2"),
+						random.census
+					)
+				)
+			);
+			bed.busyUntil = endTime;
+			if (patient.assignedNurseId && nurses[patient.assignedNurseId])
+				nurses[patient.assignedNurseId].busyUntil = endTime;
+			addEvent(endTime, "PACU2_END", {
+				patientId: patient.id,
+				resourceId: bed.id,
+			});
+		}
 
-					const surgeryEndTime = currentTime + surgeryDuration;
-					availableOR.busyUntil = surgeryEndTime;
-					addEvent(surgeryEndTime, "SURGERY_END", {
-						patientId: patient.id,
-						resourceId: availableOR.id,
-					});
-					console.log(
-						`Time ${currentTime.toFixed(2)}: Patient ${
-							patient.id
-						} started surgery in ${
-							availableOR.id
-						}. Ends at ${surgeryEndTime.toFixed(2)}.`
-					);
-				} else {
-					patient.currentState = "waiting_or";
-					orWaitingQueue.enqueue(patient.id, patient.priority);
-					console.log(
-						`Time ${currentTime.toFixed(2)}: Patient ${
-							patient.id
-						} waiting for OR. Queue size: ${orWaitingQueue.length}`
-					);
-				}
-				break;
+		for (let i = 0; i < (censusParams.wardPatients || 0); i++) {
+			const anyBed = findAvailableResource(wardBeds);
+			const pc = selectCensusClass(
+				(c) =>
+					pathwayHasWardStage(pathwayOf(c)) &&
+					(c.wardStayDurationMean || 0) > 0
+			);
+			if (!anyBed || !pc) break;
+			const unitState = selectDestinationUnit(pc.destinationDistribution);
+			const bed = unitState.beds.find((unitBed) => !unitBed.isBusy);
+			if (!bed) continue; // The unit this patient is routed to is full
+			const patient = addCensusPatient(pc, "in_ward");
+			patient.destinationUnitId = unitState.unit.id;
+			updateResourceUsage(bed, false, 0);
+			bed.assignedPatientId = patient.id;
+			patient.wardBedId = bed.id;
+			patient.wardArrivalTime = 0;
+			const stayEnd = Math.max(
+				1,
+				Math.round(
+					residualDurationRandom(
+						unitState.unit.losDistribution ||
+							getDurationDistribution(pc, "wardStay"),
+						random.census
+					)
+				)
+			);
+			patient.wardPlannedDuration = stayEnd;
+			const dischargeTime = applyDischargeHours(unitState, stayEnd);
+			bed.busyUntil = dischargeTime;
+			addEvent(dischargeTime, "WARD_DISCHARGE", {
+				patientId: patient.id,
+				resourceId: bed.id,
+			});
+		}
+
+		// Occupancy series start from the census rather than from empty units
+		occupancyData.pacu1[0].count = countBusy(pacu1BedList);
+		occupancyData.pacu2[0].count = countBusy(pacu2BedList);
+		occupancyData.ward[0].count = countBusy(wardBedList);
+		unitStateList.forEach(
+			(unitState) => (unitState.occupancy[0].count = countBusy(unitState.beds))
+		);
+		occupancyData.nurse[0].busyCount = totalNurseWorkload();
+		log(
+			`Initial census: ${censusCounter} patients (P1 ${occupancyData.pacu1[0].count}, P2 ${occupancyData.pacu2[0].count}, Ward ${occupancyData.ward[0].count}).`
+		);
+	}
+
+	// --- Emergency Arrivals ---
+	// A weekday-by-hour rate matrix makes the arrival process non-homogeneous;
+	// otherwise arrivals are Poisson at the mean daily rate
+	const emergencyRateMatrix = params.emergencyParams?.arrivalRateMatrix;
+	const emergencyRateAt = (time: number): number =>
+		(emergencyRateMatrix?.[getDayOfWeek(time)]?.[
+			Math.floor(getTimeOfDay(time) / 60)
+		] || 0) / 60;
+	const maxEmergencyRate = emergencyRateMatrix
+		? Math.max(0, ...emergencyRateMatrix.flat()) / 60
+		: (params.emergencyParams?.arrivalRateMeanPerDay || 0) / (24 * 60);
+	const emergencyArrivalsByHour: number[] = new Array(24).fill(0);
+
+	// Time of the emergency arrival after the given time
+	const nextEmergencyArrival = (time: number): number =>
+		emergencyRateMatrix
+			? nonHomogeneousArrivalRandom(
+					time,
+					emergencyRateAt,
+					maxEmergencyRate,
+					simulationEndTime,
+					random.arrivals
+			  )
+			: time + exponentialRandom(maxEmergencyRate, random.arrivals);
+
+	if (params.emergencyParams?.enabled && maxEmergencyRate > 0)
+		addEvent(nextEmergencyArrival(0), "EMERGENCY_ARRIVAL");
+	// Ward admission hours and calendar beds change on the hour
+	const hasWardCalendar = destinationUnits.some(
+		(unit) =>
+			unit.capacityCalendar ||
+			(unit.admissionStartHour !== undefined &&
+				unit.admissionEndHour !== undefined)
+	);
+	if (hasWardCalendar) {
+		for (let time = 60; time < simulationEndTime; time += 60) {
+			if (
+				unitStateList.some(
+					(unitState) =>
+						isWardAdmissionOpen(unitState, time) !==
+							isWardAdmissionOpen(unitState, time - 60) ||
+						wardCapacityAt(unitState, time) !==
+							wardCapacityAt(unitState, time - 60)
+				)
+			)
+				addEvent(time, "WARD_CAPACITY_CHANGE");
+		}
+	}
+	// A reserved emergency OR opens to electives at the same time every day
+	if (emergencyOR?.mode === "reserved") {
+		const releaseMinute = emergencyOR.reservedUntilMinute ?? 720;
+		for (let day = 0; day * 1440 < simulationEndTime; day++)
+			addEvent(day * 1440 + releaseMinute, "OR_ASSIGNMENT_CHECK");
+	}
+	// Staff coming on duty may start the cases waiting for them
+	staffStateList.forEach(({ staff }) => {
+		for (let day = 0; day * 1440 < simulationEndTime; day++)
+			if (staff.workingDays.includes(calendar.staffingWeekday(day)))
+				addEvent(day * 1440 + staff.startMinute, "STAFF_AVAILABLE", {
+					resourceId: staff.id,
+				});
+	});
+	// Enhanced nurse model: shift start and end for every simulated day. The
+	// crew of a day is the first nursesPerDay nurses of the shift; they come
+	// on duty early by the handover overlap.
+	if (params.staffParams?.useEnhancedNurseModel) {
+		for (let day = 0; day < params.simulationDays; day++) {
+			const dayStart = day * 24 * 60;
+
+			params.staffParams.nurseShifts.forEach((shift) => {
+				const dayOfWeek = calendar.staffingWeekday(day);
+				const nursesForThisDay = shift.nursesPerDay[dayOfWeek];
+
+				if (nursesForThisDay > 0) {
+					// Find nurses assigned to this shift
+					const shiftNurses = nurseList
+						.filter((n) => n.shiftId === shift.id)
+						.slice(0, nursesForThisDay);
+					const crew = shiftNurses.map((n) => n.id).join(",");
+
+					// Schedule shift start
+					const shiftStart = dayStart + shift.startMinute;
+					const arrival = shiftStart - (shift.handoverOverlapMinutes || 0);
+					if (arrival < simulationEndTime) {
+						addEvent(Math.max(0, arrival), "NURSE_SHIFT_START", {
+							shiftId: shift.id,
+							resourceId: crew,
+						});
+					}
+
+					if (shift.breakRule) {
+						addEvent(
+							shiftStart + shift.breakRule.windowStartMinute,
+							"NURSE_BREAK_DUE",
+							{ shiftId: shift.id, resourceId: crew }
+						);
+					}
+
+					// Schedule shift end
+					const shiftEnd = shiftStart + shift.durationMinutes;
+					if (shiftEnd < simulationEndTime) {
+						addEvent(shiftEnd, "NURSE_SHIFT_END", {
+							shiftId: shift.id,
+							resourceId: crew,
+						});
+					}
+				}
+			});
+		}
+	}
+	addEvent(simulationEndTime, "SIMULATION_END_CHECK");
+
+	// --- Event Handlers ---
+	// One function per event type keeps each handler small enough for the JIT
+	// to optimise; a single switch over all of them is not.
+	type EventHandler = (
+		currentEvent: SimulationEvent,
+		patient: SurgeryCase | null,
+		patientClass: PatientClass | null
+	) => void;
+
+	// Frees the OR once the patient physically leaves it. For a patient held
+	// after surgery the blocked time is recorded first.
+	const leaveOR = (patient: SurgeryCase) => {
+		if (patient.orExitTime !== undefined) return;
+		patient.orExitTime = currentTime;
+		const orId = patient.orRoom;
+		if (heldInOR.delete(patient.id)) {
+			const blockedSince = patient.orEndTime ?? currentTime;
+			patient.orBlockedMinutes = currentTime - blockedSince;
+			if (orBlockedMinutes[orId] !== undefined)
+				orBlockedMinutes[orId] += Math.max(
+					0,
+					currentTime - Math.max(blockedSince, warmupEndTime)
+				);
+			orBlockReleases[orId] = { time: currentTime, since: blockedSince };
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} left ${orId} after ${patient.orBlockedMinutes.toFixed(
+					0
+				)} minutes held for PACU Phase 1.`
+			);
+		}
+		if (orId && (orResources[orId] || findOnCallOR(orId)))
+			addEvent(currentTime, "OR_AVAILABLE", { resourceId: orId });
+	};
+
+	// --- Cancellation Rules ---
+
+	const cancelSurgery = (
+		patient: SurgeryCase,
+		reason: SurgeryCase["cancellationReason"]
+	) => {
+		log(
+			`Time ${currentTime.toFixed(2)}: Surgery for patient ${
+				patient.id
+			} cancelled. Reason: ${reason || "unknown"}.`
+		);
+		setPatientState(patient, "cancelled");
+		patient.cancellationTime = currentTime;
+		patient.cancellationReason = reason;
+		recordCancelledSurgery(patient);
+		totalCancellationCost += params.costParams?.costPerCancellation || 0;
+
+		const queueIndex = plannedRoomQueue.indexOf(patient.id);
+		if (queueIndex !== -1) plannedRoomQueue.splice(queueIndex, 1);
+		const holdingIndex = holdingQueue.indexOf(patient.id);
+		if (holdingIndex !== -1) holdingQueue.splice(holdingIndex, 1);
+		releaseHoldingBay(patient);
+
+		if (cancellationRules?.reschedule && patient.caseType === "elective") {
+			// A rebooked case is already in the backlog
+			if (!patient.rescheduledFromId) changeRescheduleBacklog(1);
+			addEvent(currentTime, "SURGERY_RESCHEDULE", { patientId: patient.id });
+		}
+	};
+
+	// Free beds of a unit expected at a given time, less the inpatients
+	// already on their way to it
+	const forecastFreeWardBeds = (unitState: UnitState, time: number): number => {
+		let free = 0;
+		for (const bed of unitState.beds)
+			if (!bed.isBusy || bed.busyUntil <= time) free++;
+		const open =
+			wardCapacityAt(unitState, time) - (unitState.beds.length - free);
+		let incoming = 0;
+		for (const patientId of wardPipeline)
+			if (patients[patientId]?.destinationUnitId === unitState.unit.id)
+				incoming++;
+		return Math.min(free, open) - incoming;
+	};
+
+	// Reason an elective case must be cancelled instead of started in the
+	// given OR, or null when the rules allow it
+	const checkCancellationRules = (
+		patient: SurgeryCase,
+		or: ResourceState
+	): SurgeryCase["cancellationReason"] | null => {
+		if (!cancellationRules || patient.caseType !== "elective") return null;
+		const patientClass = getPatientClass(patient);
+
+		if (cancellationRules.sessionOverrun) {
+			const session = findSession(or.id, currentTime);
+			if (
+				session &&
+				currentTime + patient.duration >
+					session.end + (cancellationRules.overrunToleranceMinutes ?? 0)
+			)
+				return "session_overrun";
+		}
+
+		if (
+			cancellationRules.wardBedForecast &&
+			patientClass &&
+			pathwayHasWardStage(pathwayOf(patientClass))
+		) {
+			const adjustments = getRiskAdjustments(patientClass, patient);
+			const pacuExitTime =
+				currentTime +
+				patient.duration +
+				distributionMean(getDurationDistribution(patientClass, "pacuPhase1")) *
+					pacuDurationMultiplier(adjustments, "pacuPhase1") +
+				(patientClass.pacuPhase2DurationMean > 0
+					? distributionMean(
+							getDurationDistribution(patientClass, "pacuPhase2")
+					  ) * pacuDurationMultiplier(adjustments, "pacuPhase2")
+					: 0);
+			if (forecastFreeWardBeds(getDestinationUnit(patient), pacuExitTime) < 1)
+				return "no_ward_bed";
+		}
+		return null;
+	};
+
+	// Puts a patient into a free OR and schedules the end of surgery. Returns
+	// false when the cancellation rules cancel the case instead.
+	const startSurgery = (patient: SurgeryCase, or: ResourceState): boolean => {
+		const cancellationReason = checkCancellationRules(patient, or);
+		if (cancellationReason) {
+			cancelSurgery(patient, cancellationReason);
+			return false;
+		}
+		if (patient.rescheduledFromId) changeRescheduleBacklog(-1);
+		if (patient.caseType === "emergency") recordEmergencyStart(patient, or);
+		releaseHoldingBay(patient);
+		assignSurgicalStaff(patient);
+		const patientClass = getPatientClass(patient);
+		if (
+			cancellationRules &&
+			patientClass &&
+			pathwayHasWardStage(pathwayOf(patientClass))
+		) {
+			getDestinationUnit(patient);
+			wardPipeline.add(patient.id);
+		}
+
+		updateResourceUsage(or, false, currentTime); // Mark OR busy
+		or.assignedPatientId = patient.id;
+		patient.orRoom = or.id;
+		patient.orStartTime = currentTime;
+		patient.orWaitingTime = Math.max(
+			0,
+			currentTime - queueWaitStart("or", patient)
+		);
+		if (patient.caseType === "elective")
+			patient.startDelay = Math.max(
+				0,
+				currentTime - patient.scheduledStartTime
+			);
+		recordORWaitingTime(patient.orWaitingTime);
+		recordElectiveStart(patient);
+
+		// A case that was waiting when a held OR was released lost the time
+		// the room was blocked (or its own wait, if shorter)
+		const blockRelease = orBlockReleases[or.id];
+		if (
+			blockRelease &&
+			blockRelease.time === currentTime &&
+			patient.currentState === "waiting_or" &&
+			currentTime >= warmupEndTime
+		) {
+			delayedStartsByBlocking++;
+			startDelayByBlockingMinutes += Math.min(
+				patient.orWaitingTime,
+				currentTime - blockRelease.since
+			);
+		}
+		setPatientState(patient, "in_or");
+
+		// Apply time-of-day variability to surgery duration if configured
+		let surgeryDuration = patient.duration;
+		if (patientClass?.timeOfDayVariability) {
+			surgeryDuration = applyTimeOfDayVariability(
+				surgeryDuration,
+				patientClass.timeOfDayVariability,
+				currentTime
+			);
+		}
+
+		const surgeryEndTime = currentTime + surgeryDuration;
+		or.busyUntil = surgeryEndTime;
+		addEvent(surgeryEndTime, "SURGERY_END", {
+			patientId: patient.id,
+			resourceId: or.id,
+		});
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} started surgery in ${or.id}. Ends at ${surgeryEndTime.toFixed(2)}.`
+		);
+		return true;
+	};
+
+	// --- Turnover and Cleaning ---
+
+	const cleaningDistribution = (
+		kind: CleaningResource
+	): DistributionSpec | undefined => {
+		if (kind === "or") return cleaningParams?.orTurnover;
+		if (kind === "pacu") return cleaningParams?.pacuBayCleaning;
+		return cleaningParams?.wardBedCleaning;
+	};
+
+	// Minutes of [from, to] inside the statistics window
+	const minutesInStatsWindow = (from: number, to: number) =>
+		Math.max(
+			0,
+			Math.min(to, simulationEndTime) - Math.max(from, warmupEndTime)
+		);
+
+	// Holds a resource its patient has just left until it is cleaned.
+	// Returns false when the resource needs no cleaning and is free at once.
+	const startCleaning = (
+		resource: ResourceState,
+		kind: CleaningResource,
+		patientId?: string
+	): boolean => {
+		const distribution = cleaningDistribution(kind);
+		if (!distribution) return false;
+		resource.isBusy = true;
+		resource.isCleaning = true;
+		const job: CleaningJob = {
+			resource,
+			kind,
+			distribution,
+			requestTime: currentTime,
+			patientId,
+		};
+		if (cleaningCrewSize > 0 && busyCleaners >= cleaningCrewSize) {
+			cleaningQueue.push(job);
+			log(
+				`Time ${currentTime.toFixed(2)}: ${
+					resource.id
+				} waiting for a cleaner. Queue size: ${cleaningQueue.length}`
+			);
+		} else beginCleaning(job);
+		return true;
+	};
+
+	const beginCleaning = (job: CleaningJob) => {
+		const duration = Math.max(
+			0,
+			Math.round(sampleDistribution(job.distribution, random.cleaning))
+		);
+		const endTime = currentTime + duration;
+		busyCleaners++;
+		activeCleaningJobs[job.resource.id] = job;
+		job.resource.busyUntil = endTime;
+		if (currentTime >= warmupEndTime)
+			cleaningWaits.push(currentTime - job.requestTime);
+		cleanerBusyMinutes += minutesInStatsWindow(currentTime, endTime);
+		const patient = job.patientId ? patients[job.patientId] : undefined;
+		if (patient) {
+			patient.orTurnoverStartTime = currentTime;
+			patient.orTurnoverEndTime = endTime;
+		}
+		addEvent(endTime, "CLEANING_END", { resourceId: job.resource.id });
+		log(
+			`Time ${currentTime.toFixed(2)}: Cleaning ${
+				job.resource.id
+			}. Ends at ${endTime.toFixed(2)}.`
+		);
+	};
+
+	// Time from the request to the given time, including any wait for a
+	// cleaner
+	const recordCleaningTime = (job: CleaningJob, until: number) => {
+		const minutes = minutesInStatsWindow(job.requestTime, until);
+		cleaningMinutes[job.kind] += minutes;
+		if (job.kind === "or")
+			orTurnoverMinutes[job.resource.id] =
+				(orTurnoverMinutes[job.resource.id] || 0) + minutes;
+	};
+
+	// Frees a cleaned resource, starts the next waiting cleaning and offers
+	// the resource to waiting patients as if its last patient had just left
+	const handleCleaningEnd: EventHandler = (currentEvent) => {
+		const resourceId = currentEvent.resourceId;
+		const job = resourceId ? activeCleaningJobs[resourceId] : undefined;
+		if (!job) return;
+		delete activeCleaningJobs[job.resource.id];
+		busyCleaners--;
+		recordCleaningTime(job, currentTime);
+		const { resource } = job;
+		resource.isBusy = false;
+		resource.isCleaning = false;
+		resource.busyUntil = 0;
+		log(`Time ${currentTime.toFixed(2)}: ${resource.id} cleaned.`);
+
+		const nextJob = cleaningQueue.shift();
+		if (nextJob) beginCleaning(nextJob);
+
+		if (job.kind === "or") {
+			// A hold in the OR before the turnover still delayed the next case
+			const blockRelease = orBlockReleases[resource.id];
+			if (blockRelease && blockRelease.time === job.requestTime)
+				blockRelease.time = currentTime;
+			offerFreeOR(resource);
+		} else if (job.kind === "pacu") {
+			if (pacu1Beds[resource.id]) fillPacu1Bed(resource.id);
+			else fillPacu2Bed(resource.id);
+		} else if (!unitStates[resource.unitId || ""].waitingQueue.isEmpty()) {
+			addEvent(currentTime, "WARD_BED_AVAILABLE", { resourceId: resource.id });
+		}
+	};
+
+	// --- Surgical Staff ---
+
+	// Staff not in the staff list do not constrain the case
+	const isStaffFree = (staffId: string | undefined): boolean => {
+		const staffState = staffId ? staffStates[staffId] : undefined;
+		if (!staffState) return true;
+		const { staff } = staffState;
+		const minute = getTimeOfDay(currentTime);
+		return (
+			!staffState.patientId &&
+			staff.workingDays.includes(getStaffingDay(currentTime)) &&
+			minute >= staff.startMinute &&
+			minute < staff.endMinute
+		);
+	};
+
+	const isSurgicalStaffAvailable = (patient: SurgeryCase): boolean =>
+		isStaffFree(patient.surgeonId) && isStaffFree(patient.anaesthesiaTeamId);
+
+	// A case with a free room whose staff are busy or off duty. Outside room
+	// fidelity it leaves the OR queue until STAFF_AVAILABLE.
+	const setAsideForStaff = (patient: SurgeryCase) => {
+		if (patient.staffWaitStartTime === undefined)
+			patient.staffWaitStartTime = currentTime;
+		if (!roomFidelity) staffWaitingQueue.push(patient.id);
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} waiting for surgeon or anaesthesia team.`
+		);
+	};
+
+	const assignSurgicalStaff = (patient: SurgeryCase) => {
+		for (const staffId of [patient.surgeonId, patient.anaesthesiaTeamId]) {
+			const staffState = staffId ? staffStates[staffId] : undefined;
+			if (!staffState) continue;
+			staffState.patientId = patient.id;
+			staffState.busySince = currentTime;
+		}
+		if (
+			patient.staffWaitStartTime !== undefined &&
+			currentTime >= warmupEndTime
+		) {
+			delayedStartsByStaff++;
+			startDelayByStaffMinutes += currentTime - patient.staffWaitStartTime;
+		}
+	};
+
+	// Busy minutes of a staff member's current case, from warm-up on
+	const staffBusyMinutesUntil = (staffState: StaffState, time: number) =>
+		Math.max(0, time - Math.max(staffState.busySince, warmupEndTime));
+
+	const releaseSurgicalStaff = (patient: SurgeryCase) => {
+		for (const staffId of [patient.surgeonId, patient.anaesthesiaTeamId]) {
+			const staffState = staffId ? staffStates[staffId] : undefined;
+			if (!staffState || staffState.patientId !== patient.id) continue;
+			staffState.busyMinutes += staffBusyMinutesUntil(staffState, currentTime);
+			staffState.patientId = null;
+			addEvent(currentTime, "STAFF_AVAILABLE", {
+				resourceId: staffState.staff.id,
+			});
+		}
+	};
+
+	// Cases set aside for staff that are now available rejoin the OR queue,
+	// then free rooms are filled
+	const handleStaffAvailable: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		let kept = 0;
+		for (const patientId of staffWaitingQueue) {
+			const waiting = patients[patientId];
+			if (waiting.currentState !== "waiting_or") continue;
+			if (isSurgicalStaffAvailable(waiting))
+				orWaitingQueue.enqueue(patientId, queueRank("or", waiting));
+			else staffWaitingQueue[kept++] = patientId;
+		}
+		staffWaitingQueue.length = kept;
+		handleORAssignmentCheck(currentEvent, patient, patientClass);
+	};
+
+	// --- Emergency Capacity ---
+
+	// Electives stay out of a dedicated emergency OR, and out of a reserved
+	// one until its reservation ends for the day
+	const mayUseOR = (patient: SurgeryCase, orId: string): boolean => {
+		if (!emergencyOR || orId !== emergencyOR.orId) return true;
+		if (patient.caseType === "emergency") return true;
+		return (
+			emergencyOR.mode === "reserved" &&
+			getTimeOfDay(currentTime) >= (emergencyOR.reservedUntilMinute ?? 720)
+		);
+	};
+
+	// Free OR a newly arrived case may start in. Emergencies try the
+	// emergency OR first.
+	const findORFor = (patient: SurgeryCase): ResourceState | null => {
+		if (emergencyOR && patient.caseType === "emergency") {
+			const room = orResources[emergencyOR.orId];
+			if (!room.isBusy) return room;
+		}
+		for (const or of orList)
+			if (!or.isBusy && mayUseOR(patient, or.id)) return or;
+		return null;
+	};
+
+	// Draws the urgency category of a new emergency from the category shares
+	const selectUrgencyCategory = (): UrgencyCategory | null => {
+		const shares: Record<string, number> = {};
+		urgencyCategories.forEach((category) => {
+			if (category.share > 0) shares[category.id] = category.share;
+		});
+		const categoryId = weightedRandomSelection(shares, random.urgency);
+		return urgencyCategories.find((c) => c.id === categoryId) || null;
+	};
+
+	// Whether waiting for the next free OR, behind the emergencies already
+	// queued ahead, would miss the target. Emergencies without an urgency
+	// category are treated as immediate.
+	const wouldMissUrgencyTarget = (patient: SurgeryCase): boolean => {
+		const deadline = patient.urgencyDeadline ?? currentTime;
+		let casesAhead = 0;
+		for (const patientId of waitingForOR) {
+			const waiting = patients[patientId];
+			if (
+				patientId !== patient.id &&
+				waiting.caseType === "emergency" &&
+				waiting.priority <= patient.priority
+			)
+				casesAhead++;
+		}
+		const freeTimes = orList
+			.filter((or) => mayUseOR(patient, or.id))
+			.map((or) => Math.max(currentTime, or.busyUntil))
+			.sort((a, b) => a - b);
+		return (freeTimes[casesAhead] ?? Infinity) > deadline;
+	};
+
+	// Opens the after-hours room for an emergency that found every OR busy,
+	// when the on-call policy applies
+	const openOnCallRoom = (patient: SurgeryCase): ResourceState | null => {
+		if (
+			!onCallOR ||
+			onCallOR.isBusy ||
+			patient.caseType !== "emergency" ||
+			!wouldMissUrgencyTarget(patient)
+		)
+			return null;
+		if (currentTime >= warmupEndTime) {
+			onCallActivations++;
+			totalOnCallCost += params.costParams?.costPerOnCallActivation || 0;
+		}
+		log(
+			`Time ${currentTime.toFixed(2)}: After-hours room opened for ${
+				patient.id
+			}.`
+		);
+		return onCallOR;
+	};
+
+	// Cancels today's next elective case that has not started, so an
+	// emergency that found every OR busy and would miss its urgency target
+	// takes its place in the list
+	const bumpNextElective = (patient: SurgeryCase) => {
+		if (
+			preemptionPolicy !== "bumpElective" ||
+			patient.caseType !== "emergency" ||
+			!wouldMissUrgencyTarget(patient)
+		)
+			return;
+		const endOfDay = (Math.floor(currentTime / 1440) + 1) * 1440;
+		let nextElective: SurgeryCase | null = null;
+		for (const patientId in patients) {
+			const candidate = patients[patientId];
+			if (
+				candidate.caseType !== "elective" ||
+				candidate.scheduledStartTime >= endOfDay ||
+				(candidate.currentState !== "scheduled" &&
+					candidate.currentState !== "arrived" &&
+					candidate.currentState !== "waiting_or")
+			)
+				continue;
+			if (
+				!nextElective ||
+				candidate.scheduledStartTime < nextElective.scheduledStartTime
+			)
+				nextElective = candidate;
+		}
+		if (!nextElective) return;
+		if (currentTime >= warmupEndTime) {
+			bumpedElectiveCount++;
+			displacedElectiveCount++;
+		}
+		cancelSurgery(nextElective, "emergency_bump");
+	};
+
+	// Urgency target statistics, and electives the emergency goes ahead of
+	const recordEmergencyStart = (patient: SurgeryCase, or: ResourceState) => {
+		if (currentTime < warmupEndTime) return;
+		const stats = patient.urgencyCategoryId
+			? urgencyStats[patient.urgencyCategoryId]
+			: undefined;
+		if (stats) {
+			stats.cases++;
+			stats.totalTimeToOR += currentTime - patient.actualArrivalTime;
+			if (currentTime <= (patient.urgencyDeadline ?? Infinity)) stats.met++;
+		}
+		if (or === onCallOR) return;
+		for (const patientId of waitingForOR) {
+			const waiting = patients[patientId];
+			if (
+				waiting.caseType === "elective" &&
+				canStartInRoom(waiting, or.id) &&
+				isSurgicalStaffAvailable(waiting)
+			) {
+				displacedElectiveCount++;
+				return;
+			}
+		}
+	};
+
+	// --- Room Fidelity ---
+
+	// Electives whose planned room does not exist are treated like emergencies
+	const hasPlannedRoom = (patient: SurgeryCase): boolean =>
+		patient.caseType === "elective" &&
+		!!patient.plannedOrRoom &&
+		!!orResources[patient.plannedOrRoom];
+
+	const canStartInRoom = (patient: SurgeryCase, orId: string): boolean => {
+		if (!mayUseOR(patient, orId)) return false;
+		if (!roomFidelity || !hasPlannedRoom(patient)) return true;
+		if (currentTime < patient.scheduledStartTime) return false;
+		if (patient.plannedOrRoom === orId) return true;
+		// A free planned room takes its own case, so other rooms leave it
+		const plannedRoom = orResources[patient.plannedOrRoom as string];
+		if (!plannedRoom.isBusy && mayUseOR(patient, plannedRoom.id)) return false;
+		switch (roomFidelity.swapPolicy) {
+			case "whenLate":
+				return (
+					currentTime >=
+					patient.scheduledStartTime + (roomFidelity.swapAfterMinutes ?? 30)
+				);
+			case "always":
+				return true;
+			default:
+				return false;
+		}
+	};
+
+	// Wake-ups for the moments a waiting case may become startable
+	const scheduleAssignmentChecks = (patient: SurgeryCase) => {
+		if (!roomFidelity || !hasPlannedRoom(patient)) return;
+		if (patient.scheduledStartTime > currentTime)
+			addEvent(patient.scheduledStartTime, "OR_ASSIGNMENT_CHECK", {
+				patientId: patient.id,
+			});
+		if (roomFidelity.swapPolicy === "whenLate")
+			addEvent(
+				patient.scheduledStartTime + (roomFidelity.swapAfterMinutes ?? 30),
+				"OR_ASSIGNMENT_CHECK",
+				{ patientId: patient.id }
+			);
+	};
+
+	// The emergency OR is offered first so emergencies land there
+	const roomDispatchOrder = emergencyOR
+		? [
+				orResources[emergencyOR.orId],
+				...orList.filter((or) => or.id !== emergencyOR.orId),
+		  ]
+		: orList;
+
+	const isRankBefore = (a: number[], b: number[]): boolean => {
+		for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] < b[i];
+		return false;
+	};
+
+	// Fills every free OR from the waiting cases. Emergencies go first, then
+	// the room's own cases, then other rooms' cases the swap policy allows;
+	// within each group the earliest planned start wins. A room stays free for
+	// the next candidate when the cancellation rules cancel the chosen case.
+	const dispatchPlannedRooms = () => {
+		for (const or of roomDispatchOrder) {
+			while (!or.isBusy) {
+				let bestIndex = -1;
+				let bestRank: number[] = [];
+				plannedRoomQueue.forEach((patientId, index) => {
+					const patient = getPatient(patientId);
+					if (
+						!patient ||
+						patient.currentState !== "waiting_or" ||
+						!canStartInRoom(patient, or.id)
+					)
+						return;
+					if (!isSurgicalStaffAvailable(patient)) {
+						setAsideForStaff(patient);
+						return;
+					}
+					const rank = [
+						patient.caseType === "emergency" ? 0 : 1,
+						!hasPlannedRoom(patient) || patient.plannedOrRoom === or.id
+							? 0
+							: 1,
+						patient.scheduledStartTime,
+					];
+					if (bestIndex === -1 || isRankBefore(rank, bestRank)) {
+						bestIndex = index;
+						bestRank = rank;
+					}
+				});
+				if (bestIndex === -1) break;
+				const [patientId] = plannedRoomQueue.splice(bestIndex, 1);
+				startSurgery(patients[patientId], or);
+			}
+		}
+	};
+
+	// Planned cases becoming startable, or a reserved emergency OR opening
+	// to electives
+	const handleORAssignmentCheck: EventHandler = () => {
+		if (roomFidelity) {
+			dispatchPlannedRooms();
+			return;
+		}
+		for (const or of orList) if (!or.isBusy) fillORFromQueue(or);
+	};
+
+	const handlePatientArrival: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		// Cancelled by the PACU saturation cutoff before arriving
+		if (!patient || patient.currentState === "cancelled") return;
+		setPatientState(patient, "arrived");
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${patient.id} (${
+				patient.caseType
+			}) arrived.`
+		);
+
+		// Check for cancellation based on patient class cancellation risk
+		const patientCancellationRisk = patientClass?.cancellationRisk || 0;
+		if (
+			patientCancellationRisk > 0 &&
+			random.cancellations() < patientCancellationRisk
+		) {
+			// Determine cancellation reason
+			const reasons = [
+				"patient_no_show",
+				"medical_reason",
+				"resource_unavailable",
+			];
+			const randomReason =
+				reasons[Math.floor(random.cancellations() * reasons.length)];
+
+			// Schedule cancellation
+			addEvent(currentTime, "SURGERY_CANCELLATION", {
+				patientId: patient.id,
+				cancellationReason: randomReason,
+			});
+
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} will be cancelled (${randomReason}).`
+			);
+			return;
+		}
+
+		// Electives start from the holding stage of their pathway while the
+		// holding area is in use, everyone else from the OR
+		const stages = patientClass ? pathwayOf(patientClass).stages : [];
+		if (
+			holdingParams &&
+			stages[0]?.kind === "holding" &&
+			patient.caseType === "elective"
+		) {
+			patient.pathwayStageId = stages[0].id;
+			const bay = findAvailableResource(holdingBays);
+			if (bay) startHolding(patient, bay);
+			else {
+				holdingQueue.push(patient.id);
+				setPatientState(patient, "waiting_holding");
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						patient.id
+					} waiting for a holding bay. Queue size: ${holdingQueue.length}`
+				);
+			}
+			return;
+		}
+		patient.pathwayStageId = stages.find((stage) => stage.kind === "or")?.id;
+		joinORQueue(patient);
+	};
+
+	// Starts a case that is ready for surgery in a free OR, or queues it
+	const joinORQueue = (patient: SurgeryCase) => {
+		if (roomFidelity) {
+			plannedRoomQueue.push(patient.id);
+			setPatientState(patient, "waiting_or");
+			scheduleAssignmentChecks(patient);
+			dispatchPlannedRooms();
+			if (patient.currentState !== "waiting_or") return;
+			const onCallRoom = openOnCallRoom(patient);
+			if (onCallRoom) {
+				plannedRoomQueue.splice(plannedRoomQueue.indexOf(patient.id), 1);
+				startSurgery(patient, onCallRoom);
+				return;
+			}
+			bumpNextElective(patient);
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} waiting for ${patient.plannedOrRoom || "any OR"}.`
+			);
+			return;
+		}
+
+		const staffAvailable = isSurgicalStaffAvailable(patient);
+		const availableOR = staffAvailable
+			? findORFor(patient) || openOnCallRoom(patient)
+			: null;
+		if (availableOR) {
+			startSurgery(patient, availableOR);
+		} else {
+			bumpNextElective(patient);
+			if (!staffAvailable && findORFor(patient)) setAsideForStaff(patient);
+			else orWaitingQueue.enqueue(patient.id, queueRank("or", patient));
+			setPatientState(patient, "waiting_or");
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} waiting for OR. Queue size: ${orWaitingQueue.length}`
+			);
+		}
+	};
+
+	// --- Pre-operative Holding ---
+
+	const startHolding = (patient: SurgeryCase, bay: ResourceState) => {
+		if (!holdingParams) return;
+		updateResourceUsage(bay, false, currentTime); // Mark bay busy
+		bay.assignedPatientId = patient.id;
+		patient.holdingBayId = bay.id;
+		patient.holdingStartTime = currentTime;
+		holdingCount++;
+		setPatientState(patient, "in_holding");
+		if (currentTime >= warmupEndTime)
+			holdingBayWaits.push(currentTime - patient.actualArrivalTime);
+		const prepEndTime =
+			currentTime +
+			Math.max(
+				0,
+				Math.round(
+					sampleDistribution(
+						stageOf(patient)?.durationDistribution ??
+							holdingParams.prepDurationDistribution,
+						random.durations
+					)
+				)
+			);
+		addEvent(prepEndTime, "PREP_END", {
+			patientId: patient.id,
+			resourceId: bay.id,
+		});
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${patient.id} in holding bay ${
+				bay.id
+			}. Prepared at ${prepEndTime.toFixed(2)}.`
+		);
+	};
+
+	// Gives a free bay to the first patient waiting for one
+	const fillHoldingBay = (bay: ResourceState) => {
+		while (holdingQueue.length > 0 && !bay.isBusy) {
+			const patient = getPatient(holdingQueue.shift() as string);
+			if (patient?.currentState === "waiting_holding")
+				startHolding(patient, bay);
+		}
+	};
+
+	// Frees the bay of a patient going to surgery or cancelled
+	const releaseHoldingBay = (patient: SurgeryCase) => {
+		const bay = patient.holdingBayId
+			? holdingBays[patient.holdingBayId]
+			: undefined;
+		if (!bay || patient.holdingEndTime !== undefined) return;
+		patient.holdingEndTime = currentTime;
+		holdingCount--;
+		updateResourceUsage(bay, true, currentTime); // Mark bay free
+		bay.busyUntil = 0;
+		if (sharedHolding) fillPacu2Bed(bay.id);
+		else fillHoldingBay(bay);
+	};
+
+	const handlePrepEnd: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || patient.currentState !== "in_holding") return;
+		patient.prepEndTime = currentTime;
+		log(`Time ${currentTime.toFixed(2)}: Patient ${patient.id} prepared.`);
+		const bayWait = (patient.holdingStartTime ?? 0) - patient.actualArrivalTime;
+		const lateBy = currentTime - patient.scheduledStartTime;
+		if (bayWait > 0 && lateBy > 0 && currentTime >= warmupEndTime) {
+			holdingDelayedStarts++;
+			holdingStartDelayMinutes += Math.min(bayWait, lateBy);
+		}
+		if (patientClass) advancePathway(patient, patientClass);
+		joinORQueue(patient);
+	};
+
+	const handleORAvailable: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		const orId = currentEvent.resourceId;
+		const or = orId ? orResources[orId] || findOnCallOR(orId) : undefined;
+		if (!or) return;
+		log(`Time ${currentTime.toFixed(2)}: OR ${orId} available.`);
+		const lastPatientId = or.assignedPatientId;
+		updateResourceUsage(or, true, currentTime); // Mark OR free, update cost
+		or.busyUntil = 0;
+
+		// The after-hours room closes after its case
+		if (or === onCallOR) return;
+
+		if (lastPatientId && startCleaning(or, "or", lastPatientId)) return;
+		offerFreeOR(or);
+	};
+
+	const offerFreeOR = (or: ResourceState) => {
+		if (roomFidelity) {
+			dispatchPlannedRooms();
+			return;
+		}
+		fillORFromQueue(or);
+	};
+
+	// First queued case an OR may take, in queue order. Cases cancelled
+	// while queued count too, so that they get dropped.
+	const nextQueuedCaseFor = (or: ResourceState): string | undefined => {
+		const mayTake = (patientId: string) => {
+			const patient = getPatient(patientId);
+			return (
+				!patient ||
+				patient.currentState === "cancelled" ||
+				mayUseOR(patient, or.id)
+			);
+		};
+		const head = orWaitingQueue.peek();
+		if (head === undefined || mayTake(head)) return head;
+		return orWaitingQueue.toArray().find(mayTake);
+	};
+
+	// Starts waiting cases in a free OR. Cases cancelled while queued are
+	// skipped, as are cases the cancellation rules cancel instead of
+	// starting. Electives that may not use the emergency OR are passed
+	// over, so an emergency queued behind them still gets it.
+	const fillORFromQueue = (or: ResourceState) => {
+		while (!or.isBusy) {
+			const nextPatientId = nextQueuedCaseFor(or);
+			if (nextPatientId === undefined) break;
+			orWaitingQueue.remove(nextPatientId);
+			const nextPatient = getPatient(nextPatientId);
+			if (!nextPatient || nextPatient.currentState === "cancelled") continue;
+			if (nextPatient.currentState === "waiting_or") {
+				if (isSurgicalStaffAvailable(nextPatient))
+					startSurgery(nextPatient, or);
+				else setAsideForStaff(nextPatient);
+			} else {
+				console.warn(
+					`Patient ${nextPatientId} from OR queue was not in waiting_or state (${nextPatient.currentState}). Re-queueing OR_AVAILABLE.`
+				);
+				addEvent(currentTime, "OR_AVAILABLE", { resourceId: or.id });
+				break;
+			}
+		}
+	};
+
+	const handleSurgeryEnd: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !patientClass) return;
+		// A nurse freed for a patient already waiting for phase 1 re-sends
+		// SURGERY_END; the surgery itself ended earlier
+		const resumed = patient.currentState === "waiting_pacu1";
+		// The re-sent event is stale once a freed bed took the patient
+		if (!resumed && patient.currentState !== "in_or") return;
+		if (!resumed) {
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} finished surgery in ${patient.orRoom}.`
+			);
+			patient.orEndTime = currentTime;
+			releaseSurgicalStaff(patient);
+		}
+		// A resumed patient already moved on to its phase 1 stage
+		const nextStage = resumed
+			? stageOf(patient)
+			: advancePathway(patient, patientClass);
+		const holdPatient = holdInOR && nextStage?.kind === "pacu1";
+		// OR release is handled by the OR_AVAILABLE event leaveOR triggers
+		if (!holdPatient) leaveOR(patient);
+
+		if (!nextStage || nextStage.kind === "home") {
+			setPatientState(patient, "discharged");
+			patient.dischargeTime = currentTime;
+			recordCompletedSurgery(patient);
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} discharged/transferred from the OR.`
+			);
+		} else if (nextStage.kind === "pacu2") {
+			enterPacuPhase2(patient, patientClass, false);
+		} else if (nextStage.kind !== "pacu1") {
+			addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
+				patientId: patient.id,
+			});
+		} else {
+			const availableP1Bed = findAvailableResource(pacu1Beds);
+			// A resumed patient may already have had a nurse handed over
+			if (
+				availableP1Bed &&
+				((resumed && patient.assignedNurseId) ||
+					tryAssignNurse(patient.id, "pacu1"))
+			) {
+				if (resumed) pacu1WaitingQueue.remove(patient.id);
+				leaveOR(patient);
+				updateResourceUsage(availableP1Bed, false, currentTime); // Mark P1 bed busy
+				availableP1Bed.assignedPatientId = patient.id;
+				patient.pacuPhase1BedId = availableP1Bed.id;
+				patient.pacuPhase1StartTime = currentTime;
+				setPatientState(patient, "in_pacu1");
+				const p1Duration = samplePacuDuration(
+					patient,
+					patientClass,
+					"pacuPhase1"
+				);
+				const p1EndTime = currentTime + p1Duration;
+				availableP1Bed.busyUntil = p1EndTime;
+				if (patient.assignedNurseId && nurses[patient.assignedNurseId])
+					nurses[patient.assignedNurseId].busyUntil = p1EndTime;
+				addEvent(p1EndTime, "PACU1_END", {
+					patientId: patient.id,
+					resourceId: availableP1Bed.id,
+				});
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						patient.id
+					} entered PACU Phase 1 in ${
+						availableP1Bed.id
+					}. Ends at ${p1EndTime.toFixed(2)}.`
+				);
+			} else if (!resumed) {
+				pacu1WaitingQueue.enqueue(patient.id, queueRank("pacu1", patient));
+				setPatientState(patient, "waiting_pacu1");
+				if (holdPatient) {
+					heldInOR.add(patient.id);
+					if (currentTime >= warmupEndTime) blockedCaseCount++;
+				}
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						patient.id
+					} waiting for PACU Phase 1 bed/nurse${
+						holdPatient ? ` in ${patient.orRoom}` : ""
+					}. BedQ: ${pacu1WaitingQueue.length}, NurseQ: ${
+						nurseWaitingQueue.length
+					}`
+				);
+			}
+		}
+	};
+
+	// Gives a freed phase 1 bed to the first waiting patient
+	const fillPacu1Bed = (p1BedId: string) => {
+		// Entries of patients placed or moved on meanwhile are skipped
+		while (!pacu1WaitingQueue.isEmpty()) {
+			const nextPatientId = pacu1WaitingQueue.dequeue();
+			const nextPatient = nextPatientId && getPatient(nextPatientId);
+			if (!nextPatient) continue;
+			if (nextPatient.currentState !== "waiting_pacu1") {
+				log(
+					`Time ${currentTime.toFixed(2)}: Skipped patient ${nextPatientId} in PACU1 queue, no longer waiting_pacu1 (${nextPatient.currentState}).`
+				);
+				continue;
+			}
+			if (
+				nextPatient.assignedNurseId ||
+				tryAssignNurse(nextPatient.id, "pacu1")
+			) {
+				leaveOR(nextPatient);
+				updateResourceUsage(pacu1Beds[p1BedId], false, currentTime); // Mark P1 bed busy
+				pacu1Beds[p1BedId].assignedPatientId = nextPatient.id;
+				nextPatient.pacuPhase1BedId = p1BedId;
+				nextPatient.pacuPhase1StartTime = currentTime;
+				setPatientState(nextPatient, "in_pacu1");
+				const pc = getPatientClass(nextPatient);
+				const p1Duration = pc
+					? samplePacuDuration(nextPatient, pc, "pacuPhase1")
+					: 60;
+				const p1EndTime = currentTime + p1Duration;
+				pacu1Beds[p1BedId].busyUntil = p1EndTime;
+				if (nextPatient.assignedNurseId && nurses[nextPatient.assignedNurseId])
+					nurses[nextPatient.assignedNurseId].busyUntil = p1EndTime;
+				addEvent(p1EndTime, "PACU1_END", {
+					patientId: nextPatient.id,
+					resourceId: p1BedId,
+				});
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						nextPatient.id
+					} (from queue) entered PACU Phase 1 in ${p1BedId}. Ends at ${p1EndTime.toFixed(
+						2
+					)}.`
+				);
+			} else {
+				pacu1WaitingQueue.enqueue(
+					nextPatient.id,
+					queueRank("pacu1", nextPatient)
+				);
+			}
+			break;
+		}
+	};
+
+	// Takes a patient into PACU phase 2, or queues it for a bed and nurse
+	const enterPacuPhase2 = (
+		patient: SurgeryCase,
+		patientClass: PatientClass,
+		resumed: boolean
+	) => {
+		const availableP2Bed = findAvailableResource(pacu2Beds);
+		// A resumed patient already has the nurse that was freed for it
+		if (
+			availableP2Bed &&
+			((resumed && patient.assignedNurseId) ||
+				tryAssignNurse(patient.id, "pacu2"))
+		) {
+			if (resumed) pacu2WaitingQueue.remove(patient.id);
+			updateResourceUsage(availableP2Bed, false, currentTime); // Mark P2 bed busy
+			availableP2Bed.assignedPatientId = patient.id;
+			patient.pacuPhase2BedId = availableP2Bed.id;
+			patient.pacuPhase2StartTime = currentTime;
+			setPatientState(patient, "in_pacu2");
+			const p2Duration = samplePacuDuration(
+				patient,
+				patientClass,
+				"pacuPhase2"
+			);
+			const p2EndTime = currentTime + p2Duration;
+			availableP2Bed.busyUntil = p2EndTime;
+			if (patient.assignedNurseId && nurses[patient.assignedNurseId])
+				nurses[patient.assignedNurseId].busyUntil = p2EndTime;
+			addEvent(p2EndTime, "PACU2_END", {
+				patientId: patient.id,
+				resourceId: availableP2Bed.id,
+			});
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} entered PACU Phase 2 in ${
+					availableP2Bed.id
+				}. Ends at ${p2EndTime.toFixed(2)}.`
+			);
+		} else if (!resumed) {
+			pacu2WaitingQueue.enqueue(patient.id, queueRank("pacu2", patient));
+			setPatientState(patient, "waiting_pacu2");
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} waiting for PACU Phase 2 bed/nurse. BedQ: ${
+					pacu2WaitingQueue.length
+				}, NurseQ: ${nurseWaitingQueue.length}`
+			);
+		}
+	};
+
+	const handlePacu1End: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !patientClass) return;
+		const p1BedId = currentEvent.resourceId;
+		// A nurse freed for a patient already waiting for phase 2 re-sends
+		// PACU1_END; phase 1 itself ended earlier, or the patient came to
+		// phase 2 straight from the OR
+		const resumed = patient.currentState === "waiting_pacu2";
+		// The re-sent event is stale once a freed bed took the patient
+		if (!resumed && patient.currentState !== "in_pacu1") return;
+		if (!resumed) {
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} finished PACU Phase 1 in ${p1BedId || patient.pacuPhase1BedId}.`
+			);
+			patient.pacuPhase1EndTime = currentTime;
+			releaseNurse(patient);
+		}
+
+		if (!resumed && p1BedId && pacu1Beds[p1BedId]) {
+			updateResourceUsage(pacu1Beds[p1BedId], true, currentTime); // Mark P1 bed free, update cost
+			pacu1Beds[p1BedId].busyUntil = 0;
+
+			if (!startCleaning(pacu1Beds[p1BedId], "pacu"))
+				fillPacu1Bed(p1BedId);
+		}
+
+		// A resumed patient already moved on to its phase 2 stage
+		const nextStage = resumed
+			? stageOf(patient)
+			: advancePathway(patient, patientClass);
+		if (nextStage?.kind === "pacu2")
+			enterPacuPhase2(patient, patientClass, resumed);
+		else if (!resumed)
+			addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
+				patientId: patient.id,
+			});
+	};
+
+	// Gives a freed phase 2 bed to the first waiting patient
+	const fillPacu2Bed = (p2BedId: string) => {
+		// Entries of patients placed or moved on meanwhile are skipped
+		while (!pacu2WaitingQueue.isEmpty()) {
+			const nextPatientId = pacu2WaitingQueue.dequeue();
+			const nextPatient = nextPatientId && getPatient(nextPatientId);
+			if (!nextPatient) continue;
+			if (nextPatient.currentState !== "waiting_pacu2") {
+				log(
+					`Time ${currentTime.toFixed(2)}: Skipped patient ${nextPatientId} in PACU2 queue, no longer waiting_pacu2 (${nextPatient.currentState}).`
+				);
+				continue;
+			}
+			if (
+				nextPatient.assignedNurseId ||
+				tryAssignNurse(nextPatient.id, "pacu2")
+			) {
+				updateResourceUsage(pacu2Beds[p2BedId], false, currentTime); // Mark P2 bed busy
+				pacu2Beds[p2BedId].assignedPatientId = nextPatient.id;
+				nextPatient.pacuPhase2BedId = p2BedId;
+				nextPatient.pacuPhase2StartTime = currentTime;
+				setPatientState(nextPatient, "in_pacu2");
+				const pc = getPatientClass(nextPatient);
+				const p2Duration = pc
+					? samplePacuDuration(nextPatient, pc, "pacuPhase2")
+					: 60;
+				const p2EndTime = currentTime + p2Duration;
+				pacu2Beds[p2BedId].busyUntil = p2EndTime;
+				if (nextPatient.assignedNurseId && nurses[nextPatient.assignedNurseId])
+					nurses[nextPatient.assignedNurseId].busyUntil = p2EndTime;
+				addEvent(p2EndTime, "PACU2_END", {
+					patientId: nextPatient.id,
+					resourceId: p2BedId,
+				});
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						nextPatient.id
+					} (from queue) entered PACU Phase 2 in ${p2BedId}. Ends at ${p2EndTime.toFixed(
+						2
+					)}.`
+				);
+			} else {
+				pacu2WaitingQueue.enqueue(
+					nextPatient.id,
+					queueRank("pacu2", nextPatient)
+				);
+			}
+			break;
+		}
+		// A shared bed that phase 2 leaves free goes to the holding area
+		if (sharedHolding && !pacu2Beds[p2BedId].isBusy)
+			fillHoldingBay(pacu2Beds[p2BedId]);
+	};
+
+	const handlePacu2End: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !patientClass || !patient.pacuPhase2BedId) return;
+		const p2BedId = currentEvent.resourceId;
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} finished PACU Phase 2 in ${p2BedId || patient.pacuPhase2BedId}.`
+		);
+		patient.pacuPhase2EndTime = currentTime;
+		releaseNurse(patient);
+
+		if (p2BedId && pacu2Beds[p2BedId]) {
+			updateResourceUsage(pacu2Beds[p2BedId], true, currentTime); // Mark P2 bed free, update cost
+			pacu2Beds[p2BedId].busyUntil = 0;
+
+			if (!startCleaning(pacu2Beds[p2BedId], "pacu"))
+				fillPacu2Bed(p2BedId);
+		}
+		advancePathway(patient, patientClass);
+		addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
+			patientId: patient.id,
+		});
+	};
+
+	// Frees a ward bed for cleaning or the next patient waiting on its unit
+	const releaseWardBed = (wardBed: ResourceState) => {
+		updateResourceUsage(wardBed, true, currentTime);
+		wardBed.busyUntil = 0;
+		if (startCleaning(wardBed, "ward")) return;
+		if (!unitStates[wardBed.unitId || ""].waitingQueue.isEmpty())
+			addEvent(currentTime, "WARD_BED_AVAILABLE", { resourceId: wardBed.id });
+	};
+
+	// Unit of a ward or step-down stage: the stage's own unit, for a
+	// step-down stage the first step-down unit, otherwise the class routing
+	const getStageUnit = (
+		patient: SurgeryCase,
+		stage: PathwayStage
+	): UnitState => {
+		const unitId =
+			stage.unitId ??
+			(stage.kind === "stepDown"
+				? unitStateList.find(({ unit }) => unit.type === "stepDown")?.unit.id
+				: undefined);
+		if (unitId && unitStates[unitId]) {
+			patient.destinationUnitId = unitId;
+			return unitStates[unitId];
+		}
+		return getDestinationUnit(patient);
+	};
+
+	// Ward stay of a patient admitted now. The distribution of the pathway
+	// stage, or else a unit length-of-stay distribution, replaces the patient
+	// class's ward stay.
+	const sampleWardStay = (
+		patientClass: PatientClass | null,
+		unitState: UnitState,
+		stageDistribution?: DistributionSpec
+	): number => {
+		const distribution = stageDistribution || unitState.unit.losDistribution;
+		if (distribution)
+			return Math.max(
+				60,
+				Math.round(sampleDistribution(distribution, random.wardLos))
+			);
+
+		let wardStayDuration = 60; // Default 1 hour
+		if (
+			patientClass &&
+			(patientClass.wardStayDurationDistribution ||
+				(patientClass.wardStayDurationMean && patientClass.wardStayDurationStd))
+		) {
+			wardStayDuration = Math.max(
+				60, // Minimum 1 hour
+				Math.round(
+					sampleClassDuration(patientClass, "wardStay", random.wardLos)
+				)
+			);
+
+			// Apply time-of-day variability if configured
+			if (patientClass.timeOfDayVariability) {
+				wardStayDuration = applyTimeOfDayVariability(
+					wardStayDuration,
+					patientClass.timeOfDayVariability,
+					currentTime
+				);
+			}
+		}
+		return wardStayDuration;
+	};
+
+	// Moves a patient into a free bed of a destination unit and schedules
+	// the discharge
+	const admitToWard = (
+		patient: SurgeryCase,
+		wardBed: ResourceState,
+		unitState: UnitState
+	) => {
+		const previousBed = patient.wardBedId
+			? wardBeds[patient.wardBedId]
+			: undefined;
+		updateResourceUsage(wardBed, false, currentTime); // Mark Ward bed busy
+		wardBed.assignedPatientId = patient.id;
+		patient.wardBedId = wardBed.id;
+		patient.wardArrivalTime = currentTime;
+		setPatientState(patient, "in_ward");
+		if (currentTime >= warmupEndTime) unitState.admissions++;
+		// A patient moving on from another unit frees its bed there
+		if (previousBed?.assignedPatientId === patient.id)
+			releaseWardBed(previousBed);
+
+		const wardStayDuration = sampleWardStay(
+			getPatientClass(patient),
+			unitState,
+			stageOf(patient)?.durationDistribution
+		);
+		patient.wardPlannedDuration = wardStayDuration;
+
+		// Schedule ward discharge
+		const dischargeTime = applyDischargeHours(
+			unitState,
+			currentTime + wardStayDuration
+		);
+		wardBed.busyUntil = dischargeTime;
+
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} transferred to Ward Bed ${wardBed.id} (${
+				unitState.unit.name
+			}). Delay: ${(patient.wardTransferDelay || 0).toFixed(
+				2
+			)} mins. Planned stay: ${wardStayDuration / 60} hours.`
+		);
+
+		// Schedule discharge event
+		addEvent(dischargeTime, "WARD_DISCHARGE", {
+			patientId: patient.id,
+			resourceId: wardBed.id,
+		});
+	};
+
+	const handleDischargeCriteriaMet: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !patientClass) return;
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} met discharge criteria.`
+		);
+		patient.readyForWardTime = currentTime;
+
+		const stage = stageOf(patient);
+		if (!stage || stage.kind === "home") {
+			setPatientState(patient, "discharged");
+			patient.dischargeTime = currentTime;
+			recordCompletedSurgery(patient);
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} discharged home.`
+			);
+		} else {
+			const unitState = getStageUnit(patient, stage);
+			const availableWardBed = canAdmitToWard(unitState)
+				? unitState.beds.find((bed) => !bed.isBusy)
+				: undefined;
+			if (availableWardBed) {
+				patient.wardTransferDelay = 0;
+				recordWardTransferDelay(0, unitState);
+				admitToWard(patient, availableWardBed, unitState);
+			} else {
+				unitState.waitingQueue.enqueue(patient.id, queueRank("ward", patient));
+				setPatientState(patient, "waiting_ward");
+				log(
+					`Time ${currentTime.toFixed(2)}: Patient ${
+						patient.id
+					} waiting for Ward Bed (${unitState.unit.name}). Queue size: ${
+						unitState.waitingQueue.length
+					}. PACU BLOCKING.`
+				);
+			}
+		}
+	};
+
+	const handleWardBedAvailable: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		const wardBedId = currentEvent.resourceId;
+		const wardBed = wardBedId ? wardBeds[wardBedId] : undefined;
+		if (!wardBed) return;
+		// Taken by a patient coming straight from PACU at the same moment
+		if (wardBed.isBusy) return;
+		log(
+			`Time ${currentTime.toFixed(2)}: Ward Bed ${wardBedId} available.`
+		);
+		updateResourceUsage(wardBed, true, currentTime); // Mark Ward bed free, update cost
+		wardBed.busyUntil = 0;
+
+		const unitState = unitStates[wardBed.unitId || ""];
+		if (!unitState.waitingQueue.isEmpty() && canAdmitToWard(unitState)) {
+			const nextPatientId = unitState.waitingQueue.dequeue();
+			if (nextPatientId) {
+				const nextPatient = getPatient(nextPatientId);
+				if (
+					nextPatient &&
+					nextPatient.currentState === "waiting_ward" &&
+					nextPatient.readyForWardTime !== undefined
+				) {
+					nextPatient.wardTransferDelay =
+						currentTime - nextPatient.readyForWardTime;
+					recordWardTransferDelay(nextPatient.wardTransferDelay, unitState);
+					admitToWard(nextPatient, wardBed, unitState);
+				} else if (nextPatient) {
+					console.warn(
+						`Patient ${nextPatientId} from Ward queue was not in waiting_ward state (${nextPatient.currentState}). Re-queueing WARD_BED_AVAILABLE.`
+					);
+					addEvent(currentTime, "WARD_BED_AVAILABLE", {
+						resourceId: wardBedId,
+					});
+				}
+			}
+		}
+	};
+
+	const handleEmergencyArrival: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		log(
+			`Time ${currentTime.toFixed(
+				2
+			)}: Processing potential emergency arrival.`
+		);
+		const emergencyClassId = weightedRandomSelection(
+			params.emergencyParams?.patientClassDistribution ||
+				params.patientClassDistribution,
+			random.arrivals
+		);
+		if (!emergencyClassId) return;
+		const emergencyClass = params.patientClasses.find(
+			(pc) => pc.id === emergencyClassId
+		);
+		if (!emergencyClass) return;
+		const emergencyPatientId = `E-${++emergencyCounter}`;
+		const emergencyDuration = Math.max(
+			15,
+			Math.round(
+				sampleClassDuration(emergencyClass, "surgery", random.durations)
+			)
+		);
+		// Urgency categories rank emergencies ahead of one another, most
+		// urgent first, and all of them ahead of electives
+		const urgency = urgencyCategories.length ? selectUrgencyCategory() : null;
+		const emergencyPriority = urgency
+			? urgencyCategories.indexOf(urgency) - urgencyCategories.length
+			: 0;
+		patients[emergencyPatientId] = {
+			id: emergencyPatientId,
+			caseType: "emergency",
+			classId: emergencyClassId,
+			scheduledStartTime: currentTime,
+			actualArrivalTime: currentTime,
+			duration: emergencyDuration,
+			orRoom: "",
+			priority: emergencyPriority,
+			urgencyCategoryId: urgency?.id,
+			urgencyDeadline: urgency
+				? currentTime + urgency.targetMinutes
+				: undefined,
+			currentState: "scheduled",
+			wardTransferDelay: 0,
+			orWaitingTime: 0,
+		};
+		log(
+			`Time ${currentTime.toFixed(
+				2
+			)}: Generated Emergency Case ${emergencyPatientId} (Class ${emergencyClassId}).`
+		);
+		addEvent(currentTime, "PATIENT_ARRIVAL", {
+			patientId: emergencyPatientId,
+		});
+		if (currentTime >= warmupEndTime)
+			emergencyArrivalsByHour[Math.floor(getTimeOfDay(currentTime) / 60)]++;
+		if (params.emergencyParams?.enabled && maxEmergencyRate > 0) {
+			const nextArrivalTime = nextEmergencyArrival(currentTime);
+			addEvent(nextArrivalTime, "EMERGENCY_ARRIVAL");
+			log(
+				`Time ${currentTime.toFixed(
+					2
+				)}: Next emergency arrival scheduled at ${nextArrivalTime.toFixed(
+					2
+				)}.`
+			);
+		}
+	};
+
+	const handleNurseShiftStart: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!currentEvent.shiftId || !currentEvent.resourceId) return;
+		log(
+			`Time ${currentTime.toFixed(2)}: Nurse shift ${
+				currentEvent.shiftId
+			} starting.`
+		);
+
+		// Mark nurses as on shift
+		const nurseIds = currentEvent.resourceId.split(",");
+		nurseIds.forEach((nurseId) => {
+			if (nurses[nurseId]) {
+				const nurse = nurses[nurseId];
+				nurse.isOnShift = true;
+				nurse.isOnBreak = false;
+				nurse.breakDueUntil = undefined;
+				nurse.shiftStartTime = currentTime;
+
+				// Find shift duration
+				const shift = params.staffParams?.nurseShifts.find(
+					(s) => s.id === currentEvent.shiftId
+				);
+				if (shift) {
+					nurse.shiftEndTime =
+						currentTime +
+						(shift.handoverOverlapMinutes || 0) +
+						shift.durationMinutes;
+				}
+
+				log(
+					`Time ${currentTime.toFixed(2)}: Nurse ${nurseId} started shift ${
+						currentEvent.shiftId
+					}.`
+				);
+			}
+		});
+
+		shiftCrewsOnDuty[currentEvent.shiftId] = nurseIds
+			.map((nurseId) => nurses[nurseId])
+			.filter((nurse) => !!nurse);
+		// The new crew takes over patients of nurses kept past their shift
+		// and serves patients waiting for nurses
+		shiftCrewsOnDuty[currentEvent.shiftId].forEach(offerFreeNurse);
+	};
+
+	const handleNurseShiftEnd: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!currentEvent.shiftId || !currentEvent.resourceId) return;
+		log(
+			`Time ${currentTime.toFixed(2)}: Nurse shift ${
+				currentEvent.shiftId
+			} ending.`
+		);
+
+		// Mark nurses as off shift
+		const endingNurseIds = currentEvent.resourceId.split(",");
+		endingNurseIds.forEach((nurseId) => {
+			if (nurses[nurseId]) {
+				const nurse = nurses[nurseId];
+				nurse.isOnShift = false;
+				nurse.isOnBreak = false;
+				if (nurse.breakDueUntil !== undefined) {
+					nurse.breakDueUntil = undefined;
+					if (currentTime >= warmupEndTime) nurseBreaksMissed++;
+				}
+
+				// If nurse is busy, they will continue working (overtime)
+				if (nurse.isBusy) {
+					log(
+						`Time ${currentTime.toFixed(
+							2
+						)}: Nurse ${nurseId} shift ended but continuing to work (overtime).`
+					);
+				} else {
+					log(
+						`Time ${currentTime.toFixed(2)}: Nurse ${nurseId} ended shift ${
+							currentEvent.shiftId
+						}.`
+					);
+				}
+			}
+		});
+		delete shiftCrewsOnDuty[currentEvent.shiftId];
+
+		// Nurses still on duty take over the patients of the leaving crew as
+		// far as they have room
+		for (const nurse of nurseList)
+			if (nurse.isOnShift && !nurse.isOnBreak) takeOverHandoff(nurse);
+	};
+
+	// The break window of a shift opens: each nurse of the crew owes a break
+	// until the window closes
+	const handleNurseBreakDue: EventHandler = (currentEvent) => {
+		const shift = currentEvent.shiftId
+			? nurseShifts[currentEvent.shiftId]
+			: undefined;
+		if (!shift?.breakRule || !currentEvent.resourceId) return;
+		const windowEnd =
+			currentTime +
+			shift.breakRule.windowEndMinute -
+			shift.breakRule.windowStartMinute;
+		currentEvent.resourceId.split(",").forEach((nurseId) => {
+			const nurse = nurses[nurseId];
+			if (!nurse?.isOnShift) return;
+			nurse.breakDueUntil = windowEnd;
+			tryStartBreak(nurse);
+		});
+	};
+
+	// A nurse back from a break lets colleagues waiting for cover go, then
+	// takes work again
+	const handleNurseBreakEnd: EventHandler = (currentEvent) => {
+		const nurse = currentEvent.resourceId
+			? nurses[currentEvent.resourceId]
+			: undefined;
+		if (!nurse?.isOnBreak) return;
+		nurse.isOnBreak = false;
+		log(`Time ${currentTime.toFixed(2)}: Nurse ${nurse.id} back from break.`);
+		for (const colleague of nurseList)
+			if (colleague !== nurse) tryStartBreak(colleague);
+		offerFreeNurse(nurse);
+	};
+
+	const handleSurgeryCancellation: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || patient.currentState === "cancelled") return;
+		cancelSurgery(
+			patient,
+			currentEvent.cancellationReason as SurgeryCase["cancellationReason"]
+		);
+	};
+
+	// Offers free beds to waiting patients when admission hours open or
+	// calendar beds reopen
+	const handleWardCapacityChange: EventHandler = () => {
+		for (const unitState of unitStateList) {
+			if (!isWardAdmissionOpen(unitState, currentTime)) continue;
+			let admissions = Math.min(
+				unitState.waitingQueue.length,
+				wardCapacityAt(unitState, currentTime) - countBusy(unitState.beds)
+			);
+			for (const bed of unitState.beds) {
+				if (admissions <= 0) break;
+				if (bed.isBusy) continue;
+				addEvent(currentTime, "WARD_BED_AVAILABLE", { resourceId: bed.id });
+				admissions--;
+			}
+		}
+	};
+
+	// Cancels the day's electives that have not started yet when PACU phase 1
+	// is saturated at the cutoff time
+	const handleCancellationCutoff: EventHandler = () => {
+		const phase1Beds = pacu1BedList.length;
+		const phase1Demand = countBusy(pacu1BedList) + pacu1WaitingQueue.length;
+		const threshold = cancellationRules.pacuSaturationThreshold ?? 1;
+		if (phase1Beds === 0 || phase1Demand < threshold * phase1Beds) return;
+		log(
+			`Time ${currentTime.toFixed(2)}: PACU Phase 1 saturated ` +
+				`(${phase1Demand}/${phase1Beds}), cancelling the day's electives.`
+		);
+		const dayEnd = (Math.floor(currentTime / 1440) + 1) * 1440;
+		Object.values(patients).forEach((patient) => {
+			if (
+				patient.caseType === "elective" &&
+				patient.scheduledStartTime < dayEnd &&
+				(patient.currentState === "scheduled" ||
+					patient.currentState === "arrived" ||
+					patient.currentState === "waiting_or")
+			)
+				cancelSurgery(patient, "pacu_saturated");
+		});
+	};
+
+	// Books a cancelled elective into the first session on a later day that
+	// takes its class and still has room for it
+	const handleSurgeryReschedule: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !cancellationRules) return;
+		const rescheduleCount = patient.rescheduleCount || 0;
+		const earliestStart = (Math.floor(currentTime / 1440) + 1) * 1440;
+		let session: ORSession | null = null;
+		if (rescheduleCount < (cancellationRules.maxReschedules ?? 2)) {
+			for (const orId in sessionsByRoom) {
+				for (const candidate of sessionsByRoom[orId]) {
+					if (
+						candidate.start < earliestStart ||
+						(candidate.allowedClasses &&
+							!candidate.allowedClasses.includes(patient.classId)) ||
+						candidate.bookedUntil + patient.duration + turnoverTime >
+							candidate.end
+					)
+						continue;
+					// Sessions are in time order, so the room's first fit is its best
+					if (!session || candidate.bookedUntil < session.bookedUntil)
+						session = candidate;
+					break;
+				}
+			}
+		}
+		if (!session) {
+			if (currentTime >= warmupEndTime) unplacedRescheduleCount++;
+			log(
+				`Time ${currentTime.toFixed(2)}: No session found to reschedule ${
+					patient.id
+				}.`
+			);
+			return;
+		}
+
+		const startTime = session.bookedUntil;
+		session.bookedUntil += patient.duration + turnoverTime;
+		const originalId = patient.id.replace(/-R\d+$/, "");
+		const newId = `${originalId}-R${rescheduleCount + 1}`;
+		patients[newId] = {
+			id: newId,
+			classId: patient.classId,
+			caseType: "elective",
+			scheduledStartTime: startTime,
+			orRoom: session.orId,
+			plannedOrRoom: session.orId,
+			actualArrivalTime: startTime - 30,
+			duration: patient.duration,
+			priority: patient.priority,
+			currentState: "scheduled",
+			wardTransferDelay: 0,
+			orWaitingTime: 0,
+			rescheduledFromId: patient.id,
+			rescheduleCount: rescheduleCount + 1,
+			surgeonId: patient.surgeonId,
+			anaesthesiaTeamId: patient.anaesthesiaTeamId,
+			...riskAttributesOf(patient),
+		};
+		patient.rescheduledToId = newId;
+		addEvent(startTime - 30, "PATIENT_ARRIVAL", { patientId: newId });
+		if (currentTime >= warmupEndTime)
+			rescheduleLeadTimes.push(startTime - currentTime);
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} rescheduled as ${newId} in ${session.orId} at ${startTime}.`
+		);
+	};
+
+	const handleWardDischarge: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		if (!patient || !patient.wardBedId) return;
+		// Clamped, as rounding can leave an on-time discharge just below 0
+		if (
+			patient.wardPlannedDuration !== undefined &&
+			currentTime >= warmupEndTime
+		)
+			dischargeHourWaits.push(
+				Math.max(
+					0,
+					currentTime -
+						(patient.wardArrivalTime ?? 0) -
+						patient.wardPlannedDuration
+				)
+			);
+
+		// A patient moving on to another unit keeps the bed until admitted
+		// there; the unit of the next stage is routed afresh
+		const nextStage = patientClass
+			? advancePathway(patient, patientClass)
+			: undefined;
+		if (nextStage && nextStage.kind !== "home") {
+			log(
+				`Time ${currentTime.toFixed(2)}: Patient ${
+					patient.id
+				} ready to leave ward bed ${patient.wardBedId} for the next stage.`
+			);
+			patient.destinationUnitId = undefined;
+			addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
+				patientId: patient.id,
+			});
+			return;
+		}
+
+		log(
+			`Time ${currentTime.toFixed(2)}: Patient ${
+				patient.id
+			} discharged from ward bed ${patient.wardBedId}.`
+		);
+		patient.dischargeTime = currentTime;
+		setPatientState(patient, "discharged");
+		recordCompletedSurgery(patient);
+
+		const wardBed = wardBeds[patient.wardBedId];
+		if (wardBed) releaseWardBed(wardBed);
+	};
+
+	const handleSimulationEndCheck: EventHandler = (
+		currentEvent,
+		patient,
+		patientClass
+	) => {
+		log(`Time ${currentTime.toFixed(2)}: Simulation end check.`);
+		updateStats(currentTime);
+		// Ensure any ongoing resource usage is accounted for up to simulation end time
+		Object.values(orResources).forEach((r) => {
+			if (r.isBusy && !r.isCleaning) updateResourceUsage(r, true, currentTime);
+		});
+		if (onCallOR?.isBusy) updateResourceUsage(onCallOR, true, currentTime);
+		Object.values(pacu1Beds).forEach((r) => {
+			if (r.isBusy && !r.isCleaning) updateResourceUsage(r, true, currentTime);
+		});
+		Object.values(pacu2Beds).forEach((r) => {
+			if (r.isBusy && !r.isCleaning) updateResourceUsage(r, true, currentTime);
+		});
+		Object.values(wardBeds).forEach((r) => {
+			if (r.isBusy && !r.isCleaning) updateResourceUsage(r, true, currentTime);
+		});
+		// Cleanings still in progress or waiting for a cleaner
+		Object.values(activeCleaningJobs).forEach((job) =>
+			recordCleaningTime(job, currentTime)
+		);
+		cleaningQueue.forEach((job) => recordCleaningTime(job, currentTime));
+		Object.values(nurses).forEach((r) => {
+			if (r.isBusy) updateResourceUsage(r, true, currentTime);
+		});
+	};
+
+	// --- Snapshots ---
+	let processedEvents = 0;
+	const resourceSnapshot = (
+		resource: ResourceState,
+		pool: SnapshotResourcePool
+	): ResourceSnapshot => ({
+		id: resource.id,
+		pool,
+		isBusy: resource.isBusy,
+		isCleaning: !!resource.isCleaning,
+		patientIds: resource.nursePatientLoads
+			? Object.keys(resource.nursePatientLoads)
+			: resource.assignedPatientId
+			? [resource.assignedPatientId]
+			: [],
+		busyUntil: resource.isBusy ? resource.busyUntil : undefined,
+		unitId: resource.unitId,
+		isOnShift: pool === "nurse" ? resource.isOnShift : undefined,
+	});
+	const snapshot = (): SimulationSnapshot => ({
+		time: currentTime,
+		nextEventTime: eventQueue.peek()?.time,
+		processedEvents,
+		resources: [
+			...Object.values(orResources).map((or) => resourceSnapshot(or, "or")),
+			...(onCallOR ? [resourceSnapshot(onCallOR, "or")] : []),
+			...(sharedHolding
+				? []
+				: Object.values(holdingBays).map((bay) =>
+						resourceSnapshot(bay, "holding")
+				  )),
+			...pacu1BedList.map((bed) => resourceSnapshot(bed, "pacu1")),
+			...pacu2BedList.map((bed) => resourceSnapshot(bed, "pacu2")),
+			...wardBedList.map((bed) => resourceSnapshot(bed, "ward")),
+			...nurseList.map((nurse) => resourceSnapshot(nurse, "nurse")),
+			...staffStateList.map(({ staff, patientId }) => ({
+				id: staff.id,
+				pool: "staff" as const,
+				isBusy: !!patientId,
+				isCleaning: false,
+				patientIds: patientId ? [patientId] : [],
+			})),
+		],
+		queues: {
+			holding: [...holdingQueue],
+			or: [
+				...orWaitingQueue.toArray(),
+				...plannedRoomQueue,
+				...staffWaitingQueue,
+			],
+			pacu1: pacu1WaitingQueue.toArray(),
+			pacu2: pacu2WaitingQueue.toArray(),
+			nurse: nurseWaitingQueue.toArray().map((entry) => entry.patientId),
+			ward: Object.fromEntries(
+				unitStateList.map((unitState) => [
+					unitState.unit.id,
+					unitState.waitingQueue.toArray(),
+				])
+			),
+			cleaning: cleaningQueue.map((job) => job.resource.id),
+		},
+		patients: Object.values(patients).map((patient) => ({
+			id: patient.id,
+			classId: patient.classId,
+			caseType: patient.caseType,
+			state: patient.currentState,
+			pathwayStageId: patient.pathwayStageId,
+		})),
+	});
+	const pausedRun: PausedRun = {
+		nextEventTime: () => eventQueue.peek()?.time,
+		snapshot,
+	};
+
+	// --- Main Simulation Loop ---
+	let reportedProgress = 0;
+	while (!eventQueue.isEmpty()) {
+		yield pausedRun;
+		const currentEvent = eventQueue.dequeue();
+		if (!currentEvent) break;
+		processedEvents++;
+
+		if (currentEvent.time > currentTime) {
+			updateStats(currentEvent.time);
+			currentTime = currentEvent.time;
+			// Report simulated time in whole percent, only when it changes
+			if (onProgress) {
+				const progress = Math.min(
+					100,
+					Math.floor((currentTime / simulationEndTime) * 100)
+				);
+				if (progress > reportedProgress) {
+					reportedProgress = progress;
+					onProgress(progress);
+				}
+			}
+		}
+		if (
+			currentTime >= simulationEndTime &&
+			currentEvent.type !== "SIMULATION_END_CHECK"
+		)
+			continue;
+
+		const patient = currentEvent.patientId
+			? getPatient(currentEvent.patientId)
+			: null;
+		const patientClass = patient ? getPatientClass(patient) : null;
+		currentTraceEvent = currentEvent;
+		tracedTransitions = 0;
 
+		switch (currentEvent.type) {
+			case "PATIENT_ARRIVAL":
+				handlePatientArrival(currentEvent, patient, patientClass);
+				break;
 			case "OR_AVAILABLE":
-				const orId = currentEvent.resourceId;
-				if (!orId || !orResources[orId]) break;
-				console.log(`Time ${currentTime.toFixed(2)}: OR ${orId} available.`);
-				updateResourceUsage(orResources[orId], true, currentTime); // Mark OR free, update cost
-				orResources[orId].busyUntil = 0;
-
-				if (!orWaitingQueue.isEmpty()) {
-					const nextPatientId = orWaitingQueue.dequeue();
-					if (nextPatientId) {
-						const nextPatient = getPatient(nextPatientId);
-						if (nextPatient && nextPatient.currentState === "waiting_or") {
-							updateResourceUsage(orResources[orId], false, currentTime); // Mark OR busy
-							orResources[orId].assignedPatientId = nextPatient.id;
-							nextPatient.orRoom = orId;
-							nextPatient.orStartTime = currentTime;
-							nextPatient.orWaitingTime = Math.max(
-								0,
-								currentTime - nextPatient.actualArrivalTime
-							);
-							orWaitingTimes.push(nextPatient.orWaitingTime);
-							nextPatient.currentState = "in_or";
-
-							// Apply time-of-day variability to surgery duration if configured
-							const nextPatientClass = getPatientClass(nextPatient);
-							let surgeryDuration = nextPatient.duration;
-							if (nextPatientClass?.timeOfDayVariability) {
-								surgeryDuration = applyTimeOfDayVariability(
-									surgeryDuration,
-									nextPatientClass.timeOfDayVariability,
-									currentTime
-								);
-							}
-
-							const surgeryEndTime = currentTime + surgeryDuration;
-							orResources[orId].busyUntil = surgeryEndTime;
-							addEvent(surgeryEndTime, "SURGERY_END", {
-								patientId: nextPatient.id,
-								resourceId: orId,
-							});
-							console.log(
-								`Time ${currentTime.toFixed(2)}: Patient ${
-									nextPatient.id
-								} (from queue) started surgery in ${orId}. Ends at ${surgeryEndTime.toFixed(
-									2
-								)}.`
-							);
-						} else if (nextPatient) {
-							console.warn(
-								`Patient ${nextPatientId} from OR queue was not in waiting_or state (${nextPatient.currentState}). Re-queueing OR_AVAILABLE.`
-							);
-							addEvent(currentTime, "OR_AVAILABLE", { resourceId: orId });
-						}
-					}
-				}
+				handleORAvailable(currentEvent, patient, patientClass);
 				break;
-
 			case "SURGERY_END":
-				if (!patient || !patientClass) break;
-				const endedOrId = currentEvent.resourceId;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${
-						patient.id
-					} finished surgery in ${endedOrId || patient.orRoom}.`
-				);
-				patient.orEndTime = currentTime;
-				// OR release is now handled by OR_AVAILABLE event triggered below
-				if (endedOrId && orResources[endedOrId])
-					addEvent(currentTime, "OR_AVAILABLE", { resourceId: endedOrId });
-				else if (patient.orRoom && orResources[patient.orRoom])
-					addEvent(currentTime, "OR_AVAILABLE", { resourceId: patient.orRoom });
-
-				if (patientClass.processType === "directTransfer") {
-					patient.currentState = "discharged";
-					patient.dischargeTime = currentTime;
-					completedSurgeries.push(patient);
-					console.log(
-						`Time ${currentTime.toFixed(2)}: Patient ${
-							patient.id
-						} (Direct Transfer) discharged/transferred.`
-					);
-				} else {
-					const availableP1Bed = findAvailableResource(pacu1Beds);
-					if (availableP1Bed && tryAssignNurse(patient.id, "pacu1")) {
-						updateResourceUsage(availableP1Bed, false, currentTime); // Mark P1 bed busy
-						availableP1Bed.assignedPatientId = patient.id;
-						patient.pacuPhase1BedId = availableP1Bed.id;
-						patient.pacuPhase1StartTime = currentTime;
-						patient.currentState = "in_pacu1";
-						const p1Duration = Math.max(
-							10,
-							Math.round(
-								normalRandom(
-									patientClass.pacuPhase1DurationMean,
-									patientClass.pacuPhase1DurationStd
-								)
-							)
-						);
-						const p1EndTime = currentTime + p1Duration;
-						availableP1Bed.busyUntil = p1EndTime;
-						if (patient.assignedNurseId && nurses[patient.assignedNurseId])
-							nurses[patient.assignedNurseId].busyUntil = p1EndTime;
-						addEvent(p1EndTime, "PACU1_END", {
-							patientId: patient.id,
-							resourceId: availableP1Bed.id,
-						});
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} entered PACU Phase 1 in ${
-								availableP1Bed.id
-							}. Ends at ${p1EndTime.toFixed(2)}.`
-						);
-					} else {
-						patient.currentState = "waiting_pacu1";
-						pacu1WaitingQueue.enqueue(patient.id, patient.priority);
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} waiting for PACU Phase 1 bed/nurse. BedQ: ${
-								pacu1WaitingQueue.length
-							}, NurseQ: ${nurseWaitingQueue.length}`
-						);
-					}
-				}
+				handleSurgeryEnd(currentEvent, patient, patientClass);
 				break;
-
 			case "PACU1_END":
-				if (!patient || !patientClass || !patient.pacuPhase1BedId) break;
-				const p1BedId = currentEvent.resourceId;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${
-						patient.id
-					} finished PACU Phase 1 in ${p1BedId || patient.pacuPhase1BedId}.`
-				);
-				patient.pacuPhase1EndTime = currentTime;
-				releaseNurse(patient.assignedNurseId);
-				patient.assignedNurseId = undefined;
-
-				if (p1BedId && pacu1Beds[p1BedId]) {
-					updateResourceUsage(pacu1Beds[p1BedId], true, currentTime); // Mark P1 bed free, update cost
-					pacu1Beds[p1BedId].busyUntil = 0;
-
-					if (!pacu1WaitingQueue.isEmpty()) {
-						const nextPatientId = pacu1WaitingQueue.dequeue();
-						if (nextPatientId) {
-							const nextPatient = getPatient(nextPatientId);
-							if (nextPatient && nextPatient.currentState === "waiting_pacu1") {
-								if (tryAssignNurse(nextPatient.id, "pacu1")) {
-									updateResourceUsage(pacu1Beds[p1BedId], false, currentTime); // Mark P1 bed busy
-									pacu1Beds[p1BedId].assignedPatientId = nextPatient.id;
-									nextPatient.pacuPhase1BedId = p1BedId;
-									nextPatient.pacuPhase1StartTime = currentTime;
-									nextPatient.currentState = "in_pacu1";
-									const pc = getPatientClass(nextPatient);
-									const p1Duration = pc
-										? Math.max(
-												10,
-												Math.round(
-													normalRandom(
-														pc.pacuPhase1DurationMean,
-														pc.pacuPhase1DurationStd
-													)
-												)
-										  )
-										: 60;
-									const p1EndTime = currentTime + p1Duration;
-									pacu1Beds[p1BedId].busyUntil = p1EndTime;
-									if (
-										nextPatient.assignedNurseId &&
-										nurses[nextPatient.assignedNurseId]
-									)
-										nurses[nextPatient.assignedNurseId].busyUntil = p1EndTime;
-									addEvent(p1EndTime, "PACU1_END", {
-										patientId: nextPatient.id,
-										resourceId: p1BedId,
-									});
-									console.log(
-										`Time ${currentTime.toFixed(2)}: Patient ${
-											nextPatient.id
-										} (from queue) entered PACU Phase 1 in ${p1BedId}. Ends at ${p1EndTime.toFixed(
-											2
-										)}.`
-									);
-								} else {
-									pacu1WaitingQueue.enqueue(
-										nextPatient.id,
-										nextPatient.priority
-									);
-								}
-							} else if (nextPatient) {
-								console.warn(
-									`Patient ${nextPatientId} from PACU1 queue was not in waiting_pacu1 state (${nextPatient.currentState}).`
-								);
-							}
-						}
-					}
-				}
-
-				if (patientClass.pacuPhase2DurationMean > 0) {
-					const availableP2Bed = findAvailableResource(pacu2Beds);
-					if (availableP2Bed && tryAssignNurse(patient.id, "pacu2")) {
-						updateResourceUsage(availableP2Bed, false, currentTime); // Mark P2 bed busy
-						availableP2Bed.assignedPatientId = patient.id;
-						patient.pacuPhase2BedId = availableP2Bed.id;
-						patient.pacuPhase2StartTime = currentTime;
-						patient.currentState = "in_pacu2";
-						const p2Duration = Math.max(
-							10,
-							Math.round(
-								normalRandom(
-									patientClass.pacuPhase2DurationMean,
-									patientClass.pacuPhase2DurationStd
-								)
-							)
-						);
-						const p2EndTime = currentTime + p2Duration;
-						availableP2Bed.busyUntil = p2EndTime;
-						if (patient.assignedNurseId && nurses[patient.assignedNurseId])
-							nurses[patient.assignedNurseId].busyUntil = p2EndTime;
-						addEvent(p2EndTime, "PACU2_END", {
-							patientId: patient.id,
-							resourceId: availableP2Bed.id,
-						});
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} entered PACU Phase 2 in ${
-								availableP2Bed.id
-							}. Ends at ${p2EndTime.toFixed(2)}.`
-						);
-					} else {
-						patient.currentState = "waiting_pacu2";
-						pacu2WaitingQueue.enqueue(patient.id, patient.priority);
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} waiting for PACU Phase 2 bed/nurse. BedQ: ${
-								pacu2WaitingQueue.length
-							}, NurseQ: ${nurseWaitingQueue.length}`
-						);
-					}
-				} else {
-					addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
-						patientId: patient.id,
-					});
-				}
+				handlePacu1End(currentEvent, patient, patientClass);
 				break;
-
 			case "PACU2_END":
-				if (!patient || !patientClass || !patient.pacuPhase2BedId) break;
-				const p2BedId = currentEvent.resourceId;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${
-						patient.id
-					} finished PACU Phase 2 in ${p2BedId || patient.pacuPhase2BedId}.`
-				);
-				patient.pacuPhase2EndTime = currentTime;
-				releaseNurse(patient.assignedNurseId);
-				patient.assignedNurseId = undefined;
-
-				if (p2BedId && pacu2Beds[p2BedId]) {
-					updateResourceUsage(pacu2Beds[p2BedId], true, currentTime); // Mark P2 bed free, update cost
-					pacu2Beds[p2BedId].busyUntil = 0;
-
-					if (!pacu2WaitingQueue.isEmpty()) {
-						const nextPatientId = pacu2WaitingQueue.dequeue();
-						if (nextPatientId) {
-							const nextPatient = getPatient(nextPatientId);
-							if (nextPatient && nextPatient.currentState === "waiting_pacu2") {
-								if (tryAssignNurse(nextPatient.id, "pacu2")) {
-									updateResourceUsage(pacu2Beds[p2BedId], false, currentTime); // Mark P2 bed busy
-									pacu2Beds[p2BedId].assignedPatientId = nextPatient.id;
-									nextPatient.pacuPhase2BedId = p2BedId;
-									nextPatient.pacuPhase2StartTime = currentTime;
-									nextPatient.currentState = "in_pacu2";
-									const pc = getPatientClass(nextPatient);
-									const p2Duration = pc
-										? Math.max(
-												10,
-												Math.round(
-													normalRandom(
-														pc.pacuPhase2DurationMean,
-														pc.pacuPhase2DurationStd
-													)
-												)
-										  )
-										: 60;
-									const p2EndTime = currentTime + p2Duration;
-									pacu2Beds[p2BedId].busyUntil = p2EndTime;
-									if (
-										nextPatient.assignedNurseId &&
-										nurses[nextPatient.assignedNurseId]
-									)
-										nurses[nextPatient.assignedNurseId].busyUntil = p2EndTime;
-									addEvent(p2EndTime, "PACU2_END", {
-										patientId: nextPatient.id,
-										resourceId: p2BedId,
-									});
-									console.log(
-										`Time ${currentTime.toFixed(2)}: Patient ${
-											nextPatient.id
-										} (from queue) entered PACU Phase 2 in ${p2BedId}. Ends at ${p2EndTime.toFixed(
-											2
-										)}.`
-									);
-								} else {
-									pacu2WaitingQueue.enqueue(
-										nextPatient.id,
-										nextPatient.priority
-									);
-								}
-							} else if (nextPatient) {
-								console.warn(
-									`Patient ${nextPatientId} from PACU2 queue was not in waiting_pacu2 state (${nextPatient.currentState}).`
-								);
-							}
-						}
-					}
-				}
-				addEvent(currentTime, "DISCHARGE_CRITERIA_MET", {
-					patientId: patient.id,
-				});
+				handlePacu2End(currentEvent, patient, patientClass);
 				break;
-
 			case "DISCHARGE_CRITERIA_MET":
-				if (!patient || !patientClass) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${
-						patient.id
-					} met discharge criteria.`
-				);
-				patient.readyForWardTime = currentTime;
-
-				if (patientClass.processType === "outpatient") {
-					patient.currentState = "discharged";
-					patient.dischargeTime = currentTime;
-					completedSurgeries.push(patient);
-					console.log(
-						`Time ${currentTime.toFixed(2)}: Patient ${
-							patient.id
-						} (Outpatient) discharged home.`
-					);
-				} else {
-					const availableWardBed = findAvailableResource(wardBeds);
-					if (availableWardBed) {
-						updateResourceUsage(availableWardBed, false, currentTime); // Mark Ward bed busy
-						availableWardBed.assignedPatientId = patient.id;
-						patient.wardBedId = availableWardBed.id;
-						patient.wardArrivalTime = currentTime;
-						patient.currentState = "in_ward";
-						patient.wardTransferDelay = 0;
-						wardTransferDelays.push(0);
-
-						// Calculate realistic ward stay duration based on patient class
-						let wardStayDuration = 60; // Default 1 hour
-
-						if (
-							patientClass.wardStayDurationMean &&
-							patientClass.wardStayDurationStd
-						) {
-							wardStayDuration = Math.max(
-								60, // Minimum 1 hour
-								Math.round(
-									normalRandom(
-										patientClass.wardStayDurationMean,
-										patientClass.wardStayDurationStd
-									)
-								)
-							);
-
-							// Apply time-of-day variability if configured
-							if (patientClass.timeOfDayVariability) {
-								wardStayDuration = applyTimeOfDayVariability(
-									wardStayDuration,
-									patientClass.timeOfDayVariability,
-									currentTime
-								);
-							}
-						}
-
-						patient.wardPlannedDuration = wardStayDuration;
-
-						// Schedule ward discharge
-						const dischargeTime = currentTime + wardStayDuration;
-						availableWardBed.busyUntil = dischargeTime;
-
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} transferred to Ward Bed ${availableWardBed.id}. Planned stay: ${
-								wardStayDuration / 60
-							} hours.`
-						);
-
-						// Schedule discharge event
-						addEvent(dischargeTime, "WARD_DISCHARGE", {
-							patientId: patient.id,
-							resourceId: availableWardBed.id,
-						});
-					} else {
-						patient.currentState = "waiting_ward";
-						wardWaitingQueue.enqueue(patient.id, patient.priority);
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Patient ${
-								patient.id
-							} waiting for Ward Bed. Queue size: ${
-								wardWaitingQueue.length
-							}. PACU BLOCKING.`
-						);
-					}
-				}
+				handleDischargeCriteriaMet(currentEvent, patient, patientClass);
 				break;
-
 			case "WARD_BED_AVAILABLE":
-				const wardBedId = currentEvent.resourceId;
-				if (!wardBedId || !wardBeds[wardBedId]) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Ward Bed ${wardBedId} available.`
-				);
-				updateResourceUsage(wardBeds[wardBedId], true, currentTime); // Mark Ward bed free, update cost
-				wardBeds[wardBedId].busyUntil = 0;
-
-				if (!wardWaitingQueue.isEmpty()) {
-					const nextPatientId = wardWaitingQueue.dequeue();
-					if (nextPatientId) {
-						const nextPatient = getPatient(nextPatientId);
-						if (
-							nextPatient &&
-							nextPatient.currentState === "waiting_ward" &&
-							nextPatient.readyForWardTime !== undefined
-						) {
-							updateResourceUsage(wardBeds[wardBedId], false, currentTime); // Mark Ward bed busy
-							wardBeds[wardBedId].assignedPatientId = nextPatient.id;
-							nextPatient.wardBedId = wardBedId;
-							nextPatient.wardArrivalTime = currentTime;
-							nextPatient.currentState = "in_ward";
-							nextPatient.wardTransferDelay =
-								currentTime - nextPatient.readyForWardTime;
-							wardTransferDelays.push(nextPatient.wardTransferDelay);
-
-							// Get patient class for ward stay duration
-							const nextPatientClass = getPatientClass(nextPatient);
-
-							// Calculate realistic ward stay duration based on patient class
-							let wardStayDuration = 60; // Default 1 hour
-
-							if (
-								nextPatientClass &&
-								nextPatientClass.wardStayDurationMean &&
-								nextPatientClass.wardStayDurationStd
-							) {
-								wardStayDuration = Math.max(
-									60, // Minimum 1 hour
-									Math.round(
-										normalRandom(
-											nextPatientClass.wardStayDurationMean,
-											nextPatientClass.wardStayDurationStd
-										)
-									)
-								);
-
-								// Apply time-of-day variability if configured
-								if (nextPatientClass.timeOfDayVariability) {
-									wardStayDuration = applyTimeOfDayVariability(
-										wardStayDuration,
-										nextPatientClass.timeOfDayVariability,
-										currentTime
-									);
-								}
-							}
-
-							nextPatient.wardPlannedDuration = wardStayDuration;
-
-							// Schedule ward discharge
-							const dischargeTime = currentTime + wardStayDuration;
-							wardBeds[wardBedId].busyUntil = dischargeTime;
-
-							console.log(
-								`Time ${currentTime.toFixed(2)}: Patient ${
-									nextPatient.id
-								} (from queue) transferred to Ward Bed ${wardBedId}. Delay: ${nextPatient.wardTransferDelay.toFixed(
-									2
-								)} mins. Planned stay: ${wardStayDuration / 60} hours.`
-							);
-
-							// Schedule discharge event
-							addEvent(dischargeTime, "WARD_DISCHARGE", {
-								patientId: nextPatient.id,
-								resourceId: wardBedId,
-							});
-						} else if (nextPatient) {
-							console.warn(
-								`Patient ${nextPatientId} from Ward queue was not in waiting_ward state (${nextPatient.currentState}). Re-queueing WARD_BED_AVAILABLE.`
-							);
-							addEvent(currentTime, "WARD_BED_AVAILABLE", {
-								resourceId: wardBedId,
-							});
-						}
-					}
-				}
+				handleWardBedAvailable(currentEvent, patient, patientClass);
 				break;
-
 			case "EMERGENCY_ARRIVAL":
-				console.log(
-					`Time ${currentTime.toFixed(
-						2
-					)}: Processing potential emergency arrival.`
-				);
-				const emergencyClassId = weightedRandomSelection(
-					params.emergencyParams?.patientClassDistribution ||
-						params.patientClassDistribution
-				);
-				if (!emergencyClassId) break;
-				const emergencyClass = params.patientClasses.find(
-					(pc) => pc.id === emergencyClassId
-				);
-				if (!emergencyClass) break;
-				const emergencyPatientId = `E-${++emergencyCounter}`;
-				const emergencyDuration = Math.max(
-					15,
-					Math.round(
-						normalRandom(
-							emergencyClass.surgeryDurationMean,
-							emergencyClass.surgeryDurationStd
-						)
-					)
-				);
-				const emergencyPriority = 0;
-				patients[emergencyPatientId] = {
-					id: emergencyPatientId,
-					caseType: "emergency",
-					classId: emergencyClassId,
-					scheduledStartTime: currentTime,
-					actualArrivalTime: currentTime,
-					duration: emergencyDuration,
-					orRoom: "",
-					priority: emergencyPriority,
-					currentState: "scheduled",
-					wardTransferDelay: 0,
-					orWaitingTime: 0,
-				};
-				console.log(
-					`Time ${currentTime.toFixed(
-						2
-					)}: Generated Emergency Case ${emergencyPatientId} (Class ${emergencyClassId}).`
-				);
-				addEvent(currentTime, "PATIENT_ARRIVAL", {
-					patientId: emergencyPatientId,
-				});
-				if (
-					params.emergencyParams?.enabled &&
-					params.emergencyParams?.arrivalRateMeanPerDay &&
-					params.emergencyParams?.arrivalRateMeanPerDay > 0
-				) {
-					const meanArrivalsPerMinute =
-						params.emergencyParams.arrivalRateMeanPerDay / (24 * 60);
-					const timeToNextArrival = exponentialRandom(meanArrivalsPerMinute);
-					addEvent(currentTime + timeToNextArrival, "EMERGENCY_ARRIVAL");
-					console.log(
-						`Time ${currentTime.toFixed(
-							2
-						)}: Next emergency arrival scheduled at ${(
-							currentTime + timeToNextArrival
-						).toFixed(2)}.`
-					);
-				}
+				handleEmergencyArrival(currentEvent, patient, patientClass);
 				break;
-
 			case "NURSE_SHIFT_START":
-				if (!currentEvent.shiftId || !currentEvent.resourceId) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Nurse shift ${
-						currentEvent.shiftId
-					} starting.`
-				);
-
-				// Mark nurses as on shift
-				const nurseIds = currentEvent.resourceId.split(",");
-				nurseIds.forEach((nurseId) => {
-					if (nurses[nurseId]) {
-						const nurse = nurses[nurseId];
-						nurse.isOnShift = true;
-						nurse.shiftStartTime = currentTime;
-
-						// Find shift duration
-						const shift = params.staffParams?.nurseShifts.find(
-							(s) => s.id === currentEvent.shiftId
-						);
-						if (shift) {
-							nurse.shiftEndTime = currentTime + shift.durationMinutes;
-						}
-
-						console.log(
-							`Time ${currentTime.toFixed(2)}: Nurse ${nurseId} started shift ${
-								currentEvent.shiftId
-							}.`
-						);
-					}
-				});
-
-				// Check if any patients are waiting for nurses
-				if (!nurseWaitingQueue.isEmpty()) {
-					// Try to assign nurses to waiting patients
-					const waitingPatientInfo = nurseWaitingQueue.dequeue();
-					if (waitingPatientInfo) {
-						addEvent(
-							currentTime,
-							waitingPatientInfo.phase === "pacu1"
-								? "SURGERY_END"
-								: "PACU1_END",
-							{
-								patientId: waitingPatientInfo.patientId,
-							}
-						);
-					}
-				}
+				handleNurseShiftStart(currentEvent, patient, patientClass);
 				break;
-
 			case "NURSE_SHIFT_END":
-				if (!currentEvent.shiftId || !currentEvent.resourceId) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Nurse shift ${
-						currentEvent.shiftId
-					} ending.`
-				);
-
-				// Mark nurses as off shift
-				const endingNurseIds = currentEvent.resourceId.split(",");
-				endingNurseIds.forEach((nurseId) => {
-					if (nurses[nurseId]) {
-						const nurse = nurses[nurseId];
-						nurse.isOnShift = false;
-
-						// If nurse is busy, they will continue working (overtime)
-						if (nurse.isBusy) {
-							console.log(
-								`Time ${currentTime.toFixed(
-									2
-								)}: Nurse ${nurseId} shift ended but continuing to work (overtime).`
-							);
-						} else {
-							console.log(
-								`Time ${currentTime.toFixed(2)}: Nurse ${nurseId} ended shift ${
-									currentEvent.shiftId
-								}.`
-							);
-						}
-					}
-				});
+				handleNurseShiftEnd(currentEvent, patient, patientClass);
 				break;
-
 			case "SURGERY_CANCELLATION":
-				if (!patient) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Surgery for patient ${
-						patient.id
-					} cancelled. Reason: ${currentEvent.cancellationReason || "unknown"}.`
-				);
-
-				patient.currentState = "cancelled";
-				patient.cancellationTime = currentTime;
-				patient.cancellationReason = currentEvent.cancellationReason as any;
-				cancelledSurgeries.push(patient);
-
-				// Add cancellation cost
-				totalCancellationCost += params.costParams?.costPerCancellation || 0;
+				handleSurgeryCancellation(currentEvent, patient, patientClass);
+				break;
+			case "CANCELLATION_CUTOFF":
+				handleCancellationCutoff(currentEvent, patient, patientClass);
+				break;
+			case "SURGERY_RESCHEDULE":
+				handleSurgeryReschedule(currentEvent, patient, patientClass);
+				break;
+			case "WARD_CAPACITY_CHANGE":
+				handleWardCapacityChange(currentEvent, patient, patientClass);
 				break;
-
 			case "WARD_DISCHARGE":
-				if (!patient || !patient.wardBedId) break;
-				console.log(
-					`Time ${currentTime.toFixed(2)}: Patient ${
-						patient.id
-					} discharged from ward bed ${patient.wardBedId}.`
-				);
-
-				patient.dischargeTime = currentTime;
-				patient.currentState = "discharged";
-
-				// Release ward bed
-				if (wardBeds[patient.wardBedId]) {
-					updateResourceUsage(wardBeds[patient.wardBedId], true, currentTime);
-					wardBeds[patient.wardBedId].busyUntil = 0;
-
-					// Check if any patients are waiting for ward beds
-					if (!wardWaitingQueue.isEmpty()) {
-						addEvent(currentTime, "WARD_BED_AVAILABLE", {
-							resourceId: patient.wardBedId,
-						});
-					}
-				}
+				handleWardDischarge(currentEvent, patient, patientClass);
+				break;
+			case "STAFF_AVAILABLE":
+				handleStaffAvailable(currentEvent, patient, patientClass);
+				break;
+			case "CLEANING_END":
+				handleCleaningEnd(currentEvent, patient, patientClass);
+				break;
+			case "NURSE_BREAK_DUE":
+				handleNurseBreakDue(currentEvent, patient, patientClass);
+				break;
+			case "NURSE_BREAK_END":
+				handleNurseBreakEnd(currentEvent, patient, patientClass);
+				break;
+			case "PREP_END":
+				handlePrepEnd(currentEvent, patient, patientClass);
+				break;
+			case "OR_ASSIGNMENT_CHECK":
+				handleORAssignmentCheck(currentEvent, patient, patientClass);
 				break;
-
 			case "SIMULATION_END_CHECK":
-				console.log(`Time ${currentTime.toFixed(2)}: Simulation end check.`);
-				updateStats(currentTime);
-				// Ensure any ongoing resource usage is accounted for up to simulation end time
-				Object.values(orResources).forEach((r) => {
-					if (r.isBusy) updateResourceUsage(r, true, currentTime);
-				});
-				Object.values(pacu1Beds).forEach((r) => {
-					if (r.isBusy) updateResourceUsage(r, true, currentTime);
-				});
-				Object.values(pacu2Beds).forEach((r) => {
-					if (r.isBusy) updateResourceUsage(r, true, currentTime);
-				});
-				Object.values(wardBeds).forEach((r) => {
-					if (r.isBusy) updateResourceUsage(r, true, currentTime);
-				});
-				Object.values(nurses).forEach((r) => {
-					if (r.isBusy) updateResourceUsage(r, true, currentTime);
-				});
+				handleSimulationEndCheck(currentEvent, patient, patientClass);
 				break;
 		}
+
+		// Events that moved no patient still get a row in the trace
+		if (trace && tracedTransitions === 0)
+			recordTrace({
+				patientId: patient?.id,
+				patientClassId: patient?.classId,
+				resourceId: currentEvent.resourceId,
+			});
 	} // End of simulation loop
 
 	// --- Post-Simulation Analysis ---
-	console.log("Simulation loop finished. Calculating results...");
+	log("Simulation loop finished. Calculating results...");
 	if (lastStatsUpdateTime < simulationEndTime) updateStats(simulationEndTime);
 
+	// Drop the warm-up from the occupancy series, keeping the level that was in
+	// effect when statistics collection started
+	const trimWarmup = <T extends { time: number }>(data: T[]): T[] => {
+		if (warmupEndTime <= 0) return data;
+		const carried = data.filter((d) => d.time <= warmupEndTime).pop();
+		const afterWarmup = data.filter((d) => d.time > warmupEndTime);
+		return carried
+			? [{ ...carried, time: warmupEndTime }, ...afterWarmup]
+			: afterWarmup;
+	};
+	occupancyData.pacu1 = trimWarmup(occupancyData.pacu1);
+	occupancyData.pacu2 = trimWarmup(occupancyData.pacu2);
+	occupancyData.ward = trimWarmup(occupancyData.ward);
+	unitStateList.forEach(
+		(unitState) => (unitState.occupancy = trimWarmup(unitState.occupancy))
+	);
+	occupancyData.nurse = trimWarmup(occupancyData.nurse);
+	const trimmedBacklogData = trimWarmup(rescheduleBacklogData);
+
 	const calculatePercentile = (data: number[], percentile: number): number => {
 		if (data.length === 0) return 0;
 		data.sort((a, b) => a - b);
@@ -1975,6 +5258,166 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			  wardTransferDelays.length
 			: 0;
 	const p95WardTransferDelay = calculatePercentile(wardTransferDelays, 0.95);
+	const meanDischargeHourWait =
+		dischargeHourWaits.length > 0
+			? dischargeHourWaits.reduce((s, t) => s + t, 0) /
+			  dischargeHourWaits.length
+			: 0;
+
+	// Waits per class and queue, for waits that began after warm-up. A wait
+	// without an end runs to the end of the horizon if still going on.
+	const waitsByClass: Record<string, Record<WaitingQueueId, number[]>> = {};
+	const waitFrom = (
+		start: number | undefined,
+		end: number | undefined,
+		stillWaiting: boolean
+	): number | undefined => {
+		if (start === undefined) return undefined;
+		if (end !== undefined) return Math.max(0, end - start);
+		return stillWaiting ? simulationEndTime - start : undefined;
+	};
+	const recordClassWait = (
+		patient: SurgeryCase,
+		queueId: WaitingQueueId,
+		start: number | undefined,
+		wait: number | undefined
+	) => {
+		if (start === undefined || start < warmupEndTime || wait === undefined)
+			return;
+		if (!waitsByClass[patient.classId])
+			waitsByClass[patient.classId] = {
+				or: [],
+				pacu1: [],
+				pacu2: [],
+				ward: [],
+				nurse: [],
+			};
+		waitsByClass[patient.classId][queueId].push(wait);
+	};
+	Object.values(patients).forEach((patient) => {
+		if (patient.initialCensus) return;
+		const state = patient.currentState;
+		const { orEndTime, pacuPhase1EndTime, readyForWardTime } = patient;
+		recordClassWait(
+			patient,
+			"or",
+			patient.actualArrivalTime,
+			waitFrom(
+				patient.actualArrivalTime,
+				patient.orStartTime,
+				state === "waiting_or"
+			)
+		);
+		recordClassWait(
+			patient,
+			"pacu1",
+			orEndTime,
+			waitFrom(
+				orEndTime,
+				patient.pacuPhase1StartTime,
+				state === "waiting_pacu1"
+			)
+		);
+		recordClassWait(
+			patient,
+			"pacu2",
+			pacuPhase1EndTime,
+			waitFrom(
+				pacuPhase1EndTime,
+				patient.pacuPhase2StartTime,
+				state === "waiting_pacu2"
+			)
+		);
+		recordClassWait(
+			patient,
+			"ward",
+			readyForWardTime,
+			waitFrom(
+				readyForWardTime,
+				patient.wardArrivalTime,
+				state === "waiting_ward"
+			)
+		);
+		// Nurse waits of both phases, for patients who needed a nurse
+		if (
+			patient.pacuPhase1StartTime !== undefined ||
+			patient.nurseWaitStartTime !== undefined
+		)
+			recordClassWait(
+				patient,
+				"nurse",
+				orEndTime,
+				(patient.nurseWaitMinutes || 0) +
+					(waitFrom(patient.nurseWaitStartTime, undefined, true) || 0)
+			);
+	});
+	const waitingTimeByClass: SimulationResults["waitingTimeByClass"] = {};
+	Object.entries(waitsByClass).forEach(([classId, queueWaits]) => {
+		waitingTimeByClass[classId] = {} as Record<
+			WaitingQueueId,
+			WaitingTimeStats
+		>;
+		(Object.keys(queueWaits) as WaitingQueueId[]).forEach((queueId) => {
+			const waits = queueWaits[queueId];
+			waitingTimeByClass[classId][queueId] = {
+				count: waits.length,
+				mean:
+					waits.length > 0
+						? waits.reduce((s, t) => s + t, 0) / waits.length
+						: 0,
+				p95: calculatePercentile(waits, 0.95),
+				max: waits.reduce((m, t) => Math.max(m, t), 0),
+			};
+		});
+	});
+	const electiveStarts = electiveStartDelays.length;
+	const meanStartDelay =
+		electiveStarts > 0
+			? electiveStartDelays.reduce((s, t) => s + t, 0) / electiveStarts
+			: 0;
+	const lateStartTolerance =
+		params.roomFidelity?.lateStartToleranceMinutes ?? 15;
+	const lateStartRatio =
+		electiveStarts > 0
+			? electiveStartDelays.filter((d) => d > lateStartTolerance).length /
+			  electiveStarts
+			: 0;
+	const roomSwapRatio = electiveStarts > 0 ? roomSwapCount / electiveStarts : 0;
+	const cancellationsByReason: Record<string, number> = {};
+	cancelledSurgeries.forEach((surgery) => {
+		const reason = surgery.cancellationReason || "unknown";
+		cancellationsByReason[reason] = (cancellationsByReason[reason] || 0) + 1;
+	});
+	// Emergencies still waiting at the end have missed targets that passed
+	for (const patientId of waitingForOR) {
+		const patient = patients[patientId];
+		const stats = patient.urgencyCategoryId
+			? urgencyStats[patient.urgencyCategoryId]
+			: undefined;
+		if (
+			stats &&
+			patient.actualArrivalTime >= warmupEndTime &&
+			(patient.urgencyDeadline ?? Infinity) < simulationEndTime
+		) {
+			stats.cases++;
+			stats.totalTimeToOR += simulationEndTime - patient.actualArrivalTime;
+		}
+	}
+	const emergencyCountByUrgency: Record<string, number> = {};
+	const urgencyTargetMetRatio: Record<string, number> = {};
+	const meanTimeToORByUrgency: Record<string, number> = {};
+	Object.entries(urgencyStats).forEach(([categoryId, stats]) => {
+		emergencyCountByUrgency[categoryId] = stats.cases;
+		urgencyTargetMetRatio[categoryId] =
+			stats.cases > 0 ? stats.met / stats.cases : 0;
+		meanTimeToORByUrgency[categoryId] =
+			stats.cases > 0 ? stats.totalTimeToOR / stats.cases : 0;
+	});
+	const rescheduledCount = rescheduleLeadTimes.length;
+	const meanRescheduleLeadTime =
+		rescheduledCount > 0
+			? rescheduleLeadTimes.reduce((s, t) => s + t, 0) / rescheduledCount
+			: 0;
 	const pacuTimes = completedSurgeries
 		.map(
 			(p) =>
@@ -1986,15 +5429,34 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		pacuTimes.length > 0
 			? pacuTimes.reduce((s, t) => s + t, 0) / pacuTimes.length
 			: 0;
+	const pacuPhase2BypassCount = completedSurgeries.filter(
+		(p) => p.pacuPhase2Bypassed
+	).length;
+	// Patients still held when the horizon ends count as blocked up to the end
+	heldInOR.forEach((patientId) => {
+		const patient = patients[patientId];
+		orBlockedMinutes[patient.orRoom] += Math.max(
+			0,
+			simulationEndTime -
+				Math.max(patient.orEndTime ?? simulationEndTime, warmupEndTime)
+		);
+	});
+	const totalORBlockedMinutes = Object.values(orBlockedMinutes).reduce(
+		(sum, minutes) => sum + minutes,
+		0
+	);
 	const pacuBlockedTimeRatio =
-		simulationEndTime > 0 ? totalPacuBlockedTime / simulationEndTime : 0;
+		statsDuration > 0 && params.numberOfORs > 0
+			? totalORBlockedMinutes / (statsDuration * params.numberOfORs)
+			: 0;
 
 	const calculateTimeSeriesStats = (
 		data: Array<{ time: number; count?: number; busyCount?: number }>,
 		totalResource: number,
 		simTime: number
 	) => {
-		if (data.length <= 1 || totalResource <= 0 || simTime <= 0)
+		const observedTime = data.length > 0 ? simTime - data[0].time : 0;
+		if (totalResource <= 0 || observedTime <= 0)
 			return { mean: 0, peak: 0, totalBusyTime: 0 };
 		let totalWeightedCount = 0;
 		let peakCount = 0;
@@ -2009,7 +5471,7 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			data[data.length - 1].count ?? data[data.length - 1].busyCount ?? 0;
 		if (lastDuration > 0) totalWeightedCount += lastCount * lastDuration;
 		peakCount = Math.max(peakCount, lastCount);
-		const meanCount = totalWeightedCount / simTime;
+		const meanCount = totalWeightedCount / observedTime;
 		return {
 			mean: meanCount / totalResource,
 			peak: peakCount / totalResource,
@@ -2029,9 +5491,70 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 	);
 	const wardStats = calculateTimeSeriesStats(
 		occupancyData.ward,
-		params.wardParams?.totalBeds || params.beds || 10,
+		wardBedList.length,
+		simulationEndTime
+	);
+	const holdingStats = calculateTimeSeriesStats(
+		occupancyData.holding,
+		Object.keys(holdingBays).length || 1,
 		simulationEndTime
 	);
+	// Emergency PACU bed-minutes split into hour-of-day bins
+	const observedDays = statsDuration / 1440;
+	const emergencyPacuMinutesByHour: number[] = new Array(24).fill(0);
+	const addToHourBins = (bins: number[], from: number, to: number) => {
+		let time = Math.max(from, warmupEndTime);
+		const end = Math.min(to, simulationEndTime);
+		while (time < end) {
+			const binEnd = Math.min(end, (Math.floor(time / 60) + 1) * 60);
+			bins[Math.floor(getTimeOfDay(time) / 60)] += binEnd - time;
+			time = binEnd;
+		}
+	};
+	Object.values(patients).forEach((patient) => {
+		if (patient.caseType !== "emergency") return;
+		if (patient.pacuPhase1StartTime !== undefined)
+			addToHourBins(
+				emergencyPacuMinutesByHour,
+				patient.pacuPhase1StartTime,
+				patient.pacuPhase1EndTime ?? simulationEndTime
+			);
+		if (patient.pacuPhase2StartTime !== undefined)
+			addToHourBins(
+				emergencyPacuMinutesByHour,
+				patient.pacuPhase2StartTime,
+				patient.pacuPhase2EndTime ?? simulationEndTime
+			);
+	});
+	const perObservedDay = (values: number[], scale = 1) =>
+		values.map((value) =>
+			observedDays > 0 ? value / observedDays / scale : 0
+		);
+
+	const unitResults: Record<string, DestinationUnitResults> = {};
+	unitStateList.forEach((unitState) => {
+		const { unit, transferDelays } = unitState;
+		const unitStats = calculateTimeSeriesStats(
+			unitState.occupancy,
+			unitState.beds.length,
+			simulationEndTime
+		);
+		unitResults[unit.id] = {
+			name: unit.name,
+			type: unit.type,
+			beds: unitState.beds.length,
+			admissions: unitState.admissions,
+			meanOccupancy: unitStats.mean,
+			peakOccupancy: unitStats.peak,
+			meanTransferDelay:
+				transferDelays.length > 0
+					? transferDelays.reduce((s, t) => s + t, 0) / transferDelays.length
+					: 0,
+			p95TransferDelay: calculatePercentile(transferDelays, 0.95),
+			cost: unitState.cost,
+			occupancyData: unitState.occupancy,
+		};
+	});
 	const nurseStats = calculateTimeSeriesStats(
 		occupancyData.nurse,
 		params.staffParams?.totalNurses || params.nurses || 5,
@@ -2043,20 +5566,176 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 	let totalORBusyTime = 0;
 	Object.values(orResources).forEach((or) => {
 		orUtilization[or.id] =
-			simulationEndTime > 0 ? or.totalBusyTime / simulationEndTime : 0;
+			statsDuration > 0 ? or.totalBusyTime / statsDuration : 0;
 		totalORBusyTime += or.totalBusyTime;
 	});
 
+	// --- Weekly and Weekday Aggregates ---
+	// Daily totals first; time-based values are spread over the days they
+	// fall on, counts go to the day surgery started
+	const dayCount = Math.ceil(simulationEndTime / 1440);
+	const dailyTotals = Array.from({ length: dayCount }, () => ({
+		electiveCount: 0,
+		emergencyCount: 0,
+		cancelledCount: 0,
+		orMinutes: 0,
+		orWaitingMinutes: 0,
+		pacu1BedMinutes: 0,
+		wardBedMinutes: 0,
+	}));
+	type DailyTotals = (typeof dailyTotals)[number];
+	const dayIndexOf = (time: number) =>
+		Math.min(dayCount - 1, Math.floor(time / 1440));
+	const addToDays = (
+		key: keyof DailyTotals,
+		from: number,
+		to: number,
+		weight = 1
+	) => {
+		let time = Math.max(from, warmupEndTime);
+		const end = Math.min(to, simulationEndTime);
+		while (time < end) {
+			const dayEnd = Math.min(end, (Math.floor(time / 1440) + 1) * 1440);
+			dailyTotals[dayIndexOf(time)][key] += (dayEnd - time) * weight;
+			time = dayEnd;
+		}
+	};
+	const addSeriesToDays = (
+		key: keyof DailyTotals,
+		data: Array<{ time: number; count: number }>
+	) =>
+		data.forEach((point, i) =>
+			addToDays(
+				key,
+				point.time,
+				data[i + 1]?.time ?? simulationEndTime,
+				point.count
+			)
+		);
+	Object.values(patients).forEach((patient) => {
+		if (patient.initialCensus || patient.orStartTime === undefined) return;
+		addToDays(
+			"orMinutes",
+			patient.orStartTime,
+			patient.orEndTime ?? simulationEndTime
+		);
+	});
+	completedSurgeries.forEach((patient) => {
+		if (patient.orStartTime === undefined) return;
+		const totals = dailyTotals[dayIndexOf(patient.orStartTime)];
+		if (patient.caseType === "emergency") totals.emergencyCount++;
+		else totals.electiveCount++;
+		totals.orWaitingMinutes += patient.orWaitingTime || 0;
+	});
+	cancelledSurgeries.forEach((patient) => {
+		const time = patient.cancellationTime ?? patient.scheduledStartTime;
+		dailyTotals[dayIndexOf(time)].cancelledCount++;
+	});
+	addSeriesToDays("pacu1BedMinutes", occupancyData.pacu1);
+	addSeriesToDays("wardBedMinutes", occupancyData.ward);
+
+	const observedDayList = Array.from(
+		{ length: dayCount },
+		(_, day) => day
+	).filter((day) => day * 1440 >= warmupEndTime);
+	const periodResults = (days: number[]): PeriodResults => {
+		const sum = (key: keyof DailyTotals) =>
+			days.reduce((total, day) => total + dailyTotals[day][key], 0);
+		const minutes = days.length * 1440;
+		const electiveCount = sum("electiveCount");
+		const emergencyCount = sum("emergencyCount");
+		const caseCount = electiveCount + emergencyCount;
+		const share = (busyMinutes: number, resources: number) =>
+			minutes > 0 && resources > 0 ? busyMinutes / (minutes * resources) : 0;
+		return {
+			firstDay: days.length > 0 ? days[0] : 0,
+			days: days.length,
+			electiveCount,
+			emergencyCount,
+			cancelledCount: sum("cancelledCount"),
+			orUtilization: share(sum("orMinutes"), orList.length),
+			meanORWaitingTime:
+				caseCount > 0 ? sum("orWaitingMinutes") / caseCount : 0,
+			meanPacuPhase1BedOccupancy: share(
+				sum("pacu1BedMinutes"),
+				params.pacuParams?.phase1Beds || 1
+			),
+			meanWardBedOccupancy: share(
+				sum("wardBedMinutes"),
+				wardBedList.length
+			),
+		};
+	};
+	const groupDays = (keyOf: (day: number) => number, groups: number) => {
+		const grouped: number[][] = Array.from({ length: groups }, () => []);
+		observedDayList.forEach((day) => grouped[keyOf(day)].push(day));
+		return grouped;
+	};
+	const weekOf = (day: number) => Math.floor((calendar.weekday(0) + day) / 7);
+	const weeklyResults = groupDays(weekOf, weekOf(dayCount - 1) + 1)
+		.filter((days) => days.length > 0)
+		.map(periodResults);
+	const weekdayResults = groupDays(calendar.weekday, 7).map(periodResults);
+
+	// Staff utilisation over on-duty time; work past the end of the working
+	// hours counts as busy time, so overruns can push it above 1
+	const staffUtilization: Record<string, number> = {};
+	staffStateList.forEach((staffState) => {
+		const { staff } = staffState;
+		let busyMinutes = staffState.busyMinutes;
+		if (staffState.patientId)
+			busyMinutes += staffBusyMinutesUntil(staffState, simulationEndTime);
+		let dutyMinutes = 0;
+		for (let day = 0; day * 1440 < simulationEndTime; day++) {
+			if (!staff.workingDays.includes(calendar.staffingWeekday(day))) continue;
+			const start = Math.max(day * 1440 + staff.startMinute, warmupEndTime);
+			const end = Math.min(day * 1440 + staff.endMinute, simulationEndTime);
+			dutyMinutes += Math.max(0, end - start);
+		}
+		staffUtilization[staff.id] =
+			dutyMinutes > 0 ? busyMinutes / dutyMinutes : 0;
+	});
+
+	// Turnover and cleaning shares of OR time and of each pool's bed time
+	const orTurnoverRatio: Record<string, number> = {};
+	orList.forEach((or) => {
+		orTurnoverRatio[or.id] =
+			statsDuration > 0 ? (orTurnoverMinutes[or.id] || 0) / statsDuration : 0;
+	});
+	const cleaningPoolSizes: Record<CleaningResource, number> = {
+		or: orList.length,
+		pacu: pacu1BedList.length + pacu2BedList.length,
+		ward: wardBedList.length,
+	};
+	const cleaningTimeRatio = {} as Record<CleaningResource, number>;
+	(Object.keys(cleaningMinutes) as CleaningResource[]).forEach((kind) => {
+		const capacity = cleaningPoolSizes[kind] * statsDuration;
+		cleaningTimeRatio[kind] =
+			capacity > 0 ? cleaningMinutes[kind] / capacity : 0;
+	});
+	const meanCleaningWait =
+		cleaningWaits.length > 0
+			? cleaningWaits.reduce((s, t) => s + t, 0) / cleaningWaits.length
+			: 0;
+	const cleaningCrewUtilization =
+		cleaningCrewSize > 0 && statsDuration > 0
+			? cleanerBusyMinutes / (cleaningCrewSize * statsDuration)
+			: 0;
+
 	// Final cost calculation
 	totalCancellationCost =
 		cancelledSurgeries.length * (params.costParams?.costPerCancellation || 0);
+	const totalRescheduleCost =
+		rescheduledCount * (params.costParams?.costPerReschedule || 0);
 	const totalCost =
 		totalORCost +
 		totalPACU1Cost +
 		totalPACU2Cost +
 		totalNurseCost +
 		totalWardCost +
-		totalCancellationCost;
+		totalCancellationCost +
+		totalRescheduleCost +
+		totalOnCallCost;
 
 	// Calculate nurse overtime and shift coverage
 	let totalOvertimeMinutes = 0;
@@ -2078,9 +5757,10 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 				}
 			}
 
-			// Add to skill-specific utilization
+			// Add to skill-specific utilization, as the share of capacity used
 			if (nurse.skillId) {
-				const busyRatio = nurse.totalBusyTime / simulationEndTime;
+				const busyRatio =
+					statsDuration > 0 ? (nurse.workloadMinutes || 0) / statsDuration : 0;
 				nurseUtilizationBySkill[nurse.skillId] =
 					((nurseUtilizationBySkill[nurse.skillId] || 0) *
 						(Object.values(nurses).filter((n) => n.skillId === nurse.skillId)
@@ -2092,33 +5772,12 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			}
 		});
 
-		// Calculate shift coverage
+		// Shift coverage: share of on-duty time with the whole crew present,
+		// so breaks without cover lower it
 		params.staffParams.nurseShifts.forEach((shift) => {
-			// For each shift, calculate what percentage of the time all required nurses were available
-			let totalShiftMinutes = 0;
-			let fullyCoveredMinutes = 0;
-
-			// For each day
-			for (let day = 0; day < params.simulationDays; day++) {
-				const dayOfWeek = day % 7;
-				const requiredNurses = shift.nursesPerDay[dayOfWeek];
-
-				if (requiredNurses > 0) {
-					const shiftDuration = shift.durationMinutes;
-					totalShiftMinutes += shiftDuration;
-
-					// Simplified calculation - assume full coverage if we have enough nurses with this shift
-					const nursesWithThisShift = Object.values(nurses).filter(
-						(n) => n.shiftId === shift.id
-					).length;
-					if (nursesWithThisShift >= requiredNurses) {
-						fullyCoveredMinutes += shiftDuration;
-					}
-				}
-			}
-
+			const coverage = shiftCoverageMinutes[shift.id];
 			shiftCoverage[shift.id] =
-				totalShiftMinutes > 0 ? fullyCoveredMinutes / totalShiftMinutes : 1.0;
+				coverage.onDuty > 0 ? coverage.fullyStaffed / coverage.onDuty : 1.0;
 		});
 	}
 
@@ -2139,7 +5798,7 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 
 	// Sample nurse shift data at regular intervals
 	if (params.staffParams?.useEnhancedNurseModel) {
-		for (let t = 0; t < simulationEndTime; t += 60) {
+		for (let t = warmupEndTime; t < simulationEndTime; t += 60) {
 			// Sample every hour
 			const onShift = Object.values(nurses).filter((n) => {
 				return (
@@ -2166,16 +5825,18 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		orUtilizationByRoom[`OR-${i}`] = new Array(timePoints).fill(0);
 	}
 
-	// Convert occupancy data to time-of-day data
+	// Convert occupancy data to time-of-day data (first day after warm-up)
 	const truncateTimePoints = (
 		data: Array<{ time: number; count: number }>,
 		maxPoints: number
 	): Array<{ time: number; count: number }> => {
-		return data.filter((d) => d.time < 1440);
+		return data.filter((d) => d.time < warmupEndTime + 1440);
 	};
 
 	const truncatedWardData = truncateTimePoints(occupancyData.ward, timePoints);
-	const truncatedNurseData = occupancyData.nurse.filter((d) => d.time < 1440);
+	const truncatedNurseData = occupancyData.nurse.filter(
+		(d) => d.time < warmupEndTime + 1440
+	);
 
 	// Add nurse utilization data based on time blocks
 	if (truncatedNurseData.length > 0) {
@@ -2183,7 +5844,7 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		for (const entry of truncatedNurseData) {
 			const timeIndex = Math.min(
 				timePoints - 1,
-				Math.floor((entry.time % 1440) / 15)
+				Math.floor((entry.time - warmupEndTime) / 15)
 			);
 			if (timeIndex >= 0) {
 				// Fill in any gaps since last recorded time
@@ -2203,13 +5864,12 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		for (const entry of truncatedWardData) {
 			const timeIndex = Math.min(
 				timePoints - 1,
-				Math.floor((entry.time % 1440) / 15)
+				Math.floor((entry.time - warmupEndTime) / 15)
 			);
 			if (timeIndex >= 0) {
 				// Fill in any gaps since last recorded time
 				for (let i = lastTimeIndex; i <= timeIndex; i++) {
-					bedOccupancy[i] =
-						entry.count / (params.wardParams?.totalBeds || params.beds || 10);
+					bedOccupancy[i] = entry.count / wardBedList.length;
 				}
 				lastTimeIndex = timeIndex + 1;
 			}
@@ -2230,10 +5890,10 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 			(patientClassCounts[surgery.classId] || 0) + 1;
 	});
 
-	console.log(
+	log(
 		`Simulation complete. Completed: ${completedSurgeries.length}, Cancelled: ${cancelledSurgeries.length}`
 	);
-	console.log(
+	log(
 		`Total Costs - OR: ${totalORCost.toFixed(2)}, P1: ${totalPACU1Cost.toFixed(
 			2
 		)}, P2: ${totalPACU2Cost.toFixed(2)}, Nurse: ${totalNurseCost.toFixed(
@@ -2247,6 +5907,8 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 
 	// Create complete results object including legacy fields for compatibility
 	return {
+		seed,
+		warmupEndTime,
 		completedSurgeries,
 		cancelledSurgeries,
 		meanORWaitingTime,
@@ -2255,7 +5917,29 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		meanWardTransferDelay,
 		p95WardTransferDelay,
 		pacuBlockedTimeRatio,
+		orBlockedMinutes,
+		blockedCaseCount,
+		pacuPhase2BypassCount,
+		meanHoldingOccupancy: holdingStats.mean,
+		peakHoldingOccupancy: holdingStats.peak,
+		holdingOccupancyData: occupancyData.holding,
+		meanHoldingBayWait:
+			holdingBayWaits.length > 0
+				? holdingBayWaits.reduce((sum, wait) => sum + wait, 0) /
+				  holdingBayWaits.length
+				: 0,
+		holdingDelayedStarts,
+		holdingStartDelayMinutes,
+		delayedStartsByBlocking,
+		startDelayByBlockingMinutes,
+		staffUtilization,
+		delayedStartsByStaff,
+		startDelayByStaffMinutes,
 		orUtilization,
+		orTurnoverRatio,
+		cleaningTimeRatio,
+		cleaningCrewUtilization,
+		meanCleaningWait,
 		meanPacuPhase1BedOccupancy: pacu1Stats.mean,
 		peakPacuPhase1BedOccupancy: pacu1Stats.peak,
 		meanPacuPhase2BedOccupancy: pacu2Stats.mean,
@@ -2269,6 +5953,9 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		nurseOvertimeByShift,
 		nurseUtilizationBySkill,
 		shiftCoverage,
+		nurseBreaksTaken,
+		nurseBreaksMissed,
+		nurseHandoffs,
 		// Occupancy data
 		pacuPhase1OccupancyData: occupancyData.pacu1,
 		pacuPhase2OccupancyData: occupancyData.pacu2,
@@ -2277,7 +5964,33 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 		nurseShiftData: nurseShiftData || [],
 		// Distributions
 		wardTransferDelayDistribution: wardTransferDelays,
+		wardTransferDelayByCause: wardDelayByCause,
+		meanDischargeHourWait,
+		unitResults,
+		emergencyArrivalsByHour: perObservedDay(emergencyArrivalsByHour),
+		emergencyPacuOccupancyByHour: perObservedDay(
+			emergencyPacuMinutesByHour,
+			60
+		),
 		orWaitingTimeDistribution: orWaitingTimes,
+		waitingTimeByClass,
+		meanStartDelay,
+		lateStartRatio,
+		roomSwapCount,
+		roomSwapRatio,
+		cancellationsByReason,
+		emergencyCountByUrgency,
+		urgencyTargetMetRatio,
+		meanTimeToORByUrgency,
+		displacedElectiveCount,
+		bumpedElectiveCount,
+		onCallActivations,
+		rescheduledCount,
+		unplacedRescheduleCount,
+		meanRescheduleLeadTime,
+		rescheduleBacklogData: trimmedBacklogData,
+		weeklyResults,
+		weekdayResults,
 		// Cost data
 		totalCost,
 		costBreakdown: {
@@ -2291,7 +6004,10 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 				((params.staffParams?.overtimeMultiplier || 1.5) - 1),
 			wardCost: totalWardCost,
 			cancellationCost: totalCancellationCost,
+			rescheduleCost: totalRescheduleCost,
+			onCallCost: totalOnCallCost,
 		},
+		trace: trace || undefined,
 		// Legacy fields for compatibility
 		surgeryList: [...completedSurgeries, ...cancelledSurgeries],
 		waitingTimes: orWaitingTimes,
@@ -2315,7 +6031,12 @@ export function runSimulation(params: SimulationParams): SimulationResults {
 // --- Helper Functions for Scheduling ---
 
 export function generateSurgeryListTemplate(
-	params: SimulationParams
+	params: SimulationParams,
+	random: RandomGenerator = createRandomStream(
+		params.seed ?? createRandomSeed(),
+		"schedule",
+		params.randomAlgorithm
+	)
 ): SurgeryCaseInput[] {
 	const {
 		simulationDays,
@@ -2339,8 +6060,11 @@ export function generateSurgeryListTemplate(
 	// Calculate average surgeries per OR per day
 	const surgeriesPerDay = Math.max(1, Math.round(avgDaily));
 	const surgeriesPerORPerDay = Math.ceil(surgeriesPerDay / numberOfORs);
+	const calendar = createSimulationCalendar(params.calendar);
 
 	for (let day = 0; day < simulationDays; day++) {
+		// No elective lists on holidays and closure days
+		if (calendar.isClosed(day)) continue;
 		// For each OR, schedule surgeries throughout the day
 		for (let orNum = 1; orNum <= numberOfORs; orNum++) {
 			const orRoom = `OR-${orNum}`;
@@ -2349,7 +6073,10 @@ export function generateSurgeryListTemplate(
 			// Schedule surgeries for this OR on this day
 			for (let i = 0; i < surgeriesPerORPerDay; i++) {
 				// Select patient class based on distribution
-				const classId = weightedRandomSelection(patientClassDistribution);
+				const classId = weightedRandomSelection(
+					patientClassDistribution,
+					random
+				);
 				if (!classId) continue;
 				const patientClass = patientClasses.find((pc) => pc.id === classId);
 				if (!patientClass) continue;
@@ -2358,28 +6085,23 @@ export function generateSurgeryListTemplate(
 				let duration = Math.max(
 					30, // Minimum surgery duration 30 minutes
 					Math.round(
-						normalRandom(
-							patientClass.surgeryDurationMean,
-							patientClass.surgeryDurationStd
-						)
+						sampleClassDuration(patientClass, "surgery", random)
 					)
 				);
 
 				// Apply overrun risk if configured
 				const overrunRiskPercent =
 					params.surgeryScheduleTemplate.overrunRiskPercent || 0;
-				if (
-					overrunRiskPercent > 0 &&
-					Math.random() * 100 < overrunRiskPercent
-				) {
+				if (overrunRiskPercent > 0 && random() * 100 < overrunRiskPercent) {
 					// Surgery goes over scheduled time by 10-50%
-					const overrunFactor = 1 + (0.1 + Math.random() * 0.4); // 1.1 to 1.5
+					const overrunFactor = 1 + (0.1 + random() * 0.4); // 1.1 to 1.5
 					duration = Math.round(duration * overrunFactor);
-					console.log(
-						`Surgery overrun: ${duration} minutes (${Math.round(
-							(overrunFactor - 1) * 100
-						)}% over scheduled time)`
-					);
+					if (params.enableLogging)
+						console.log(
+							`Surgery overrun: ${duration} minutes (${Math.round(
+								(overrunFactor - 1) * 100
+							)}% over scheduled time)`
+						);
 				}
 
 				// Check if there's enough time for this surgery before OR closing
@@ -2409,18 +6131,57 @@ export function generateSurgeryListTemplate(
 	return surgeryList;
 }
 
+// Whether two blocks can fall on the same simulation day. A block without
+// a week runs in every week of a rotation.
+export const blocksShareDay = (a: ORBlock, b: ORBlock): boolean =>
+	a.day === b.day &&
+	(a.week === undefined || b.week === undefined || a.week === b.week);
+
+// Expands a rotating template into blocks on simulation days. A block
+// without a week runs in every week of the cycle.
+export function expandBlockRotation(
+	blocks: ORBlock[],
+	rotation: BlockRotationParams,
+	simulationDays: number,
+	calendarParams?: CalendarParams
+): ORBlock[] {
+	const calendar = createSimulationCalendar(calendarParams);
+	const cycleWeeks = Math.max(1, Math.round(rotation.cycleWeeks));
+	const expanded: ORBlock[] = [];
+	for (let day = 0; day < simulationDays; day++) {
+		const weekday = calendar.weekday(day);
+		const week =
+			(Math.floor((calendar.weekday(0) + day) / 7) +
+				(rotation.startWeek || 0)) %
+			cycleWeeks;
+		blocks.forEach((block) => {
+			if (block.day !== weekday) return;
+			if (block.week !== undefined && block.week % cycleWeeks !== week)
+				return;
+			expanded.push({ ...block, id: `${block.id}-D${day}`, day, week });
+		});
+	}
+	return expanded;
+}
+
 export function scheduleCasesInBlocks(
 	blocks: ORBlock[],
 	patientClasses: PatientClass[],
 	patientDistribution: Record<string, number>,
-	simulationDays: number
+	simulationDays: number,
+	random: RandomGenerator = Math.random,
+	calendarParams?: CalendarParams,
+	enableLogging = false
 ): SurgeryCaseInput[] {
 	const surgeryList: SurgeryCaseInput[] = [];
+	const calendar = createSimulationCalendar(calendarParams);
 
 	// Define standard turnover time between surgeries (minutes)
 	const standardTurnoverTime = 15;
 
 	for (let day = 0; day < simulationDays; day++) {
+		// Blocks are not run on holidays and closure days
+		if (calendar.isClosed(day)) continue;
 		// Group blocks by OR room for this day
 		const orBlocksMap: Record<string, ORBlock[]> = {};
 
@@ -2477,7 +6238,10 @@ export function scheduleCasesInBlocks(
 
 				while (remainingTime > 30) {
 					// Select patient class based on normalized distribution
-					const classId = weightedRandomSelection(normalizedDistribution);
+					const classId = weightedRandomSelection(
+						normalizedDistribution,
+						random
+					);
 					if (!classId) break;
 
 					const patientClass = patientClasses.find((pc) => pc.id === classId);
@@ -2487,27 +6251,22 @@ export function scheduleCasesInBlocks(
 					let duration = Math.max(
 						30, // Minimum surgery duration 30 minutes
 						Math.round(
-							normalRandom(
-								patientClass.surgeryDurationMean,
-								patientClass.surgeryDurationStd
-							)
+							sampleClassDuration(patientClass, "surgery", random)
 						)
 					);
 
 					// Apply overrun risk if configured (assuming same params as in generateSurgeryListTemplate)
 					const overrunRiskPercent = 10; // Default to 10% if not specified
-					if (
-						overrunRiskPercent > 0 &&
-						Math.random() * 100 < overrunRiskPercent
-					) {
+					if (overrunRiskPercent > 0 && random() * 100 < overrunRiskPercent) {
 						// Surgery goes over scheduled time by 10-50%
-						const overrunFactor = 1 + (0.1 + Math.random() * 0.4); // 1.1 to 1.5
+						const overrunFactor = 1 + (0.1 + random() * 0.4); // 1.1 to 1.5
 						duration = Math.round(duration * overrunFactor);
-						console.log(
-							`Block surgery overrun: ${duration} minutes (${Math.round(
-								(overrunFactor - 1) * 100
-							)}% over scheduled time)`
-						);
+						if (enableLogging)
+							console.log(
+								`Block surgery overrun: ${duration} minutes (${Math.round(
+									(overrunFactor - 1) * 100
+								)}% over scheduled time)`
+							);
 					}
 
 					// Apply turnover time (except for first surgery in block)
@@ -2536,6 +6295,8 @@ export function scheduleCasesInBlocks(
 						duration,
 						orRoom: block.orId,
 						priority: patientClass.priority || 3,
+						surgeonId: block.surgeonId,
+						anaesthesiaTeamId: block.anaesthesiaTeamId,
 					});
 
 					// Update time tracking
@@ -0,0 +1,31 @@
+import {
+	WorkerRequest,
+	WorkerResponse,
+	executeSimulationJob,
+} from "./simulationJobs";
+
+// Worker entry point. The app is type-checked against the DOM library, so the
+// worker scope is described only as far as it is used here.
+const workerScope = self as unknown as {
+	postMessage(message: WorkerResponse): void;
+	onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const cancelledJobs = new Set<string>();
+
+workerScope.onmessage = (event) => {
+	const request = event.data;
+	switch (request.type) {
+		case "start":
+			executeSimulationJob(
+				request.jobId,
+				request.job,
+				(message) => workerScope.postMessage(message),
+				() => cancelledJobs.has(request.jobId)
+			).finally(() => cancelledJobs.delete(request.jobId));
+			break;
+		case "cancel":
+			cancelledJobs.add(request.jobId);
+			break;
+	}
+};
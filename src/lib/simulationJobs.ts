@@ -0,0 +1,96 @@
+import {
+	OptimizationParams,
+	OptimizationResult,
+	optimizeScheduleAsync,
+} from "./optimizer";
+import { runReplications } from "./replications";
+import {
+	SimulationParams,
+	SimulationResults,
+	SurgeryCaseInput,
+	runSimulation,
+} from "./simulation";
+
+// --- Jobs ---
+
+export type SimulationJob =
+	| { kind: "simulation"; params: SimulationParams }
+	| { kind: "replications"; params: SimulationParams }
+	| {
+			kind: "optimization";
+			initialSchedule: SurgeryCaseInput[];
+			simulationParams: SimulationParams;
+			optimizationParams: OptimizationParams;
+	  };
+
+export type SimulationJobResult<J extends SimulationJob = SimulationJob> =
+	J extends { kind: "optimization" } ? OptimizationResult : SimulationResults;
+
+// --- Message Protocol ---
+
+// Main thread -> worker
+export type WorkerRequest =
+	| { type: "start"; jobId: string; job: SimulationJob }
+	| { type: "cancel"; jobId: string };
+
+// Worker -> main thread
+export type WorkerResponse =
+	| { type: "progress"; jobId: string; progress: number }
+	// Best optimization result found so far, sent whenever it improves
+	| { type: "partialBest"; jobId: string; result: OptimizationResult }
+	| {
+			type: "done";
+			jobId: string;
+			result: SimulationJobResult;
+			cancelled: boolean;
+	  }
+	| { type: "error"; jobId: string; message: string };
+
+// --- Execution ---
+
+// Runs a job and reports through emit. Shared by the worker and by the inline
+// fallback used where workers are unavailable. Only optimization checks
+// shouldStop; plain simulation jobs are cancelled by terminating the worker.
+export async function executeSimulationJob(
+	jobId: string,
+	job: SimulationJob,
+	emit: (message: WorkerResponse) => void,
+	shouldStop: () => boolean = () => false
+): Promise<void> {
+	const onProgress = (progress: number) =>
+		emit({ type: "progress", jobId, progress });
+	try {
+		let result: SimulationJobResult;
+		switch (job.kind) {
+			case "simulation":
+				result = runSimulation(job.params, onProgress);
+				break;
+			case "replications":
+				result = runReplications(job.params, onProgress);
+				break;
+			case "optimization":
+				result = await optimizeScheduleAsync(
+					job.initialSchedule,
+					job.simulationParams,
+					job.optimizationParams,
+					{
+						onProgress,
+						onBestFound: (best) =>
+							emit({ type: "partialBest", jobId, result: best }),
+						shouldStop,
+					}
+				);
+				break;
+		}
+		const cancelled =
+			job.kind === "optimization" &&
+			(result as OptimizationResult).cancelled === true;
+		emit({ type: "done", jobId, result, cancelled });
+	} catch (error) {
+		emit({
+			type: "error",
+			jobId,
+			message: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from "uuid";
+import { OptimizationResult } from "./optimizer";
+import {
+	SimulationJob,
+	SimulationJobResult,
+	WorkerRequest,
+	WorkerResponse,
+	executeSimulationJob,
+} from "./simulationJobs";
+
+// --- Simulation Service ---
+
+export interface SimulationJobHandlers {
+	onProgress?: (progress: number) => void;
+	onPartialBest?: (result: OptimizationResult) => void;
+}
+
+export interface SimulationJobOutcome<J extends SimulationJob> {
+	// Missing when a simulation was stopped before it produced results;
+	// a stopped optimization still returns the best schedule found so far
+	result: SimulationJobResult<J> | null;
+	cancelled: boolean;
+}
+
+export interface SimulationJobHandle<J extends SimulationJob> {
+	promise: Promise<SimulationJobOutcome<J>>;
+	cancel: () => void;
+}
+
+// Runs a job in a dedicated Web Worker so the UI stays responsive. Stopping an
+// optimization asks the worker to finish with its best result; other jobs
+// have nothing partial to return, so their worker is terminated.
+export function startSimulationJob<J extends SimulationJob>(
+	job: J,
+	handlers: SimulationJobHandlers = {}
+): SimulationJobHandle<J> {
+	const jobId = uuidv4();
+	let finish: (outcome: SimulationJobOutcome<J>) => void = () => {};
+	let fail: (error: Error) => void = () => {};
+	const promise = new Promise<SimulationJobOutcome<J>>((resolve, reject) => {
+		finish = resolve;
+		fail = reject;
+	});
+
+	let settled = false;
+	let cleanup = () => {};
+	let cancelRequested = false;
+	let cancel: () => void;
+
+	const handleMessage = (message: WorkerResponse) => {
+		if (settled || message.jobId !== jobId) return;
+		switch (message.type) {
+			case "progress":
+				if (handlers.onProgress) handlers.onProgress(message.progress);
+				break;
+			case "partialBest":
+				if (handlers.onPartialBest) handlers.onPartialBest(message.result);
+				break;
+			case "done":
+				settled = true;
+				cleanup();
+				finish({
+					result: message.result as SimulationJobResult<J>,
+					cancelled: message.cancelled,
+				});
+				break;
+			case "error":
+				settled = true;
+				cleanup();
+				fail(new Error(message.message));
+				break;
+		}
+	};
+
+	if (typeof Worker === "undefined") {
+		// No worker support: run on the main thread, yielding first so the
+		// caller can render its running state
+		cancel = () => {
+			cancelRequested = true;
+		};
+		setTimeout(() => {
+			executeSimulationJob(jobId, job, handleMessage, () => cancelRequested);
+		}, 0);
+	} else {
+		const worker = new Worker(
+			new URL("./simulation.worker.ts", import.meta.url),
+			{ type: "module" }
+		);
+		const post = (request: WorkerRequest) => worker.postMessage(request);
+		cleanup = () => worker.terminate();
+		worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+			handleMessage(event.data);
+		worker.onerror = (event: ErrorEvent) => {
+			event.preventDefault();
+			if (settled) return;
+			settled = true;
+			cleanup();
+			fail(new Error(event.message || "Simulation worker failed"));
+		};
+
+		cancel = () => {
+			if (settled) return;
+			if (job.kind === "optimization") {
+				post({ type: "cancel", jobId });
+				return;
+			}
+			settled = true;
+			cleanup();
+			finish({ result: null, cancelled: true });
+		};
+		post({ type: "start", jobId, job });
+	}
+
+	return { promise, cancel };
+}
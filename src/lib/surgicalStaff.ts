@@ -0,0 +1,69 @@
+import {
+	ORBlock,
+	SurgeryCaseInput,
+	SurgicalStaff,
+	blocksShareDay,
+} from "./simulation";
+
+// --- Surgical Staff Double-Booking ---
+// Cases and OR blocks name a surgeon and an anaesthesia team by ID. Neither
+// may be planned into two rooms at the same time.
+
+export interface StaffDoubleBooking {
+	staffId: string;
+	conflictingId: string; // Case or block already holding the staff member
+}
+
+type StaffedItem = { surgeonId?: string; anaesthesiaTeamId?: string };
+
+const staffIdsOf = (item: StaffedItem): string[] =>
+	[item.surgeonId, item.anaesthesiaTeamId].filter((id): id is string => !!id);
+
+const findSharedStaff = (a: StaffedItem, b: StaffedItem): string | null => {
+	const ids = staffIdsOf(b);
+	return staffIdsOf(a).find((id) => ids.includes(id)) || null;
+};
+
+// First planned case sharing a staff member with the candidate at an
+// overlapping time. The candidate itself is skipped by ID when editing.
+export function findCaseDoubleBooking(
+	candidate: SurgeryCaseInput,
+	cases: SurgeryCaseInput[]
+): StaffDoubleBooking | null {
+	const start = candidate.scheduledStartTime;
+	const end = start + (candidate.duration || 0);
+	for (const other of cases) {
+		if (candidate.id && other.id === candidate.id) continue;
+		const otherStart = other.scheduledStartTime;
+		const otherEnd = otherStart + (other.duration || 0);
+		if (otherStart >= end || otherEnd <= start) continue;
+		const staffId = findSharedStaff(candidate, other);
+		if (staffId) return { staffId, conflictingId: other.id || "" };
+	}
+	return null;
+}
+
+// First block on the same day sharing a staff member with the candidate at
+// an overlapping time
+export function findBlockDoubleBooking(
+	candidate: ORBlock,
+	blocks: ORBlock[]
+): StaffDoubleBooking | null {
+	for (const other of blocks) {
+		if (
+			other.id === candidate.id ||
+			!blocksShareDay(other, candidate) ||
+			other.start >= candidate.end ||
+			other.end <= candidate.start
+		)
+			continue;
+		const staffId = findSharedStaff(candidate, other);
+		if (staffId) return { staffId, conflictingId: other.id };
+	}
+	return null;
+}
+
+// Display name of a staff member, falling back to the ID
+export function staffName(staff: SurgicalStaff[], staffId: string): string {
+	return staff.find((member) => member.id === staffId)?.name || staffId;
+}
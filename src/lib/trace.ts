@@ -0,0 +1,88 @@
+import Papa from "papaparse";
+import { CalendarParams, SimulationEvent, TraceEntry } from "./simulation";
+import { createSimulationCalendar } from "./calendar";
+
+// --- Filtering ---
+
+export interface TraceFilter {
+	patientId?: string; // Substring match, so "E-" selects all emergencies
+	event?: SimulationEvent["type"];
+	resourceId?: string;
+	fromTime?: number;
+	toTime?: number;
+}
+
+export function filterTrace(
+	trace: TraceEntry[],
+	filter: TraceFilter
+): TraceEntry[] {
+	return trace.filter(
+		(entry) =>
+			(!filter.patientId ||
+				(entry.patientId || "").includes(filter.patientId)) &&
+			(!filter.event || entry.event === filter.event) &&
+			(!filter.resourceId || entry.resourceId === filter.resourceId) &&
+			(filter.fromTime === undefined || entry.time >= filter.fromTime) &&
+			(filter.toTime === undefined || entry.time <= filter.toTime)
+	);
+}
+
+// --- Export ---
+
+// Flat column layout shared by the CSV export and the dashboard table
+export const TRACE_COLUMNS = [
+	"time",
+	"dateTime", // Empty without a calendar start date
+	"event",
+	"patientId",
+	"patientClassId",
+	"resourceId",
+	"fromState",
+	"toState",
+	"queueOR",
+	"queuePacu1",
+	"queuePacu2",
+	"queueWard",
+	"queueNurse",
+] as const;
+
+export type TraceRow = Record<
+	(typeof TRACE_COLUMNS)[number],
+	string | number
+>;
+
+export function traceToRows(
+	trace: TraceEntry[],
+	calendar?: CalendarParams
+): TraceRow[] {
+	const { dateTimeOf } = createSimulationCalendar(calendar);
+	return trace.map((entry) => ({
+		time: Number(entry.time.toFixed(2)),
+		dateTime: dateTimeOf(entry.time),
+		event: entry.event,
+		patientId: entry.patientId || "",
+		patientClassId: entry.patientClassId || "",
+		resourceId: entry.resourceId || "",
+		fromState: entry.fromState || "",
+		toState: entry.toState || "",
+		queueOR: entry.queues.or,
+		queuePacu1: entry.queues.pacu1,
+		queuePacu2: entry.queues.pacu2,
+		queueWard: entry.queues.ward,
+		queueNurse: entry.queues.nurse,
+	}));
+}
+
+export function traceToCsv(
+	trace: TraceEntry[],
+	calendar?: CalendarParams
+): string {
+	return Papa.unparse(traceToRows(trace, calendar), {
+		columns: [...TRACE_COLUMNS],
+	});
+}
+
+// One JSON object per line, keeping the nested queue lengths
+export function traceToJsonl(trace: TraceEntry[]): string {
+	return trace.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+}